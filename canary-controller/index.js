@@ -0,0 +1,148 @@
+'use strict';
+
+const {
+    CloudFrontClient,
+    GetContinuousDeploymentPolicyCommand,
+    UpdateContinuousDeploymentPolicyCommand,
+    GetDistributionCommand,
+    UpdateDistributionWithStagingConfigCommand,
+} = require('@aws-sdk/client-cloudfront');
+const { CloudWatchClient, DescribeAlarmsCommand } = require('@aws-sdk/client-cloudwatch');
+
+// CloudFront continuous deployment: the staging distribution serves the
+// canary (CloudFront Function copy and Lambda@Edge canary versions)
+const DISTRIBUTION_ID = process.env.DISTRIBUTION_ID;
+const STAGING_DISTRIBUTION_ID = process.env.STAGING_DISTRIBUTION_ID;
+const POLICY_ID = process.env.POLICY_ID;
+
+// Alarms that stop the ramp and roll back
+const ALARM_NAMES = (process.env.ALARM_NAMES || '').split(',').filter(Boolean);
+
+// Percent of traffic on the canary at each step, e.g. [5, 10, 15]
+const STEPS = JSON.parse(process.env.STEPS || '[5, 10, 15]');
+
+// CloudFront sends at most 15% of requests to a staging distribution
+const MAX_STAGING_WEIGHT = 15;
+
+const cloudFrontClient = new CloudFrontClient({ region: 'us-east-1' });
+const cloudWatchClient = new CloudWatchClient({});
+
+/**
+ * Point the continuous deployment policy's traffic config at `trafficConfig`
+ * (every update needs the policy's current ETag)
+ */
+async function updatePolicy(trafficConfig) {
+    const { ContinuousDeploymentPolicy, ETag } = await cloudFrontClient.send(
+        new GetContinuousDeploymentPolicyCommand({ Id: POLICY_ID })
+    );
+    await cloudFrontClient.send(new UpdateContinuousDeploymentPolicyCommand({
+        Id: POLICY_ID,
+        IfMatch: ETag,
+        ContinuousDeploymentPolicyConfig: {
+            ...ContinuousDeploymentPolicy.ContinuousDeploymentPolicyConfig,
+            TrafficConfig: trafficConfig,
+        },
+    }));
+}
+
+/**
+ * Weight-based traffic config sending `percent` of requests to staging, keeping
+ * the session stickiness of the original config if it had any
+ */
+function weightedTrafficConfig(original, percent) {
+    const stickiness = original.SingleWeightConfig && original.SingleWeightConfig.SessionStickinessConfig;
+    return {
+        Type: 'SingleWeight',
+        SingleWeightConfig: {
+            Weight: Math.min(percent, MAX_STAGING_WEIGHT) / 100,
+            ...(stickiness ? { SessionStickinessConfig: stickiness } : {}),
+        },
+    };
+}
+
+/**
+ * Record what the ramp starts from: the policy's traffic config, given back
+ * after a promotion or a header-based rollback
+ */
+async function start() {
+    const { ContinuousDeploymentPolicy } = await cloudFrontClient.send(
+        new GetContinuousDeploymentPolicyCommand({ Id: POLICY_ID })
+    );
+    const trafficConfig = ContinuousDeploymentPolicy.ContinuousDeploymentPolicyConfig.TrafficConfig;
+
+    console.log(`Ramping the staging distribution through ${STEPS.join('%, ')}%`);
+    return { steps: STEPS, stepIndex: 0, trafficConfig };
+}
+
+/**
+ * Move the canary to the next step's share of traffic
+ */
+async function applyStep(state) {
+    const percent = state.steps[state.stepIndex];
+
+    await updatePolicy(weightedTrafficConfig(state.trafficConfig, percent));
+
+    console.log(`Step ${state.stepIndex + 1}/${state.steps.length}: ${percent}% on the canary`);
+    const stepIndex = state.stepIndex + 1;
+    return { ...state, stepIndex, percent, lastStep: stepIndex >= state.steps.length };
+}
+
+/**
+ * Name of the first alarm in ALARM state, or null
+ */
+async function checkAlarms(state) {
+    if (ALARM_NAMES.length === 0) {
+        return { ...state, alarm: null };
+    }
+    const { MetricAlarms = [] } = await cloudWatchClient.send(new DescribeAlarmsCommand({ AlarmNames: ALARM_NAMES }));
+    const firing = MetricAlarms.find((alarm) => alarm.StateValue === 'ALARM');
+    if (firing) {
+        console.log(`Alarm ${firing.AlarmName} is in ALARM at ${state.percent}%`);
+    }
+    return { ...state, alarm: firing ? firing.AlarmName : null };
+}
+
+/**
+ * Copy the staging config onto the primary distribution, which moves the
+ * primary to the staging distribution's function versions, then give the
+ * policy its original traffic config back
+ */
+async function promote(state) {
+    const [primary, staging] = await Promise.all([DISTRIBUTION_ID, STAGING_DISTRIBUTION_ID].map((id) =>
+        cloudFrontClient.send(new GetDistributionCommand({ Id: id }))));
+    await cloudFrontClient.send(new UpdateDistributionWithStagingConfigCommand({
+        Id: DISTRIBUTION_ID,
+        StagingDistributionId: STAGING_DISTRIBUTION_ID,
+        IfMatch: `${primary.ETag}, ${staging.ETag}`,
+    }));
+    await updatePolicy(state.trafficConfig);
+
+    console.log('Canary promoted');
+    return { ...state, result: 'promoted' };
+}
+
+/**
+ * Send all traffic back to the primary distribution. A weight-based policy is
+ * left at weight 0 until the next deployment or ramp.
+ */
+async function rollback(state) {
+    const original = state.trafficConfig;
+    await updatePolicy(original.Type === 'SingleWeight' ? weightedTrafficConfig(original, 0) : original);
+
+    console.log(`Canary rolled back${state.alarm ? ` (${state.alarm})` : ''}`);
+    return { ...state, result: 'rolled-back' };
+}
+
+const ACTIONS = { start, applyStep, checkAlarms, promote, rollback };
+
+/**
+ * Task handler for the canary ramp state machine: `{ action, state }` in, the
+ * next state out
+ */
+exports.handler = async (event) => {
+    const action = ACTIONS[event.action];
+    if (!action) {
+        throw new Error(`Unknown action: ${event.action}`);
+    }
+    return action(event.state || {});
+};
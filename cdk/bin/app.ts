@@ -1,20 +1,383 @@
 #!/usr/bin/env node
 import 'source-map-support/register';
 import * as cdk from 'aws-cdk-lib';
-import { EdgeLabStack } from '../lib/edge-lab-stack';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as fs from 'fs';
+import {
+  CanaryTrafficType,
+  DeviceBinding,
+  EdgeLabStack,
+  JwtPublicKey,
+  RateLimitEnforcement,
+  SigningMode,
+} from '../lib/edge-lab-stack';
+import { EdgeValidatorCache, FailMode, RateLimit, RateLimitKey, RateLimitStore, ReplayCacheStore } from '../lib/edge-validator';
+import { ValidatorCorsPolicy, ValidatorPolicy } from '../lib/validator-policy';
+import { STAGES } from './stages';
 
 const app = new cdk.App();
 
+// Stage to deploy (see stages.ts); the flags below override its settings
+// Usage: cdk deploy -c stage=prod
+const stageName = String(app.node.tryGetContext('stage') ?? 'dev');
+const stage = STAGES[stageName];
+if (!stage) {
+  throw new Error(`stage must be one of ${Object.keys(STAGES).join(', ')}, got "${stageName}"`);
+}
+
 // Check if canary deployment mode is enabled via context
 // Usage: cdk deploy --context canary=true
-const enableCanary = app.node.tryGetContext('canary') === 'true';
+const enableCanary = booleanContext('canary');
+
+// How the staging distribution gets traffic ('header' or 'weight')
+// Usage: cdk deploy -c canary=true -c canaryTraffic=weight -c canaryWeight=10 \
+//          [-c canaryStickyIdleSeconds=300 -c canaryStickyMaxSeconds=900]
+//        cdk deploy -c canary=true -c canaryHeader=aws-cf-cd-tester -c canaryHeaderValue=alice
+const canaryTrafficContext = app.node.tryGetContext('canaryTraffic');
+const canaryWeight = app.node.tryGetContext('canaryWeight');
+const canaryStickyIdleSeconds = app.node.tryGetContext('canaryStickyIdleSeconds');
+const canaryStickyMaxSeconds = app.node.tryGetContext('canaryStickyMaxSeconds');
+const canaryHeader = app.node.tryGetContext('canaryHeader');
+const canaryHeaderValue = app.node.tryGetContext('canaryHeaderValue');
+const canaryTrafficFlags = [canaryTrafficContext, canaryWeight, canaryStickyIdleSeconds, canaryStickyMaxSeconds, canaryHeader, canaryHeaderValue];
+const canaryTraffic = canaryTrafficFlags.every((value) => value === undefined) ? undefined : {
+  type: canaryTrafficContext !== undefined ? canaryTrafficTypeFrom(String(canaryTrafficContext)) : CanaryTrafficType.HEADER,
+  weight: canaryWeight !== undefined ? Number(canaryWeight) : undefined,
+  sessionStickiness: canaryStickyIdleSeconds !== undefined || canaryStickyMaxSeconds !== undefined
+    ? {
+      idleTtl: cdk.Duration.seconds(Number(canaryStickyIdleSeconds ?? canaryStickyMaxSeconds)),
+      maximumTtl: cdk.Duration.seconds(Number(canaryStickyMaxSeconds ?? canaryStickyIdleSeconds)),
+    }
+    : undefined,
+  header: canaryHeader !== undefined ? String(canaryHeader) : undefined,
+  headerValue: canaryHeaderValue !== undefined ? String(canaryHeaderValue) : undefined,
+};
+
+// Check if the Lambda@Edge canary is enabled via context: the staging
+// distribution serves the new versions to lambdaCanaryWeight percent (at most 15)
+// Usage: cdk deploy -c lambdaCanary=true -c lambdaCanaryWeight=15 \
+//          -c lambdaStableVersion=5 -c aesGcmLambdaStableVersion=3 [-c jwtLambdaStableVersion=2]
+const enableLambdaCanary = booleanContext('lambdaCanary');
+const lambdaCanaryWeightContext = app.node.tryGetContext('lambdaCanaryWeight');
+const lambdaCanaryWeight = lambdaCanaryWeightContext !== undefined ? Number(lambdaCanaryWeightContext) : undefined;
+const lambdaStableVersion = app.node.tryGetContext('lambdaStableVersion');
+const aesGcmLambdaStableVersion = app.node.tryGetContext('aesGcmLambdaStableVersion');
+const jwtLambdaStableVersion = app.node.tryGetContext('jwtLambdaStableVersion');
+
+// Use the fixed, well-known lab keys instead of generated ones
+// Usage: cdk deploy -c labSecrets=true
+const labSecrets = booleanContext('labSecrets');
+
+// Replay protection for the Lambda@Edge validators ('memory' or 'dynamodb')
+// Usage: cdk deploy -c replayCache=dynamodb -c replayTableReplicaRegions=eu-west-1,ap-northeast-1
+const replayCacheContext = app.node.tryGetContext('replayCache');
+const replayCache = replayCacheContext !== undefined ? replayCacheStoreFrom(String(replayCacheContext)) : undefined;
+const replayTableReplicaRegionsContext = app.node.tryGetContext('replayTableReplicaRegions');
+const replayTableReplicaRegions = replayTableReplicaRegionsContext
+  ? String(replayTableReplicaRegionsContext).split(',').map((region) => region.trim()).filter(Boolean)
+  : undefined;
+
+// Device binding for AES-GCM tokens ('header', 'fingerprint' or both)
+// Usage: cdk deploy -c aesGcmDeviceBinding=header,fingerprint
+const aesGcmDeviceBindingContext = app.node.tryGetContext('aesGcmDeviceBinding');
+const aesGcmDeviceBinding = aesGcmDeviceBindingContext
+  ? String(aesGcmDeviceBindingContext).split(',').map((value) => deviceBindingFrom(value.trim()))
+  : undefined;
+
+// Sign the canonical request instead of the timestamp only
+// Usage: cdk deploy -c signingMode=canonical -c signedHeaders=host,user-agent
+const signingModeContext = app.node.tryGetContext('signingMode');
+const signingMode = signingModeContext !== undefined ? signingModeFrom(String(signingModeContext)) : undefined;
+const signedHeadersContext = app.node.tryGetContext('signedHeaders');
+const signedHeaders = signedHeadersContext
+  ? String(signedHeadersContext).split(',').map((name) => name.trim()).filter(Boolean)
+  : undefined;
+
+// Public keys (JWKS file) and expected claims for the /jwt/* validator
+// Usage: cdk deploy -c jwtJwksFile=issuer-jwks.json -c jwtIssuer=https://issuer.example.com -c jwtAudience=edge-lab
+const jwtJwksFile = app.node.tryGetContext('jwtJwksFile');
+const jwtPublicKeys = jwtJwksFile !== undefined ? jwksFrom(String(jwtJwksFile)) : undefined;
+const jwtIssuer = app.node.tryGetContext('jwtIssuer');
+const jwtAudience = app.node.tryGetContext('jwtAudience');
+
+// Regions the dashboard shows Lambda@Edge decision metrics for
+// Usage: cdk deploy -c metricsRegions=us-east-1,eu-west-1
+const metricsRegionsContext = app.node.tryGetContext('metricsRegions');
+const metricsRegions = metricsRegionsContext
+  ? String(metricsRegionsContext).split(',').map((region) => region.trim()).filter(Boolean)
+  : undefined;
+
+// Steps (percent of traffic) and bake time of the canary ramp workflow
+// Usage: cdk deploy -c canary=true -c canarySteps=5,10,15 -c canaryStepMinutes=15
+const canaryStepsContext = app.node.tryGetContext('canarySteps');
+const canaryStepMinutesContext = app.node.tryGetContext('canaryStepMinutes');
+const canaryRamp = canaryStepsContext === undefined && canaryStepMinutesContext === undefined ? undefined : {
+  steps: canaryStepsContext ? String(canaryStepsContext).split(',').map(Number) : undefined,
+  stepDuration: canaryStepMinutesContext !== undefined ? cdk.Duration.minutes(Number(canaryStepMinutesContext)) : undefined,
+};
+
+// Glue table, Athena workgroup and named queries over the access logs
+// Usage: cdk deploy -c analytics=true
+const enableAnalytics = booleanContext('analytics');
+
+// Per-client rate limits: <path>=<requests>/<seconds>[:ip|token], comma-separated,
+// enforced by the validators (counters in memory or DynamoDB) or by AWS WAF
+// Usage: cdk deploy -c rateLimits='/jwt/*=100/60:token,/cf-function/*=600/300' \
+//          [-c rateLimitStore=dynamodb -c rateLimitTableReplicaRegions=eu-west-1] [-c rateLimitEnforcement=waf]
+const rateLimitsContext = app.node.tryGetContext('rateLimits');
+const rateLimits = rateLimitsContext ? rateLimitsFrom(String(rateLimitsContext)) : undefined;
+const rateLimitStoreContext = app.node.tryGetContext('rateLimitStore');
+const rateLimitStore = rateLimitStoreContext !== undefined ? rateLimitStoreFrom(String(rateLimitStoreContext)) : undefined;
+const rateLimitEnforcementContext = app.node.tryGetContext('rateLimitEnforcement');
+const rateLimitEnforcement = rateLimitEnforcementContext !== undefined
+  ? rateLimitEnforcementFrom(String(rateLimitEnforcementContext))
+  : undefined;
+const rateLimitTableReplicaRegionsContext = app.node.tryGetContext('rateLimitTableReplicaRegions');
+const rateLimitTableReplicaRegions = rateLimitTableReplicaRegionsContext
+  ? String(rateLimitTableReplicaRegionsContext).split(',').map((region) => region.trim()).filter(Boolean)
+  : undefined;
+
+// What a Lambda@Edge validator does when it can't get its secret: closed (503) or open
+// Usage: cdk deploy -c failModes='/jwt/*=open,/aes-gcm/*=closed'
+const failModesContext = app.node.tryGetContext('failModes');
+const failModes = failModesContext ? failModesFrom(String(failModesContext)) : undefined;
+
+// Run a Lambda@Edge validator on the origin request (needed for country and ASN lists)
+// Usage: cdk deploy -c eventTypes='/aes-gcm/*=origin-request'
+const eventTypesContext = app.node.tryGetContext('eventTypes');
+const eventTypes = eventTypesContext ? eventTypesFrom(String(eventTypesContext)) : undefined;
+
+// Validator policies by path, from a JSON file (durations in seconds), e.g.
+// { "/jwt/*": { "timestampTolerance": 30, "requiredClaims": ["sub"], "exemptPaths": ["/jwt/health"],
+//   "cors": { "allowOrigins": ["https://app.example.com"], "maxAge": 600 }, "authenticateRealm": "edge-lab" } }
+// Usage: cdk deploy -c validatorPoliciesFile=validator-policies.json
+const validatorPoliciesFile = app.node.tryGetContext('validatorPoliciesFile');
+const validatorPolicies = validatorPoliciesFile !== undefined ? validatorPoliciesFrom(String(validatorPoliciesFile)) : undefined;
+
+// Cache validated responses of a path for <seconds> (its validator still runs on every request)
+// Usage: cdk deploy -c caching='/cf-function/*=300,/jwt/*=60'
+const cachingContext = app.node.tryGetContext('caching');
+const caching = cachingContext ? cachingFrom(String(cachingContext)) : undefined;
+
+// HSTS, Content-Security-Policy and X-Content-Type-Options on the validator paths
+// Usage: cdk deploy -c securityHeaders=true
+const enableSecurityHeaders = booleanContext('securityHeaders');
+const securityHeaders = enableSecurityHeaders === false || (enableSecurityHeaders === undefined && !stage.props?.securityHeaders)
+  ? undefined
+  : { ...stage.props?.securityHeaders };
+
+// Alternate domain names, with the Route 53 hosted zone holding their records
+// Usage: cdk deploy -c domainNames=bots.example.com -c hostedZoneId=Z0123456789ABC -c hostedZoneName=example.com
+const domainNamesContext = app.node.tryGetContext('domainNames');
+const domainNames = domainNamesContext
+  ? String(domainNamesContext).split(',').map((name) => name.trim()).filter(Boolean)
+  : undefined;
+const hostedZoneId = app.node.tryGetContext('hostedZoneId');
+const hostedZoneName = app.node.tryGetContext('hostedZoneName');
+const hostedZone = hostedZoneId !== undefined && hostedZoneName !== undefined
+  ? { hostedZoneId: String(hostedZoneId), zoneName: String(hostedZoneName) }
+  : undefined;
+
+// AWS WAF web ACL with the managed IP reputation and Bot Control rule groups
+// Usage: cdk deploy -c webAcl=true [-c webAclCountOnly=true]
+const enableWebAcl = booleanContext('webAcl');
+const webAclCountOnly = booleanContext('webAclCountOnly');
+const webAcl = enableWebAcl === false || (enableWebAcl === undefined && !stage.props?.webAcl)
+  ? undefined
+  : { ...stage.props?.webAcl, ...(webAclCountOnly !== undefined ? { countOnly: webAclCountOnly } : {}) };
+
+// Flags override the stage's settings, and unset flags keep them
+const contextProps = Object.fromEntries(Object.entries({
+  enableCanary,
+  canaryTraffic,
+  enableLambdaCanary,
+  lambdaCanaryWeight,
+  lambdaStableVersions: lambdaStableVersion !== undefined && aesGcmLambdaStableVersion !== undefined
+    ? {
+      hmac: String(lambdaStableVersion),
+      aesGcm: String(aesGcmLambdaStableVersion),
+      jwt: jwtLambdaStableVersion !== undefined ? String(jwtLambdaStableVersion) : undefined,
+    }
+    : undefined,
+  labSecrets,
+  replayCache,
+  replayTableReplicaRegions,
+  aesGcmDeviceBinding,
+  signingMode,
+  signedHeaders,
+  jwtPublicKeys,
+  jwtIssuer: jwtIssuer !== undefined ? String(jwtIssuer) : undefined,
+  jwtAudience: jwtAudience !== undefined ? String(jwtAudience) : undefined,
+  metricsRegions,
+  enableAnalytics,
+  canaryRamp,
+  rateLimits,
+  rateLimitEnforcement,
+  rateLimitStore,
+  rateLimitTableReplicaRegions,
+  failModes,
+  eventTypes,
+  validatorPolicies,
+  caching,
+  domainNames,
+  hostedZone,
+}).filter(([, value]) => value !== undefined));
 
 // Lambda@Edge must be deployed in us-east-1
-new EdgeLabStack(app, 'EdgeLabStack', {
+new EdgeLabStack(app, `EdgeLabStack-${stageName}`, {
   env: {
-    account: process.env.CDK_DEFAULT_ACCOUNT,
+    account: stage.account ?? process.env.CDK_DEFAULT_ACCOUNT,
     region: 'us-east-1',
   },
   crossRegionReferences: true,
-  enableCanary,
+  ...stage.props,
+  ...contextProps,
+  webAcl,
+  securityHeaders,
+  resourcePrefix: stageName,
 });
+
+function booleanContext(name: string): boolean | undefined {
+  const value = app.node.tryGetContext(name);
+  return value !== undefined ? String(value) === 'true' : undefined;
+}
+
+function canaryTrafficTypeFrom(value: string): CanaryTrafficType {
+  const type = Object.values(CanaryTrafficType).find((candidate) => candidate === value);
+  if (!type) {
+    throw new Error(`canaryTraffic must be one of ${Object.values(CanaryTrafficType).join(', ')}, got "${value}"`);
+  }
+  return type;
+}
+
+function replayCacheStoreFrom(value: string): ReplayCacheStore {
+  const store = Object.values(ReplayCacheStore).find((candidate) => candidate === value);
+  if (!store) {
+    throw new Error(`replayCache must be one of ${Object.values(ReplayCacheStore).join(', ')}, got "${value}"`);
+  }
+  return store;
+}
+
+function deviceBindingFrom(value: string): DeviceBinding {
+  const binding = Object.values(DeviceBinding).find((candidate) => candidate === value);
+  if (!binding) {
+    throw new Error(`aesGcmDeviceBinding must list ${Object.values(DeviceBinding).join(', ')}, got "${value}"`);
+  }
+  return binding;
+}
+
+function signingModeFrom(value: string): SigningMode {
+  const mode = Object.values(SigningMode).find((candidate) => candidate === value);
+  if (!mode) {
+    throw new Error(`signingMode must be one of ${Object.values(SigningMode).join(', ')}, got "${value}"`);
+  }
+  return mode;
+}
+
+function rateLimitsFrom(value: string): Record<string, RateLimit> {
+  const rateLimits: Record<string, RateLimit> = {};
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^(\/[^=]+)=(\d+)\/(\d+)(?::(\w+))?$/);
+    if (!match) {
+      throw new Error(`rateLimits entries must look like <path>=<requests>/<seconds>[:ip|token], got "${entry}"`);
+    }
+    const [, pathPattern, limit, seconds, key] = match;
+    const rateLimitKey = key !== undefined ? Object.values(RateLimitKey).find((candidate) => candidate === key) : RateLimitKey.CLIENT_IP;
+    if (!rateLimitKey) {
+      throw new Error(`rateLimits keys must be one of ${Object.values(RateLimitKey).join(', ')}, got "${key}"`);
+    }
+    rateLimits[pathPattern] = { limit: Number(limit), window: cdk.Duration.seconds(Number(seconds)), key: rateLimitKey };
+  }
+  return rateLimits;
+}
+
+function rateLimitStoreFrom(value: string): RateLimitStore {
+  const store = Object.values(RateLimitStore).find((candidate) => candidate === value);
+  if (!store) {
+    throw new Error(`rateLimitStore must be one of ${Object.values(RateLimitStore).join(', ')}, got "${value}"`);
+  }
+  return store;
+}
+
+function rateLimitEnforcementFrom(value: string): RateLimitEnforcement {
+  const enforcement = Object.values(RateLimitEnforcement).find((candidate) => candidate === value);
+  if (!enforcement) {
+    throw new Error(`rateLimitEnforcement must be one of ${Object.values(RateLimitEnforcement).join(', ')}, got "${value}"`);
+  }
+  return enforcement;
+}
+
+function failModesFrom(value: string): Record<string, FailMode> {
+  const failModes: Record<string, FailMode> = {};
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [pathPattern, mode] = entry.split('=');
+    const failMode = Object.values(FailMode).find((candidate) => candidate === mode);
+    if (!failMode) {
+      throw new Error(`failModes entries must look like <path>=${Object.values(FailMode).join('|')}, got "${entry}"`);
+    }
+    failModes[pathPattern] = failMode;
+  }
+  return failModes;
+}
+
+function eventTypesFrom(value: string): Record<string, cloudfront.LambdaEdgeEventType> {
+  const eventTypes: Record<string, cloudfront.LambdaEdgeEventType> = {};
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [pathPattern, name] = entry.split('=');
+    const eventType = [cloudfront.LambdaEdgeEventType.VIEWER_REQUEST, cloudfront.LambdaEdgeEventType.ORIGIN_REQUEST]
+      .find((candidate) => candidate === name);
+    if (!eventType) {
+      throw new Error(`eventTypes entries must look like <path>=viewer-request|origin-request, got "${entry}"`);
+    }
+    eventTypes[pathPattern] = eventType;
+  }
+  return eventTypes;
+}
+
+function cachingFrom(value: string): Record<string, EdgeValidatorCache> {
+  const caching: Record<string, EdgeValidatorCache> = {};
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^(\/[^=]+)=(\d+)$/);
+    if (!match) {
+      throw new Error(`caching entries must look like <path>=<seconds>, got "${entry}"`);
+    }
+    caching[match[1]] = { defaultTtl: cdk.Duration.seconds(Number(match[2])) };
+  }
+  return caching;
+}
+
+function jwksFrom(file: string): JwtPublicKey[] {
+  const jwks = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(jwks.keys)) {
+    throw new Error(`jwtJwksFile must contain a JWKS ({ "keys": [...] }), got ${file}`);
+  }
+  return jwks.keys;
+}
+
+/**
+ * A ValidatorPolicy as JSON: durations in seconds
+ */
+type ValidatorPolicyJson = Omit<ValidatorPolicy, 'timestampTolerance' | 'secretCacheTtl' | 'maxStale' | 'cors'> & {
+  timestampTolerance?: number;
+  secretCacheTtl?: number;
+  maxStale?: number;
+  cors?: Omit<ValidatorCorsPolicy, 'maxAge'> & { maxAge?: number };
+};
+
+// Policies by path pattern; the stack checks their contents at synth
+function validatorPoliciesFrom(file: string): Record<string, ValidatorPolicy> {
+  const parsed: unknown = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+  if (!isObject(parsed) || !Object.values(parsed as object).every(isObject)) {
+    throw new Error(`validatorPoliciesFile must map path patterns to policy objects, got ${file}`);
+  }
+  const policies = parsed as Record<string, ValidatorPolicyJson>;
+  const seconds = (value: unknown) => (value !== undefined ? cdk.Duration.seconds(Number(value)) : undefined);
+  return Object.fromEntries(Object.entries(policies).map(([pathPattern, policy]) => [pathPattern, {
+    ...policy,
+    timestampTolerance: seconds(policy.timestampTolerance),
+    secretCacheTtl: seconds(policy.secretCacheTtl),
+    maxStale: seconds(policy.maxStale),
+    cors: policy.cors ? { ...policy.cors, maxAge: seconds(policy.cors.maxAge) } : undefined,
+  }]));
+}
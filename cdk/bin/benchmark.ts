@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CLOUDFRONT_FUNCTION_COMPUTE_BUDGET_MICROS,
+  CorpusRequest,
+  generateCorpus,
+  readCorpus,
+  renderMarkdown,
+  runBenchmark,
+} from '../test/harness/benchmark';
+
+/**
+ * Replay a request corpus through the CloudFront Function, HMAC Lambda@Edge
+ * and AES-GCM validators locally (in-memory KeyValueStore and Secrets
+ * Manager) and report CPU time and memory per invocation, with the
+ * CloudFront Function's estimated compute utilization.
+ *
+ *   npm run benchmark
+ *     generated corpus, 500 requests per validator
+ *
+ *   npm run benchmark -- --corpus <requests.jsonl> [--warmup <n>] [--out <dir>]
+ *     recorded corpus: one request per line, e.g.
+ *     {"uri": "/lambda-edge/test.html", "at": 1800000000, "headers": {"X-Bot-Token": "...", "X-Bot-Signature": "..."}}
+ *
+ *   npm run benchmark -- --write-corpus <requests.jsonl> [--requests <n>]
+ *     writes the generated corpus, to edit or to keep alongside results
+ *
+ * Other options: --requests <per validator>, --cf-budget-us <microseconds
+ * taken as 100 compute utilization>. Writes benchmark.json and benchmark.md
+ * to --out (default benchmark-results); commit them, or keep them per
+ * commit, and diff.
+ */
+
+const USAGE = 'Usage: npm run benchmark -- [--corpus <file>] [--requests <n>] [--warmup <n>] [--out <dir>] [--cf-budget-us <n>] [--write-corpus <file>]';
+
+const DEFAULT_REQUESTS = 500;
+
+function parseArgs(args: string[]): Map<string, string> {
+  const options = new Map<string, string>();
+  for (let i = 0; i < args.length; i += 2) {
+    const name = args[i];
+    const value = args[i + 1];
+    if (!name.startsWith('--') || value === undefined) {
+      throw new Error(`${USAGE}\nExpected --<option> <value>, got "${name}"`);
+    }
+    options.set(name.slice(2), value);
+  }
+  return options;
+}
+
+// A whole-number option of at least `min`
+function wholeNumber(options: Map<string, string>, name: string, fallback: number, min: number): number {
+  const value = options.has(name) ? Number(options.get(name)) : fallback;
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`--${name} must be a whole number of at least ${min}, got "${options.get(name)}"`);
+  }
+  return value;
+}
+
+// Commit the results are for, if run in a git checkout
+function currentCommit(): string | undefined {
+  try {
+    return execFileSync('git', ['rev-parse', '--short', 'HEAD'], { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+async function main(argv: string[]): Promise<string> {
+  const options = parseArgs(argv);
+  const requests = wholeNumber(options, 'requests', DEFAULT_REQUESTS, 1);
+
+  const corpusFile = options.get('write-corpus');
+  if (corpusFile) {
+    const corpus = generateCorpus(requests);
+    fs.writeFileSync(corpusFile, corpus.map((request) => JSON.stringify(request)).join('\n') + '\n');
+    return `Wrote ${corpus.length} requests to ${corpusFile}`;
+  }
+
+  let corpus: CorpusRequest[];
+  let source: string;
+  if (options.has('corpus')) {
+    corpus = readCorpus(options.get('corpus')!);
+    if (corpus.length === 0) {
+      throw new Error(`${options.get('corpus')} has no requests`);
+    }
+    source = path.basename(options.get('corpus')!);
+  } else {
+    corpus = generateCorpus(requests);
+    source = `generated (${requests} per validator)`;
+  }
+
+  const report = await runBenchmark(corpus, source, {
+    warmup: wholeNumber(options, 'warmup', 1, 0),
+    computeBudgetMicros: wholeNumber(options, 'cf-budget-us', CLOUDFRONT_FUNCTION_COMPUTE_BUDGET_MICROS, 1),
+  });
+  const commit = currentCommit();
+  const withCommit = commit ? { ...report, environment: { ...report.environment, commit } } : report;
+
+  const out = options.get('out') ?? 'benchmark-results';
+  fs.mkdirSync(out, { recursive: true });
+  fs.writeFileSync(path.join(out, 'benchmark.json'), JSON.stringify(withCommit, null, 2) + '\n');
+  const markdown = renderMarkdown(withCommit);
+  fs.writeFileSync(path.join(out, 'benchmark.md'), markdown);
+  return markdown;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (output) => console.log(output),
+    (error) => {
+      console.error((error as Error).message);
+      process.exit(1);
+    },
+  );
+}
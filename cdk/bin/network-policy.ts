@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+// Registers the SigV4A signer the KeyValueStore API needs
+import '@aws-sdk/signature-v4a';
+import {
+  CloudFrontKeyValueStoreClient,
+  DescribeKeyValueStoreCommand,
+  DescribeKeyValueStoreCommandOutput,
+  GetKeyCommand,
+  GetKeyCommandOutput,
+  PutKeyCommand,
+  PutKeyCommandOutput,
+} from '@aws-sdk/client-cloudfront-keyvaluestore';
+import * as fs from 'fs';
+import { NetworkPolicy, networkPolicyKvsValue, NETWORK_POLICY_KVS_KEY } from '../lib/validator-policy';
+
+/**
+ * Publish the CloudFront Function validator's network policy (allow and
+ * deny lists) to its KeyValueStore, without a deploy. Takes effect within
+ * seconds; the next deploy that changes the stack's lists writes those.
+ *
+ *   npm run network-policy -- get --kvs-arn <arn>
+ *     prints the lists
+ *
+ *   npm run network-policy -- set --kvs-arn <arn> --file <lists.json>
+ *     replaces the lists, e.g. { "denyCountries": ["KP"], "allowCidrs": ["203.0.113.0/24"] }
+ *
+ *   npm run network-policy -- add --kvs-arn <arn> --list <list> --value <value> [--value <value>]...
+ *   npm run network-policy -- remove --kvs-arn <arn> --list <list> --value <value> [--value <value>]...
+ *     changes one list: allowCountries, denyCountries, allowAsns, denyAsns, allowCidrs or denyCidrs
+ *
+ * The KeyValueStore ARN is the stack's KeyValueStoreArn output.
+ */
+
+const USAGE = 'Usage: npm run network-policy -- <get|set|add|remove> --kvs-arn <arn> [options], see bin/network-policy.ts';
+
+const LISTS = ['allowCountries', 'denyCountries', 'allowAsns', 'denyAsns', 'allowCidrs', 'denyCidrs'];
+
+// Attempts at a write when another writer changed the store first
+const MAX_UPDATE_ATTEMPTS = 3;
+
+/**
+ * The part of the KeyValueStore client the tool uses
+ */
+export interface KeyValueStoreSender {
+  send(command: DescribeKeyValueStoreCommand): Promise<DescribeKeyValueStoreCommandOutput>;
+  send(command: GetKeyCommand): Promise<GetKeyCommandOutput>;
+  send(command: PutKeyCommand): Promise<PutKeyCommandOutput>;
+}
+
+/**
+ * Lists in the store; none when the key hasn't been written
+ */
+export async function readNetworkPolicy(client: KeyValueStoreSender, kvsArn: string): Promise<NetworkPolicy> {
+  try {
+    const { Value } = await client.send(new GetKeyCommand({ KvsARN: kvsArn, Key: NETWORK_POLICY_KVS_KEY }));
+    return JSON.parse(Value ?? '{}');
+  } catch (error) {
+    if ((error as Error).name === 'ResourceNotFoundException') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply `change` to the lists in the store and write the result, checked as
+ * the stack checks it. Every write needs the store's current ETag; a write
+ * that loses a race with another writer is retried on the new lists.
+ */
+export async function publishNetworkPolicy(
+  client: KeyValueStoreSender,
+  kvsArn: string,
+  change: (current: NetworkPolicy) => NetworkPolicy,
+): Promise<NetworkPolicy> {
+  for (let attempt = 1; ; attempt++) {
+    const { ETag } = await client.send(new DescribeKeyValueStoreCommand({ KvsARN: kvsArn }));
+    const value = networkPolicyKvsValue('network-policy', change(await readNetworkPolicy(client, kvsArn)));
+    try {
+      await client.send(new PutKeyCommand({ KvsARN: kvsArn, Key: NETWORK_POLICY_KVS_KEY, Value: value, IfMatch: ETag }));
+      return JSON.parse(value);
+    } catch (error) {
+      if ((error as Error).name !== 'ConflictException' || attempt >= MAX_UPDATE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Lists with `values` added to or removed from one of them
+ */
+export function changeList(current: NetworkPolicy, list: string, values: string[], remove = false): NetworkPolicy {
+  if (!LISTS.includes(list)) {
+    throw new Error(`--list must be ${LISTS.join(', ')}, got "${list}"`);
+  }
+  const parsed = list.endsWith('Asns') ? values.map(Number) : values;
+  const existing: Array<string | number> = (current as Record<string, Array<string | number>>)[list] ?? [];
+  const same = (a: string | number, b: string | number) => String(a).toUpperCase() === String(b).toUpperCase();
+  return {
+    ...current,
+    [list]: remove
+      ? existing.filter((value) => !parsed.some((removed) => same(value, removed)))
+      : [...existing, ...parsed],
+  };
+}
+
+function parseArgs(args: string[]): Map<string, string[]> {
+  const options = new Map<string, string[]>();
+  for (let i = 0; i < args.length; i += 2) {
+    const name = args[i];
+    const value = args[i + 1];
+    if (!name.startsWith('--') || value === undefined) {
+      throw new Error(`Expected --<option> <value>, got "${name}"`);
+    }
+    options.set(name.slice(2), [...(options.get(name.slice(2)) ?? []), value]);
+  }
+  return options;
+}
+
+async function main(argv: string[]): Promise<string> {
+  const [command, ...rest] = argv;
+  const options = parseArgs(rest);
+  const required = (name: string) => {
+    const values = options.get(name);
+    if (!values) {
+      throw new Error(`Missing --${name}`);
+    }
+    return values;
+  };
+
+  const kvsArn = required('kvs-arn')[0];
+  const client = new CloudFrontKeyValueStoreClient({ region: 'us-east-1' });
+  let policy: NetworkPolicy;
+  switch (command) {
+    case 'get':
+      policy = await readNetworkPolicy(client, kvsArn);
+      break;
+    case 'set': {
+      const lists = JSON.parse(fs.readFileSync(required('file')[0], 'utf-8'));
+      policy = await publishNetworkPolicy(client, kvsArn, () => lists);
+      break;
+    }
+    case 'add':
+    case 'remove':
+      policy = await publishNetworkPolicy(client, kvsArn,
+        (current) => changeList(current, required('list')[0], required('value'), command === 'remove'));
+      break;
+    default:
+      throw new Error(USAGE);
+  }
+  return JSON.stringify(policy, null, 2);
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (output) => console.log(output),
+    (error) => {
+      console.error((error as Error).message);
+      process.exit(1);
+    },
+  );
+}
@@ -0,0 +1,50 @@
+import { EdgeLabStackProps } from '../lib/edge-lab-stack';
+import { ReplayCacheStore } from '../lib/edge-validator';
+
+/**
+ * Deployment stage of the lab: one EdgeLabStack-<name> stack whose resource
+ * names start with the stage name, so the stages can share an account
+ */
+export interface EdgeLabStage {
+  /**
+   * Account to deploy to
+   * @default - the CLI's account (CDK_DEFAULT_ACCOUNT)
+   */
+  readonly account?: string;
+
+  /**
+   * Stack settings of the stage; `-c` context flags override them
+   */
+  readonly props?: Partial<EdgeLabStackProps>;
+}
+
+/**
+ * Stages `cdk deploy -c stage=<name>` picks from (default dev). Custom domains
+ * go in a stage's props, e.g.
+ * `domainNames: ['bots.example.com'], hostedZone: { hostedZoneId: 'Z0123456789ABC', zoneName: 'example.com' }`.
+ */
+export const STAGES: Record<string, EdgeLabStage> = {
+  // The stack defaults: no web ACL, no replay cache
+  dev: {},
+
+  // Managed WAF rules count only, to see what they would block
+  staging: {
+    props: {
+      webAcl: { countOnly: true },
+      securityHeaders: {},
+      replayCache: ReplayCacheStore.DYNAMODB,
+      enableAnalytics: true,
+    },
+  },
+
+  // Bot Control would block the signed bot clients (HTTP libraries) before
+  // their tokens are checked, so prod only blocks by IP reputation
+  prod: {
+    props: {
+      webAcl: { botControl: false },
+      securityHeaders: {},
+      replayCache: ReplayCacheStore.DYNAMODB,
+      enableAnalytics: true,
+    },
+  },
+};
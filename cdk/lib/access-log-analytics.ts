@@ -0,0 +1,253 @@
+import * as cdk from 'aws-cdk-lib';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as glue from 'aws-cdk-lib/aws-glue';
+import * as athena from 'aws-cdk-lib/aws-athena';
+import { Construct } from 'constructs';
+import { EdgeValidator, EdgeValidatorKind } from './edge-validator';
+
+/**
+ * Columns of a CloudFront standard log file (tab-separated, two header lines)
+ */
+const CLOUDFRONT_LOG_COLUMNS: Array<[string, string]> = [
+  ['date', 'date'],
+  ['time', 'string'],
+  ['x_edge_location', 'string'],
+  ['sc_bytes', 'bigint'],
+  ['c_ip', 'string'],
+  ['cs_method', 'string'],
+  ['cs_host', 'string'],
+  ['cs_uri_stem', 'string'],
+  ['sc_status', 'int'],
+  ['cs_referrer', 'string'],
+  ['cs_user_agent', 'string'],
+  ['cs_uri_query', 'string'],
+  ['cs_cookie', 'string'],
+  ['x_edge_result_type', 'string'],
+  ['x_edge_request_id', 'string'],
+  ['x_host_header', 'string'],
+  ['cs_protocol', 'string'],
+  ['cs_bytes', 'bigint'],
+  ['time_taken', 'float'],
+  ['x_forwarded_for', 'string'],
+  ['ssl_protocol', 'string'],
+  ['ssl_cipher', 'string'],
+  ['x_edge_response_result_type', 'string'],
+  ['cs_protocol_version', 'string'],
+  ['fle_status', 'string'],
+  ['fle_encrypted_fields', 'int'],
+  ['c_port', 'int'],
+  ['time_to_first_byte', 'float'],
+  ['x_edge_detailed_result_type', 'string'],
+  ['sc_content_type', 'string'],
+  ['sc_content_len', 'bigint'],
+  ['sc_range_start', 'bigint'],
+  ['sc_range_end', 'bigint'],
+];
+
+export interface AccessLogAnalyticsProps {
+  /**
+   * Bucket the distributions write their standard logs to
+   */
+  readonly logBucket: s3.IBucket;
+
+  /**
+   * Common prefix of the logs, e.g. 'cloudfront-logs/'. Each distribution
+   * logs under `<logPrefix><distribution>/`.
+   */
+  readonly logPrefix: string;
+
+  /**
+   * Distributions logging under the prefix, the values of the table's
+   * `distribution` partition
+   * @default ['primary', 'staging']
+   */
+  readonly distributions?: string[];
+
+  /**
+   * Validators whose paths the named queries break down
+   */
+  readonly validators: EdgeValidator[];
+
+  /**
+   * @default 'edge_lab'
+   */
+  readonly databaseName?: string;
+
+  /**
+   * @default 'edge-lab-analytics'
+   */
+  readonly workGroupName?: string;
+}
+
+/**
+ * Athena over the CloudFront access logs: a Glue database with a
+ * `cloudfront_logs` table partitioned by distribution (partition projection,
+ * so no crawler or MSCK REPAIR is needed), a workgroup with its own results
+ * bucket, and named queries comparing the validator paths.
+ */
+export class AccessLogAnalytics extends Construct {
+  public readonly databaseName: string;
+  public readonly tableName = 'cloudfront_logs';
+  public readonly workGroup: athena.CfnWorkGroup;
+  public readonly resultsBucket: s3.Bucket;
+
+  constructor(scope: Construct, id: string, props: AccessLogAnalyticsProps) {
+    super(scope, id);
+
+    this.databaseName = props.databaseName ?? 'edge_lab';
+    const distributions = props.distributions ?? ['primary', 'staging'];
+    const logLocation = `s3://${props.logBucket.bucketName}/${props.logPrefix}`;
+
+    const database = new glue.CfnDatabase(this, 'Database', {
+      catalogId: cdk.Stack.of(this).account,
+      databaseInput: {
+        name: this.databaseName,
+        description: 'CloudFront access logs of the edge validator lab',
+      },
+    });
+
+    const table = new glue.CfnTable(this, 'Table', {
+      catalogId: cdk.Stack.of(this).account,
+      databaseName: this.databaseName,
+      tableInput: {
+        name: this.tableName,
+        description: 'CloudFront standard logs, one partition per distribution',
+        tableType: 'EXTERNAL_TABLE',
+        partitionKeys: [{ name: 'distribution', type: 'string' }],
+        parameters: {
+          'classification': 'csv',
+          'skip.header.line.count': '2',
+          'projection.enabled': 'true',
+          'projection.distribution.type': 'enum',
+          'projection.distribution.values': distributions.join(','),
+          'storage.location.template': `${logLocation}\${distribution}/`,
+        },
+        storageDescriptor: {
+          columns: CLOUDFRONT_LOG_COLUMNS.map(([name, type]) => ({ name, type })),
+          location: logLocation,
+          inputFormat: 'org.apache.hadoop.mapred.TextInputFormat',
+          outputFormat: 'org.apache.hadoop.hive.ql.io.HiveIgnoreKeyTextOutputFormat',
+          serdeInfo: {
+            serializationLibrary: 'org.apache.hadoop.hive.serde2.lazy.LazySimpleSerDe',
+            parameters: { 'field.delim': '\t', 'serialization.format': '\t' },
+          },
+        },
+      },
+    });
+    table.addDependency(database);
+
+    this.resultsBucket = new s3.Bucket(this, 'ResultsBucket', {
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      autoDeleteObjects: true,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      lifecycleRules: [{
+        expiration: cdk.Duration.days(7),  // Query results are only needed briefly
+      }],
+    });
+
+    this.workGroup = new athena.CfnWorkGroup(this, 'WorkGroup', {
+      name: props.workGroupName ?? 'edge-lab-analytics',
+      description: 'Queries over the edge validator lab access logs',
+      // Lets the stack delete the workgroup along with its query history
+      recursiveDeleteOption: true,
+      workGroupConfiguration: {
+        enforceWorkGroupConfiguration: true,
+        publishCloudWatchMetricsEnabled: true,
+        resultConfiguration: {
+          outputLocation: `s3://${this.resultsBucket.bucketName}/results/`,
+          encryptionConfiguration: { encryptionOption: 'SSE_S3' },
+        },
+      },
+    });
+
+    const queries = validatorQueries(this.tableName, props.validators);
+    for (const [queryId, query] of Object.entries(queries)) {
+      const namedQuery = new athena.CfnNamedQuery(this, queryId, {
+        database: this.databaseName,
+        workGroup: this.workGroup.name,
+        name: query.name,
+        description: query.description,
+        queryString: query.sql,
+      });
+      namedQuery.addDependency(this.workGroup);
+      namedQuery.addDependency(table);
+    }
+  }
+}
+
+interface NamedQuery {
+  readonly name: string;
+  readonly description: string;
+  readonly sql: string;
+}
+
+/**
+ * Named queries over the last 7 days, by validator path
+ */
+function validatorQueries(table: string, validators: EdgeValidator[]): Record<string, NamedQuery> {
+  // '/cf-function/*' -> LIKE '/cf-function/%'
+  const like = (validator: EdgeValidator) => `cs_uri_stem LIKE '${validator.pathPattern.replace(/\*$/, '%')}'`;
+  const behavior = [
+    'CASE',
+    ...validators.map((validator) => `    WHEN ${like(validator)} THEN '${validator.pathPattern}'`),
+    '  END',
+  ].join('\n');
+  const runtime = [
+    'CASE',
+    ...validators.map((validator) => `    WHEN ${like(validator)} THEN '${
+      validator.kind === EdgeValidatorKind.CLOUDFRONT_FUNCTION ? 'CloudFront Function' : 'Lambda@Edge'}'`),
+    '  END',
+  ].join('\n');
+  const lastWeek = `"date" >= current_date - INTERVAL '7' DAY`;
+  const validatorPaths = `(${validators.map(like).join(' OR ')})`;
+
+  return {
+    DeniedRateQuery: {
+      name: '403 rate per validator path',
+      description: 'Share of requests each validator path answered with 403 (primary distribution, last 7 days)',
+      sql: `SELECT
+  ${behavior} AS behavior,
+  count(*) AS requests,
+  count_if(sc_status = 403) AS denied,
+  round(100.0 * count_if(sc_status = 403) / count(*), 2) AS denied_pct
+FROM ${table}
+WHERE distribution = 'primary'
+  AND ${lastWeek}
+  AND ${validatorPaths}
+GROUP BY 1
+ORDER BY 1;`,
+    },
+    LatencyQuery: {
+      name: 'time-taken percentiles per behavior',
+      description: 'p50 and p99 time-taken (ms) per validator path, CloudFront Function vs Lambda@Edge (last 7 days)',
+      sql: `SELECT
+  ${runtime} AS runtime,
+  ${behavior} AS behavior,
+  count(*) AS requests,
+  round(approx_percentile(time_taken, 0.5) * 1000, 1) AS p50_ms,
+  round(approx_percentile(time_taken, 0.99) * 1000, 1) AS p99_ms
+FROM ${table}
+WHERE ${lastWeek}
+  AND ${validatorPaths}
+GROUP BY 1, 2
+ORDER BY 1, 2;`,
+    },
+    CanaryErrorRateQuery: {
+      name: 'canary vs primary error rates',
+      description: '4xx and 5xx rates of the staging (canary) and primary distributions per validator path (last 7 days)',
+      sql: `SELECT
+  ${behavior} AS behavior,
+  distribution,
+  count(*) AS requests,
+  round(100.0 * count_if(sc_status BETWEEN 400 AND 499) / count(*), 2) AS client_error_pct,
+  round(100.0 * count_if(sc_status >= 500) / count(*), 2) AS server_error_pct
+FROM ${table}
+WHERE ${lastWeek}
+  AND ${validatorPaths}
+GROUP BY 1, 2
+ORDER BY 1, 2;`,
+    },
+  };
+}
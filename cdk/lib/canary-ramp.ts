@@ -0,0 +1,217 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as sfn from 'aws-cdk-lib/aws-stepfunctions';
+import * as tasks from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import * as path from 'path';
+import { Construct } from 'constructs';
+import { bundleLambdaCode } from './lambda-asset';
+import { VALIDATOR_METRICS_NAMESPACE } from './edge-validator';
+import { DashboardValidator } from './validator-dashboard';
+
+/**
+ * CloudFront sends at most 15% of requests to a staging distribution
+ */
+const MAX_STAGING_WEIGHT = 15;
+
+/**
+ * How the canary is ramped
+ */
+export interface CanaryRampOptions {
+  /**
+   * Percent of traffic on the staging distribution at each step, ascending,
+   * at most 15 (CloudFront's cap)
+   * @default [5, 10, 15]
+   */
+  readonly steps?: number[];
+
+  /**
+   * How long each step runs before the alarms are checked
+   * @default Duration.minutes(10)
+   */
+  readonly stepDuration?: cdk.Duration;
+
+  /**
+   * 5xx error rate (percent of requests) of a distribution that rolls the canary back
+   * @default 5
+   */
+  readonly errorRateThreshold?: number;
+
+  /**
+   * Deny rate (percent of decisions) of a validator that rolls the canary back
+   * @default 50
+   */
+  readonly denyRateThreshold?: number;
+}
+
+export interface CanaryRampProps extends CanaryRampOptions {
+  readonly distribution: cloudfront.Distribution;
+
+  /**
+   * Staging distribution serving the canary, and the policy routing to it; the
+   * ramp moves the policy to weight-based routing and promotes with
+   * UpdateDistributionWithStagingConfig
+   */
+  readonly stagingDistribution: cloudfront.Distribution;
+  readonly continuousDeploymentPolicy: cloudfront.CfnContinuousDeploymentPolicy;
+
+  /**
+   * Validators whose deny rate is alarmed on (names match VALIDATOR in each handler)
+   */
+  readonly validators: DashboardValidator[];
+
+  /**
+   * Namespace of the validators' decision metrics
+   * @default VALIDATOR_METRICS_NAMESPACE
+   */
+  readonly metricsNamespace?: string;
+}
+
+/**
+ * Step Functions workflow that shifts traffic to the staging distribution step
+ * by step, checks the 5xx and deny-rate alarms after each step, and then
+ * promotes the staging config (its CloudFront Function and Lambda@Edge
+ * versions) or rolls it back. The steps themselves run in the
+ * canary-controller Lambda function.
+ */
+export class CanaryRamp extends Construct {
+  public readonly stateMachine: sfn.StateMachine;
+  public readonly controller: lambda.Function;
+  public readonly alarms: cloudwatch.Alarm[] = [];
+
+  constructor(scope: Construct, id: string, props: CanaryRampProps) {
+    super(scope, id);
+
+    const steps = props.steps ?? [5, 10, 15];
+    if (steps.length === 0 || steps.some((step, index) => step <= 0 || step > MAX_STAGING_WEIGHT || (index > 0 && step <= steps[index - 1]))) {
+      throw new Error(`CanaryRamp steps must be ascending percentages above 0 and at most ${MAX_STAGING_WEIGHT}, got [${steps.join(', ')}]`);
+    }
+
+    this.addAlarms(props);
+
+    this.controller = new lambda.Function(this, 'Controller', {
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'index.handler',
+      code: bundleLambdaCode(path.join(__dirname, '../../canary-controller/index.js')),
+      timeout: cdk.Duration.minutes(1),
+      memorySize: 128,
+      description: 'Shifts canary traffic, checks alarms, promotes or rolls back',
+      environment: {
+        DISTRIBUTION_ID: props.distribution.distributionId,
+        STAGING_DISTRIBUTION_ID: props.stagingDistribution.distributionId,
+        POLICY_ID: props.continuousDeploymentPolicy.attrId,
+        ALARM_NAMES: this.alarms.map((alarm) => alarm.alarmName).join(','),
+        STEPS: JSON.stringify(steps),
+      },
+    });
+
+    this.controller.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['cloudwatch:DescribeAlarms'],
+      resources: this.alarms.map((alarm) => alarm.alarmArn),
+    }));
+
+    const account = cdk.Stack.of(this).account;
+    this.controller.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['cloudfront:GetContinuousDeploymentPolicy', 'cloudfront:UpdateContinuousDeploymentPolicy'],
+      resources: [`arn:aws:cloudfront::${account}:continuous-deployment-policy/${props.continuousDeploymentPolicy.attrId}`],
+    }));
+    this.controller.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['cloudfront:GetDistribution', 'cloudfront:UpdateDistribution', 'cloudfront:UpdateDistributionWithStagingConfig'],
+      resources: [props.distribution.distributionArn, props.stagingDistribution.distributionArn],
+    }));
+
+    // Promotion moves the primary distribution's Lambda@Edge associations to
+    // the staging distribution's versions, which replicates them
+    const functionArns = props.validators
+      .filter(({ validator }) => validator.lambdaFunction)
+      .flatMap(({ validator }) => [validator.lambdaFunction!.functionArn, `${validator.lambdaFunction!.functionArn}:*`]);
+    if (functionArns.length > 0) {
+      this.controller.addToRolePolicy(new iam.PolicyStatement({
+        actions: ['lambda:GetFunction', 'lambda:EnableReplication*'],
+        resources: functionArns,
+      }));
+    }
+
+    const task = (taskId: string, action: string) => new tasks.LambdaInvoke(this, taskId, {
+      lambdaFunction: this.controller,
+      payload: sfn.TaskInput.fromObject({ action, state: sfn.JsonPath.entirePayload }),
+      outputPath: '$.Payload',
+    });
+
+    const start = task('Start', 'start');
+    const applyStep = task('ApplyStep', 'applyStep');
+    const checkAlarms = task('CheckAlarms', 'checkAlarms');
+    const promote = task('Promote', 'promote');
+    const rollback = task('Rollback', 'rollback');
+
+    // A failed step rolls back too; the error is kept next to the state
+    for (const step of [applyStep, checkAlarms, promote]) {
+      step.addCatch(rollback, { resultPath: '$.error' });
+    }
+    rollback.next(new sfn.Fail(this, 'RolledBack', {
+      error: 'CanaryRolledBack',
+      cause: 'An alarm fired or a step failed; traffic is back on the stable configuration',
+    }));
+
+    const definition = start
+      .next(applyStep)
+      .next(new sfn.Wait(this, 'Bake', { time: sfn.WaitTime.duration(props.stepDuration ?? cdk.Duration.minutes(10)) }))
+      .next(checkAlarms)
+      .next(new sfn.Choice(this, 'Healthy')
+        .when(sfn.Condition.and(sfn.Condition.isPresent('$.alarm'), sfn.Condition.isNotNull('$.alarm')), rollback)
+        .when(sfn.Condition.booleanEquals('$.lastStep', true), promote.next(new sfn.Succeed(this, 'Promoted')))
+        .otherwise(applyStep));
+
+    this.stateMachine = new sfn.StateMachine(this, 'StateMachine', {
+      definitionBody: sfn.DefinitionBody.fromChainable(definition),
+      comment: `Ramps the staging distribution through ${steps.join('%, ')}%, then promotes or rolls back`,
+    });
+  }
+
+  /**
+   * 5xx error rate of each distribution, and deny rate of each validator.
+   * Lambda@Edge metrics are regional: only requests served from this region
+   * count towards the deny-rate alarms.
+   */
+  private addAlarms(props: CanaryRampProps): void {
+    const distributions: Array<[string, cloudfront.Distribution]> = [
+      ['Primary', props.distribution],
+      ['Staging', props.stagingDistribution],
+    ];
+    for (const [name, distribution] of distributions) {
+      this.alarms.push(distribution.metric5xxErrorRate({ period: cdk.Duration.minutes(5) })
+        .createAlarm(this, `${name}ErrorRateAlarm`, {
+          alarmDescription: `${name} distribution 5xx error rate during a canary ramp`,
+          threshold: props.errorRateThreshold ?? 5,
+          evaluationPeriods: 1,
+          comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+          treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        }));
+    }
+
+    for (const { name, validator } of props.validators) {
+      const decisions = (decision: string) => new cloudwatch.Metric({
+        namespace: props.metricsNamespace ?? VALIDATOR_METRICS_NAMESPACE,
+        metricName: 'Decisions',
+        dimensionsMap: { validator: name, decision },
+        statistic: 'Sum',
+        period: cdk.Duration.minutes(5),
+      });
+      const denyRate = new cloudwatch.MathExpression({
+        expression: '100 * FILL(deny, 0) / (FILL(allow, 0) + FILL(deny, 0))',
+        usingMetrics: { allow: decisions('allow'), deny: decisions('deny') },
+        label: `${name} deny rate`,
+        period: cdk.Duration.minutes(5),
+      });
+      this.alarms.push(denyRate.createAlarm(this, `${validator.node.id}DenyRateAlarm`, {
+        alarmDescription: `${validator.pathPattern} deny rate during a canary ramp`,
+        threshold: props.denyRateThreshold ?? 50,
+        evaluationPeriods: 1,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }));
+    }
+  }
+}
@@ -1,14 +1,37 @@
 import * as cdk from 'aws-cdk-lib';
 import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
 import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
 import * as origins from 'aws-cdk-lib/aws-cloudfront-origins';
-import * as lambda from 'aws-cdk-lib/aws-lambda';
-import * as s3deploy from 'aws-cdk-lib/aws-s3-deployment';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as targets from 'aws-cdk-lib/aws-route53-targets';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
-import * as iam from 'aws-cdk-lib/aws-iam';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as wafv2 from 'aws-cdk-lib/aws-wafv2';
 import * as path from 'path';
-import * as fs from 'fs';
+import * as crypto from 'crypto';
 import { Construct } from 'constructs';
+import {
+  EdgeValidator,
+  EdgeValidatorCache,
+  EdgeValidatorKind,
+  EdgeValidatorRateLimit,
+  EdgeValidatorReplayCache,
+  FailMode,
+  RateLimit,
+  RateLimitKey,
+  RateLimitStore,
+  ReplayCacheStore,
+  SecurityHeaders,
+  VALIDATOR_METRICS_NAMESPACE,
+} from './edge-validator';
+import { KvsValueSeed } from './kvs-secret-seed';
+import { KeyringRotation } from './keyring-rotation';
+import { ValidatorDashboard } from './validator-dashboard';
+import { AccessLogAnalytics } from './access-log-analytics';
+import { CanaryRamp, CanaryRampOptions } from './canary-ramp';
+import { RateLimitPublisher } from './rate-limit-publisher';
+import { ValidatorPolicy } from './validator-policy';
 
 /**
  * Props for EdgeLabStack with canary deployment support
@@ -23,78 +46,782 @@ export interface EdgeLabStackProps extends cdk.StackProps {
   enableCanary?: boolean;
 
   /**
-   * Enable Lambda@Edge canary deployment using weighted aliases.
-   * When true, creates Lambda aliases with configurable traffic routing
-   * for gradual rollout of Lambda@Edge function changes.
+   * How the continuous deployment policy routes viewers to the staging
+   * distribution (enableCanary or enableLambdaCanary)
+   * @default - header-based: requests with 'aws-cf-cd-staging: true';
+   * with enableLambdaCanary, lambdaCanaryWeight percent of requests
+   */
+  canaryTraffic?: CanaryTraffic;
+
+  /**
+   * Enable Lambda@Edge canary deployment.
+   * When true, the primary distribution keeps serving lambdaStableVersions and
+   * the staging distribution (created as with enableCanary) serves the versions
+   * published from the current code. Lambda@Edge can't use weighted aliases,
+   * so the continuous deployment policy splits the traffic.
    * @default false
    */
   enableLambdaCanary?: boolean;
 
   /**
-   * Weight for canary Lambda version (0-100).
-   * Only applies when enableLambdaCanary is true.
-   * Example: 10 means 10% traffic to new version, 90% to stable version.
+   * Percent of requests sent to the staging distribution, and so to the
+   * canary versions: greater than 0, at most 15 (CloudFront's cap).
+   * Only applies when enableLambdaCanary is true and canaryTraffic isn't set.
+   * Example: 10 means 10% of requests to the new versions, 90% to the stable ones.
    * @default 10
    */
   lambdaCanaryWeight?: number;
+
+  /**
+   * Published version numbers the primary distribution keeps serving.
+   * The current code is published as the canary version, which only the
+   * staging distribution serves.
+   * Required when enableLambdaCanary is true.
+   */
+  lambdaStableVersions?: LambdaStableVersions;
+
+  /**
+   * Use the fixed, well-known lab keys instead of generated ones.
+   * Lab keys are written into the template and the AES key is published as the
+   * AesGcmKeyHex output, so the test scripts work as-is. Never use for real traffic.
+   * When false, 32-byte random keys are generated in Secrets Manager.
+   * @default false
+   */
+  labSecrets?: boolean;
+
+  /**
+   * How often the generated keys are rotated. Each rotation adds a key ID to the
+   * keyring and keeps the previous key valid for a day. Ignored with labSecrets.
+   * @default Duration.days(30)
+   */
+  keyRotationInterval?: cdk.Duration;
+
+  /**
+   * Replay protection for the Lambda@Edge validators: each token is accepted
+   * once within its timestamp window. MEMORY keeps a per-container cache;
+   * DYNAMODB provisions a global table shared by all edge locations.
+   * @default - no replay cache
+   */
+  replayCache?: ReplayCacheStore;
+
+  /**
+   * Extra regions with a replica of the replay table (DYNAMODB only).
+   * Functions use the replica in their own region when there is one.
+   * @default - us-east-1 only
+   */
+  replayTableReplicaRegions?: string[];
+
+  /**
+   * How the AES-GCM validator checks the token's device claim against the
+   * request. The claim must match at least one of the listed methods.
+   * @default - no device binding
+   */
+  aesGcmDeviceBinding?: DeviceBinding[];
+
+  /**
+   * What the HMAC validators (CloudFront Function and Lambda@Edge) sign
+   * @default SigningMode.TIMESTAMP
+   */
+  signingMode?: SigningMode;
+
+  /**
+   * Request headers covered by the signature in SigningMode.CANONICAL_REQUEST
+   * @default ['host']
+   */
+  signedHeaders?: string[];
+
+  /**
+   * Public keys the /jwt/* validator accepts (the issuer's JWKS).
+   * Stored in the jwt-validator-jwks secret; the private keys stay with the issuer.
+   * @default - the lab key with labSecrets, otherwise none (every token is rejected)
+   */
+  jwtPublicKeys?: JwtPublicKey[];
+
+  /**
+   * Required iss claim of /jwt/* tokens
+   * @default - not checked
+   */
+  jwtIssuer?: string;
+
+  /**
+   * Audience /jwt/* tokens must name in their aud claim
+   * @default - not checked
+   */
+  jwtAudience?: string;
+
+  /**
+   * Regions whose Lambda@Edge decision metrics the dashboard shows.
+   * Lambda@Edge logs (and the metrics embedded in them) land in the region
+   * that served the request, so list the regions your viewers are closest to.
+   * @default - the stack's region (us-east-1)
+   */
+  metricsRegions?: string[];
+
+  /**
+   * Provision a Glue table, Athena workgroup and named queries over the
+   * CloudFront access logs (see AccessLogAnalytics).
+   * @default false
+   */
+  enableAnalytics?: boolean;
+
+  /**
+   * Steps, bake time and alarm thresholds of the canary ramp workflow
+   * (created with enableCanary or enableLambdaCanary)
+   * @default - see CanaryRampOptions
+   */
+  canaryRamp?: CanaryRampOptions;
+
+  /**
+   * Per-client rate limits by validator path pattern, e.g.
+   * { '/jwt/*': { limit: 100, window: Duration.minutes(1), key: RateLimitKey.TOKEN } }.
+   * Clients over the limit get 429 with Retry-After.
+   * @default - no rate limits
+   */
+  rateLimits?: Record<string, RateLimit>;
+
+  /**
+   * Who enforces rateLimits
+   * @default RateLimitEnforcement.EDGE
+   */
+  rateLimitEnforcement?: RateLimitEnforcement;
+
+  /**
+   * Where the Lambda@Edge validators keep their rate limit counters.
+   * MEMORY counts per container; DYNAMODB provisions a global table shared
+   * by all edge locations (the CloudFront Function path always uses the table).
+   * @default RateLimitStore.MEMORY
+   */
+  rateLimitStore?: RateLimitStore;
+
+  /**
+   * Extra regions with a replica of the rate limit table
+   * @default - us-east-1 only
+   */
+  rateLimitTableReplicaRegions?: string[];
+
+  /**
+   * How each Lambda@Edge validator answers when Secrets Manager can't be
+   * reached and it has no usable cached secret, by path pattern, e.g.
+   * { '/jwt/*': FailMode.OPEN }
+   * @default - FailMode.CLOSED on every path
+   */
+  failModes?: Record<string, FailMode>;
+
+  /**
+   * Event each Lambda@Edge validator runs on, by path pattern: viewer-request
+   * or origin-request, e.g. { '/aes-gcm/*': LambdaEdgeEventType.ORIGIN_REQUEST }.
+   * Country and ASN lists need origin-request; caching needs viewer-request.
+   * @default - LambdaEdgeEventType.VIEWER_REQUEST on every path
+   */
+  eventTypes?: Record<string, cloudfront.LambdaEdgeEventType>;
+
+  /**
+   * Validator settings by path pattern: tolerance, header names, required
+   * claims, exempt paths and error body, e.g.
+   * { '/jwt/*': { requiredClaims: ['sub'], exemptPaths: ['/jwt/health'] } }
+   * @default - each validator's defaults
+   */
+  validatorPolicies?: Record<string, ValidatorPolicy>;
+
+  /**
+   * Caching of validated responses by path pattern, e.g.
+   * { '/cf-function/*': { defaultTtl: cdk.Duration.minutes(5) } }. The
+   * validators still run on every request, and their headers stay out of the
+   * cache key.
+   * @default - no caching (CachingDisabled) on every path
+   */
+  caching?: Record<string, EdgeValidatorCache>;
+
+  /**
+   * HSTS, Content-Security-Policy and X-Content-Type-Options on the validator
+   * paths' responses
+   * @default - the origin's headers
+   */
+  securityHeaders?: SecurityHeaders;
+
+  /**
+   * Prefix of the stack's resource names (secrets, KeyValueStore, tables,
+   * dashboard, Athena workgroup and database) and of its metrics namespace,
+   * so several copies of the lab can share an account. 'dev' gives
+   * dev-bot-validator-secret and EdgeLab/dev/Validators.
+   * @default - no prefix
+   */
+  resourcePrefix?: string;
+
+  /**
+   * Alternate domain names of the distribution, e.g. ['bots.example.com'].
+   * The stack issues a DNS-validated ACM certificate for them in us-east-1
+   * and points A and AAAA alias records in hostedZone at the distribution.
+   * @default - the cloudfront.net domain only
+   */
+  domainNames?: string[];
+
+  /**
+   * Route 53 hosted zone of domainNames (required with domainNames)
+   */
+  hostedZone?: EdgeLabHostedZone;
+
+  /**
+   * AWS WAF web ACL with AWS managed rule groups on the distributions
+   * (together with the rate-based rules of RateLimitEnforcement.WAF)
+   * @default - no managed rules
+   */
+  webAcl?: EdgeLabWebAcl;
+}
+
+/**
+ * Existing Route 53 hosted zone
+ */
+export interface EdgeLabHostedZone {
+  readonly hostedZoneId: string;
+
+  /**
+   * e.g. 'example.com'
+   */
+  readonly zoneName: string;
+}
+
+/**
+ * AWS managed rule groups of the web ACL
+ */
+export interface EdgeLabWebAcl {
+  /**
+   * AWSManagedRulesAmazonIpReputationList: IP addresses Amazon threat
+   * intelligence lists for bots and other threats
+   * @default true
+   */
+  readonly ipReputation?: boolean;
+
+  /**
+   * AWSManagedRulesBotControlRuleSet (common inspection level): self-identified
+   * bots and HTTP libraries, which includes curl and the test scripts. Billed
+   * per request on top of the web ACL.
+   * @default true
+   */
+  readonly botControl?: boolean;
+
+  /**
+   * Count the matches of the managed rules instead of blocking them, to check
+   * their effect in the WAF metrics first
+   * @default false
+   */
+  readonly countOnly?: boolean;
+}
+
+/**
+ * Who enforces the rate limits
+ */
+export enum RateLimitEnforcement {
+  /**
+   * The validators, after a request passes validation: Lambda@Edge in a
+   * sliding window, the CloudFront Function with a fixed-window deny list
+   * published to its KeyValueStore
+   */
+  EDGE = 'edge',
+
+  /**
+   * An AWS WAF web ACL on the distributions, with a rate-based rule per path.
+   * Counts every request by client IP, before the validators run.
+   */
+  WAF = 'waf',
+}
+
+/**
+ * Public JWK for the JWT validator: Ed25519 (EdDSA) or P-256 (ES256)
+ */
+export interface JwtPublicKey {
+  /**
+   * Key ID; tokens name their signing key in the kid header
+   */
+  readonly kid: string;
+  readonly kty: 'OKP' | 'EC';
+  readonly crv: 'Ed25519' | 'P-256';
+  readonly x: string;
+
+  /**
+   * P-256 keys only
+   */
+  readonly y?: string;
+  readonly alg?: 'EdDSA' | 'ES256';
+  readonly use?: 'sig';
+}
+
+/**
+ * Input of the X-Bot-Signature HMAC
+ */
+export enum SigningMode {
+  /**
+   * X-Bot-Token only; a signature is valid for any request within the timestamp window
+   */
+  TIMESTAMP = 'timestamp',
+
+  /**
+   * Canonical request: token, method, URI, sorted query, signed headers and
+   * X-Bot-Content-SHA256 (verified against the body by Lambda@Edge)
+   */
+  CANONICAL_REQUEST = 'canonical',
+}
+
+/**
+ * Request property an AES-GCM token's device claim is compared with
+ */
+export enum DeviceBinding {
+  /**
+   * X-Device-Id request header
+   */
+  HEADER = 'header',
+
+  /**
+   * SHA-256 hex of "<User-Agent>|<client subnet>" (/24 for IPv4, /48 for IPv6)
+   */
+  FINGERPRINT = 'fingerprint',
+}
+
+/**
+ * Traffic config type of the continuous deployment policy
+ */
+export enum CanaryTrafficType {
+  /**
+   * Requests carrying a header go to staging (SingleHeader): testers only
+   */
+  HEADER = 'header',
+
+  /**
+   * A share of all requests goes to staging (SingleWeight): real viewer traffic
+   */
+  WEIGHT = 'weight',
+}
+
+/**
+ * Routing to the staging distribution
+ */
+export interface CanaryTraffic {
+  readonly type: CanaryTrafficType;
+
+  /**
+   * HEADER: request header that selects staging; CloudFront requires the
+   * aws-cf-cd- prefix
+   * @default 'aws-cf-cd-staging'
+   */
+  readonly header?: string;
+
+  /**
+   * HEADER: value the header must have
+   * @default 'true'
+   */
+  readonly headerValue?: string;
+
+  /**
+   * WEIGHT: percent of requests sent to staging, 0 to 15
+   * @default 5
+   */
+  readonly weight?: number;
+
+  /**
+   * WEIGHT: keep a viewer on the distribution that served its first request
+   * @default - every request is routed on its own
+   */
+  readonly sessionStickiness?: CanarySessionStickiness;
+}
+
+/**
+ * Session stickiness of weight-based routing; both TTLs are 300 to 3600 seconds
+ */
+export interface CanarySessionStickiness {
+  /**
+   * How long a viewer stays on its distribution without sending a request
+   */
+  readonly idleTtl: cdk.Duration;
+
+  /**
+   * How long a viewer stays on its distribution at most
+   */
+  readonly maximumTtl: cdk.Duration;
+}
+
+/**
+ * Stable Lambda@Edge version numbers, one per validator function
+ */
+export interface LambdaStableVersions {
+  /**
+   * Stable version of the HMAC validator (e.g. "5")
+   */
+  hmac: string;
+
+  /**
+   * Stable version of the AES-GCM validator (e.g. "3")
+   */
+  aesGcm: string;
+
+  /**
+   * Stable version of the JWT validator (e.g. "2")
+   * @default - the JWT validator isn't part of the canary and both distributions serve the current version
+   */
+  jwt?: string;
+}
+
+/**
+ * Well-known lab keys, used only when labSecrets is true
+ * (must match test/test-requests.sh and test/test-canary.sh). The benchmark
+ * replays request corpora with them.
+ */
+export const LAB_BOT_SECRET = 'my-secret-key-2024';
+export const LAB_AES_KEY_HEX = '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+
+/**
+ * Public half of the lab JWT signing key (the private key is in test/test-requests.sh)
+ */
+const LAB_JWT_PUBLIC_KEY: JwtPublicKey = {
+  kid: 'lab-ed25519',
+  kty: 'OKP',
+  crv: 'Ed25519',
+  x: '4PWTgHjQG3ijFeDIYbWtjwRUwua2HBkzAQREo9YaXSw',
+};
+
+/**
+ * Traffic config of the continuous deployment policy, checked against CloudFront's limits
+ */
+function canaryTrafficConfig(traffic: CanaryTraffic): cloudfront.CfnContinuousDeploymentPolicy.TrafficConfigProperty {
+  if (traffic.type === CanaryTrafficType.HEADER) {
+    if (traffic.weight !== undefined || traffic.sessionStickiness) {
+      throw new Error('canaryTraffic: weight and sessionStickiness only apply to weight-based routing');
+    }
+    const header = traffic.header ?? 'aws-cf-cd-staging';
+    const value = traffic.headerValue ?? 'true';
+    if (!/^aws-cf-cd-[A-Za-z0-9-]+$/.test(header)) {
+      throw new Error(`canaryTraffic.header must be a header name starting with aws-cf-cd-, got "${header}"`);
+    }
+    if (!/^[\x21-\x7e]+$/.test(value)) {
+      throw new Error(`canaryTraffic.headerValue must be printable ASCII without spaces, got "${value}"`);
+    }
+    return { type: 'SingleHeader', singleHeaderConfig: { header, value } };
+  }
+
+  if (traffic.header !== undefined || traffic.headerValue !== undefined) {
+    throw new Error('canaryTraffic: header and headerValue only apply to header-based routing');
+  }
+  const weight = traffic.weight ?? 5;
+  if (!(weight >= 0 && weight <= 15)) {
+    throw new Error(`canaryTraffic.weight must be 0 to 15 (percent), got ${weight}`);
+  }
+  const stickiness = traffic.sessionStickiness;
+  if (stickiness) {
+    const idleTtl = stickiness.idleTtl.toSeconds();
+    const maximumTtl = stickiness.maximumTtl.toSeconds();
+    for (const [name, ttl] of [['idleTtl', idleTtl], ['maximumTtl', maximumTtl]] as const) {
+      if (ttl < 300 || ttl > 3600) {
+        throw new Error(`canaryTraffic.sessionStickiness.${name} must be 300 to 3600 seconds, got ${ttl}`);
+      }
+    }
+    if (idleTtl > maximumTtl) {
+      throw new Error(`canaryTraffic.sessionStickiness.idleTtl (${idleTtl}s) can't exceed maximumTtl (${maximumTtl}s)`);
+    }
+  }
+  return {
+    type: 'SingleWeight',
+    singleWeightConfig: {
+      weight: weight / 100,
+      sessionStickinessConfig: stickiness
+        ? { idleTtl: stickiness.idleTtl.toSeconds(), maximumTtl: stickiness.maximumTtl.toSeconds() }
+        : undefined,
+    },
+  };
+}
+
+/**
+ * Validator path patterns (see the EdgeValidators below)
+ */
+const VALIDATOR_PATHS = ['/cf-function/*', '/lambda-edge/*', '/aes-gcm/*', '/jwt/*'];
+
+/**
+ * Evaluation windows AWS WAF rate-based rules support, in seconds
+ */
+const WAF_RATE_WINDOWS = [60, 120, 300, 600];
+
+/**
+ * Check rate limits against the validator paths and the enforcing side's limits
+ * (limit and window of edge rate limits are checked by each EdgeValidator)
+ */
+function checkRateLimits(rateLimits: Record<string, RateLimit>, enforcement: RateLimitEnforcement): void {
+  for (const [pathPattern, rateLimit] of Object.entries(rateLimits)) {
+    if (!VALIDATOR_PATHS.includes(pathPattern)) {
+      throw new Error(`rateLimits must be keyed by validator path (${VALIDATOR_PATHS.join(', ')}), got "${pathPattern}"`);
+    }
+    const windowSeconds = rateLimit.window.toSeconds();
+    if (enforcement === RateLimitEnforcement.WAF) {
+      if ((rateLimit.key ?? RateLimitKey.CLIENT_IP) !== RateLimitKey.CLIENT_IP) {
+        throw new Error(`rateLimits["${pathPattern}"]: AWS WAF runs before the validators and can only count by client IP`);
+      }
+      if (!WAF_RATE_WINDOWS.includes(windowSeconds)) {
+        throw new Error(`rateLimits["${pathPattern}"].window must be one of ${WAF_RATE_WINDOWS.join(', ')} seconds with AWS WAF, got ${windowSeconds}`);
+      }
+      if (!Number.isInteger(rateLimit.limit) || rateLimit.limit < 10) {
+        throw new Error(`rateLimits["${pathPattern}"].limit must be a whole number of at least 10 with AWS WAF, got ${rateLimit.limit}`);
+      }
+    } else if (pathPattern === '/cf-function/*' && windowSeconds < 60) {
+      // The deny list is built from decision logs, which arrive seconds late
+      throw new Error(`rateLimits["${pathPattern}"].window must be at least 60 seconds for the CloudFront Function, got ${windowSeconds}`);
+    }
+  }
+}
+
+/**
+ * AWS WAF rate-based rule for one validator path: blocks a client IP with 429
+ * once it sends more than `limit` requests under the path within the window
+ */
+function wafRateRule(pathPattern: string, rateLimit: RateLimit, priority: number): wafv2.CfnWebACL.RuleProperty {
+  const name = `rate-limit-${pathPattern.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+  const windowSeconds = rateLimit.window.toSeconds();
+  return {
+    name,
+    priority,
+    action: {
+      block: {
+        customResponse: {
+          responseCode: 429,
+          customResponseBodyKey: 'rate-limited',
+          // WAF re-evaluates the rate continuously; a window is the longest wait
+          responseHeaders: [{ name: 'Retry-After', value: String(windowSeconds) }],
+        },
+      },
+    },
+    statement: {
+      rateBasedStatement: {
+        limit: rateLimit.limit,
+        evaluationWindowSec: windowSeconds,
+        aggregateKeyType: 'IP',
+        scopeDownStatement: {
+          byteMatchStatement: {
+            searchString: pathPattern.replace(/\*$/, ''),
+            fieldToMatch: { uriPath: {} },
+            textTransformations: [{ priority: 0, type: 'NONE' }],
+            positionalConstraint: 'STARTS_WITH',
+          },
+        },
+      },
+    },
+    visibilityConfig: {
+      cloudWatchMetricsEnabled: true,
+      metricName: name,
+      sampledRequestsEnabled: true,
+    },
+  };
+}
+
+/**
+ * AWS WAF rule running an AWS managed rule group, blocking what it matches or
+ * only counting it
+ */
+function wafManagedRule(name: string, priority: number, countOnly: boolean,
+  managedRuleGroupConfigs?: wafv2.CfnWebACL.ManagedRuleGroupConfigProperty[]): wafv2.CfnWebACL.RuleProperty {
+  return {
+    name,
+    priority,
+    overrideAction: countOnly ? { count: {} } : { none: {} },
+    statement: { managedRuleGroupStatement: { vendorName: 'AWS', name, managedRuleGroupConfigs } },
+    visibilityConfig: {
+      cloudWatchMetricsEnabled: true,
+      metricName: name,
+      sampledRequestsEnabled: true,
+    },
+  };
+}
+
+/**
+ * Check the custom domain settings: DNS names in the hosted zone, and the
+ * certificate region CloudFront requires
+ */
+function checkDomainNames(domainNames: string[], hostedZone: EdgeLabHostedZone | undefined, region: string): EdgeLabHostedZone {
+  if (!hostedZone) {
+    throw new Error('domainNames need a hostedZone to validate the certificate and hold the alias records');
+  }
+  if (!cdk.Token.isUnresolved(region) && region !== 'us-east-1') {
+    throw new Error(`domainNames: CloudFront only uses certificates from us-east-1, the stack is in ${region}`);
+  }
+  const zoneName = hostedZone.zoneName.replace(/\.$/, '').toLowerCase();
+  for (const [index, domainName] of domainNames.entries()) {
+    if (!/^(\*\.)?([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/.test(domainName)) {
+      throw new Error(`domainNames must be lowercase DNS names, got "${domainName}"`);
+    }
+    if (domainName !== zoneName && !domainName.endsWith(`.${zoneName}`)) {
+      throw new Error(`domainNames must be in the hosted zone ${zoneName}, got "${domainName}"`);
+    }
+    if (domainNames.indexOf(domainName) !== index) {
+      throw new Error(`domainNames must be unique, got "${domainName}" twice`);
+    }
+  }
+  return { ...hostedZone, zoneName };
+}
+
+/**
+ * Secrets Manager generation settings for a 32-byte key stored as 64 hex
+ * characters under the given JSON field
+ */
+function generatedHexKey(field: string): secretsmanager.SecretStringGenerator {
+  return {
+    secretStringTemplate: JSON.stringify({}),
+    generateStringKey: field,
+    passwordLength: 64,
+    excludeUppercase: true,
+    excludePunctuation: true,
+    excludeCharacters: 'ghijklmnopqrstuvwxyz',
+    includeSpace: false,
+  };
 }
 
 export class EdgeLabStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props?: EdgeLabStackProps) {
     super(scope, id, props);
 
-    const enableCanary = props?.enableCanary ?? false;
     const enableLambdaCanary = props?.enableLambdaCanary ?? false;
     const lambdaCanaryWeight = props?.lambdaCanaryWeight ?? 10;
+    const lambdaStableVersions = props?.lambdaStableVersions;
+    // The staging distribution serves the Lambda@Edge canary versions
+    const enableCanary = (props?.enableCanary ?? false) || enableLambdaCanary;
+    const labSecrets = props?.labSecrets ?? false;
+    const keyRotationInterval = props?.keyRotationInterval ?? cdk.Duration.days(30);
+    const replayCacheStore = props?.replayCache;
+    const replayTableReplicaRegions = props?.replayTableReplicaRegions ?? [];
+    const aesGcmDeviceBinding = props?.aesGcmDeviceBinding ?? [];
+    const signingMode = props?.signingMode ?? SigningMode.TIMESTAMP;
+    const signedHeaders = (props?.signedHeaders ?? ['host']).map((name) => name.toLowerCase());
+    const jwtPublicKeys = props?.jwtPublicKeys ?? (labSecrets ? [LAB_JWT_PUBLIC_KEY] : []);
+    const rateLimits = props?.rateLimits ?? {};
+    const rateLimitEnforcement = props?.rateLimitEnforcement ?? RateLimitEnforcement.EDGE;
+    const rateLimitStore = props?.rateLimitStore ?? RateLimitStore.MEMORY;
+    const rateLimitTableReplicaRegions = props?.rateLimitTableReplicaRegions ?? [];
+    const failModes = props?.failModes ?? {};
+    const eventTypes = props?.eventTypes ?? {};
+    const validatorPolicies = props?.validatorPolicies ?? {};
+    const caching = props?.caching ?? {};
+    const resourcePrefix = props?.resourcePrefix;
+    const domainNames = props?.domainNames ?? [];
+
+    if (resourcePrefix !== undefined && !/^[a-z][a-z0-9-]{0,19}$/.test(resourcePrefix)) {
+      throw new Error(`resourcePrefix must be up to 20 lowercase letters, digits and hyphens starting with a letter, got "${resourcePrefix}"`);
+    }
+    // Resource name with the stack's prefix
+    const named = (name: string) => (resourcePrefix ? `${resourcePrefix}-${name}` : name);
+    const metricsNamespace = resourcePrefix ? `EdgeLab/${resourcePrefix}/Validators` : VALIDATOR_METRICS_NAMESPACE;
+
+    const hostedZone = domainNames.length > 0 ? checkDomainNames(domainNames, props?.hostedZone, this.region) : undefined;
 
-    // Shared secret value for bot validation (HMAC)
-    const botSecretValue = 'my-secret-key-2024';
+    // Validate Lambda canary settings before any resources are created
+    // (the version format is checked by each EdgeValidator)
+    if (enableLambdaCanary && !lambdaStableVersions) {
+      throw new Error('enableLambdaCanary requires lambdaStableVersions (pass -c lambdaStableVersion=<N> -c aesGcmLambdaStableVersion=<N>)');
+    }
+    if (enableLambdaCanary && !(lambdaCanaryWeight > 0 && lambdaCanaryWeight <= 15)) {
+      throw new Error(`lambdaCanaryWeight must be greater than 0 and at most 15 (percent of requests CloudFront sends to the staging distribution), got ${lambdaCanaryWeight}`);
+    }
+    if (props?.lambdaCanaryWeight !== undefined && props?.canaryTraffic) {
+      throw new Error('lambdaCanaryWeight sets the canary traffic; pass either it or canaryTraffic');
+    }
+    const canaryTraffic = canaryTrafficConfig(props?.canaryTraffic ?? (enableLambdaCanary
+      ? { type: CanaryTrafficType.WEIGHT, weight: lambdaCanaryWeight }
+      : { type: CanaryTrafficType.HEADER }));
+
+    checkRateLimits(rateLimits, rateLimitEnforcement);
+
+    for (const pathPattern of Object.keys(failModes)) {
+      if (pathPattern === '/cf-function/*' || !VALIDATOR_PATHS.includes(pathPattern)) {
+        throw new Error(`failModes must be keyed by Lambda@Edge validator path (${VALIDATOR_PATHS.slice(1).join(', ')}), got "${pathPattern}"`);
+      }
+    }
+
+    for (const [pathPattern, eventType] of Object.entries(eventTypes)) {
+      if (pathPattern === '/cf-function/*' || !VALIDATOR_PATHS.includes(pathPattern)) {
+        throw new Error(`eventTypes must be keyed by Lambda@Edge validator path (${VALIDATOR_PATHS.slice(1).join(', ')}), got "${pathPattern}"`);
+      }
+      if (eventType !== cloudfront.LambdaEdgeEventType.VIEWER_REQUEST && eventType !== cloudfront.LambdaEdgeEventType.ORIGIN_REQUEST) {
+        throw new Error(`eventTypes must be viewer-request or origin-request, got "${eventType}" for ${pathPattern}`);
+      }
+    }
 
-    // AES-256-GCM key (32 bytes = 64 hex characters)
-    // In production, this should be securely generated
-    const aesKeyHex = '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+    // Policy values are checked by each EdgeValidator
+    for (const pathPattern of Object.keys(validatorPolicies)) {
+      if (!VALIDATOR_PATHS.includes(pathPattern)) {
+        throw new Error(`validatorPolicies must be keyed by validator path (${VALIDATOR_PATHS.join(', ')}), got "${pathPattern}"`);
+      }
+    }
+
+    // TTLs are checked by each EdgeValidator
+    for (const pathPattern of Object.keys(caching)) {
+      if (!VALIDATOR_PATHS.includes(pathPattern)) {
+        throw new Error(`caching must be keyed by validator path (${VALIDATOR_PATHS.join(', ')}), got "${pathPattern}"`);
+      }
+    }
+
+    for (const name of signedHeaders) {
+      if (!/^[a-z0-9-]+$/.test(name)) {
+        throw new Error(`signedHeaders must be header names, got "${name}"`);
+      }
+    }
+
+    // Catch key mistakes at synth time rather than as 403s at the edge
+    const jwtKeyIds = new Set<string>();
+    for (const jwk of jwtPublicKeys) {
+      if (!jwk.kid || jwtKeyIds.has(jwk.kid)) {
+        throw new Error(`jwtPublicKeys need unique kids, got "${jwk.kid}"`);
+      }
+      jwtKeyIds.add(jwk.kid);
+      if ('d' in jwk) {
+        throw new Error(`jwtPublicKeys must be public keys, "${jwk.kid}" has a private part`);
+      }
+      if (!((jwk.kty === 'OKP' && jwk.crv === 'Ed25519') || (jwk.kty === 'EC' && jwk.crv === 'P-256'))) {
+        throw new Error(`jwtPublicKeys must be Ed25519 (OKP) or P-256 (EC) keys, "${jwk.kid}" is ${jwk.kty} ${jwk.crv}`);
+      }
+      try {
+        crypto.createPublicKey({ key: { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y }, format: 'jwk' });
+      } catch (error) {
+        throw new Error(`jwtPublicKeys: "${jwk.kid}" is not a valid ${jwk.crv} key (${(error as Error).message})`);
+      }
+    }
 
     // ============================================
-    // Secrets Manager Secret (for Lambda@Edge)
+    // Secrets Manager Secrets (for Lambda@Edge)
     // ============================================
+    // Generated mode: 32-byte random keys (64 hex characters), never in the template or outputs.
+    // Lab mode: fixed, well-known keys so the test scripts work without AWS credentials.
     const botSecret = new secretsmanager.Secret(this, 'BotValidatorSecret', {
-      secretName: 'bot-validator-secret',
+      secretName: named('bot-validator-secret'),
       description: 'Secret key for bot validation HMAC signature',
       removalPolicy: cdk.RemovalPolicy.DESTROY,
-      generateSecretString: {
-        secretStringTemplate: JSON.stringify({ secretKey: botSecretValue }),
-        generateStringKey: 'randomSuffix', // This won't be used, but required
-      },
+      generateSecretString: generatedHexKey('secretKey'),
     });
 
-    // Override with our actual secret value
-    const cfnSecret = botSecret.node.defaultChild as secretsmanager.CfnSecret;
-    cfnSecret.addPropertyOverride('SecretString', JSON.stringify({ secretKey: botSecretValue }));
-    cfnSecret.addPropertyDeletionOverride('GenerateSecretString');
-
-    // ============================================
-    // Secrets Manager Secret for AES-GCM (Lambda@Edge)
-    // ============================================
     const aesGcmSecret = new secretsmanager.Secret(this, 'AesGcmValidatorSecret', {
-      secretName: 'aesgcm-validator-secret',
+      secretName: named('aesgcm-validator-secret'),
       description: 'AES-256-GCM key for encrypted token validation',
       removalPolicy: cdk.RemovalPolicy.DESTROY,
-      generateSecretString: {
-        secretStringTemplate: JSON.stringify({ aesKey: aesKeyHex }),
-        generateStringKey: 'randomSuffix',
-      },
+      generateSecretString: generatedHexKey('aesKey'),
+    });
+
+    // Public keys only, so the JWKS can live in the template. A secret rather than
+    // a parameter because the validators already read Secrets Manager in us-east-1.
+    const jwksSecret = new secretsmanager.Secret(this, 'JwtValidatorJwks', {
+      secretName: named('jwt-validator-jwks'),
+      description: 'JWKS (public keys) for JWT validation',
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      secretStringValue: cdk.SecretValue.unsafePlainText(JSON.stringify({ keys: jwtPublicKeys })),
     });
 
-    // Override with our actual AES key value
-    const cfnAesSecret = aesGcmSecret.node.defaultChild as secretsmanager.CfnSecret;
-    cfnAesSecret.addPropertyOverride('SecretString', JSON.stringify({ aesKey: aesKeyHex }));
-    cfnAesSecret.addPropertyDeletionOverride('GenerateSecretString');
+    if (labSecrets) {
+      // Override with the fixed lab values using L1 escape hatch
+      const cfnSecret = botSecret.node.defaultChild as secretsmanager.CfnSecret;
+      cfnSecret.addPropertyOverride('SecretString', JSON.stringify({ secretKey: LAB_BOT_SECRET }));
+      cfnSecret.addPropertyDeletionOverride('GenerateSecretString');
+
+      const cfnAesSecret = aesGcmSecret.node.defaultChild as secretsmanager.CfnSecret;
+      cfnAesSecret.addPropertyOverride('SecretString', JSON.stringify({ aesKey: LAB_AES_KEY_HEX }));
+      cfnAesSecret.addPropertyDeletionOverride('GenerateSecretString');
+    }
 
     // ============================================
     // CloudFront KeyValueStore (for CloudFront Functions)
     // ============================================
     const keyValueStore = new cloudfront.KeyValueStore(this, 'BotValidatorKVS', {
-      keyValueStoreName: 'bot-validator-kvs',
+      keyValueStoreName: named('bot-validator-kvs'),
       comment: 'KeyValueStore for bot validation secret',
     });
 
@@ -102,208 +829,167 @@ export class EdgeLabStack extends cdk.Stack {
     const cfnKvs = keyValueStore.node.defaultChild as cloudfront.CfnKeyValueStore;
     cfnKvs.applyRemovalPolicy(cdk.RemovalPolicy.DESTROY);
 
-    // ============================================
-    // S3 bucket as origin for CloudFront
-    // ============================================
-    const originBucket = new s3.Bucket(this, 'OriginBucket', {
-      removalPolicy: cdk.RemovalPolicy.DESTROY,
-      autoDeleteObjects: true,
-      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+    // Seed the KeyValueStore with the same keyring the HMAC Lambda@Edge reads,
+    // so /cf-function/* works right after deployment
+    new KvsValueSeed(this, 'BotValidatorKVSSeed', {
+      keyValueStore,
+      secret: { secret: botSecret, legacyField: 'secretKey' },
+      key: 'bot-secret-keyring',
     });
 
     // ============================================
-    // S3 bucket for CloudFront access logs
+    // Key rotation (generated keys only)
     // ============================================
-    const logBucket = new s3.Bucket(this, 'AccessLogBucket', {
-      removalPolicy: cdk.RemovalPolicy.DESTROY,
-      autoDeleteObjects: true,
-      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
-      objectOwnership: s3.ObjectOwnership.OBJECT_WRITER,  // Required for CloudFront logging
-      lifecycleRules: [{
-        expiration: cdk.Duration.days(30),  // Auto-delete logs after 30 days
-      }],
-    });
-
-    // Deploy test content to S3
-    new s3deploy.BucketDeployment(this, 'DeployTestContent', {
-      sources: [s3deploy.Source.data('test.html', '<html><body><h1>Bot Validation Passed!</h1></body></html>')],
-      destinationBucket: originBucket,
-      destinationKeyPrefix: 'cf-function',
-    });
+    // Secrets become keyrings on first rotation; validators accept every active key
+    if (!labSecrets) {
+      new KeyringRotation(this, 'BotValidatorKeyRotation', {
+        secret: botSecret,
+        legacyField: 'secretKey',
+        interval: keyRotationInterval,
+        kvsMirror: { keyValueStore, key: 'bot-secret-keyring' },
+      });
 
-    new s3deploy.BucketDeployment(this, 'DeployTestContentLambda', {
-      sources: [s3deploy.Source.data('test.html', '<html><body><h1>Bot Validation Passed!</h1></body></html>')],
-      destinationBucket: originBucket,
-      destinationKeyPrefix: 'lambda-edge',
-    });
+      new KeyringRotation(this, 'AesGcmValidatorKeyRotation', {
+        secret: aesGcmSecret,
+        legacyField: 'aesKey',
+        interval: keyRotationInterval,
+      });
+    }
 
-    new s3deploy.BucketDeployment(this, 'DeployTestContentAesGcm', {
-      sources: [s3deploy.Source.data('test.html', '<html><body><h1>AES-GCM Validation Passed!</h1></body></html>')],
-      destinationBucket: originBucket,
-      destinationKeyPrefix: 'aes-gcm',
-    });
+    // ============================================
+    // Replay cache (optional)
+    // ============================================
+    // Shared by both Lambda@Edge validators (ids are prefixed per validator).
+    // Items expire through DynamoDB TTL once their token's timestamp window is over.
+    let replayCache: EdgeValidatorReplayCache | undefined;
+    let replayTable: dynamodb.TableV2 | undefined;
+    if (replayCacheStore === ReplayCacheStore.DYNAMODB) {
+      const replayTableName = named('edge-validator-replay-cache');
+      replayTable = new dynamodb.TableV2(this, 'ReplayCacheTable', {
+        tableName: replayTableName,
+        partitionKey: { name: 'pk', type: dynamodb.AttributeType.STRING },
+        timeToLiveAttribute: 'expiresAt',
+        billing: dynamodb.Billing.onDemand(),
+        replicas: replayTableReplicaRegions.map((region) => ({ region })),
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+      replayCache = {
+        store: ReplayCacheStore.DYNAMODB,
+        tableName: replayTableName,
+        tableRegions: [this.region, ...replayTableReplicaRegions],
+      };
+    } else if (replayCacheStore === ReplayCacheStore.MEMORY) {
+      replayCache = { store: ReplayCacheStore.MEMORY };
+    }
 
     // ============================================
-    // CloudFront Function with KeyValueStore
+    // Rate limits (optional)
     // ============================================
-    // Read the function code and replace the placeholder with actual KVS ARN
-    const cfFunctionCodePath = path.join(__dirname, '../../cloudfront-function/bot-validator.js');
-    let cfFunctionCode = fs.readFileSync(cfFunctionCodePath, 'utf-8');
-    cfFunctionCode = cfFunctionCode.replace('KVS_ID_PLACEHOLDER', keyValueStore.keyValueStoreArn);
+    // The table holds the CloudFront Function's fixed-window counters and, with
+    // RateLimitStore.DYNAMODB, the Lambda@Edge sliding-window counters
+    // (keys are prefixed per validator). Idle clients expire through DynamoDB TTL.
+    const edgeRateLimits = rateLimitEnforcement === RateLimitEnforcement.EDGE ? rateLimits : {};
+    const rateLimitTableName = named('edge-validator-rate-limits');
+    const rateLimitTableRegions = [this.region, ...rateLimitTableReplicaRegions];
+    let rateLimitTable: dynamodb.TableV2 | undefined;
+    if (edgeRateLimits['/cf-function/*']
+      || (rateLimitStore === RateLimitStore.DYNAMODB && Object.keys(edgeRateLimits).some((pathPattern) => pathPattern !== '/cf-function/*'))) {
+      rateLimitTable = new dynamodb.TableV2(this, 'RateLimitTable', {
+        tableName: rateLimitTableName,
+        partitionKey: { name: 'pk', type: dynamodb.AttributeType.STRING },
+        timeToLiveAttribute: 'expiresAt',
+        billing: dynamodb.Billing.onDemand(),
+        replicas: rateLimitTableReplicaRegions.map((region) => ({ region })),
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    }
 
-    const cfFunction = new cloudfront.Function(this, 'BotValidatorFunction', {
-      code: cloudfront.FunctionCode.fromInline(cfFunctionCode),
-      runtime: cloudfront.FunctionRuntime.JS_2_0,
-      comment: 'Bot validation using CloudFront Function with KeyValueStore',
-      keyValueStore: keyValueStore,
-    });
+    // Rate limit of a Lambda@Edge validator path, with the configured store
+    const lambdaRateLimit = (pathPattern: string): EdgeValidatorRateLimit | undefined => (edgeRateLimits[pathPattern]
+      ? {
+        ...edgeRateLimits[pathPattern],
+        store: rateLimitStore,
+        ...(rateLimitStore === RateLimitStore.DYNAMODB ? { tableName: rateLimitTableName, tableRegions: rateLimitTableRegions } : {}),
+      }
+      : undefined);
 
     // ============================================
-    // Lambda@Edge function with Secrets Manager
+    // AWS WAF web ACL (optional)
     // ============================================
-    // Read the Lambda code and inject the secret name (not ARN, which is a CDK token)
-    const lambdaCodePath = path.join(__dirname, '../../lambda-edge/index.js');
-    let lambdaCode = fs.readFileSync(lambdaCodePath, 'utf-8');
-    lambdaCode = lambdaCode.replace('SECRET_NAME_PLACEHOLDER', 'bot-validator-secret');
-
-    // Write the modified code to a temp directory for bundling
-    const tempLambdaDir = path.join(__dirname, '../../lambda-edge-build');
-    if (!fs.existsSync(tempLambdaDir)) {
-      fs.mkdirSync(tempLambdaDir, { recursive: true });
+    // On both distributions: IP reputation first, then the rate-based rules of
+    // the WAF alternative (one per path), then Bot Control, the most expensive
+    const wafRateLimits = rateLimitEnforcement === RateLimitEnforcement.WAF ? Object.entries(rateLimits) : [];
+    const wafRules: wafv2.CfnWebACL.RuleProperty[] = [];
+    const countOnly = props?.webAcl?.countOnly ?? false;
+    if (props?.webAcl && (props.webAcl.ipReputation ?? true)) {
+      wafRules.push(wafManagedRule('AWSManagedRulesAmazonIpReputationList', wafRules.length, countOnly));
     }
-    fs.writeFileSync(path.join(tempLambdaDir, 'index.js'), lambdaCode);
-
-    // Copy package.json for dependencies
-    const packageJsonPath = path.join(__dirname, '../../lambda-edge/package.json');
-    if (fs.existsSync(packageJsonPath)) {
-      fs.copyFileSync(packageJsonPath, path.join(tempLambdaDir, 'package.json'));
+    for (const [pathPattern, rateLimit] of wafRateLimits) {
+      wafRules.push(wafRateRule(pathPattern, rateLimit, wafRules.length));
     }
-
-    // Run npm install locally before CDK bundling (avoids Docker dependency)
-    const { execFileSync } = require('child_process');
-    try {
-      execFileSync('npm', ['install'], { cwd: tempLambdaDir, stdio: 'inherit' });
-    } catch (error) {
-      console.error('Failed to run npm install for Lambda@Edge:', error);
-      throw error;
+    if (props?.webAcl && (props.webAcl.botControl ?? true)) {
+      wafRules.push(wafManagedRule('AWSManagedRulesBotControlRuleSet', wafRules.length, countOnly,
+        [{ awsManagedRulesBotControlRuleSet: { inspectionLevel: 'COMMON' } }]));
+    }
+    let webAcl: wafv2.CfnWebACL | undefined;
+    if (wafRules.length > 0) {
+      webAcl = new wafv2.CfnWebACL(this, 'WebAcl', {
+        scope: 'CLOUDFRONT',
+        description: 'Managed bot and IP reputation rules and per-client-IP rate limits on the validator paths',
+        defaultAction: { allow: {} },
+        customResponseBodies: wafRateLimits.length > 0
+          ? {
+            'rate-limited': {
+              contentType: 'APPLICATION_JSON',
+              content: JSON.stringify({ error: 'Rate limit exceeded', code: 'RATE_LIMITED' }),
+            },
+          }
+          : undefined,
+        rules: wafRules,
+        visibilityConfig: {
+          cloudWatchMetricsEnabled: true,
+          metricName: named('edge-lab-web-acl'),
+          sampledRequestsEnabled: true,
+        },
+      });
     }
-
-    const lambdaEdgeFunction = new lambda.Function(this, 'BotValidatorLambda', {
-      runtime: lambda.Runtime.NODEJS_24_X,
-      handler: 'index.handler',
-      code: lambda.Code.fromAsset(tempLambdaDir),
-      timeout: cdk.Duration.seconds(5),
-      memorySize: 128,
-      description: 'Bot validation using Lambda@Edge with Secrets Manager',
-    });
-
-    // Grant Lambda@Edge permission to read the secret
-    botSecret.grantRead(lambdaEdgeFunction);
-
-    // Lambda@Edge needs specific trust policy for edgelambda.amazonaws.com
-    const lambdaRole = lambdaEdgeFunction.role as iam.Role;
-    lambdaRole.assumeRolePolicy?.addStatements(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        principals: [new iam.ServicePrincipal('edgelambda.amazonaws.com')],
-        actions: ['sts:AssumeRole'],
-      })
-    );
-
-    // Lambda@Edge needs permission to read secrets from us-east-1
-    lambdaEdgeFunction.addToRolePolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: ['secretsmanager:GetSecretValue'],
-        resources: [botSecret.secretArn],
-      })
-    );
-
-    // Get the function version for Lambda@Edge
-    const lambdaEdgeVersion = lambdaEdgeFunction.currentVersion;
 
     // ============================================
-    // Lambda@Edge Alias for Canary Deployment (HMAC)
+    // Custom domain certificate (optional)
     // ============================================
-    // Create a "live" alias for the Lambda@Edge function
-    // This enables canary deployment using weighted routing
-    const lambdaEdgeAlias = new lambda.Alias(this, 'LambdaEdgeLiveAlias', {
-      aliasName: 'live',
-      version: lambdaEdgeVersion,
-      description: 'Live alias for Lambda@Edge HMAC function - supports weighted canary deployment',
-    });
+    let zone: route53.IHostedZone | undefined;
+    let certificate: acm.ICertificate | undefined;
+    if (hostedZone) {
+      zone = route53.HostedZone.fromHostedZoneAttributes(this, 'HostedZone', hostedZone);
+      certificate = new acm.Certificate(this, 'Certificate', {
+        domainName: domainNames[0],
+        subjectAlternativeNames: domainNames.slice(1),
+        validation: acm.CertificateValidation.fromDns(zone),
+      });
+    }
 
     // ============================================
-    // Lambda@Edge function with AES-GCM (Secrets Manager)
+    // S3 bucket as origin for CloudFront
     // ============================================
-    // Read the Lambda code and inject the secret name (not ARN, which is a CDK token)
-    const aesGcmLambdaCodePath = path.join(__dirname, '../../lambda-edge-aesgcm/index.js');
-    let aesGcmLambdaCode = fs.readFileSync(aesGcmLambdaCodePath, 'utf-8');
-    aesGcmLambdaCode = aesGcmLambdaCode.replace('SECRET_NAME_PLACEHOLDER', 'aesgcm-validator-secret');
-
-    // Write the modified code to a temp directory for bundling
-    const tempAesGcmLambdaDir = path.join(__dirname, '../../lambda-edge-aesgcm-build');
-    if (!fs.existsSync(tempAesGcmLambdaDir)) {
-      fs.mkdirSync(tempAesGcmLambdaDir, { recursive: true });
-    }
-    fs.writeFileSync(path.join(tempAesGcmLambdaDir, 'index.js'), aesGcmLambdaCode);
-
-    // Copy package.json for dependencies
-    const aesGcmPackageJsonPath = path.join(__dirname, '../../lambda-edge-aesgcm/package.json');
-    if (fs.existsSync(aesGcmPackageJsonPath)) {
-      fs.copyFileSync(aesGcmPackageJsonPath, path.join(tempAesGcmLambdaDir, 'package.json'));
-    }
-
-    // Run npm install locally before CDK bundling (avoids Docker dependency)
-    try {
-      execFileSync('npm', ['install'], { cwd: tempAesGcmLambdaDir, stdio: 'inherit' });
-    } catch (error) {
-      console.error('Failed to run npm install for AES-GCM Lambda@Edge:', error);
-      throw error;
-    }
-
-    const aesGcmLambdaEdgeFunction = new lambda.Function(this, 'AesGcmValidatorLambda', {
-      runtime: lambda.Runtime.NODEJS_24_X,
-      handler: 'index.handler',
-      code: lambda.Code.fromAsset(tempAesGcmLambdaDir),
-      timeout: cdk.Duration.seconds(5),
-      memorySize: 128,
-      description: 'Bot validation using Lambda@Edge with AES-256-GCM encrypted tokens',
+    const originBucket = new s3.Bucket(this, 'OriginBucket', {
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      autoDeleteObjects: true,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
     });
 
-    // Grant Lambda@Edge permission to read the secret
-    aesGcmSecret.grantRead(aesGcmLambdaEdgeFunction);
-
-    // Lambda@Edge needs specific trust policy for edgelambda.amazonaws.com
-    const aesGcmLambdaRole = aesGcmLambdaEdgeFunction.role as iam.Role;
-    aesGcmLambdaRole.assumeRolePolicy?.addStatements(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        principals: [new iam.ServicePrincipal('edgelambda.amazonaws.com')],
-        actions: ['sts:AssumeRole'],
-      })
-    );
-
-    // Lambda@Edge needs permission to read secrets from us-east-1
-    aesGcmLambdaEdgeFunction.addToRolePolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: ['secretsmanager:GetSecretValue'],
-        resources: [aesGcmSecret.secretArn],
-      })
-    );
-
-    // Get the function version for Lambda@Edge
-    const aesGcmLambdaEdgeVersion = aesGcmLambdaEdgeFunction.currentVersion;
-
     // ============================================
-    // Lambda@Edge Alias for Canary Deployment (AES-GCM)
+    // S3 bucket for CloudFront access logs
     // ============================================
-    // Create a "live" alias for the AES-GCM Lambda@Edge function
-    const aesGcmLambdaEdgeAlias = new lambda.Alias(this, 'AesGcmLambdaEdgeLiveAlias', {
-      aliasName: 'live',
-      version: aesGcmLambdaEdgeVersion,
-      description: 'Live alias for Lambda@Edge AES-GCM function - supports weighted canary deployment',
+    // Each distribution logs under its own prefix, the analytics table's partitions
+    const logPrefix = 'cloudfront-logs/';
+    const logBucket = new s3.Bucket(this, 'AccessLogBucket', {
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      autoDeleteObjects: true,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      objectOwnership: s3.ObjectOwnership.OBJECT_WRITER,  // Required for CloudFront logging
+      lifecycleRules: [{
+        expiration: cdk.Duration.days(30),  // Auto-delete logs after 30 days
+      }],
     });
 
     // ============================================
@@ -323,7 +1009,7 @@ export class EdgeLabStack extends cdk.Stack {
     });
 
     // ============================================
-    // CloudFront distribution with two cache behaviors
+    // CloudFront distribution (validator behaviors are added below)
     // ============================================
     const distribution = new cloudfront.Distribution(this, 'Distribution', {
       defaultBehavior: {
@@ -332,128 +1018,203 @@ export class EdgeLabStack extends cdk.Stack {
         cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
         originRequestPolicy: cloudfront.OriginRequestPolicy.CORS_S3_ORIGIN,
       },
-      additionalBehaviors: {
-        // CloudFront Function path
-        '/cf-function/*': {
-          origin: s3Origin,
-          viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
-          cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
-          originRequestPolicy: cloudfront.OriginRequestPolicy.CORS_S3_ORIGIN,
-          functionAssociations: [{
-            function: cfFunction,
-            eventType: cloudfront.FunctionEventType.VIEWER_REQUEST,
-          }],
-        },
-        // Lambda@Edge path (HMAC) - uses version (alias created for canary deployment)
-        '/lambda-edge/*': {
-          origin: s3Origin,
-          viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
-          cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
-          originRequestPolicy: cloudfront.OriginRequestPolicy.CORS_S3_ORIGIN,
-          edgeLambdas: [{
-            functionVersion: lambdaEdgeVersion,
-            eventType: cloudfront.LambdaEdgeEventType.VIEWER_REQUEST,
-          }],
-        },
-        // Lambda@Edge path (AES-GCM encrypted tokens) - uses version (alias created for canary deployment)
-        '/aes-gcm/*': {
-          origin: s3Origin,
-          viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
-          cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
-          originRequestPolicy: cloudfront.OriginRequestPolicy.CORS_S3_ORIGIN,
-          edgeLambdas: [{
-            functionVersion: aesGcmLambdaEdgeVersion,
-            eventType: cloudfront.LambdaEdgeEventType.VIEWER_REQUEST,
-          }],
-        },
-      },
       comment: 'CloudFront Edge Function Comparison Lab',
+      domainNames: certificate ? domainNames : undefined,
+      certificate,
+      webAclId: webAcl?.attrArn,
       enableLogging: true,
       logBucket: logBucket,
-      logFilePrefix: 'cloudfront-logs/',
+      logFilePrefix: `${logPrefix}primary/`,
       logIncludesCookies: false,
     });
 
     // ============================================
-    // Canary Deployment (Continuous Deployment)
+    // Staging distribution (Continuous Deployment)
     // ============================================
-    // Only create staging distribution when canary mode is enabled
+    // Only create staging distribution when canary mode is enabled.
+    // Validators register the same behaviors on it (CloudFront Functions use a STAGING copy).
+    let stagingDistribution: cloudfront.Distribution | undefined;
     if (enableCanary) {
-      // Create a staging CloudFront Function (can have different code for testing)
-      // In practice, you'd modify this code to test new functionality
-      const stagingCfFunction = new cloudfront.Function(this, 'StagingBotValidatorFunction', {
-        code: cloudfront.FunctionCode.fromInline(cfFunctionCode),
-        runtime: cloudfront.FunctionRuntime.JS_2_0,
-        comment: 'STAGING - Bot validation using CloudFront Function with KeyValueStore',
-        keyValueStore: keyValueStore,
-      });
-
-      // Create staging distribution (copy of primary with staging function)
-      const stagingDistribution = new cloudfront.Distribution(this, 'StagingDistribution', {
+      stagingDistribution = new cloudfront.Distribution(this, 'StagingDistribution', {
         defaultBehavior: {
           origin: s3Origin,
           viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
           cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
           originRequestPolicy: cloudfront.OriginRequestPolicy.CORS_S3_ORIGIN,
         },
-        additionalBehaviors: {
-          // CloudFront Function path - uses STAGING function
-          '/cf-function/*': {
-            origin: s3Origin,
-            viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
-            cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
-            originRequestPolicy: cloudfront.OriginRequestPolicy.CORS_S3_ORIGIN,
-            functionAssociations: [{
-              function: stagingCfFunction, // Uses staging function
-              eventType: cloudfront.FunctionEventType.VIEWER_REQUEST,
-            }],
-          },
-          // Lambda@Edge path - uses version (canary via alias weights is handled separately)
-          '/lambda-edge/*': {
-            origin: s3Origin,
-            viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
-            cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
-            originRequestPolicy: cloudfront.OriginRequestPolicy.CORS_S3_ORIGIN,
-            edgeLambdas: [{
-              functionVersion: lambdaEdgeVersion,
-              eventType: cloudfront.LambdaEdgeEventType.VIEWER_REQUEST,
-            }],
-          },
-          // Lambda@Edge path (AES-GCM) - uses version
-          '/aes-gcm/*': {
-            origin: s3Origin,
-            viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
-            cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
-            originRequestPolicy: cloudfront.OriginRequestPolicy.CORS_S3_ORIGIN,
-            edgeLambdas: [{
-              functionVersion: aesGcmLambdaEdgeVersion,
-              eventType: cloudfront.LambdaEdgeEventType.VIEWER_REQUEST,
-            }],
-          },
-        },
         comment: 'STAGING - CloudFront Edge Function Comparison Lab',
+        webAclId: webAcl?.attrArn,
+        enableLogging: true,
+        logBucket: logBucket,
+        logFilePrefix: `${logPrefix}staging/`,
+        logIncludesCookies: false,
       });
 
       // Mark staging distribution as staging type using L1 escape hatch
       const cfnStagingDistribution = stagingDistribution.node.defaultChild as cloudfront.CfnDistribution;
       cfnStagingDistribution.addPropertyOverride('DistributionConfig.Staging', true);
+    }
+
+    // Alias records of the custom domains (the staging distribution has none:
+    // the continuous deployment policy routes them to it)
+    if (zone) {
+      const target = route53.RecordTarget.fromAlias(new targets.CloudFrontTarget(distribution));
+      domainNames.forEach((recordName, index) => {
+        new route53.ARecord(this, `AliasRecord${index}`, { zone: zone!, recordName, target });
+        new route53.AaaaRecord(this, `AliasRecordIpv6${index}`, { zone: zone!, recordName, target });
+      });
+    }
+
+    // ============================================
+    // Validators
+    // ============================================
+    const validatorDefaults = {
+      origin: s3Origin,
+      distribution,
+      stagingDistribution,
+      metricsNamespace,
+      securityHeaders: props?.securityHeaders,
+    };
 
+    // Signing settings shared by both HMAC validators
+    const signingSettings = { signingMode, signedHeaders };
+
+    // CloudFront Function with KeyValueStore
+    const cfFunctionValidator = new EdgeValidator(this, 'BotValidator', {
+      ...validatorDefaults,
+      kind: EdgeValidatorKind.CLOUDFRONT_FUNCTION,
+      entry: path.join(__dirname, '../../cloudfront-function/bot-validator.js'),
+      pathPattern: '/cf-function/*',
+      secretSource: { keyValueStore },
+      description: 'Bot validation using CloudFront Function with KeyValueStore',
+      rateLimit: edgeRateLimits['/cf-function/*'],
+      policy: validatorPolicies['/cf-function/*'],
+      cache: caching['/cf-function/*'],
+      handlerSettings: signingSettings,
+      testContent: { bucket: originBucket, html: '<html><body><h1>Bot Validation Passed!</h1></body></html>' },
+    });
+
+    // Lambda@Edge function with Secrets Manager (HMAC)
+    const hmacValidator = new EdgeValidator(this, 'HmacValidator', {
+      ...validatorDefaults,
+      kind: EdgeValidatorKind.LAMBDA_EDGE,
+      entry: path.join(__dirname, '../../lambda-edge/index.js'),
+      pathPattern: '/lambda-edge/*',
+      secretSource: { secret: botSecret, secretName: named('bot-validator-secret') },
+      description: 'Bot validation using Lambda@Edge with Secrets Manager',
+      canary: enableLambdaCanary ? { stableVersion: lambdaStableVersions!.hmac } : undefined,
+      replayCache,
+      rateLimit: lambdaRateLimit('/lambda-edge/*'),
+      failMode: failModes['/lambda-edge/*'],
+      eventType: eventTypes['/lambda-edge/*'],
+      policy: validatorPolicies['/lambda-edge/*'],
+      cache: caching['/lambda-edge/*'],
+      handlerSettings: signingSettings,
+      // Lets the function check X-Bot-Content-SHA256 against the body
+      includeBody: signingMode === SigningMode.CANONICAL_REQUEST,
+      testContent: { bucket: originBucket, html: '<html><body><h1>Bot Validation Passed!</h1></body></html>' },
+    });
+
+    // Lambda@Edge function with AES-GCM (Secrets Manager)
+    const aesGcmValidator = new EdgeValidator(this, 'AesGcmValidator', {
+      ...validatorDefaults,
+      kind: EdgeValidatorKind.LAMBDA_EDGE,
+      entry: path.join(__dirname, '../../lambda-edge-aesgcm/index.js'),
+      pathPattern: '/aes-gcm/*',
+      secretSource: { secret: aesGcmSecret, secretName: named('aesgcm-validator-secret') },
+      description: 'Bot validation using Lambda@Edge with AES-256-GCM encrypted tokens',
+      canary: enableLambdaCanary ? { stableVersion: lambdaStableVersions!.aesGcm } : undefined,
+      replayCache,
+      rateLimit: lambdaRateLimit('/aes-gcm/*'),
+      failMode: failModes['/aes-gcm/*'],
+      eventType: eventTypes['/aes-gcm/*'],
+      policy: validatorPolicies['/aes-gcm/*'],
+      cache: caching['/aes-gcm/*'],
+      handlerSettings: { deviceBinding: aesGcmDeviceBinding },
+      testContent: { bucket: originBucket, html: '<html><body><h1>AES-GCM Validation Passed!</h1></body></html>' },
+    });
+
+    // Lambda@Edge function with signed JWTs (public keys in Secrets Manager)
+    const jwtValidator = new EdgeValidator(this, 'JwtValidator', {
+      ...validatorDefaults,
+      kind: EdgeValidatorKind.LAMBDA_EDGE,
+      entry: path.join(__dirname, '../../lambda-edge-jwt/index.js'),
+      pathPattern: '/jwt/*',
+      secretSource: { secret: jwksSecret, secretName: named('jwt-validator-jwks') },
+      description: 'Bot validation using Lambda@Edge with EdDSA / ES256 signed JWTs',
+      canary: enableLambdaCanary && lambdaStableVersions!.jwt ? { stableVersion: lambdaStableVersions!.jwt } : undefined,
+      rateLimit: lambdaRateLimit('/jwt/*'),
+      failMode: failModes['/jwt/*'],
+      eventType: eventTypes['/jwt/*'],
+      policy: validatorPolicies['/jwt/*'],
+      cache: caching['/jwt/*'],
+      handlerSettings: {
+        issuer: props?.jwtIssuer ?? '',
+        audience: props?.jwtAudience ?? '',
+      },
+      testContent: { bucket: originBucket, html: '<html><body><h1>JWT Validation Passed!</h1></body></html>' },
+    });
+
+    // ============================================
+    // Decision metrics and dashboard
+    // ============================================
+    // Names match VALIDATOR in each handler's decision logs
+    const namedValidators = [
+      { name: 'cf-function', validator: cfFunctionValidator },
+      { name: 'hmac', validator: hmacValidator },
+      { name: 'aes-gcm', validator: aesGcmValidator },
+      { name: 'jwt', validator: jwtValidator },
+    ];
+    const validatorDashboard = new ValidatorDashboard(this, 'ValidatorDashboard', {
+      validators: namedValidators,
+      regions: props?.metricsRegions,
+      dashboardName: named('edge-validators'),
+      metricsNamespace,
+    });
+
+    // The CloudFront Function's deny list, published from its decision logs
+    const cfFunctionRateLimit = edgeRateLimits['/cf-function/*'];
+    if (cfFunctionRateLimit) {
+      new RateLimitPublisher(this, 'RateLimitPublisher', {
+        logGroups: validatorDashboard.functionLogGroups.get(cfFunctionValidator)!,
+        keyValueStore,
+        table: rateLimitTable!,
+        limit: cfFunctionRateLimit.limit,
+        window: cfFunctionRateLimit.window,
+      });
+    }
+
+    // ============================================
+    // Access log analytics (optional)
+    // ============================================
+    const analytics = props?.enableAnalytics
+      ? new AccessLogAnalytics(this, 'AccessLogAnalytics', {
+        logBucket,
+        logPrefix,
+        validators: [cfFunctionValidator, hmacValidator, aesGcmValidator, jwtValidator],
+        workGroupName: named('edge-lab-analytics'),
+        // Glue database names can't have hyphens
+        databaseName: named('edge_lab').replace(/-/g, '_'),
+      })
+      : undefined;
+
+    const lambdaEdgeFunction = hmacValidator.lambdaFunction!;
+    const aesGcmLambdaEdgeFunction = aesGcmValidator.lambdaFunction!;
+
+    // ============================================
+    // Canary Deployment (Continuous Deployment)
+    // ============================================
+    let continuousDeploymentPolicy: cloudfront.CfnContinuousDeploymentPolicy | undefined;
+    if (stagingDistribution) {
       // Create Continuous Deployment Policy
-      // Traffic configuration: Header-based routing for controlled testing
-      const continuousDeploymentPolicy = new cloudfront.CfnContinuousDeploymentPolicy(
+      // Traffic configuration: header-based routing for controlled testing, or a
+      // share of all requests (the canary ramp workflow raises the weight while it runs)
+      continuousDeploymentPolicy = new cloudfront.CfnContinuousDeploymentPolicy(
         this, 'CanaryDeploymentPolicy', {
           continuousDeploymentPolicyConfig: {
             enabled: true,
             stagingDistributionDnsNames: [stagingDistribution.distributionDomainName],
-            trafficConfig: {
-              // Using header-based routing for controlled canary testing
-              // Requests with 'aws-cf-cd-staging: true' header go to staging
-              type: 'SingleHeader',
-              singleHeaderConfig: {
-                header: 'aws-cf-cd-staging',
-                value: 'true',
-              },
-            },
+            trafficConfig: canaryTraffic,
           },
         }
       );
@@ -476,9 +1237,26 @@ export class EdgeLabStack extends cdk.Stack {
         description: 'Staging Distribution ID (needed for promotion)',
       });
 
+      const header = canaryTraffic.singleHeaderConfig as cloudfront.CfnContinuousDeploymentPolicy.SingleHeaderConfigProperty | undefined;
       new cdk.CfnOutput(this, 'CanaryTestCommand', {
-        value: `curl -H "aws-cf-cd-staging: true" https://${distribution.distributionDomainName}/cf-function/test.html`,
-        description: 'Command to test the staging distribution via header-based routing',
+        value: header
+          ? `curl -H "${header.header}: ${header.value}" https://${distribution.distributionDomainName}/cf-function/test.html`
+          : `CANARY_MODE=weight ./test/test-canary.sh ${distribution.distributionDomainName}`,
+        description: header
+          ? 'Command to test the staging distribution via header-based routing'
+          : 'Command to measure the share of requests the staging distribution serves',
+      });
+
+      // Each copy of the CloudFront Function logs its decisions to its own group,
+      // which tells test-canary.sh which distribution served a request
+      new cdk.CfnOutput(this, 'CloudFrontFunctionLogGroup', {
+        value: `/aws/cloudfront/function/${cfFunctionValidator.cfFunction!.functionName}`,
+        description: 'Decision logs of the primary distribution\'s CloudFront Function',
+      });
+
+      new cdk.CfnOutput(this, 'StagingCloudFrontFunctionLogGroup', {
+        value: `/aws/cloudfront/function/${cfFunctionValidator.stagingCfFunction!.functionName}`,
+        description: 'Decision logs of the staging distribution\'s CloudFront Function',
       });
 
       new cdk.CfnOutput(this, 'PromoteCommand', {
@@ -487,23 +1265,43 @@ export class EdgeLabStack extends cdk.Stack {
       });
     }
 
+    // ============================================
+    // Canary ramp workflow
+    // ============================================
+    // Ramps the staging distribution, watching the alarms
+    if (stagingDistribution) {
+      const canaryRamp = new CanaryRamp(this, 'CanaryRamp', {
+        ...props?.canaryRamp,
+        distribution,
+        stagingDistribution,
+        continuousDeploymentPolicy: continuousDeploymentPolicy!,
+        validators: namedValidators,
+        metricsNamespace,
+      });
+
+      new cdk.CfnOutput(this, 'CanaryRampStateMachineArn', {
+        value: canaryRamp.stateMachine.stateMachineArn,
+        description: 'Step Functions workflow that ramps, promotes or rolls back the canary',
+      });
+
+      new cdk.CfnOutput(this, 'CanaryRampStartCommand', {
+        value: `aws stepfunctions start-execution --state-machine-arn ${canaryRamp.stateMachine.stateMachineArn} --region us-east-1`,
+        description: 'Command to start a canary ramp',
+      });
+    }
+
     // ============================================
     // Lambda@Edge Canary Deployment Outputs
     // ============================================
-    // Always output Lambda alias information for canary deployment support
+    // Always output Lambda version information for canary deployment support
     new cdk.CfnOutput(this, 'LambdaEdgeFunctionName', {
       value: lambdaEdgeFunction.functionName,
       description: 'Lambda@Edge HMAC function name (for canary deployment)',
     });
 
-    new cdk.CfnOutput(this, 'LambdaEdgeAliasArn', {
-      value: lambdaEdgeAlias.functionArn,
-      description: 'Lambda@Edge HMAC alias ARN (used by CloudFront)',
-    });
-
     new cdk.CfnOutput(this, 'LambdaEdgeCurrentVersionArn', {
-      value: lambdaEdgeVersion.functionArn,
-      description: 'Lambda@Edge HMAC current version ARN',
+      value: hmacValidator.currentVersion!.functionArn,
+      description: 'Lambda@Edge HMAC current version ARN (the canary version in Lambda canary mode)',
     });
 
     new cdk.CfnOutput(this, 'AesGcmLambdaEdgeFunctionName', {
@@ -511,31 +1309,43 @@ export class EdgeLabStack extends cdk.Stack {
       description: 'Lambda@Edge AES-GCM function name (for canary deployment)',
     });
 
-    new cdk.CfnOutput(this, 'AesGcmLambdaEdgeAliasArn', {
-      value: aesGcmLambdaEdgeAlias.functionArn,
-      description: 'Lambda@Edge AES-GCM alias ARN (used by CloudFront)',
-    });
-
-    new cdk.CfnOutput(this, 'LambdaCanarySetupCommand', {
-      value: `aws lambda update-alias --function-name ${lambdaEdgeFunction.functionName} --name live --routing-config AdditionalVersionWeights=\\{\\\"<NEW_VERSION>\\\":0.1\\} --region us-east-1`,
-      description: 'Command to enable Lambda canary (replace <NEW_VERSION> with version number, 0.1 = 10% traffic)',
-    });
-
-    new cdk.CfnOutput(this, 'LambdaCanaryPromoteCommand', {
-      value: `aws lambda update-alias --function-name ${lambdaEdgeFunction.functionName} --name live --function-version <NEW_VERSION> --routing-config AdditionalVersionWeights=\\{\\} --region us-east-1`,
-      description: 'Command to promote canary to 100% (replace <NEW_VERSION> with version to promote)',
-    });
-
     new cdk.CfnOutput(this, 'LambdaListVersionsCommand', {
       value: `aws lambda list-versions-by-function --function-name ${lambdaEdgeFunction.functionName} --region us-east-1`,
       description: 'Command to list all Lambda versions',
     });
 
     new cdk.CfnOutput(this, 'LambdaCanaryNote', {
-      value: 'CloudFront initially uses specific Lambda version. For alias-based canary: 1) Update alias weights, 2) Optionally update CloudFront to use alias ARN via console/CLI',
+      value: enableLambdaCanary
+        ? 'The primary distribution serves the stable versions and the staging distribution the canary versions; the continuous deployment policy splits the requests. Promote with the canary ramp workflow, or redeploy with the canary versions as the new stable versions'
+        : 'Both distributions use the version published from the current code. For a canary: deploy with -c lambdaCanary=true -c lambdaStableVersion=<N> -c aesGcmLambdaStableVersion=<N>',
       description: 'Note about Lambda@Edge canary deployment approach',
     });
 
+    if (enableLambdaCanary) {
+      new cdk.CfnOutput(this, 'LambdaEdgeStableVersionArn', {
+        value: hmacValidator.stableVersion!.functionArn,
+        description: 'Lambda@Edge HMAC stable version ARN (served by the primary distribution)',
+      });
+
+      new cdk.CfnOutput(this, 'AesGcmLambdaEdgeStableVersionArn', {
+        value: aesGcmValidator.stableVersion!.functionArn,
+        description: 'Lambda@Edge AES-GCM stable version ARN (served by the primary distribution)',
+      });
+
+      new cdk.CfnOutput(this, 'AesGcmLambdaEdgeCanaryVersionArn', {
+        value: aesGcmValidator.currentVersion!.functionArn,
+        description: 'Lambda@Edge AES-GCM canary version ARN (served by the staging distribution)',
+      });
+
+      // A canaryTraffic of its own sets the share instead
+      if (!props?.canaryTraffic) {
+        new cdk.CfnOutput(this, 'LambdaCanaryWeight', {
+          value: String(lambdaCanaryWeight),
+          description: 'Percentage of requests the staging distribution (the Lambda@Edge canary versions) serves',
+        });
+      }
+    }
+
     // ============================================
     // Outputs
     // ============================================
@@ -544,21 +1354,35 @@ export class EdgeLabStack extends cdk.Stack {
       description: 'CloudFront Distribution Domain Name',
     });
 
+    // The test URLs use the first custom domain, once its records exist
+    const siteDomainName = domainNames[0] ?? distribution.distributionDomainName;
+    if (domainNames.length > 0) {
+      new cdk.CfnOutput(this, 'DomainNames', {
+        value: domainNames.join(','),
+        description: 'Custom domain names of the distribution (alias records in the hosted zone)',
+      });
+    }
+
     new cdk.CfnOutput(this, 'CloudFrontFunctionTestUrl', {
-      value: `https://${distribution.distributionDomainName}/cf-function/test.html`,
+      value: `https://${siteDomainName}/cf-function/test.html`,
       description: 'Test URL for CloudFront Function validation',
     });
 
     new cdk.CfnOutput(this, 'LambdaEdgeTestUrl', {
-      value: `https://${distribution.distributionDomainName}/lambda-edge/test.html`,
+      value: `https://${siteDomainName}/lambda-edge/test.html`,
       description: 'Test URL for Lambda@Edge HMAC validation',
     });
 
     new cdk.CfnOutput(this, 'AesGcmTestUrl', {
-      value: `https://${distribution.distributionDomainName}/aes-gcm/test.html`,
+      value: `https://${siteDomainName}/aes-gcm/test.html`,
       description: 'Test URL for Lambda@Edge AES-GCM validation',
     });
 
+    new cdk.CfnOutput(this, 'JwtTestUrl', {
+      value: `https://${siteDomainName}/jwt/test.html`,
+      description: 'Test URL for Lambda@Edge JWT validation',
+    });
+
     new cdk.CfnOutput(this, 'BucketName', {
       value: originBucket.bucketName,
       description: 'S3 Origin Bucket Name',
@@ -574,19 +1398,48 @@ export class EdgeLabStack extends cdk.Stack {
       description: 'Secrets Manager Secret ARN (for Lambda@Edge AES-GCM)',
     });
 
-    new cdk.CfnOutput(this, 'AesGcmKeyHex', {
-      value: aesKeyHex,
-      description: 'AES-256-GCM key in hex format (for generating test tokens)',
+    new cdk.CfnOutput(this, 'JwksSecretArn', {
+      value: jwksSecret.secretArn,
+      description: 'Secrets Manager Secret ARN holding the JWKS (for Lambda@Edge JWT)',
     });
 
-    new cdk.CfnOutput(this, 'KeyValueStoreArn', {
-      value: keyValueStore.keyValueStoreArn,
-      description: 'CloudFront KeyValueStore ARN',
+    new cdk.CfnOutput(this, 'JwtLambdaEdgeFunctionName', {
+      value: jwtValidator.lambdaFunction!.functionName,
+      description: 'Lambda@Edge JWT function name',
     });
 
-    new cdk.CfnOutput(this, 'KeyValueStoreInitCommand', {
-      value: `aws cloudfront-keyvaluestore put-key --kvs-arn ${keyValueStore.keyValueStoreArn} --key bot-secret-key --value ${botSecretValue} --if-match $(aws cloudfront-keyvaluestore describe-key-value-store --kvs-arn ${keyValueStore.keyValueStoreArn} --query 'ETag' --output text)`,
-      description: 'Run this command after deployment to initialize the KeyValueStore with the secret',
+    // Key material is only published for the well-known lab keys
+    if (labSecrets) {
+      new cdk.CfnOutput(this, 'AesGcmKeyHex', {
+        value: LAB_AES_KEY_HEX,
+        description: 'AES-256-GCM key in hex format (for generating test tokens)',
+      });
+    }
+
+    if (replayTable) {
+      new cdk.CfnOutput(this, 'ReplayCacheTableName', {
+        value: replayTable.tableName,
+        description: 'DynamoDB global table holding accepted token IDs (replay cache)',
+      });
+    }
+
+    if (rateLimitTable) {
+      new cdk.CfnOutput(this, 'RateLimitTableName', {
+        value: rateLimitTable.tableName,
+        description: 'DynamoDB global table holding the per-client rate limit counters',
+      });
+    }
+
+    if (webAcl) {
+      new cdk.CfnOutput(this, 'WebAclArn', {
+        value: webAcl.attrArn,
+        description: 'AWS WAF web ACL of the distributions (managed rules and rate-based rules)',
+      });
+    }
+
+    new cdk.CfnOutput(this, 'KeyValueStoreArn', {
+      value: keyValueStore.keyValueStoreArn,
+      description: 'CloudFront KeyValueStore ARN (seeded from SecretArn at deploy time)',
     });
 
     new cdk.CfnOutput(this, 'AccessLogBucketName', {
@@ -594,8 +1447,25 @@ export class EdgeLabStack extends cdk.Stack {
       description: 'S3 bucket containing CloudFront access logs',
     });
 
+    new cdk.CfnOutput(this, 'DashboardUrl', {
+      value: `https://${this.region}.console.aws.amazon.com/cloudwatch/home?region=${this.region}#dashboards/dashboard/${validatorDashboard.dashboard.dashboardName}`,
+      description: 'CloudWatch dashboard with allow/deny counts by reason for every validator',
+    });
+
+    if (analytics) {
+      new cdk.CfnOutput(this, 'AthenaWorkGroup', {
+        value: analytics.workGroup.name,
+        description: 'Athena workgroup with the saved validator queries',
+      });
+
+      new cdk.CfnOutput(this, 'AthenaDatabase', {
+        value: analytics.databaseName,
+        description: `Glue database holding the ${analytics.tableName} table`,
+      });
+    }
+
     new cdk.CfnOutput(this, 'AthenaQueryExample', {
-      value: `SELECT date, time, "cs-uri-stem", "sc-status", COUNT(*) as count FROM cloudfront_logs WHERE "cs-uri-stem" LIKE '/cf-function/%' OR "cs-uri-stem" LIKE '/lambda-edge/%' GROUP BY date, time, "cs-uri-stem", "sc-status"`,
+      value: `SELECT "date", cs_uri_stem, sc_status, COUNT(*) AS count FROM cloudfront_logs WHERE distribution = 'primary' AND (cs_uri_stem LIKE '/cf-function/%' OR cs_uri_stem LIKE '/lambda-edge/%') GROUP BY "date", cs_uri_stem, sc_status`,
       description: 'Example Athena query to analyze bot validation results',
     });
   }
@@ -0,0 +1,897 @@
+import * as cdk from 'aws-cdk-lib';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as s3deploy from 'aws-cdk-lib/aws-s3-deployment';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as fs from 'fs';
+import { Construct } from 'constructs';
+import {
+  bundleLambdaCode,
+  MAX_LAMBDA_ZIP_BYTES,
+  MAX_VIEWER_LAMBDA_ZIP_BYTES,
+  RATE_LIMIT_ENTRY,
+  RATE_LIMIT_FILE,
+  SECRET_CACHE_ENTRY,
+  SECRET_CACHE_FILE,
+} from './lambda-asset';
+import {
+  cloudFrontFunctionCode,
+  EDGE_RESPONSE_ENTRY,
+  EDGE_RESPONSE_FILE,
+  NETWORK_POLICY_ENTRY,
+  NETWORK_POLICY_FILE,
+} from './function-code';
+import { KvsValueSeed } from './kvs-secret-seed';
+import {
+  applyHandlerSettings,
+  networkPolicyKvsValue,
+  NETWORK_POLICY_KVS_KEY,
+  resolveValidatorConfig,
+  TOKEN_VALIDATOR_KINDS,
+  ValidatorConfig,
+  ValidatorHandlerSettings,
+  ValidatorPolicy,
+  VALIDATOR_CONFIG_FILE,
+  VALIDATOR_POLICY_KVS_KEY,
+} from './validator-policy';
+
+/**
+ * Default namespace of the validators' decision metrics (metricsNamespace in
+ * the Lambda@Edge handlers' config)
+ */
+export const VALIDATOR_METRICS_NAMESPACE = 'EdgeLab/Validators';
+
+/**
+ * Headers the validators add to the origin request (X-Validated-* details of
+ * the token, X-Validation-Skipped in fail-open mode). Their response headers
+ * policy removes them from responses, so an origin echoing them can't leak
+ * them to clients, cache hits included.
+ */
+export const VALIDATION_REQUEST_HEADERS = [
+  'X-Validated-Device',
+  'X-Validated-Timestamp',
+  'X-Validated-Subject',
+  'X-Validated-Key-Id',
+  'X-Validation-Skipped',
+];
+
+/**
+ * Where the validator code runs
+ */
+export enum EdgeValidatorKind {
+  /**
+   * CloudFront Function (JS 2.0 runtime), secret read from a KeyValueStore
+   */
+  CLOUDFRONT_FUNCTION = 'cloudfront-function',
+
+  /**
+   * Lambda@Edge function, secret read from Secrets Manager in us-east-1
+   */
+  LAMBDA_EDGE = 'lambda-edge',
+}
+
+/**
+ * Secret held in a CloudFront KeyValueStore (CloudFront Functions)
+ */
+export interface KeyValueStoreSecretSource {
+  readonly keyValueStore: cloudfront.IKeyValueStore;
+}
+
+/**
+ * Secret held in Secrets Manager (Lambda@Edge)
+ */
+export interface SecretsManagerSecretSource {
+  readonly secret: secretsmanager.ISecret;
+
+  /**
+   * Secret name written into the handler's config module.
+   * The ARN is a CDK token and can't be inlined (Lambda@Edge doesn't support env vars).
+   */
+  readonly secretName: string;
+}
+
+export type EdgeValidatorSecretSource = KeyValueStoreSecretSource | SecretsManagerSecretSource;
+
+/**
+ * Lambda@Edge canary split by CloudFront: the primary distribution keeps a
+ * published stable version and the staging distribution serves the current
+ * code, to the share of requests its continuous deployment policy sends it
+ */
+export interface EdgeValidatorCanary {
+  /**
+   * Published version number the primary distribution keeps serving
+   */
+  readonly stableVersion: string;
+}
+
+/**
+ * Where a Lambda@Edge validator remembers the tokens it accepted
+ */
+export enum ReplayCacheStore {
+  /**
+   * Per-container Map; a replay that reaches another container isn't detected
+   */
+  MEMORY = 'memory',
+
+  /**
+   * DynamoDB (global) table shared by every container and region
+   */
+  DYNAMODB = 'dynamodb',
+}
+
+/**
+ * Replay protection for a Lambda@Edge validator: each token is accepted once
+ * within its timestamp window
+ */
+export interface EdgeValidatorReplayCache {
+  readonly store: ReplayCacheStore;
+
+  /**
+   * Table for ReplayCacheStore.DYNAMODB: partition key 'pk' (string),
+   * TTL attribute 'expiresAt'. A fixed name, since it is injected into the
+   * handler (Lambda@Edge doesn't support env vars).
+   */
+  readonly tableName?: string;
+
+  /**
+   * Regions with a replica of the table. Each function instance uses its own
+   * region if listed, otherwise the first one.
+   */
+  readonly tableRegions?: string[];
+}
+
+/**
+ * What a rate limit counts requests by
+ */
+export enum RateLimitKey {
+  /**
+   * Viewer IP address
+   */
+  CLIENT_IP = 'ip',
+
+  /**
+   * The validated token: the device claim (AES-GCM) or the sub claim (JWT),
+   * falling back to the client IP without a claim. Token validators only: HMAC
+   * clients share the signing key, so its requests would share one count.
+   */
+  TOKEN = 'token',
+}
+
+/**
+ * Where a Lambda@Edge validator keeps its rate limit counters
+ */
+export enum RateLimitStore {
+  /**
+   * Per-container Map; each container counts on its own
+   */
+  MEMORY = 'memory',
+
+  /**
+   * DynamoDB (global) table shared by every container and region
+   */
+  DYNAMODB = 'dynamodb',
+}
+
+/**
+ * Per-client rate limit on a validator path, applied to requests that pass
+ * validation; clients over it get 429 with Retry-After
+ */
+export interface RateLimit {
+  /**
+   * Requests a client may send per window
+   */
+  readonly limit: number;
+
+  /**
+   * Window length, whole seconds
+   */
+  readonly window: cdk.Duration;
+
+  /**
+   * What requests are counted by
+   * @default RateLimitKey.CLIENT_IP
+   */
+  readonly key?: RateLimitKey;
+}
+
+/**
+ * Rate limit of a validator. Lambda@Edge counts in a sliding window itself; a
+ * CloudFront Function turns away the clients the rate limit publisher lists
+ * in its KeyValueStore (see RateLimitPublisher).
+ */
+export interface EdgeValidatorRateLimit extends RateLimit {
+  /**
+   * Counter store (Lambda@Edge only)
+   * @default RateLimitStore.MEMORY
+   */
+  readonly store?: RateLimitStore;
+
+  /**
+   * Table for RateLimitStore.DYNAMODB: partition key 'pk' (string), TTL
+   * attribute 'expiresAt'. A fixed name, injected into the handler.
+   */
+  readonly tableName?: string;
+
+  /**
+   * Regions with a replica of the table. Each function instance uses its own
+   * region if listed, otherwise the first one.
+   */
+  readonly tableRegions?: string[];
+}
+
+/**
+ * How a Lambda@Edge validator answers when it has no usable secret: Secrets
+ * Manager can't be reached and the cached secret is missing or too old
+ */
+export enum FailMode {
+  /**
+   * Deny with 503 and Retry-After
+   */
+  CLOSED = 'closed',
+
+  /**
+   * Pass the request on unvalidated, with an X-Validation-Skipped header the
+   * origin can act on
+   */
+  OPEN = 'open',
+}
+
+/**
+ * Caching of validated responses. The cache key has no headers or cookies, so
+ * the validator's token headers never split or leak through the cache, and
+ * the validator still runs on every viewer request, cache hits included.
+ */
+export interface EdgeValidatorCache {
+  /**
+   * How long responses are cached when the origin sends no Cache-Control
+   */
+  readonly defaultTtl: cdk.Duration;
+
+  /**
+   * Cap on the origin's Cache-Control max-age
+   * @default - defaultTtl
+   */
+  readonly maxTtl?: cdk.Duration;
+
+  /**
+   * Query strings that are part of the cache key (and forwarded to the origin)
+   * @default - none
+   */
+  readonly queryStrings?: string[];
+}
+
+/**
+ * Security headers added to the path's responses, overriding the origin's
+ */
+export interface SecurityHeaders {
+  /**
+   * Strict-Transport-Security max-age (includeSubDomains)
+   * @default 365 days
+   */
+  readonly hstsMaxAge?: cdk.Duration;
+
+  /**
+   * Content-Security-Policy
+   * @default "default-src 'self'; frame-ancestors 'none'"
+   */
+  readonly contentSecurityPolicy?: string;
+}
+
+/**
+ * Test page deployed under the validator path
+ */
+export interface EdgeValidatorTestContent {
+  readonly bucket: s3.IBucket;
+  readonly html: string;
+}
+
+export interface EdgeValidatorProps {
+  /**
+   * CloudFront Function or Lambda@Edge
+   */
+  readonly kind: EdgeValidatorKind;
+
+  /**
+   * Handler source file. Lambda@Edge handlers are bundled with their
+   * dependencies by esbuild; CloudFront Function code is checked against the
+   * JS 2.0 runtime and its 10 KB limit.
+   */
+  readonly entry: string;
+
+  /**
+   * Cache behavior path pattern, e.g. '/cf-function/*'
+   */
+  readonly pathPattern: string;
+
+  /**
+   * Where the validator reads its secret from
+   */
+  readonly secretSource: EdgeValidatorSecretSource;
+
+  /**
+   * Event the validator is associated with. On origin events a Lambda@Edge
+   * validator gets its headers, and the viewer's country and ASN, through an
+   * origin request policy, and runs on cache misses only.
+   * @default viewer-request
+   */
+  readonly eventType?: cloudfront.FunctionEventType | cloudfront.LambdaEdgeEventType;
+
+  /**
+   * Origin serving the protected content
+   */
+  readonly origin: cloudfront.IOrigin;
+
+  /**
+   * Primary distribution the behavior is registered on
+   */
+  readonly distribution: cloudfront.Distribution;
+
+  /**
+   * Staging distribution (continuous deployment), if any.
+   * CloudFront Functions get a separate STAGING function here.
+   */
+  readonly stagingDistribution?: cloudfront.Distribution;
+
+  /**
+   * Function description / comment
+   */
+  readonly description: string;
+
+  /**
+   * Canary (Lambda@Edge only); needs the staging distribution
+   * @default - both distributions use the current version
+   */
+  readonly canary?: EdgeValidatorCanary;
+
+  /**
+   * Replay cache (Lambda@Edge only)
+   * @default - tokens can be reused within the timestamp window
+   */
+  readonly replayCache?: EdgeValidatorReplayCache;
+
+  /**
+   * Per-client rate limit
+   * @default - no limit
+   */
+  readonly rateLimit?: EdgeValidatorRateLimit;
+
+  /**
+   * Answer without a usable secret (Lambda@Edge only)
+   * @default FailMode.CLOSED
+   */
+  readonly failMode?: FailMode;
+
+  /**
+   * Tolerance, header names, required claims, exempt paths, error body and
+   * network lists. Bundled with a Lambda@Edge function as its config module;
+   * written to the KeyValueStore ('validator-policy', the lists to
+   * 'network-policy') for a CloudFront Function, so each CloudFront Function
+   * validator needs a store of its own. Country and ASN lists need a
+   * CloudFront Function or a Lambda@Edge function on origin events: CloudFront
+   * adds the CloudFront-Viewer-* headers after the viewer request event.
+   * @default - the defaults in validator-config.json next to the handler
+   */
+  readonly policy?: ValidatorPolicy;
+
+  /**
+   * CloudWatch namespace of the decision metrics (Lambda@Edge only; the
+   * CloudFront Function's come from ValidatorDashboard's metric filters)
+   * @default VALIDATOR_METRICS_NAMESPACE
+   */
+  readonly metricsNamespace?: string;
+
+  /**
+   * Validator-specific settings, e.g. the HMAC signing mode, written with the
+   * policy (to the config module or the KeyValueStore)
+   * @default - the defaults in validator-config.json next to the handler
+   */
+  readonly handlerSettings?: ValidatorHandlerSettings;
+
+  /**
+   * Pass the request body to the function (Lambda@Edge only)
+   * @default false
+   */
+  readonly includeBody?: boolean;
+
+  /**
+   * Cache validated responses (viewer-event validators only: a validator on
+   * origin events doesn't run on cache hits)
+   * @default - not cached (CachingDisabled)
+   */
+  readonly cache?: EdgeValidatorCache;
+
+  /**
+   * Strict-Transport-Security, Content-Security-Policy and
+   * X-Content-Type-Options: nosniff on the path's responses
+   * @default - the origin's headers
+   */
+  readonly securityHeaders?: SecurityHeaders;
+
+  /**
+   * Test page to deploy under the path pattern
+   * @default - no content deployed
+   */
+  readonly testContent?: EdgeValidatorTestContent;
+}
+
+/**
+ * One validator path: the edge function, its secret access, test content and
+ * the cache behavior on the primary (and staging) distribution.
+ */
+export class EdgeValidator extends Construct {
+  public readonly kind: EdgeValidatorKind;
+  public readonly pathPattern: string;
+
+  /**
+   * Validator settings the function reads, after the policy is applied
+   */
+  public readonly config: ValidatorConfig;
+
+  /**
+   * CloudFront Function (CLOUDFRONT_FUNCTION only)
+   */
+  public readonly cfFunction?: cloudfront.Function;
+
+  /**
+   * CloudFront Function used by the staging distribution (CLOUDFRONT_FUNCTION only)
+   */
+  public readonly stagingCfFunction?: cloudfront.Function;
+
+  /**
+   * Lambda function (LAMBDA_EDGE only)
+   */
+  public readonly lambdaFunction?: lambda.Function;
+
+  /**
+   * Version published from the current code; in canary mode only the staging
+   * distribution serves it (LAMBDA_EDGE only)
+   */
+  public readonly currentVersion?: lambda.IVersion;
+
+  /**
+   * Version the primary distribution serves (LAMBDA_EDGE only)
+   */
+  public readonly stableVersion?: lambda.IVersion;
+
+  constructor(scope: Construct, id: string, props: EdgeValidatorProps) {
+    super(scope, id);
+
+    this.kind = props.kind;
+    this.pathPattern = props.pathPattern;
+
+    const eventType = props.eventType ?? cloudfront.LambdaEdgeEventType.VIEWER_REQUEST;
+
+    const rateLimit = props.rateLimit;
+    if (rateLimit) {
+      const windowSeconds = rateLimit.window.toSeconds();
+      if (!Number.isInteger(rateLimit.limit) || rateLimit.limit < 1) {
+        throw new Error(`${id}: rate limit must be a positive whole number of requests, got ${rateLimit.limit}`);
+      }
+      if (!Number.isInteger(windowSeconds) || windowSeconds < 1) {
+        throw new Error(`${id}: rate limit window must be whole seconds, got ${windowSeconds}`);
+      }
+    }
+
+    if (props.testContent) {
+      new s3deploy.BucketDeployment(this, 'TestContent', {
+        sources: [s3deploy.Source.data('test.html', props.testContent.html)],
+        destinationBucket: props.testContent.bucket,
+        destinationKeyPrefix: props.pathPattern.replace(/^\//, '').replace(/\/\*$/, ''),
+      });
+    }
+
+    if (props.cache && eventType !== cloudfront.LambdaEdgeEventType.VIEWER_REQUEST && eventType !== cloudfront.LambdaEdgeEventType.VIEWER_RESPONSE) {
+      throw new Error(`${id}: caching needs a viewer-event validator, one on ${eventType} doesn't run on cache hits`);
+    }
+
+    const behaviorOptions: cloudfront.AddBehaviorOptions = {
+      viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+      cachePolicy: props.cache ? this.createCachePolicy(id, props.cache) : cloudfront.CachePolicy.CACHING_DISABLED,
+      originRequestPolicy: cloudfront.OriginRequestPolicy.CORS_S3_ORIGIN,
+    };
+
+    if (props.kind === EdgeValidatorKind.CLOUDFRONT_FUNCTION) {
+      if (!('keyValueStore' in props.secretSource)) {
+        throw new Error(`${id}: CloudFront Function validators read their secret from a KeyValueStore`);
+      }
+      if (props.canary) {
+        throw new Error(`${id}: a canary only applies to Lambda@Edge validators`);
+      }
+      if (props.replayCache) {
+        throw new Error(`${id}: CloudFront Functions can't write state, replay caches only apply to Lambda@Edge validators`);
+      }
+      if (props.includeBody) {
+        throw new Error(`${id}: CloudFront Functions can't read the request body`);
+      }
+      if (rateLimit?.store) {
+        throw new Error(`${id}: CloudFront Functions can't write state, rate limit stores only apply to Lambda@Edge validators`);
+      }
+      if (props.failMode) {
+        throw new Error(`${id}: failMode only applies to Lambda@Edge validators`);
+      }
+      if (eventType !== cloudfront.FunctionEventType.VIEWER_REQUEST && eventType !== cloudfront.FunctionEventType.VIEWER_RESPONSE) {
+        throw new Error(`${id}: CloudFront Functions only support viewer events, got ${eventType}`);
+      }
+      const keyValueStore = props.secretSource.keyValueStore;
+      const policyConfig = resolveValidatorConfig(id, props.entry, props.pathPattern, props.policy);
+      if (policyConfig.kind !== 'cf-function') {
+        throw new Error(`${id}: ${props.entry} is the ${policyConfig.kind} Lambda@Edge handler, not a CloudFront Function`);
+      }
+      this.config = applyHandlerSettings(id, policyConfig, {
+        ...(rateLimit ? { rateLimitKey: rateLimit.key ?? RateLimitKey.CLIENT_IP } : {}),
+        ...props.handlerSettings,
+      });
+      checkRateLimitKey(id, rateLimit, this.config);
+      // The lists can change without a deploy, so the viewer headers are always forwarded
+      const options = {
+        ...behaviorOptions,
+        originRequestPolicy: this.createOriginRequestPolicy(),
+        ...this.responseHeadersBehaviorOptions(props.securityHeaders),
+      };
+
+      // Function code with the shared responses inlined and the KVS ARN in
+      // place (everything else comes from the policy in the store)
+      const code = cloudFrontFunctionCode(props.entry, {
+        KVS_ID_PLACEHOLDER: keyValueStore.keyValueStoreArn,
+      });
+
+      this.cfFunction = new cloudfront.Function(this, 'Function', {
+        code: cloudfront.FunctionCode.fromInline(code),
+        runtime: cloudfront.FunctionRuntime.JS_2_0,
+        comment: props.description,
+        keyValueStore,
+      });
+
+      // The function denies every request (CONFIG_ERROR) until its policy is in the store
+      const policySeed = new KvsValueSeed(this, 'PolicySeed', {
+        keyValueStore,
+        key: VALIDATOR_POLICY_KVS_KEY,
+        value: JSON.stringify(this.config),
+      });
+      this.cfFunction.node.addDependency(policySeed);
+
+      // Written on deploys that change the lists, so updates made with
+      // `npm run network-policy` stay until then
+      if (props.policy?.network) {
+        new KvsValueSeed(this, 'NetworkPolicySeed', {
+          keyValueStore,
+          key: NETWORK_POLICY_KVS_KEY,
+          value: networkPolicyKvsValue(id, props.policy.network),
+        });
+      }
+
+      props.distribution.addBehavior(props.pathPattern, props.origin, {
+        ...options,
+        functionAssociations: [{ function: this.cfFunction, eventType: eventType as cloudfront.FunctionEventType }],
+      });
+
+      if (props.stagingDistribution) {
+        // Staging function can have different code for testing
+        // In practice, you'd modify this code to test new functionality
+        this.stagingCfFunction = new cloudfront.Function(this, 'StagingFunction', {
+          code: cloudfront.FunctionCode.fromInline(code),
+          runtime: cloudfront.FunctionRuntime.JS_2_0,
+          comment: `STAGING - ${props.description}`,
+          keyValueStore,
+        });
+
+        props.stagingDistribution.addBehavior(props.pathPattern, props.origin, {
+          ...options,
+          functionAssociations: [{ function: this.stagingCfFunction, eventType: eventType as cloudfront.FunctionEventType }],
+        });
+      }
+      return;
+    }
+
+    if (!('secret' in props.secretSource)) {
+      throw new Error(`${id}: Lambda@Edge validators read their secret from Secrets Manager`);
+    }
+    const { secret, secretName } = props.secretSource;
+
+    const replayCache = props.replayCache;
+    if (replayCache?.store === ReplayCacheStore.DYNAMODB
+      && (!replayCache.tableName || !replayCache.tableRegions?.length)) {
+      throw new Error(`${id}: a DynamoDB replay cache needs tableName and tableRegions`);
+    }
+    const rateLimitStore = rateLimit ? rateLimit.store ?? RateLimitStore.MEMORY : undefined;
+    if (rateLimitStore === RateLimitStore.DYNAMODB && (!rateLimit!.tableName || !rateLimit!.tableRegions?.length)) {
+      throw new Error(`${id}: a DynamoDB rate limit store needs tableName and tableRegions`);
+    }
+
+    // Policy over the handler's defaults, then the settings the stack picks
+    const policyConfig = resolveValidatorConfig(id, props.entry, props.pathPattern, props.policy, secretName);
+    if (policyConfig.kind === 'cf-function') {
+      throw new Error(`${id}: ${props.entry} is a CloudFront Function, not a Lambda@Edge handler`);
+    }
+    this.config = applyHandlerSettings(id, policyConfig, {
+      failMode: props.failMode ?? FailMode.CLOSED,
+      metricsNamespace: props.metricsNamespace ?? VALIDATOR_METRICS_NAMESPACE,
+      ...(replayCache ? {
+        replayCache: {
+          store: replayCache.store,
+          tableName: replayCache.tableName ?? '',
+          tableRegions: replayCache.tableRegions ?? [],
+        },
+      } : {}),
+      ...(rateLimit ? {
+        rateLimit: {
+          key: rateLimit.key ?? RateLimitKey.CLIENT_IP,
+          limit: rateLimit.limit,
+          window: rateLimit.window.toSeconds(),
+          store: rateLimitStore!,
+          tableName: rateLimit.tableName ?? '',
+          tableRegions: rateLimit.tableRegions ?? [],
+        },
+      } : {}),
+      ...props.handlerSettings,
+    });
+    checkRateLimitKey(id, rateLimit, this.config);
+    const network = this.config.network;
+    const viewerLocation = Boolean(network?.allowCountries || network?.denyCountries || network?.allowAsns || network?.denyAsns);
+    const viewerEvent = eventType === cloudfront.LambdaEdgeEventType.VIEWER_REQUEST || eventType === cloudfront.LambdaEdgeEventType.VIEWER_RESPONSE;
+    if (viewerLocation && viewerEvent) {
+      throw new Error(`${id}: country and ASN lists need a Lambda@Edge validator on origin events, CloudFront adds the CloudFront-Viewer-* headers after the viewer request`);
+    }
+    // On origin events the function only sees the headers the policy forwards
+    const options = {
+      ...behaviorOptions,
+      ...(viewerEvent ? {} : { originRequestPolicy: this.createOriginRequestPolicy(originEventHeaders(id, this.config)) }),
+      ...this.responseHeadersBehaviorOptions(props.securityHeaders),
+    };
+
+    this.lambdaFunction = new lambda.Function(this, 'Function', {
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'index.handler',
+      code: bundleLambdaCode(props.entry, {
+        [VALIDATOR_CONFIG_FILE]: `${JSON.stringify(this.config, null, 2)}\n`,
+        [EDGE_RESPONSE_FILE]: fs.readFileSync(EDGE_RESPONSE_ENTRY, 'utf-8'),
+        [NETWORK_POLICY_FILE]: fs.readFileSync(NETWORK_POLICY_ENTRY, 'utf-8'),
+        [SECRET_CACHE_FILE]: fs.readFileSync(SECRET_CACHE_ENTRY, 'utf-8'),
+        [RATE_LIMIT_FILE]: fs.readFileSync(RATE_LIMIT_ENTRY, 'utf-8'),
+      }, viewerEvent
+        ? MAX_VIEWER_LAMBDA_ZIP_BYTES
+        : MAX_LAMBDA_ZIP_BYTES),
+      timeout: cdk.Duration.seconds(5),
+      memorySize: 128,
+      description: props.description,
+    });
+
+    // Grant Lambda@Edge permission to read the secret
+    secret.grantRead(this.lambdaFunction);
+
+    // Lambda@Edge needs specific trust policy for edgelambda.amazonaws.com
+    const role = this.lambdaFunction.role as iam.Role;
+    role.assumeRolePolicy?.addStatements(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        principals: [new iam.ServicePrincipal('edgelambda.amazonaws.com')],
+        actions: ['sts:AssumeRole'],
+      })
+    );
+
+    // Lambda@Edge needs permission to read secrets from us-east-1
+    this.lambdaFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['secretsmanager:GetSecretValue'],
+        resources: [secret.secretArn],
+      })
+    );
+
+    // Conditional puts into the replay table, in whichever replica region the
+    // function writes to
+    if (replayCache?.store === ReplayCacheStore.DYNAMODB) {
+      this.lambdaFunction.addToRolePolicy(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:PutItem'],
+          resources: replayCache.tableRegions!.map((region) => cdk.Stack.of(this).formatArn({
+            service: 'dynamodb',
+            region,
+            resource: 'table',
+            resourceName: replayCache.tableName,
+          })),
+        })
+      );
+    }
+
+    // Counter updates in the rate limit table, in any replica region
+    if (rateLimitStore === RateLimitStore.DYNAMODB) {
+      this.lambdaFunction.addToRolePolicy(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:UpdateItem'],
+          resources: rateLimit!.tableRegions!.map((region) => cdk.Stack.of(this).formatArn({
+            service: 'dynamodb',
+            region,
+            resource: 'table',
+            resourceName: rateLimit!.tableName,
+          })),
+        })
+      );
+    }
+
+    // In canary mode this is the canary version (the code being deployed)
+    this.currentVersion = this.lambdaFunction.currentVersion;
+
+    if (props.canary) {
+      const { stableVersion } = props.canary;
+      if (!props.stagingDistribution) {
+        throw new Error(`${id}: a Lambda@Edge canary needs the staging distribution to serve it`);
+      }
+      if (!/^[1-9][0-9]*$/.test(stableVersion)) {
+        throw new Error(`${id}: stable version must be a published version number, got "${stableVersion}"`);
+      }
+      this.stableVersion = lambda.Version.fromVersionAttributes(this, 'StableVersion', {
+        lambda: this.lambdaFunction,
+        version: stableVersion,
+      });
+    } else {
+      this.stableVersion = this.currentVersion;
+    }
+
+    // Lambda@Edge only takes numbered versions, so the canary split is the
+    // continuous deployment policy's: stable version on the primary
+    // distribution, current version on the staging one
+    const versions: Array<[cloudfront.Distribution | undefined, lambda.IVersion]> = [
+      [props.distribution, this.stableVersion],
+      [props.stagingDistribution, this.currentVersion],
+    ];
+    for (const [distribution, functionVersion] of versions) {
+      if (!distribution) {
+        continue;
+      }
+      distribution.addBehavior(props.pathPattern, props.origin, {
+        ...options,
+        edgeLambdas: [{
+          functionVersion,
+          eventType: eventType as cloudfront.LambdaEdgeEventType,
+          includeBody: props.includeBody,
+        }],
+      });
+    }
+  }
+
+  /**
+   * Cache policy keyed on the path and the listed query strings only
+   */
+  private createCachePolicy(id: string, cache: EdgeValidatorCache): cloudfront.CachePolicy {
+    const defaultTtl = cache.defaultTtl.toSeconds();
+    const maxTtl = (cache.maxTtl ?? cache.defaultTtl).toSeconds();
+    if (!Number.isInteger(defaultTtl) || defaultTtl < 1) {
+      throw new Error(`${id}: cache defaultTtl must be whole seconds, at least 1, got ${defaultTtl}`);
+    }
+    if (!Number.isInteger(maxTtl) || maxTtl < defaultTtl) {
+      throw new Error(`${id}: cache maxTtl must be whole seconds, at least defaultTtl, got ${maxTtl}`);
+    }
+    const queryStrings = cache.queryStrings ?? [];
+    for (const name of queryStrings) {
+      if (!/^[A-Za-z0-9_.~-]+$/.test(name)) {
+        throw new Error(`${id}: cache queryStrings must be query parameter names, got "${name}"`);
+      }
+    }
+
+    return new cloudfront.CachePolicy(this, 'CachePolicy', {
+      comment: `Validated responses of ${this.pathPattern}`,
+      minTtl: cdk.Duration.seconds(0),
+      defaultTtl: cdk.Duration.seconds(defaultTtl),
+      maxTtl: cdk.Duration.seconds(maxTtl),
+      headerBehavior: cloudfront.CacheHeaderBehavior.none(),
+      cookieBehavior: cloudfront.CacheCookieBehavior.none(),
+      queryStringBehavior: queryStrings.length
+        ? cloudfront.CacheQueryStringBehavior.allowList(...queryStrings)
+        : cloudfront.CacheQueryStringBehavior.none(),
+      enableAcceptEncodingGzip: true,
+      enableAcceptEncodingBrotli: true,
+    });
+  }
+
+  /**
+   * Origin request policy forwarding the CORS headers, like CORS-S3Origin,
+   * plus the viewer's country and ASN, which CloudFront only adds to requests
+   * when a policy asks for them, and the validator's headers on origin events
+   */
+  private createOriginRequestPolicy(validatorHeaders: string[] = []): cloudfront.OriginRequestPolicy {
+    return new cloudfront.OriginRequestPolicy(this, 'OriginRequestPolicy', {
+      comment: validatorHeaders.length > 0
+        ? `Validation headers, viewer country and ASN for ${this.pathPattern}`
+        : `Viewer country and ASN for ${this.pathPattern}`,
+      headerBehavior: cloudfront.OriginRequestHeaderBehavior.allowList(
+        'Origin',
+        'Access-Control-Request-Headers',
+        'Access-Control-Request-Method',
+        'CloudFront-Viewer-Country',
+        'CloudFront-Viewer-ASN',
+        ...validatorHeaders,
+      ),
+    });
+  }
+
+  /**
+   * Behavior settings for the path's responses: the validation headers
+   * removed, the security headers if asked for, and the policy's CORS, which
+   * lets preflights (OPTIONS) and the allowed methods reach the path and adds
+   * the CORS headers to origin responses. The validator adds them to its own
+   * answers.
+   */
+  private responseHeadersBehaviorOptions(securityHeaders?: SecurityHeaders): Partial<cloudfront.AddBehaviorOptions> {
+    const cors = this.config.cors;
+    const responseHeadersPolicy = new cloudfront.ResponseHeadersPolicy(this, 'ResponseHeadersPolicy', {
+      comment: `Response headers of ${this.pathPattern}`,
+      removeHeaders: VALIDATION_REQUEST_HEADERS,
+      securityHeadersBehavior: securityHeaders
+        ? {
+          strictTransportSecurity: {
+            accessControlMaxAge: securityHeaders.hstsMaxAge ?? cdk.Duration.days(365),
+            includeSubdomains: true,
+            override: true,
+          },
+          contentSecurityPolicy: {
+            contentSecurityPolicy: securityHeaders.contentSecurityPolicy ?? "default-src 'self'; frame-ancestors 'none'",
+            override: true,
+          },
+          contentTypeOptions: { override: true },
+        }
+        : undefined,
+      corsBehavior: cors
+        ? {
+          accessControlAllowOrigins: cors.allowOrigins,
+          accessControlAllowMethods: [...new Set([...cors.allowMethods, 'OPTIONS'])],
+          accessControlAllowHeaders: cors.allowHeaders,
+          accessControlExposeHeaders: cors.exposeHeaders.length ? cors.exposeHeaders : undefined,
+          accessControlMaxAge: cdk.Duration.seconds(cors.maxAge),
+          accessControlAllowCredentials: cors.allowCredentials,
+          originOverride: true,
+        }
+        : undefined,
+    });
+
+    if (!cors) {
+      return { responseHeadersPolicy };
+    }
+    const readOnly = cors.allowMethods.every((method) => ['GET', 'HEAD', 'OPTIONS'].includes(method));
+    return {
+      allowedMethods: readOnly ? cloudfront.AllowedMethods.ALLOW_GET_HEAD_OPTIONS : cloudfront.AllowedMethods.ALLOW_ALL,
+      responseHeadersPolicy,
+    };
+  }
+}
+
+/**
+ * Request headers a Lambda@Edge validator on origin events reads: its token
+ * headers, the canonical request's signed headers and the User-Agent of a
+ * device fingerprint. CloudFront doesn't forward Authorization through an
+ * origin request policy, and Host is the origin's by the origin request.
+ */
+function originEventHeaders(id: string, config: ValidatorConfig): string[] {
+  const headers: string[] = [];
+  for (const name of [
+    ...Object.values(config.headers),
+    ...(config.signingMode === 'canonical' ? config.signedHeaders ?? [] : []),
+    ...(config.deviceBinding?.includes('fingerprint') ? ['User-Agent'] : []),
+  ]) {
+    if (['authorization', 'host'].includes(name.toLowerCase())) {
+      throw new Error(`${id}: a validator on origin events can't read ${name}, CloudFront doesn't pass the viewer's to origin events; use another header`);
+    }
+    if (!headers.some((header) => header.toLowerCase() === name.toLowerCase())) {
+      headers.push(name);
+    }
+  }
+  // Five for CORS and the viewer location, ten at most per policy
+  if (headers.length > 5) {
+    throw new Error(`${id}: a validator on origin events can read at most 5 headers through its origin request policy, got ${headers.join(', ')}`);
+  }
+  return headers;
+}
+
+/**
+ * Rate limits by token need an identity in the token: HMAC tokens only prove
+ * the shared signing key, so a limit on it would be one count for every client
+ */
+function checkRateLimitKey(id: string, rateLimit: RateLimit | undefined, config: ValidatorConfig): void {
+  if (rateLimit?.key === RateLimitKey.TOKEN && !TOKEN_VALIDATOR_KINDS.includes(config.kind)) {
+    throw new Error(`${id}: rate limits by token need a token validator (AES-GCM, JWT); HMAC clients share the signing key, so they are counted by client IP`);
+  }
+}
@@ -0,0 +1,118 @@
+import * as cdk from 'aws-cdk-lib';
+import * as esbuild from 'esbuild';
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * Problem details and CORS responses shared by the validators. Lambda@Edge
+ * functions bundle it as ./edge-response.js; CloudFront Functions can't
+ * require modules, so it is inlined where they `// @include` it.
+ */
+export const EDGE_RESPONSE_ENTRY = path.join(__dirname, '../../edge-response/index.js');
+
+/**
+ * File name the Lambda@Edge validators require the shared responses by
+ */
+export const EDGE_RESPONSE_FILE = 'edge-response.js';
+
+/**
+ * Country, ASN and IP allow and deny lists shared by the validators, bundled
+ * and inlined like the shared responses
+ */
+export const NETWORK_POLICY_ENTRY = path.join(__dirname, '../../network-policy/index.js');
+
+/**
+ * File name the Lambda@Edge validators require the network policy by
+ */
+export const NETWORK_POLICY_FILE = 'network-policy.js';
+
+/**
+ * CloudFront Functions code size limit
+ */
+export const MAX_CLOUDFRONT_FUNCTION_BYTES = 10 * 1024;
+
+// Modules the JS 2.0 runtime lets functions import
+const CLOUDFRONT_FUNCTION_MODULES = ['cloudfront', 'crypto', 'querystring', 'buffer'];
+
+// Syntax the JS 2.0 runtime supports beyond ES 5.1. esbuild rewrites newer
+// syntax it can (destructuring, optional chaining, ...) and rejects the rest
+// (classes, generators, ...).
+const JS_2_0_SYNTAX: Record<string, boolean> = {
+  'const-and-let': true,
+  'arrow': true,
+  'template-literal': true,
+  'rest-argument': true,
+  'array-spread': true,
+  'exponent-operator': true,
+  'async-await': true,
+};
+
+// APIs the runtime doesn't provide
+const UNAVAILABLE_APIS: Array<[RegExp, string]> = [
+  [/\beval\s*\(/, 'eval()'],
+  [/\bFunction\s*\(/, 'the Function constructor'],
+  [/\b(setTimeout|setInterval|setImmediate)\s*\(/, 'timers'],
+  [/\brequire\s*\(/, 'require()'],
+  [/\b(fetch|XMLHttpRequest)\b/, 'network requests'],
+];
+
+// Room counted for a placeholder value that is a token (the KeyValueStore
+// ARN): resolved ARNs are under 128 bytes
+const TOKEN_BYTES = 128;
+
+/**
+ * CloudFront Function source as deployed: placeholders replaced, each
+ * `// @include <file>` line replaced by that file (relative to the entry,
+ * without its module.exports line), and comments and whitespace dropped by
+ * esbuild. Throws when the code uses syntax or APIs the JS 2.0 runtime
+ * doesn't have, or when it is over the 10 KB limit.
+ */
+export function cloudFrontFunctionCode(entry: string, replacements: Record<string, string> = {}): string {
+  let source = fs.readFileSync(entry, 'utf-8')
+    .replace(/^\/\/ @include (\S+)$/gm, (_match, file: string) => fs.readFileSync(path.join(path.dirname(entry), file), 'utf-8')
+      .replace(/^module\.exports = .*$/m, ''));
+  let tokenBytes = 0;
+  for (const [placeholder, value] of Object.entries(replacements)) {
+    if (source.includes(placeholder) && cdk.Token.isUnresolved(value)) {
+      tokenBytes += TOKEN_BYTES - value.length;
+    }
+    source = source.replace(placeholder, value);
+  }
+
+  let code: string;
+  try {
+    code = esbuild.transformSync(source, {
+      loader: 'js',
+      sourcefile: entry,
+      target: 'es5',
+      supported: JS_2_0_SYNTAX,
+      minifyWhitespace: true,
+      legalComments: 'none',
+      logLevel: 'silent',
+    }).code;
+  } catch (error) {
+    const messages = ((error as esbuild.TransformFailure).errors ?? [])
+      .map((message) => `  line ${message.location?.line}: ${message.text}`);
+    throw new Error(`${entry} uses syntax the CloudFront Functions JS 2.0 runtime doesn't support:\n${messages.join('\n')}`);
+  }
+
+  for (const [, moduleName] of code.matchAll(/\bimport\s*\w*\s*(?:from\s*)?["']([^"']+)["']/g)) {
+    if (!CLOUDFRONT_FUNCTION_MODULES.includes(moduleName)) {
+      throw new Error(`${entry} imports '${moduleName}'; CloudFront Functions can import ${CLOUDFRONT_FUNCTION_MODULES.join(', ')}`);
+    }
+  }
+  for (const [pattern, api] of UNAVAILABLE_APIS) {
+    if (pattern.test(code)) {
+      throw new Error(`${entry} uses ${api}, which CloudFront Functions don't provide`);
+    }
+  }
+  if (!/\bfunction handler\(/.test(code)) {
+    throw new Error(`${entry} doesn't define a handler function`);
+  }
+
+  const bytes = Buffer.byteLength(code) + tokenBytes;
+  if (bytes > MAX_CLOUDFRONT_FUNCTION_BYTES) {
+    throw new Error(`${entry} is ${bytes} bytes after minification, over the CloudFront Functions limit of ${MAX_CLOUDFRONT_FUNCTION_BYTES} bytes`);
+  }
+  return code;
+}
@@ -0,0 +1,104 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Construct } from 'constructs';
+import { bundleLambdaCode, KVS_WRITE_ENTRY, KVS_WRITE_FILE } from './lambda-asset';
+
+/**
+ * KeyValueStore the rotated keyring is mirrored into
+ */
+export interface KeyringKvsMirror {
+  readonly keyValueStore: cloudfront.IKeyValueStore;
+
+  /**
+   * KeyValueStore key, e.g. 'bot-secret-keyring'
+   */
+  readonly key: string;
+}
+
+export interface KeyringRotationProps {
+  /**
+   * Secret holding the keyring
+   */
+  readonly secret: secretsmanager.Secret;
+
+  /**
+   * Field holding the key before the first rotation, e.g. 'secretKey'
+   */
+  readonly legacyField: string;
+
+  /**
+   * How often a new key is generated
+   * @default Duration.days(30)
+   */
+  readonly interval?: cdk.Duration;
+
+  /**
+   * How long the previous signing key is still accepted after a rotation
+   * @default Duration.days(1)
+   */
+  readonly previousKeyTtl?: cdk.Duration;
+
+  /**
+   * Mirror each rotated keyring into a KeyValueStore (CloudFront Functions)
+   * @default - no mirror
+   */
+  readonly kvsMirror?: KeyringKvsMirror;
+}
+
+/**
+ * Secrets Manager rotation for a validator keyring. Each rotation adds a new
+ * "next" key, promotes the old next key to current and keeps the previous
+ * current key valid for previousKeyTtl, so keys rotate with zero downtime.
+ */
+export class KeyringRotation extends Construct {
+  public readonly rotationFunction: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: KeyringRotationProps) {
+    super(scope, id);
+
+    this.rotationFunction = new lambda.Function(this, 'Function', {
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'index.handler',
+      code: bundleLambdaCode(path.join(__dirname, '../../key-rotation/index.js'), {
+        [KVS_WRITE_FILE]: fs.readFileSync(KVS_WRITE_ENTRY, 'utf-8'),
+      }),
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 128,
+      description: 'Rotates a bot validator keyring',
+      environment: {
+        LEGACY_FIELD: props.legacyField,
+        PREVIOUS_KEY_TTL: String((props.previousKeyTtl ?? cdk.Duration.days(1)).toSeconds()),
+        ...(props.kvsMirror ? {
+          KVS_ARN: props.kvsMirror.keyValueStore.keyValueStoreArn,
+          KVS_KEY: props.kvsMirror.key,
+        } : {}),
+      },
+    });
+
+    if (props.kvsMirror) {
+      this.rotationFunction.addToRolePolicy(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: [
+            'cloudfront-keyvaluestore:DescribeKeyValueStore',
+            'cloudfront-keyvaluestore:PutKey',
+          ],
+          resources: [props.kvsMirror.keyValueStore.keyValueStoreArn],
+        })
+      );
+    }
+
+    // Grants the function DescribeSecret, GetSecretValue, PutSecretValue and
+    // UpdateSecretVersionStage on the secret, and lets Secrets Manager invoke it
+    props.secret.addRotationSchedule('RotationSchedule', {
+      rotationLambda: this.rotationFunction,
+      automaticallyAfter: props.interval ?? cdk.Duration.days(30),
+      rotateImmediatelyOnUpdate: false,
+    });
+  }
+}
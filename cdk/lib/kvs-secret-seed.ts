@@ -0,0 +1,131 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as cr from 'aws-cdk-lib/custom-resources';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Construct } from 'constructs';
+import { bundleLambdaCode, KVS_WRITE_ENTRY, KVS_WRITE_FILE } from './lambda-asset';
+
+/**
+ * Secret whose keyring a seed copies
+ */
+export interface KvsSeedSecret {
+  /**
+   * JSON secret holding the keyring
+   */
+  readonly secret: secretsmanager.ISecret;
+
+  /**
+   * Field holding the key in a secret that hasn't been rotated into a keyring
+   * yet, e.g. 'secretKey'
+   */
+  readonly legacyField: string;
+}
+
+export interface KvsValueSeedProps {
+  /**
+   * KeyValueStore read by the CloudFront Function
+   */
+  readonly keyValueStore: cloudfront.IKeyValueStore;
+
+  /**
+   * KeyValueStore key to write, e.g. 'validator-policy'
+   */
+  readonly key: string;
+
+  /**
+   * Value to write (at most 1 KB); the key is rewritten whenever it changes
+   * and deleted with the seed. Exactly one of value and secret is needed.
+   * @default - none, the keyring of `secret`
+   */
+  readonly value?: string;
+
+  /**
+   * Secret whose keyring is copied at deploy time instead, so the key material
+   * never appears in the template or outputs. The key stays when the seed is
+   * deleted: the store is deleted with the stack.
+   * @default - none, `value`
+   */
+  readonly secret?: KvsSeedSecret;
+}
+
+/**
+ * Custom resource that writes a value from the template (non-secret settings,
+ * e.g. a validator policy) or a Secrets Manager keyring into a CloudFront
+ * KeyValueStore at deploy time, so CloudFront Functions never run against an
+ * empty store. The seeds of a stack share one seeder function and provider.
+ */
+export class KvsValueSeed extends Construct {
+  constructor(scope: Construct, id: string, props: KvsValueSeedProps) {
+    super(scope, id);
+
+    if ((props.value === undefined) === (props.secret === undefined)) {
+      throw new Error(`${id}: a KeyValueStore seed writes either a value or a secret's keyring`);
+    }
+
+    const provider = KvsSeedProvider.of(this);
+    provider.seederFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [
+          'cloudfront-keyvaluestore:DescribeKeyValueStore',
+          'cloudfront-keyvaluestore:PutKey',
+          'cloudfront-keyvaluestore:DeleteKey',
+        ],
+        resources: [props.keyValueStore.keyValueStoreArn],
+      })
+    );
+    props.secret?.secret.grantRead(provider.seederFunction);
+
+    new cdk.CustomResource(this, 'Resource', {
+      serviceToken: provider.serviceToken,
+      resourceType: props.secret ? 'Custom::KvsSecretSeed' : 'Custom::KvsValueSeed',
+      properties: {
+        KvsArn: props.keyValueStore.keyValueStoreArn,
+        Key: props.key,
+        ...(props.secret
+          ? { SecretId: props.secret.secret.secretArn, LegacyField: props.secret.legacyField }
+          : { Value: props.value }),
+      },
+    });
+  }
+}
+
+/**
+ * Seeder function and custom resource provider, one per stack
+ */
+class KvsSeedProvider extends Construct {
+  /**
+   * The stack's provider, created by its first seed
+   */
+  static of(scope: Construct): KvsSeedProvider {
+    const stack = cdk.Stack.of(scope);
+    return (stack.node.tryFindChild('KvsSeedProvider') as KvsSeedProvider | undefined)
+      ?? new KvsSeedProvider(stack, 'KvsSeedProvider');
+  }
+
+  public readonly seederFunction: lambda.Function;
+  public readonly serviceToken: string;
+
+  private constructor(scope: Construct, id: string) {
+    super(scope, id);
+
+    this.seederFunction = new lambda.Function(this, 'Function', {
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'index.handler',
+      code: bundleLambdaCode(path.join(__dirname, '../../kvs-seeder/index.js'), {
+        [KVS_WRITE_FILE]: fs.readFileSync(KVS_WRITE_ENTRY, 'utf-8'),
+      }),
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 128,
+      description: 'Seeds KeyValueStore keys from the template or Secrets Manager',
+    });
+
+    this.serviceToken = new cr.Provider(this, 'Provider', {
+      onEventHandler: this.seederFunction,
+    }).serviceToken;
+  }
+}
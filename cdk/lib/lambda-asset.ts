@@ -0,0 +1,124 @@
+import * as cdk from 'aws-cdk-lib';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as esbuild from 'esbuild';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as zlib from 'zlib';
+
+/**
+ * Deployment package size limit (zipped) of Lambda functions, and of
+ * Lambda@Edge functions on origin events
+ */
+export const MAX_LAMBDA_ZIP_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Deployment package size limit (zipped) of Lambda@Edge functions on viewer events
+ */
+export const MAX_VIEWER_LAMBDA_ZIP_BYTES = 1024 * 1024;
+
+/**
+ * KeyValueStore writes with ETag conflict retries, shared by the seeder, the
+ * key rotation function and the rate limit publisher
+ */
+export const KVS_WRITE_ENTRY = path.join(__dirname, '../../kvs-write/index.js');
+
+/**
+ * File name the KeyValueStore writers require the writes by
+ */
+export const KVS_WRITE_FILE = 'kvs-write.js';
+
+/**
+ * Secrets Manager reads with retries and a stale-while-revalidate cache,
+ * shared by the Lambda@Edge validators
+ */
+export const SECRET_CACHE_ENTRY = path.join(__dirname, '../../secret-cache/index.js');
+
+/**
+ * File name the Lambda@Edge validators require the secret cache by
+ */
+export const SECRET_CACHE_FILE = 'secret-cache.js';
+
+/**
+ * Per-client sliding-window rate limit shared by the Lambda@Edge validators
+ */
+export const RATE_LIMIT_ENTRY = path.join(__dirname, '../../rate-limit/index.js');
+
+/**
+ * File name the Lambda@Edge validators require the rate limit by
+ */
+export const RATE_LIMIT_FILE = 'rate-limit.js';
+
+// The handlers' dependencies are devDependencies of the CDK app
+const NODE_MODULES = path.join(__dirname, '../node_modules');
+
+/**
+ * Code of a Lambda handler bundled with esbuild: generated files (e.g. a
+ * config module, as Lambda@Edge doesn't support env vars) written next to it,
+ * and its dependencies bundled and tree-shaken into a single minified
+ * index.js. Bundles locally, no Docker needed, and not
+ * at all when the stack doesn't need bundling (the `aws:cdk:bundling-stacks`
+ * context, e.g. `cdk synth --exclusively` or tests), so synthesis works
+ * offline.
+ *
+ * Synthesis fails when the bundle, zipped, is over `maxZipBytes`.
+ */
+export function bundleLambdaCode(
+  entry: string,
+  files: Record<string, string> = {},
+  maxZipBytes = MAX_LAMBDA_ZIP_BYTES,
+): lambda.Code {
+  return lambda.Code.fromAsset(path.dirname(entry), {
+    assetHashType: cdk.AssetHashType.OUTPUT,
+    bundling: {
+      // Never pulled: local bundling always succeeds or throws
+      image: cdk.DockerImage.fromRegistry('scratch'),
+      local: {
+        tryBundle(outputDir: string): boolean {
+          bundle(entry, outputDir, files);
+          const zipBytes = fs.readdirSync(outputDir)
+            .reduce((total, file) => total + zlib.deflateRawSync(fs.readFileSync(path.join(outputDir, file))).length, 0);
+          if (zipBytes > maxZipBytes) {
+            throw new Error(`${entry} bundles to ${kib(zipBytes)} zipped, over the ${kib(maxZipBytes)} limit`);
+          }
+          return true;
+        },
+      },
+    },
+  });
+}
+
+// Build the handler, with the generated files in place, into outputDir/index.js
+function bundle(entry: string, outputDir: string, files: Record<string, string>) {
+  const sourceDir = fs.mkdtempSync(path.join(os.tmpdir(), `${path.basename(path.dirname(entry))}-`));
+  try {
+    fs.copyFileSync(entry, path.join(sourceDir, 'index.js'));
+    for (const [name, contents] of Object.entries(files)) {
+      fs.writeFileSync(path.join(sourceDir, name), contents);
+    }
+    esbuild.buildSync({
+      entryPoints: [path.join(sourceDir, 'index.js')],
+      outfile: path.join(outputDir, 'index.js'),
+      nodePaths: [NODE_MODULES],
+      bundle: true,
+      platform: 'node',
+      target: 'node24',
+      format: 'cjs',
+      // ES module builds of the AWS SDK, so unused commands are dropped
+      mainFields: ['module', 'main'],
+      minify: true,
+      legalComments: 'none',
+      logLevel: 'silent',
+    });
+  } catch (error) {
+    const messages = ((error as esbuild.BuildFailure).errors ?? [])
+      .map((message) => `  ${message.text}`);
+    throw new Error(`Failed to bundle ${entry}:\n${messages.join('\n') || error}`);
+  } finally {
+    fs.rmSync(sourceDir, { recursive: true, force: true });
+  }
+}
+
+function kib(bytes: number): string {
+  return `${Math.ceil(bytes / 1024)} KiB`;
+}
@@ -0,0 +1,120 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as destinations from 'aws-cdk-lib/aws-logs-destinations';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Construct } from 'constructs';
+import { bundleLambdaCode, KVS_WRITE_ENTRY, KVS_WRITE_FILE } from './lambda-asset';
+
+export interface RateLimitPublisherProps {
+  /**
+   * Decision log groups of the CloudFront Function (and its staging copy)
+   */
+  readonly logGroups: logs.ILogGroup[];
+
+  /**
+   * KeyValueStore the function reads; clients over the limit are listed
+   * under 'rl:<client>'
+   */
+  readonly keyValueStore: cloudfront.IKeyValueStore;
+
+  /**
+   * Table holding the counters: partition key 'pk' (string), TTL attribute 'expiresAt'
+   */
+  readonly table: dynamodb.ITableV2;
+
+  /**
+   * Requests a client may send per window
+   */
+  readonly limit: number;
+
+  /**
+   * Fixed window length. Decision logs reach the publisher some seconds after
+   * the request, so a client can go over the limit by that much traffic.
+   */
+  readonly window: cdk.Duration;
+
+  /**
+   * Validator name in the decision logs (VALIDATOR in the function)
+   * @default 'cf-function'
+   */
+  readonly validatorName?: string;
+
+  /**
+   * How often deny list entries whose window is over are deleted
+   * @default Duration.minutes(15)
+   */
+  readonly sweepInterval?: cdk.Duration;
+}
+
+/**
+ * Fixed-window rate limit for a CloudFront Function, which can't keep state:
+ * the function's decision logs are streamed to a Lambda function that counts
+ * allowed requests per client and window in DynamoDB, and lists each client
+ * over the limit in the KeyValueStore until its window ends. The function
+ * answers listed clients with 429.
+ */
+export class RateLimitPublisher extends Construct {
+  public readonly publisherFunction: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: RateLimitPublisherProps) {
+    super(scope, id);
+
+    this.publisherFunction = new lambda.Function(this, 'Function', {
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'index.handler',
+      code: bundleLambdaCode(path.join(__dirname, '../../rate-limit-publisher/index.js'), {
+        [KVS_WRITE_FILE]: fs.readFileSync(KVS_WRITE_ENTRY, 'utf-8'),
+      }),
+      timeout: cdk.Duration.minutes(1),
+      memorySize: 128,
+      description: 'Counts CloudFront Function requests per client and publishes the rate limit deny list',
+      environment: {
+        KVS_ARN: props.keyValueStore.keyValueStoreArn,
+        TABLE_NAME: props.table.tableName,
+        LIMIT: String(props.limit),
+        WINDOW: String(props.window.toSeconds()),
+        VALIDATOR: props.validatorName ?? 'cf-function',
+      },
+    });
+
+    props.table.grant(this.publisherFunction, 'dynamodb:UpdateItem');
+    this.publisherFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [
+          'cloudfront-keyvaluestore:DescribeKeyValueStore',
+          'cloudfront-keyvaluestore:ListKeys',
+          'cloudfront-keyvaluestore:UpdateKeys',
+        ],
+        resources: [props.keyValueStore.keyValueStoreArn],
+      })
+    );
+
+    // Only allowed requests count; the ones turned away are denials
+    const filterPattern = logs.FilterPattern.all(
+      logs.FilterPattern.stringValue('$.decision', '=', 'allow'),
+      logs.FilterPattern.exists('$.client'),
+    );
+    for (const logGroup of props.logGroups) {
+      logGroup.addSubscriptionFilter('RateLimitSubscription', {
+        destination: new destinations.LambdaDestination(this.publisherFunction),
+        filterPattern,
+      });
+    }
+
+    new events.Rule(this, 'SweepSchedule', {
+      description: 'Deletes expired entries from the rate limit deny list',
+      schedule: events.Schedule.rate(props.sweepInterval ?? cdk.Duration.minutes(15)),
+      targets: [new targets.LambdaFunction(this.publisherFunction, {
+        event: events.RuleTargetInput.fromObject({ action: 'sweep' }),
+      })],
+    });
+  }
+}
@@ -0,0 +1,200 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import { Construct } from 'constructs';
+import { EdgeValidator, EdgeValidatorKind, VALIDATOR_METRICS_NAMESPACE } from './edge-validator';
+
+/**
+ * Dimensions of the Decisions and Latency metrics, in this order
+ */
+const DECISION_DIMENSIONS = ['validator', 'decision', 'reason'];
+
+/**
+ * A validator on the dashboard
+ */
+export interface DashboardValidator {
+  /**
+   * Name the handler logs its decisions under (VALIDATOR in the handler), e.g. 'hmac'
+   */
+  readonly name: string;
+
+  readonly validator: EdgeValidator;
+}
+
+export interface ValidatorDashboardProps {
+  readonly validators: DashboardValidator[];
+
+  /**
+   * Regions whose Lambda@Edge metrics are shown. Lambda@Edge writes its logs,
+   * and the metrics embedded in them, in the region that served the request.
+   * @default - the stack's region
+   */
+  readonly regions?: string[];
+
+  /**
+   * @default 'edge-validators'
+   */
+  readonly dashboardName?: string;
+
+  /**
+   * Namespace of the decision metrics (the validators' metricsNamespace)
+   * @default VALIDATOR_METRICS_NAMESPACE
+   */
+  readonly metricsNamespace?: string;
+}
+
+/**
+ * Allow and deny counts by reason, and latency, for every validator path.
+ *
+ * Lambda@Edge validators publish their metrics as CloudWatch Embedded Metric
+ * Format. CloudFront Functions can't, so their decision log lines become the
+ * same metrics through metric filters on the function's log group.
+ */
+export class ValidatorDashboard extends Construct {
+  public readonly dashboard: cloudwatch.Dashboard;
+
+  /**
+   * Namespace of the decision metrics
+   */
+  public readonly metricsNamespace: string;
+
+  /**
+   * Decision log groups of each CloudFront Function validator (its function
+   * and staging copy), for other consumers of the decision logs
+   */
+  public readonly functionLogGroups = new Map<EdgeValidator, logs.LogGroup[]>();
+
+  constructor(scope: Construct, id: string, props: ValidatorDashboardProps) {
+    super(scope, id);
+
+    const stackRegion = cdk.Stack.of(this).region;
+    const regions = props.regions ?? [stackRegion];
+    this.metricsNamespace = props.metricsNamespace ?? VALIDATOR_METRICS_NAMESPACE;
+
+    for (const { name, validator } of props.validators) {
+      if (validator.kind === EdgeValidatorKind.CLOUDFRONT_FUNCTION) {
+        this.addMetricFilters(name, validator);
+      }
+    }
+
+    this.dashboard = new cloudwatch.Dashboard(this, 'Dashboard', {
+      dashboardName: props.dashboardName ?? 'edge-validators',
+      defaultInterval: cdk.Duration.hours(3),
+    });
+
+    // Regions each validator publishes in: CloudFront Functions only log to us-east-1
+    const regionsOf = (validator: EdgeValidator) =>
+      validator.kind === EdgeValidatorKind.CLOUDFRONT_FUNCTION ? [stackRegion] : regions;
+
+    this.dashboard.addWidgets(new cloudwatch.GraphWidget({
+      title: 'Allowed request latency (p99)',
+      width: 24,
+      left: props.validators.flatMap(({ name, validator }) => regionsOf(validator).map((region, _index, validatorRegions) =>
+        new cloudwatch.Metric({
+          namespace: this.metricsNamespace,
+          metricName: 'Latency',
+          dimensionsMap: { validator: name, decision: 'allow', reason: 'OK' },
+          statistic: 'p99',
+          region: region === stackRegion ? undefined : region,
+          label: validatorRegions.length > 1 ? `${name} (${region})` : name,
+        }))),
+      leftYAxis: { label: 'ms', showUnits: false },
+    }));
+
+    for (const { name, validator } of props.validators) {
+      const validatorRegions = regionsOf(validator);
+      const search = (filter: string) => `SEARCH('{${this.metricsNamespace},${DECISION_DIMENSIONS.join(',')}} `
+        + `MetricName="Decisions" validator="${name}" ${filter}', 'Sum', 300)`;
+      const regionLabel = (region: string) => (validatorRegions.length > 1 ? ` (${region})` : '');
+
+      this.dashboard.addWidgets(
+        new cloudwatch.GraphWidget({
+          title: `${validator.pathPattern} allowed and denied`,
+          width: 12,
+          stacked: true,
+          left: validatorRegions.flatMap((region) => (['allow', 'deny'] as const).map((decision) =>
+            new cloudwatch.MathExpression({
+              expression: `SUM(${search(`decision="${decision}"`)})`,
+              usingMetrics: {},
+              label: `${decision === 'allow' ? 'Allowed' : 'Denied'}${regionLabel(region)}`,
+              period: cdk.Duration.minutes(5),
+              searchRegion: region === stackRegion ? undefined : region,
+            }))),
+        }),
+        new cloudwatch.GraphWidget({
+          title: `${validator.pathPattern} denials by reason`,
+          width: 12,
+          stacked: true,
+          // SEARCH labels each series with its reason
+          left: validatorRegions.map((region) => new cloudwatch.MathExpression({
+            expression: search('decision="deny"'),
+            usingMetrics: {},
+            period: cdk.Duration.minutes(5),
+            searchRegion: region === stackRegion ? undefined : region,
+          })),
+        }),
+      );
+    }
+  }
+
+  /**
+   * Decisions and Latency metrics from a CloudFront Function's decision logs,
+   * for the function and its staging copy. CloudFront creates the log groups
+   * in us-east-1 on the first log line; they are created here so the filters
+   * can be attached before that.
+   */
+  private addMetricFilters(name: string, validator: EdgeValidator): void {
+    const functions: Array<[string, cloudfront.Function | undefined]> = [
+      [validator.node.id, validator.cfFunction],
+      [`${validator.node.id}Staging`, validator.stagingCfFunction],
+    ];
+    const pattern = logs.FilterPattern.all(
+      logs.FilterPattern.stringValue('$.validator', '=', name),
+      logs.FilterPattern.exists('$.decision'),
+    );
+    const dimensions = Object.fromEntries(DECISION_DIMENSIONS.map((dimension) => [dimension, `$.${dimension}`]));
+    const logGroups: logs.LogGroup[] = [];
+    this.functionLogGroups.set(validator, logGroups);
+
+    for (const [id, cfFunction] of functions) {
+      if (!cfFunction) {
+        continue;
+      }
+      const logGroup = new logs.LogGroup(this, `${id}Logs`, {
+        logGroupName: `/aws/cloudfront/function/${cfFunction.functionName}`,
+        retention: logs.RetentionDays.ONE_MONTH,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+      logGroups.push(logGroup);
+
+      logGroup.addMetricFilter(`${id}Decisions`, {
+        filterPattern: pattern,
+        metricNamespace: this.metricsNamespace,
+        metricName: 'Decisions',
+        metricValue: '1',
+        dimensions,
+        unit: cloudwatch.Unit.COUNT,
+      });
+
+      // The validator and decision totals the Lambda@Edge EMF lines also publish
+      logGroup.addMetricFilter(`${id}DecisionTotals`, {
+        filterPattern: pattern,
+        metricNamespace: this.metricsNamespace,
+        metricName: 'Decisions',
+        metricValue: '1',
+        dimensions: { validator: '$.validator', decision: '$.decision' },
+        unit: cloudwatch.Unit.COUNT,
+      });
+
+      logGroup.addMetricFilter(`${id}Latency`, {
+        filterPattern: pattern,
+        metricNamespace: this.metricsNamespace,
+        metricName: 'Latency',
+        metricValue: '$.Latency',
+        dimensions,
+        unit: cloudwatch.Unit.MILLISECONDS,
+      });
+    }
+  }
+}
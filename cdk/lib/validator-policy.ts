@@ -0,0 +1,628 @@
+import * as cdk from 'aws-cdk-lib';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as net from 'net';
+
+/**
+ * Generated config module bundled with each Lambda@Edge validator. The
+ * committed file next to each handler holds its defaults.
+ */
+export const VALIDATOR_CONFIG_FILE = 'validator-config.json';
+
+/**
+ * KeyValueStore key holding a CloudFront Function validator's config
+ */
+export const VALIDATOR_POLICY_KVS_KEY = 'validator-policy';
+
+/**
+ * KeyValueStore key holding the CloudFront Function validator's network
+ * policy, written by the stack and by `npm run network-policy`
+ */
+export const NETWORK_POLICY_KVS_KEY = 'network-policy';
+
+// KeyValueStore values are limited to 1 KB
+const MAX_KVS_VALUE_BYTES = 1024;
+
+// Longest a Lambda@Edge validator serves a cached secret that Secrets Manager
+// can't refresh (maxStale); a revoked key stays usable that long
+const MAX_SECRET_STALE_SECONDS = 24 * 3600;
+
+const ERROR_TEMPLATE_FIELDS = ['status', 'code', 'error'];
+
+const CORS_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+const MAX_ASN = 4294967295;
+
+/**
+ * Which validator a handler is (`kind` in its validator-config.json)
+ */
+export type ValidatorKind = 'cf-function' | 'hmac' | 'aes-gcm' | 'jwt';
+
+const VALIDATOR_KINDS: ValidatorKind[] = ['cf-function', 'hmac', 'aes-gcm', 'jwt'];
+
+/**
+ * Validators whose tokens carry claims (required claims, rate limits by token)
+ */
+export const TOKEN_VALIDATOR_KINDS: ValidatorKind[] = ['aes-gcm', 'jwt'];
+
+/**
+ * Header names a validator reads; which ones apply depends on the validator
+ * (the keys of `headers` in its validator-config.json)
+ */
+export interface ValidatorHeaderNames {
+  /**
+   * Token header: X-Bot-Token (HMAC), X-Auth-Token (AES-GCM) or
+   * Authorization (JWT)
+   */
+  readonly token?: string;
+
+  /**
+   * Signature header (HMAC)
+   */
+  readonly signature?: string;
+
+  /**
+   * Key ID header (HMAC)
+   */
+  readonly keyId?: string;
+
+  /**
+   * Body hash header of canonical signing (HMAC)
+   */
+  readonly bodyHash?: string;
+
+  /**
+   * Device ID header of header device binding (AES-GCM)
+   */
+  readonly deviceId?: string;
+}
+
+/**
+ * Body of every denial, in place of the problem details
+ */
+export interface ValidatorErrorResponse {
+  /**
+   * @default 'application/json'
+   */
+  readonly contentType?: string;
+
+  /**
+   * Template: {status}, {code} and {error} are replaced with the response
+   * status, the reason code and the problem's detail, as they are
+   */
+  readonly body: string;
+}
+
+/**
+ * CORS policy of a validator path: the validator answers preflights and adds
+ * the headers to its denials, a response headers policy adds them to
+ * responses from the origin
+ */
+export interface ValidatorCorsPolicy {
+  /**
+   * Origins allowed to call the path, e.g. ['https://app.example.com'], or ['*']
+   */
+  readonly allowOrigins: string[];
+
+  /**
+   * @default ['GET', 'HEAD']
+   */
+  readonly allowMethods?: string[];
+
+  /**
+   * Request headers browsers may send
+   * @default - the validator's headers and Content-Type
+   */
+  readonly allowHeaders?: string[];
+
+  /**
+   * Response headers scripts may read
+   * @default ['Retry-After', 'WWW-Authenticate']
+   */
+  readonly exposeHeaders?: string[];
+
+  /**
+   * How long browsers may cache a preflight answer, whole seconds
+   * @default Duration.minutes(10)
+   */
+  readonly maxAge?: cdk.Duration;
+
+  /**
+   * Allow cookies and credentials (not with the '*' origin)
+   * @default false
+   */
+  readonly allowCredentials?: boolean;
+}
+
+/**
+ * Allow and deny lists checked before any token check. Each kind is checked
+ * on its own: requests on a deny list are denied (403), and so are requests
+ * missing from an allow list that isn't empty.
+ */
+export interface NetworkPolicy {
+  /**
+   * Viewer countries (CloudFront-Viewer-Country), ISO 3166-1 alpha-2 codes, e.g. ['DE', 'FR']
+   * @default - any country
+   */
+  readonly allowCountries?: string[];
+
+  /**
+   * @default - none
+   */
+  readonly denyCountries?: string[];
+
+  /**
+   * Viewer networks (CloudFront-Viewer-ASN), autonomous system numbers, e.g. [16509]
+   * @default - any network
+   */
+  readonly allowAsns?: number[];
+
+  /**
+   * @default - none
+   */
+  readonly denyAsns?: number[];
+
+  /**
+   * Client IP ranges, IPv4 or IPv6 CIDRs, e.g. ['203.0.113.0/24', '2001:db8::/32']
+   * @default - any address
+   */
+  readonly allowCidrs?: string[];
+
+  /**
+   * @default - none
+   */
+  readonly denyCidrs?: string[];
+}
+
+/**
+ * Validator settings for one path, checked at synth time
+ */
+export interface ValidatorPolicy {
+  /**
+   * How far the token timestamp may be from the current time (HMAC,
+   * AES-GCM), or the clock skew allowed on exp and nbf (JWT); whole seconds
+   * @default - 5 minutes, 1 minute for JWT
+   */
+  readonly timestampTolerance?: cdk.Duration;
+
+  /**
+   * How long a fetched secret is used before it is refreshed (Lambda@Edge
+   * only); whole seconds, under maxStale
+   * @default Duration.minutes(5)
+   */
+  readonly secretCacheTtl?: cdk.Duration;
+
+  /**
+   * How long a fetched secret is still served while Secrets Manager can't
+   * refresh it (Lambda@Edge only); whole seconds, a day at most
+   * @default Duration.hours(1)
+   */
+  readonly maxStale?: cdk.Duration;
+
+  /**
+   * Header names, in place of the validator's defaults
+   * @default - the validator's default headers
+   */
+  readonly headers?: ValidatorHeaderNames;
+
+  /**
+   * Claims the token payload must carry (AES-GCM and JWT only)
+   * @default - none
+   */
+  readonly requiredClaims?: string[];
+
+  /**
+   * Paths under the validator path that are let through unvalidated: exact
+   * paths, or prefixes ending in '*', e.g. ['/jwt/health', '/jwt/public/*']
+   * @default - none
+   */
+  readonly exemptPaths?: string[];
+
+  /**
+   * Body of denials
+   * @default - RFC 9457 problem details (application/problem+json)
+   */
+  readonly errorResponse?: ValidatorErrorResponse;
+
+  /**
+   * Answer CORS preflights and add CORS headers for these origins
+   * @default - no CORS headers, preflights are denied
+   */
+  readonly cors?: ValidatorCorsPolicy;
+
+  /**
+   * Realm of the WWW-Authenticate hint on 403s, with the validator's scheme
+   * (Bearer for JWT), e.g. 'edge-lab'
+   * @default - no WWW-Authenticate header
+   */
+  readonly authenticateRealm?: string;
+
+  /**
+   * Country, ASN and IP allow and deny lists. Lambda@Edge validators get
+   * them in their config; the CloudFront Function validator reads them from
+   * the KeyValueStore (NETWORK_POLICY_KVS_KEY), where the stack seeds them
+   * and `npm run network-policy` updates them without a deploy.
+   * @default - no lists
+   */
+  readonly network?: NetworkPolicy;
+}
+
+/**
+ * CORS policy as the handler reads it
+ */
+export interface ValidatorCorsConfig {
+  readonly allowOrigins: string[];
+  readonly allowMethods: string[];
+  readonly allowHeaders: string[];
+  readonly exposeHeaders: string[];
+  readonly maxAge: number;
+  readonly allowCredentials: boolean;
+}
+
+/**
+ * Replay cache as a Lambda@Edge handler reads it; store 'none' when off
+ */
+export interface ValidatorReplayCacheConfig {
+  readonly store: string;
+  readonly tableName: string;
+  readonly tableRegions: string[];
+}
+
+/**
+ * Rate limit as a Lambda@Edge handler reads it: at most `limit` requests per
+ * `window` seconds from each client; key '' when off
+ */
+export interface ValidatorRateLimitConfig {
+  readonly key: string;
+  readonly limit: number;
+  readonly window: number;
+  readonly store: string;
+  readonly tableName: string;
+  readonly tableRegions: string[];
+}
+
+/**
+ * Settings of one handler, set by the stack rather than by a policy (each
+ * handler has the ones in its validator-config.json)
+ */
+export interface ValidatorHandlerSettings {
+  /**
+   * HMAC (CloudFront Function and Lambda@Edge): 'timestamp' or 'canonical',
+   * and the headers a canonical request covers
+   */
+  readonly signingMode?: string;
+  readonly signedHeaders?: string[];
+
+  /**
+   * AES-GCM: what the token's device claim is compared with ('header', 'fingerprint')
+   */
+  readonly deviceBinding?: string[];
+
+  /**
+   * JWT: expected iss and aud claims, '' when not checked
+   */
+  readonly issuer?: string;
+  readonly audience?: string;
+}
+
+/**
+ * Validator settings as the handler reads them (validator-config.json)
+ */
+export interface ValidatorConfig extends ValidatorHandlerSettings {
+  readonly kind: ValidatorKind;
+  readonly secretName?: string;
+  readonly timestampTolerance: number;
+  readonly secretCacheTtl?: number;
+  readonly maxStale?: number;
+  readonly headers: Record<string, string>;
+  readonly requiredClaims?: string[];
+  readonly exemptPaths: string[];
+  readonly errorResponse: { contentType: string; body: string } | null;
+  readonly cors: ValidatorCorsConfig | null;
+  readonly wwwAuthenticate: string | null;
+  readonly network?: NetworkPolicy | null;
+  readonly failMode?: string;
+  readonly metricsNamespace?: string;
+  readonly replayCache?: ValidatorReplayCacheConfig;
+  readonly rateLimit?: ValidatorRateLimitConfig;
+
+  /**
+   * CloudFront Function: the client a rate limit counts ('ip'), '' when off.
+   * The rate-limit publisher keeps its counters.
+   */
+  readonly rateLimitKey?: string;
+}
+
+/**
+ * Defaults next to a handler: the config, plus the scheme of its
+ * WWW-Authenticate hint
+ */
+interface ValidatorDefaults extends ValidatorConfig {
+  readonly authScheme: string;
+}
+
+/**
+ * Merge a policy over the defaults next to the handler and check it.
+ * Throws on settings the validator doesn't have and on values it can't use.
+ *
+ * @param id - validator id, for error messages
+ * @param entry - handler source file
+ * @param pathPattern - cache behavior path pattern the validator runs on
+ * @param secretName - Secrets Manager secret (Lambda@Edge validators)
+ */
+export function resolveValidatorConfig(
+  id: string,
+  entry: string,
+  pathPattern: string,
+  policy: ValidatorPolicy = {},
+  secretName?: string,
+): ValidatorConfig {
+  const { authScheme, ...defaults }: ValidatorDefaults = JSON.parse(fs.readFileSync(path.join(path.dirname(entry), VALIDATOR_CONFIG_FILE), 'utf-8'));
+  if (!VALIDATOR_KINDS.includes(defaults.kind)) {
+    throw new Error(`${id}: the kind in ${VALIDATOR_CONFIG_FILE} next to ${entry} must be one of ${VALIDATOR_KINDS.join(', ')}, got "${defaults.kind}"`);
+  }
+  const lambdaEdge = defaults.kind !== 'cf-function';
+
+  const timestampTolerance = policy.timestampTolerance
+    ? wholeSeconds(id, 'timestampTolerance', policy.timestampTolerance)
+    : defaults.timestampTolerance;
+
+  let secretCacheTtl = defaults.secretCacheTtl;
+  if (policy.secretCacheTtl) {
+    if (!lambdaEdge) {
+      throw new Error(`${id}: secretCacheTtl only applies to Lambda@Edge validators`);
+    }
+    secretCacheTtl = wholeSeconds(id, 'secretCacheTtl', policy.secretCacheTtl);
+  }
+  let maxStale = defaults.maxStale;
+  if (policy.maxStale) {
+    if (!lambdaEdge) {
+      throw new Error(`${id}: maxStale only applies to Lambda@Edge validators`);
+    }
+    maxStale = wholeSeconds(id, 'maxStale', policy.maxStale);
+    if (maxStale > MAX_SECRET_STALE_SECONDS) {
+      throw new Error(`${id}: maxStale must be at most ${MAX_SECRET_STALE_SECONDS} seconds, got ${maxStale}`);
+    }
+  }
+  if (lambdaEdge && secretCacheTtl! >= maxStale!) {
+    throw new Error(`${id}: secretCacheTtl must be under maxStale (${maxStale} seconds), got ${secretCacheTtl}`);
+  }
+
+  const headers = { ...defaults.headers };
+  for (const [key, name] of Object.entries(policy.headers ?? {})) {
+    if (!(key in defaults.headers)) {
+      throw new Error(`${id}: headers can set ${Object.keys(defaults.headers).join(', ')}, got "${key}"`);
+    }
+    if (typeof name !== 'string' || !/^[A-Za-z0-9-]+$/.test(name)) {
+      throw new Error(`${id}: headers.${key} must be a header name, got "${name}"`);
+    }
+    headers[key] = name;
+  }
+  const lowercased = Object.values(headers).map((name) => name.toLowerCase());
+  if (new Set(lowercased).size !== lowercased.length) {
+    throw new Error(`${id}: headers must be distinct, got ${Object.values(headers).join(', ')}`);
+  }
+
+  let requiredClaims = defaults.requiredClaims;
+  if (policy.requiredClaims) {
+    if (!TOKEN_VALIDATOR_KINDS.includes(defaults.kind)) {
+      throw new Error(`${id}: requiredClaims only apply to token validators (AES-GCM, JWT)`);
+    }
+    for (const claim of policy.requiredClaims) {
+      if (!claim || policy.requiredClaims.indexOf(claim) !== policy.requiredClaims.lastIndexOf(claim)) {
+        throw new Error(`${id}: requiredClaims must be distinct claim names, got "${claim}"`);
+      }
+    }
+    requiredClaims = [...policy.requiredClaims];
+  }
+
+  const pathPrefix = pathPattern.replace(/\*$/, '');
+  const exemptPaths = policy.exemptPaths ?? defaults.exemptPaths;
+  for (const exemptPath of exemptPaths) {
+    if (!exemptPath.startsWith(pathPrefix) || exemptPath.slice(0, -1).includes('*')) {
+      throw new Error(`${id}: exemptPaths must be paths under ${pathPrefix}, with '*' only at the end, got "${exemptPath}"`);
+    }
+  }
+
+  let errorResponse = defaults.errorResponse;
+  if (policy.errorResponse) {
+    const { body, contentType = 'application/json' } = policy.errorResponse;
+    if (!body) {
+      throw new Error(`${id}: errorResponse needs a body template`);
+    }
+    for (const [, field] of body.matchAll(/\{(\w+)\}/g)) {
+      if (!ERROR_TEMPLATE_FIELDS.includes(field)) {
+        throw new Error(`${id}: errorResponse templates can use {${ERROR_TEMPLATE_FIELDS.join('}, {')}}, got "{${field}}"`);
+      }
+    }
+    if (!/^[\w.+-]+\/[\w.+-]+(;.*)?$/.test(contentType)) {
+      throw new Error(`${id}: errorResponse.contentType must be a media type, got "${contentType}"`);
+    }
+    errorResponse = { contentType, body };
+  }
+
+  let cors = defaults.cors;
+  if (policy.cors) {
+    cors = corsConfig(id, policy.cors, [...Object.values(headers), 'Content-Type']);
+  }
+
+  let wwwAuthenticate = defaults.wwwAuthenticate;
+  if (policy.authenticateRealm !== undefined) {
+    if (!/^[\x20-\x7e]+$/.test(policy.authenticateRealm) || /["\\]/.test(policy.authenticateRealm)) {
+      throw new Error(`${id}: authenticateRealm must be printable ASCII without quotes or backslashes, got "${policy.authenticateRealm}"`);
+    }
+    wwwAuthenticate = `${authScheme} realm="${policy.authenticateRealm}"`;
+  }
+
+  // The CloudFront Function reads its lists from the KeyValueStore (see networkPolicyKvsValue)
+  const network = lambdaEdge && policy.network ? resolveNetworkPolicy(id, policy.network) : defaults.network;
+
+  const config: ValidatorConfig = {
+    ...defaults,
+    ...(lambdaEdge ? { secretName: secretName ?? defaults.secretName } : {}),
+    timestampTolerance,
+    ...(lambdaEdge ? { secretCacheTtl, maxStale } : {}),
+    headers,
+    ...(requiredClaims ? { requiredClaims } : {}),
+    exemptPaths,
+    errorResponse,
+    cors,
+    wwwAuthenticate,
+    ...(lambdaEdge ? { network } : {}),
+  };
+
+  checkKvsValueSize(id, config);
+  return config;
+}
+
+/**
+ * Write the settings the stack picks for a handler (fail mode, rate limit,
+ * signing mode...) over its resolved config. Throws on settings the handler
+ * doesn't have in its validator-config.json.
+ *
+ * @param id - validator id, for error messages
+ */
+export function applyHandlerSettings(id: string, config: ValidatorConfig, settings: Partial<ValidatorConfig>): ValidatorConfig {
+  for (const name of Object.keys(settings)) {
+    if (name === 'kind' || !(name in config)) {
+      throw new Error(`${id}: the ${config.kind} handler has no ${name} setting (see its ${VALIDATOR_CONFIG_FILE})`);
+    }
+  }
+  const result = { ...config, ...settings };
+  checkKvsValueSize(id, result);
+  return result;
+}
+
+// The CloudFront Function reads its config from a KeyValueStore value
+function checkKvsValueSize(id: string, config: ValidatorConfig): void {
+  const bytes = Buffer.byteLength(JSON.stringify(config));
+  if (config.kind === 'cf-function' && bytes > MAX_KVS_VALUE_BYTES) {
+    throw new Error(`${id}: validator policy is ${bytes} bytes, KeyValueStore values are limited to ${MAX_KVS_VALUE_BYTES}`);
+  }
+}
+
+/**
+ * Check a network policy and normalize it the way the validators match it:
+ * country codes uppercased, duplicates and empty lists dropped. Returns null
+ * when it has no lists. Throws on values that aren't country codes, ASNs or
+ * CIDRs, and on values that are both allowed and denied.
+ *
+ * @param id - validator id (or the tool's name), for error messages
+ */
+export function resolveNetworkPolicy(id: string, network: NetworkPolicy): NetworkPolicy | null {
+  const unknown = Object.keys(network).find((name) => !/^(allow|deny)(Countries|Asns|Cidrs)$/.test(name));
+  if (unknown) {
+    throw new Error(`${id}: network can set allowCountries, denyCountries, allowAsns, denyAsns, allowCidrs, denyCidrs, got "${unknown}"`);
+  }
+
+  const lists: Record<string, Array<string | number>> = {};
+  const add = (name: keyof NetworkPolicy, values: Array<string | number> | undefined, normalize: (value: string | number) => string | number | undefined, expected: string) => {
+    if (values === undefined) {
+      return;
+    }
+    if (!Array.isArray(values)) {
+      throw new Error(`${id}: network.${name} must be a list of ${expected}`);
+    }
+    const normalized = values.map((value) => {
+      const result = normalize(value);
+      if (result === undefined) {
+        throw new Error(`${id}: network.${name} must be ${expected}, got "${value}"`);
+      }
+      return result;
+    });
+    if (normalized.length) {
+      lists[name] = [...new Set(normalized)];
+    }
+  };
+
+  const country = (value: unknown) => (typeof value === 'string' && /^[A-Za-z]{2}$/.test(value) ? value.toUpperCase() : undefined);
+  const asn = (value: unknown) => (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_ASN ? value as number : undefined);
+  for (const list of ['allow', 'deny'] as const) {
+    add(`${list}Countries`, network[`${list}Countries`], country, 'ISO 3166-1 alpha-2 country codes');
+    add(`${list}Asns`, network[`${list}Asns`], asn, `AS numbers from 1 to ${MAX_ASN}`);
+    add(`${list}Cidrs`, network[`${list}Cidrs`], cidr, 'IPv4 or IPv6 CIDRs like 203.0.113.0/24');
+  }
+
+  for (const kind of ['Countries', 'Asns', 'Cidrs']) {
+    const both = (lists[`allow${kind}`] ?? []).find((value) => (lists[`deny${kind}`] ?? []).includes(value));
+    if (both !== undefined) {
+      throw new Error(`${id}: network lists ${both} in both allow${kind} and deny${kind}`);
+    }
+  }
+  return Object.keys(lists).length ? lists as NetworkPolicy : null;
+}
+
+/**
+ * KeyValueStore value of a network policy (NETWORK_POLICY_KVS_KEY), checked
+ * against the 1 KB value limit
+ *
+ * @param id - validator id (or the tool's name), for error messages
+ */
+export function networkPolicyKvsValue(id: string, network: NetworkPolicy): string {
+  const value = JSON.stringify(resolveNetworkPolicy(id, network) ?? {});
+  if (Buffer.byteLength(value) > MAX_KVS_VALUE_BYTES) {
+    throw new Error(`${id}: network policy is ${Buffer.byteLength(value)} bytes, KeyValueStore values are limited to ${MAX_KVS_VALUE_BYTES}`);
+  }
+  return value;
+}
+
+// A CIDR the validators can match: an address in the plain dotted or
+// colon-hex form and a prefix length within its size
+function cidr(value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const [address, prefix, ...rest] = value.split('/');
+  const version = /^[\d.]+$|^[0-9A-Fa-f:]+$/.test(address) ? net.isIP(address) : 0;
+  const bits = version === 4 ? 32 : 128;
+  if (!version || rest.length || (prefix !== undefined && !(/^\d{1,3}$/.test(prefix) && Number(prefix) <= bits))) {
+    return undefined;
+  }
+  return prefix === undefined ? `${address}/${bits}` : value;
+}
+
+function corsConfig(id: string, cors: ValidatorCorsPolicy, defaultHeaders: string[]): ValidatorCorsConfig {
+  if (cors.allowOrigins.length === 0) {
+    throw new Error(`${id}: cors.allowOrigins needs at least one origin`);
+  }
+  for (const origin of cors.allowOrigins) {
+    if (origin !== '*' && !/^https?:\/\/[A-Za-z0-9.-]+(:\d+)?$/.test(origin)) {
+      throw new Error(`${id}: cors.allowOrigins must be '*' or origins like https://app.example.com, got "${origin}"`);
+    }
+  }
+  if (cors.allowCredentials && cors.allowOrigins.includes('*')) {
+    throw new Error(`${id}: cors.allowCredentials can't be used with the '*' origin`);
+  }
+
+  const allowMethods = cors.allowMethods ?? ['GET', 'HEAD'];
+  for (const method of allowMethods) {
+    if (!CORS_METHODS.includes(method)) {
+      throw new Error(`${id}: cors.allowMethods must be ${CORS_METHODS.join(', ')}, got "${method}"`);
+    }
+  }
+
+  const allowHeaders = cors.allowHeaders ?? defaultHeaders;
+  const exposeHeaders = cors.exposeHeaders ?? ['Retry-After', 'WWW-Authenticate'];
+  for (const name of [...allowHeaders, ...exposeHeaders]) {
+    if (!/^[A-Za-z0-9-]+$/.test(name)) {
+      throw new Error(`${id}: cors headers must be header names, got "${name}"`);
+    }
+  }
+
+  return {
+    allowOrigins: [...cors.allowOrigins],
+    allowMethods,
+    allowHeaders,
+    exposeHeaders,
+    maxAge: wholeSeconds(id, 'cors.maxAge', cors.maxAge ?? cdk.Duration.minutes(10)),
+    allowCredentials: cors.allowCredentials ?? false,
+  };
+}
+
+function wholeSeconds(id: string, name: string, duration: cdk.Duration): number {
+  const seconds = duration.toSeconds({ integral: false });
+  if (!Number.isInteger(seconds) || seconds < 1) {
+    throw new Error(`${id}: ${name} must be whole seconds, got ${seconds}`);
+  }
+  return seconds;
+}
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateCorpus, readCorpus, renderMarkdown, runBenchmark } from './harness/benchmark';
+
+describe('benchmark', () => {
+  test('replays a generated corpus to the decisions each kind of request gets', async () => {
+    const report = await runBenchmark(generateCorpus(10), 'generated', { warmup: 0 });
+
+    for (const validator of ['cf-function', 'lambda-edge', 'aes-gcm'] as const) {
+      const result = report.validators[validator]!;
+      expect(result.requests).toBe(10);
+      expect(result.reasons.OK).toBe(7);
+      expect(Object.values(result.reasons).reduce((total, count) => total + count, 0)).toBe(10);
+      expect(Object.keys(result.cpuMicrosByLabel)).toEqual(['expired', 'invalid-signature', 'missing-token', 'valid']);
+      expect(result.cpuMicros.max).toBeGreaterThanOrEqual(result.cpuMicros.p50);
+      expect(result.heapBytes.p50).toBeGreaterThanOrEqual(0);
+    }
+    expect(report.validators['lambda-edge']!.cloudFrontFunction).toBeUndefined();
+    expect(report.validators['cf-function']!.cloudFrontFunction).toEqual(expect.objectContaining({
+      codeLimitBytes: 10240,
+      kvsReadsPerRequest: expect.any(Number),
+      computeBudgetMicros: 1000,
+      computeRisk: expect.stringMatching(/^(ok|warning|over)$/),
+    }));
+  });
+
+  test('flags compute utilization against the budget', async () => {
+    const corpus = generateCorpus(10).filter((request) => request.validator === 'cf-function');
+    const report = await runBenchmark(corpus, 'generated', { warmup: 0, computeBudgetMicros: 0.001 });
+
+    expect(Object.keys(report.validators)).toEqual(['cf-function']);
+    expect(report.validators['cf-function']!.cloudFrontFunction).toEqual(expect.objectContaining({
+      computeUtilizationMax: 100,
+      computeRisk: 'over',
+    }));
+  });
+
+  test('renders the report as Markdown tables', async () => {
+    const report = await runBenchmark(generateCorpus(2), 'generated', { warmup: 0 });
+    const markdown = renderMarkdown({ ...report, environment: { ...report.environment, commit: 'abc1234' } });
+
+    expect(markdown).toContain('commit abc1234');
+    expect(markdown).toMatch(/^\| aes-gcm \| 2 \| /m);
+    expect(markdown).toContain('| cf-function | OK | 2 |');
+    expect(markdown).toContain('## CloudFront Function limits');
+  });
+
+  describe('readCorpus', () => {
+    let dir: string;
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'corpus-'));
+    });
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('sends requests to the validator of their path', () => {
+      const file = path.join(dir, 'corpus.jsonl');
+      fs.writeFileSync(file, [
+        JSON.stringify({ uri: '/aes-gcm/test.html' }),
+        '',
+        JSON.stringify({ uri: '/other.html', validator: 'cf-function', label: 'valid' }),
+      ].join('\n'));
+
+      expect(readCorpus(file)).toEqual([
+        { uri: '/aes-gcm/test.html', validator: 'aes-gcm', label: 'recorded' },
+        { uri: '/other.html', validator: 'cf-function', label: 'valid' },
+      ]);
+    });
+
+    test('rejects a request no validator serves', () => {
+      const file = path.join(dir, 'corpus.jsonl');
+      fs.writeFileSync(file, `${JSON.stringify({ uri: '/lambda-edge/a.html' })}\n${JSON.stringify({ uri: '/jwt/a.html' })}\n`);
+
+      expect(() => readCorpus(file)).toThrow(/corpus.jsonl:2: requests must go to cf-function, lambda-edge, aes-gcm, by validator or path, got "\/jwt\/a.html"/);
+    });
+  });
+});
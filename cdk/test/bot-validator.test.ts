@@ -0,0 +1,473 @@
+import * as cdk from 'aws-cdk-lib';
+import { cloudFrontFunctionEvent } from './harness/events';
+import { CF_FUNCTION_ENTRY, CloudFrontFunctionHandler, HandlerDate, InMemoryKeyValueStore, loadCloudFrontFunction, RecordingConsole } from './harness/handlers';
+import { canonicalRequest, CanonicalRequestOptions, nowSeconds, sha256Hex, signHmac } from './harness/tokens';
+import { atVectorTime, vectors } from './harness/vectors';
+import {
+  NetworkPolicy,
+  networkPolicyKvsValue,
+  NETWORK_POLICY_KVS_KEY,
+  resolveValidatorConfig,
+  ValidatorPolicy,
+  VALIDATOR_POLICY_KVS_KEY,
+} from '../lib/validator-policy';
+
+const SECRET = 'cf-function-test-secret';
+
+function botHeaders(secret: string, token = String(nowSeconds()), keyId?: string): Record<string, string> {
+  return {
+    'X-Bot-Token': token,
+    'X-Bot-Signature': signHmac(token, secret),
+    ...(keyId ? { 'X-Bot-Key-Id': keyId } : {}),
+  };
+}
+
+function errorOf(response: { body: { data: string } }): string {
+  return JSON.parse(response.body.data).detail;
+}
+
+describe('cloudfront-function/bot-validator.js', () => {
+  let store: InMemoryKeyValueStore;
+  let handler: CloudFrontFunctionHandler;
+
+  beforeEach(() => {
+    store = new InMemoryKeyValueStore();
+    store.put('bot-secret-keyring', { keys: [{ kid: 'default', key: SECRET }] });
+    handler = loadCloudFrontFunction(store);
+  });
+
+  test('passes a valid request through unchanged', async () => {
+    const event = cloudFrontFunctionEvent({ headers: botHeaders(SECRET) });
+    const result = await handler(event);
+    expect(result).toBe(event.request);
+  });
+
+  test.each([
+    ['token', { 'X-Bot-Signature': 'abc' }],
+    ['signature', { 'X-Bot-Token': String(nowSeconds()) }],
+    ['both headers', {}],
+  ])('rejects a request missing the %s with 403', async (_name, headers) => {
+    const result = await handler(cloudFrontFunctionEvent({ headers }));
+    expect(result.statusCode).toBe(403);
+    expect(errorOf(result)).toBe('Missing required headers: X-Bot-Token and X-Bot-Signature');
+  });
+
+  test('rejects an expired token', async () => {
+    const result = await handler(cloudFrontFunctionEvent({ headers: botHeaders(SECRET, String(nowSeconds() - 301)) }));
+    expect(result.statusCode).toBe(403);
+    expect(errorOf(result)).toBe('Token expired or invalid timestamp');
+  });
+
+  test('rejects a non-numeric token', async () => {
+    const result = await handler(cloudFrontFunctionEvent({ headers: botHeaders(SECRET, 'not-a-timestamp') }));
+    expect(result.statusCode).toBe(403);
+    expect(errorOf(result)).toBe('Token expired or invalid timestamp');
+  });
+
+  test('rejects a tampered token', async () => {
+    const headers = botHeaders(SECRET);
+    headers['X-Bot-Token'] = String(Number(headers['X-Bot-Token']) + 1);
+    const result = await handler(cloudFrontFunctionEvent({ headers }));
+    expect(result.statusCode).toBe(403);
+    expect(errorOf(result)).toBe('Invalid signature');
+  });
+
+  test('rejects a signature made with another key', async () => {
+    const result = await handler(cloudFrontFunctionEvent({ headers: botHeaders('wrong-secret') }));
+    expect(result.statusCode).toBe(403);
+    expect(errorOf(result)).toBe('Invalid signature');
+  });
+
+  test('returns 500 when the keyring is missing from the KeyValueStore', async () => {
+    store.delete('bot-secret-keyring');
+    const result = await handler(cloudFrontFunctionEvent({ headers: botHeaders(SECRET) }));
+    expect(result.statusCode).toBe(500);
+    expect(errorOf(result)).toBe('Configuration error');
+  });
+
+  describe('validator policy', () => {
+    function putPolicy(policy: ValidatorPolicy): void {
+      store.put(VALIDATOR_POLICY_KVS_KEY, resolveValidatorConfig('BotValidator', CF_FUNCTION_ENTRY, '/cf-function/*', policy));
+    }
+
+    test('returns 500 when the policy is missing from the KeyValueStore', async () => {
+      store.delete(VALIDATOR_POLICY_KVS_KEY);
+      const result = await handler(cloudFrontFunctionEvent({ headers: botHeaders(SECRET) }));
+      expect(result.statusCode).toBe(500);
+      expect(errorOf(result)).toBe('Configuration error');
+    });
+
+    test('reads the configured header names', async () => {
+      putPolicy({ headers: { token: 'X-Client-Time', signature: 'X-Client-Signature' } });
+      const token = String(nowSeconds());
+      const event = cloudFrontFunctionEvent({ headers: { 'X-Client-Time': token, 'X-Client-Signature': signHmac(token, SECRET) } });
+      expect(await handler(event)).toBe(event.request);
+
+      const result = await handler(cloudFrontFunctionEvent({ headers: botHeaders(SECRET) }));
+      expect(errorOf(result)).toBe('Missing required headers: X-Client-Time and X-Client-Signature');
+    });
+
+    test('applies the configured timestamp tolerance', async () => {
+      putPolicy({ timestampTolerance: cdk.Duration.seconds(30) });
+      const result = await handler(cloudFrontFunctionEvent({ headers: botHeaders(SECRET, String(nowSeconds() - 40)) }));
+      expect(errorOf(result)).toBe('Token expired or invalid timestamp');
+    });
+
+    test('lets exempt paths through without a token or keyring', async () => {
+      putPolicy({ exemptPaths: ['/cf-function/health', '/cf-function/public/*'] });
+      store.delete('bot-secret-keyring');
+      for (const uri of ['/cf-function/health', '/cf-function/public/logo.png']) {
+        const event = cloudFrontFunctionEvent({ uri });
+        expect(await handler(event)).toBe(event.request);
+      }
+      expect((await handler(cloudFrontFunctionEvent({ uri: '/cf-function/healthy' }))).statusCode).toBe(500);
+    });
+
+    test('renders denials with the error response template', async () => {
+      putPolicy({ errorResponse: { contentType: 'text/plain', body: '{status} {code}: {error}' } });
+      const result = await handler(cloudFrontFunctionEvent({ headers: botHeaders('wrong-secret') }));
+      expect(result.statusCode).toBe(403);
+      expect(result.headers['content-type']).toEqual({ value: 'text/plain' });
+      expect(result.body.data).toBe('403 INVALID_SIGNATURE: Invalid signature');
+    });
+
+    test('denies with application/problem+json', async () => {
+      const result = await handler(cloudFrontFunctionEvent({ uri: '/cf-function/data.json', headers: botHeaders('wrong-secret') }));
+      expect(result.statusDescription).toBe('Forbidden');
+      expect(result.headers['content-type']).toEqual({ value: 'application/problem+json' });
+      expect(JSON.parse(result.body.data)).toEqual({
+        type: 'urn:edge-lab:problem:INVALID_SIGNATURE',
+        title: 'Forbidden',
+        status: 403,
+        detail: 'Invalid signature',
+        instance: '/cf-function/data.json',
+        code: 'INVALID_SIGNATURE',
+        requestId: 'test-request-id',
+      });
+    });
+
+    test('hints the scheme and realm on 403s', async () => {
+      putPolicy({ authenticateRealm: 'edge-lab' });
+      const result = await handler(cloudFrontFunctionEvent({ headers: {} }));
+      expect(result.headers['www-authenticate']).toEqual({ value: 'BotSignature realm="edge-lab"' });
+    });
+
+    test('answers preflights from allowed origins without a token', async () => {
+      putPolicy({ cors: { allowOrigins: ['*'], maxAge: cdk.Duration.hours(1) } });
+      store.delete('bot-secret-keyring');
+      const result = await handler(cloudFrontFunctionEvent({
+        method: 'OPTIONS',
+        headers: { Origin: 'https://app.example.com', 'Access-Control-Request-Method': 'GET' },
+      }));
+
+      expect(result).toEqual({
+        statusCode: 204,
+        statusDescription: 'No Content',
+        headers: {
+          'access-control-allow-origin': { value: '*' },
+          'access-control-allow-methods': { value: 'GET, HEAD' },
+          'access-control-allow-headers': { value: 'X-Bot-Token, X-Bot-Signature, X-Bot-Key-Id, X-Bot-Content-SHA256, Content-Type' },
+          'access-control-max-age': { value: '3600' },
+        },
+      });
+    });
+
+    test('validates OPTIONS requests that are not preflights', async () => {
+      putPolicy({ cors: { allowOrigins: ['https://app.example.com'] } });
+      const result = await handler(cloudFrontFunctionEvent({ method: 'OPTIONS', headers: { Origin: 'https://app.example.com' } }));
+      expect(result.statusCode).toBe(403);
+      expect(result.headers['access-control-allow-origin']).toEqual({ value: 'https://app.example.com' });
+      expect(result.headers.vary).toEqual({ value: 'Origin' });
+    });
+  });
+
+  describe('key rotation', () => {
+    const now = nowSeconds();
+
+    beforeEach(() => {
+      store.put('bot-secret-keyring', {
+        keys: [
+          { kid: 'old', key: 'old-secret', notAfter: now + 3600 },
+          { kid: 'expired', key: 'expired-secret', notAfter: now - 10 },
+          { kid: 'current', key: 'current-secret', notBefore: now - 3600 },
+          { kid: 'future', key: 'future-secret', notBefore: now + 3600 },
+        ],
+      });
+    });
+
+    test.each(['old', 'current'])('accepts the active key %s by key ID', async (kid) => {
+      const event = cloudFrontFunctionEvent({ headers: botHeaders(`${kid}-secret`, undefined, kid) });
+      expect(await handler(event)).toBe(event.request);
+    });
+
+    test('accepts any active key when no key ID is sent', async () => {
+      const event = cloudFrontFunctionEvent({ headers: botHeaders('old-secret') });
+      expect(await handler(event)).toBe(event.request);
+    });
+
+    test.each(['expired', 'future', 'unknown'])('rejects key ID %s', async (kid) => {
+      const result = await handler(cloudFrontFunctionEvent({ headers: botHeaders(`${kid}-secret`, undefined, kid) }));
+      expect(result.statusCode).toBe(403);
+      expect(errorOf(result)).toBe('Unknown or inactive key ID');
+    });
+
+    test('rejects a signature made with a different key than the key ID names', async () => {
+      const result = await handler(cloudFrontFunctionEvent({ headers: botHeaders('old-secret', undefined, 'current') }));
+      expect(result.statusCode).toBe(403);
+      expect(errorOf(result)).toBe('Invalid signature');
+    });
+  });
+
+  describe('canonical signing mode', () => {
+    const HOST = 'd111111abcdef8.cloudfront.net';
+
+    beforeEach(() => {
+      handler = loadCloudFrontFunction(store, CF_FUNCTION_ENTRY, {
+        signingMode: 'canonical',
+        signedHeaders: ['host', 'user-agent'],
+      });
+    });
+
+    /**
+     * Request signed over `signed`, sent as `sent` (defaults to the signed request)
+     */
+    function signedEvent(signed: Omit<CanonicalRequestOptions, 'token'>, sent: Partial<CanonicalRequestOptions> = {}) {
+      const token = String(nowSeconds());
+      const signature = signHmac(canonicalRequest({ token, signedHeaders: ['host', 'user-agent'], ...signed }), SECRET);
+      const request = { ...signed, ...sent };
+      return cloudFrontFunctionEvent({
+        method: request.method,
+        uri: request.uri,
+        querystring: request.querystring,
+        headers: {
+          ...request.headers,
+          ...(request.bodyHash ? { 'X-Bot-Content-SHA256': request.bodyHash } : {}),
+          'X-Bot-Token': token,
+          'X-Bot-Signature': signature,
+        },
+      });
+    }
+
+    const baseRequest = {
+      method: 'GET',
+      uri: '/cf-function/test.html',
+      querystring: 'b=2&a=1&a=0&q=hello%20world',
+      headers: { Host: HOST, 'User-Agent': 'ExampleBot/1.0' },
+    };
+
+    test('accepts a request matching the signed method, URI, query and headers', async () => {
+      const event = signedEvent(baseRequest);
+      expect(await handler(event)).toBe(event.request);
+    });
+
+    test('ignores query parameter order and unsigned headers', async () => {
+      const event = signedEvent(baseRequest, {
+        querystring: 'q=hello%20world&a=0&b=2&a=1',
+        headers: { ...baseRequest.headers, Accept: 'text/html' },
+      });
+      expect(await handler(event)).toBe(event.request);
+    });
+
+    test('accepts a signed body hash', async () => {
+      const event = signedEvent({ ...baseRequest, method: 'POST', bodyHash: sha256Hex('{"hello":"world"}') });
+      expect(await handler(event)).toBe(event.request);
+    });
+
+    test.each([
+      ['method', { method: 'DELETE' }],
+      ['URI', { uri: '/cf-function/admin.html' }],
+      ['query', { querystring: 'b=2&a=1&a=0&q=goodbye' }],
+      ['signed header', { headers: { Host: HOST, 'User-Agent': 'OtherBot/2.0' } }],
+      ['body hash', { bodyHash: sha256Hex('tampered') }],
+    ])('rejects a request with a different %s', async (_part, sent) => {
+      const result = await handler(signedEvent(baseRequest, sent));
+      expect(result.statusCode).toBe(403);
+      expect(errorOf(result)).toBe('Invalid signature');
+    });
+
+    test('rejects a timestamp-only signature', async () => {
+      const result = await handler(cloudFrontFunctionEvent({ headers: { ...baseRequest.headers, ...botHeaders(SECRET) } }));
+      expect(result.statusCode).toBe(403);
+      expect(errorOf(result)).toBe('Invalid signature');
+    });
+  });
+
+  describe('rate limit deny list', () => {
+    let logs: RecordingConsole;
+    let clock: jest.SpyInstance<number, []>;
+    let now: number;
+
+    beforeEach(() => {
+      // Freeze the function's clock so Retry-After is exact
+      now = nowSeconds();
+      clock = jest.spyOn(HandlerDate, 'now').mockReturnValue(now * 1000);
+      logs = new RecordingConsole();
+      handler = loadCloudFrontFunction(store, CF_FUNCTION_ENTRY, { rateLimitKey: 'ip' }, logs);
+    });
+
+    afterEach(() => clock.mockRestore());
+
+    test('returns 429 with Retry-After to a listed client until its window ends', async () => {
+      store.put('rl:ip:198.51.100.10', String(now + 42));
+      const result = await handler(cloudFrontFunctionEvent({ clientIp: '198.51.100.10', headers: botHeaders(SECRET) }));
+
+      expect(result.statusCode).toBe(429);
+      expect(result.headers['retry-after']).toEqual({ value: '42' });
+      expect(JSON.parse(result.body.data)).toEqual(expect.objectContaining({ detail: 'Rate limit exceeded', code: 'RATE_LIMITED', retryAfter: 42 }));
+      expect(logs.json()).toEqual([expect.objectContaining({ decision: 'deny', reason: 'RATE_LIMITED', client: 'ip:198.51.100.10' })]);
+    });
+
+    test('lets other clients and expired entries through', async () => {
+      store.put('rl:ip:198.51.100.10', String(now - 1));
+      for (const clientIp of ['198.51.100.10', '203.0.113.7']) {
+        const event = cloudFrontFunctionEvent({ clientIp, headers: botHeaders(SECRET) });
+        expect(await handler(event)).toBe(event.request);
+      }
+    });
+
+    test('logs the client of allowed requests for the publisher to count', async () => {
+      await handler(cloudFrontFunctionEvent({ clientIp: '203.0.113.7', headers: botHeaders(SECRET) }));
+      expect(logs.json()).toEqual([expect.objectContaining({ decision: 'allow', client: 'ip:203.0.113.7' })]);
+    });
+
+    test('does not check the list for invalid requests', async () => {
+      store.put('rl:ip:198.51.100.10', String(now + 60));
+      const result = await handler(cloudFrontFunctionEvent({ clientIp: '198.51.100.10', headers: botHeaders('another-secret') }));
+      expect(result.statusCode).toBe(403);
+    });
+  });
+
+  describe('network policy', () => {
+    function putLists(network: NetworkPolicy): void {
+      store.put(NETWORK_POLICY_KVS_KEY, JSON.parse(networkPolicyKvsValue('BotValidator', network)));
+    }
+
+    test('denies clients in a denied IP range before checking their token', async () => {
+      const logs = new RecordingConsole();
+      handler = loadCloudFrontFunction(store, CF_FUNCTION_ENTRY, {}, logs);
+      putLists({ denyCidrs: ['198.51.100.0/24'] });
+
+      const result = await handler(cloudFrontFunctionEvent({ clientIp: '198.51.100.10' }));
+      expect(result.statusCode).toBe(403);
+      expect(JSON.parse(result.body.data)).toEqual(expect.objectContaining({ code: 'IP_DENIED', detail: 'Client IP address not allowed' }));
+      expect(logs.json()).toEqual([expect.objectContaining({ decision: 'deny', reason: 'IP_DENIED' })]);
+
+      const event = cloudFrontFunctionEvent({ clientIp: '198.51.101.10', headers: botHeaders(SECRET) });
+      expect(await handler(event)).toBe(event.request);
+    });
+
+    test('lets only allowed IPv6 ranges through', async () => {
+      putLists({ allowCidrs: ['2001:db8::/32'] });
+      const allowed = cloudFrontFunctionEvent({ clientIp: '2001:db8:0:1::7', headers: botHeaders(SECRET) });
+      expect(await handler(allowed)).toBe(allowed.request);
+
+      for (const clientIp of ['2001:db9::7', '198.51.100.10']) {
+        const result = await handler(cloudFrontFunctionEvent({ clientIp, headers: botHeaders(SECRET) }));
+        expect(JSON.parse(result.body.data).code).toBe('IP_DENIED');
+      }
+    });
+
+    test('lets only allowed countries through, denying requests without one', async () => {
+      putLists({ allowCountries: ['de', 'FR'] });
+      const allowed = cloudFrontFunctionEvent({ headers: { ...botHeaders(SECRET), 'CloudFront-Viewer-Country': 'DE' } });
+      expect(await handler(allowed)).toBe(allowed.request);
+
+      for (const headers of [{ 'CloudFront-Viewer-Country': 'US' }, {}] as Array<Record<string, string>>) {
+        const result = await handler(cloudFrontFunctionEvent({ headers: { ...botHeaders(SECRET), ...headers } }));
+        expect(result.statusCode).toBe(403);
+        expect(JSON.parse(result.body.data).code).toBe('COUNTRY_DENIED');
+      }
+    });
+
+    test('denies denied networks', async () => {
+      putLists({ denyAsns: [64496] });
+      const result = await handler(cloudFrontFunctionEvent({ headers: { ...botHeaders(SECRET), 'CloudFront-Viewer-ASN': '64496' } }));
+      expect(JSON.parse(result.body.data).code).toBe('ASN_DENIED');
+
+      const event = cloudFrontFunctionEvent({ headers: { ...botHeaders(SECRET), 'CloudFront-Viewer-ASN': '64497' } });
+      expect(await handler(event)).toBe(event.request);
+    });
+
+    test('applies to exempt paths too', async () => {
+      store.put(VALIDATOR_POLICY_KVS_KEY, resolveValidatorConfig('BotValidator', CF_FUNCTION_ENTRY, '/cf-function/*', { exemptPaths: ['/cf-function/health'] }));
+      putLists({ denyCountries: ['US'] });
+      const result = await handler(cloudFrontFunctionEvent({ uri: '/cf-function/health', headers: { 'CloudFront-Viewer-Country': 'US' } }));
+      expect(result.statusCode).toBe(403);
+    });
+  });
+
+  describe('decision logs', () => {
+    let logs: RecordingConsole;
+
+    beforeEach(() => {
+      logs = new RecordingConsole();
+      handler = loadCloudFrontFunction(store, CF_FUNCTION_ENTRY, {}, logs);
+    });
+
+    test('logs an allowed request as one JSON line for the metric filters', async () => {
+      await handler(cloudFrontFunctionEvent({ uri: '/cf-function/test.html', headers: botHeaders(SECRET) }));
+      expect(logs.json()).toEqual([{
+        validator: 'cf-function',
+        decision: 'allow',
+        reason: 'OK',
+        path: '/cf-function/test.html',
+        keyId: 'default',
+        Latency: expect.any(Number),
+      }]);
+    });
+
+    test.each([
+      ['MISSING_HEADERS', () => ({})],
+      ['TOKEN_EXPIRED', () => botHeaders(SECRET, String(nowSeconds() - 301))],
+      ['UNKNOWN_KEY_ID', () => botHeaders(SECRET, undefined, 'retired')],
+      ['INVALID_SIGNATURE', () => botHeaders('another-secret')],
+    ])('logs a denial with reason %s', async (reason, headers) => {
+      await handler(cloudFrontFunctionEvent({ headers: headers() }));
+      expect(logs.json()).toEqual([expect.objectContaining({ validator: 'cf-function', decision: 'deny', reason })]);
+    });
+
+    test('logs a KeyValueStore failure as a denial', async () => {
+      store.delete('bot-secret-keyring');
+      await handler(cloudFrontFunctionEvent({ headers: botHeaders(SECRET) }));
+      expect(logs.json()).toEqual([expect.objectContaining({ decision: 'deny', reason: 'CONFIG_ERROR' })]);
+    });
+  });
+
+  describe('shared test vectors', () => {
+    atVectorTime();
+
+    beforeEach(() => {
+      store.put('bot-secret-keyring', { keys: [{ kid: 'k2', key: vectors.hmac.key }] });
+    });
+
+    test.each(vectors.hmac.timestamp)('accepts $description', async (vector) => {
+      const event = cloudFrontFunctionEvent({
+        headers: {
+          'X-Bot-Token': vector.token,
+          'X-Bot-Signature': vector.signature,
+          ...(vector.keyId ? { 'X-Bot-Key-Id': vector.keyId } : {}),
+        },
+      });
+      expect(await handler(event)).toBe(event.request);
+    });
+
+    test.each(vectors.hmac.canonical)('accepts canonical $description', async (vector) => {
+      handler = loadCloudFrontFunction(store, CF_FUNCTION_ENTRY, {
+        signingMode: 'canonical',
+        signedHeaders: vector.signedHeaders,
+      });
+      const event = cloudFrontFunctionEvent({
+        method: vector.method,
+        uri: vector.uri,
+        querystring: vector.querystring,
+        headers: {
+          ...vector.headers,
+          ...(vector.bodyHash ? { 'X-Bot-Content-SHA256': vector.bodyHash } : {}),
+          'X-Bot-Token': vector.token,
+          'X-Bot-Signature': vector.signature,
+        },
+      });
+      expect(await handler(event)).toBe(event.request);
+    });
+  });
+});
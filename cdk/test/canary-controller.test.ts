@@ -0,0 +1,172 @@
+import { CANARY_CONTROLLER_ENTRY, FakeSdkClient, loadTaskHandler, TaskHandler } from './harness/handlers';
+
+const HEADER_TRAFFIC = { Type: 'SingleHeader', SingleHeaderConfig: { Header: 'aws-cf-cd-staging', Value: 'true' } };
+
+const ENV = {
+  DISTRIBUTION_ID: 'EPRIMARY',
+  STAGING_DISTRIBUTION_ID: 'ESTAGING',
+  POLICY_ID: 'policy-1',
+  ALARM_NAMES: 'primary-5xx,hmac-deny-rate',
+  STEPS: '[5, 10, 15]',
+};
+
+/**
+ * CloudFront with one continuous deployment policy; every update needs its current ETag
+ */
+function fakeCloudFront(trafficConfig: any = HEADER_TRAFFIC) {
+  let config = {
+    StagingDistributionDnsNames: { Quantity: 1, Items: ['dstaging.cloudfront.net'] },
+    Enabled: true,
+    TrafficConfig: trafficConfig,
+  };
+  let etag = 1;
+
+  const client = new FakeSdkClient('CloudFrontClient', {
+    GetContinuousDeploymentPolicyCommand: () => ({
+      ContinuousDeploymentPolicy: { Id: 'policy-1', ContinuousDeploymentPolicyConfig: structuredClone(config) },
+      ETag: `E${etag}`,
+    }),
+    UpdateContinuousDeploymentPolicyCommand: (input) => {
+      if (input.IfMatch !== `E${etag}`) {
+        throw Object.assign(new Error('The If-Match version is missing or not valid'), { name: 'PreconditionFailed' });
+      }
+      config = input.ContinuousDeploymentPolicyConfig;
+      etag++;
+      return {};
+    },
+    GetDistributionCommand: (input) => ({ Distribution: { Id: input.Id }, ETag: `${input.Id}-ETAG` }),
+    UpdateDistributionWithStagingConfigCommand: () => ({}),
+  });
+  return { client, config: () => config };
+}
+
+function fakeCloudWatch(states: Record<string, string>) {
+  return new FakeSdkClient('CloudWatchClient', {
+    DescribeAlarmsCommand: (input) => ({
+      MetricAlarms: input.AlarmNames.map((name: string) => ({ AlarmName: name, StateValue: states[name] ?? 'OK' })),
+    }),
+  });
+}
+
+/**
+ * What the controller passes from one state to the next
+ */
+interface RampState {
+  percent?: number;
+  lastStep?: boolean;
+  alarm?: string | null;
+  result?: string;
+  error?: string;
+}
+
+/**
+ * Drive the handler the way the CanaryRamp state machine does. `afterStep`
+ * runs after each step is applied, before the alarms are checked.
+ */
+async function runRamp(handler: TaskHandler, afterStep: (state: RampState) => void = () => undefined): Promise<RampState> {
+  const step = (action: string, state: RampState) => handler({ action, state }) as Promise<RampState>;
+  let state = await step('start', {});
+  for (;;) {
+    try {
+      state = await step('applyStep', state);
+      afterStep(state);
+      state = await step('checkAlarms', state);
+    } catch (error) {
+      return step('rollback', { ...state, error: String(error) });
+    }
+    if (state.alarm) {
+      return step('rollback', state);
+    }
+    if (state.lastStep) {
+      return step('promote', state);
+    }
+  }
+}
+
+describe('canary-controller/index.js', () => {
+  let cloudFront: ReturnType<typeof fakeCloudFront>;
+  let alarmStates: Record<string, string>;
+
+  function load(): TaskHandler {
+    return loadTaskHandler(CANARY_CONTROLLER_ENTRY, {
+      '@aws-sdk/client-cloudfront': cloudFront.client.module(),
+      '@aws-sdk/client-cloudwatch': fakeCloudWatch(alarmStates).module(),
+    }, ENV);
+  }
+
+  beforeEach(() => {
+    cloudFront = fakeCloudFront();
+    alarmStates = {};
+  });
+
+  test('ramps the staging weight through the steps, then promotes', async () => {
+    const result = await runRamp(load());
+
+    expect(result.result).toBe('promoted');
+    // The header policy is back after the promotion
+    expect(cloudFront.client.inputs('UpdateContinuousDeploymentPolicyCommand')
+      .map((input) => input.ContinuousDeploymentPolicyConfig.TrafficConfig)).toEqual([
+      { Type: 'SingleWeight', SingleWeightConfig: { Weight: 0.05 } },
+      { Type: 'SingleWeight', SingleWeightConfig: { Weight: 0.1 } },
+      { Type: 'SingleWeight', SingleWeightConfig: { Weight: 0.15 } },
+      HEADER_TRAFFIC,
+    ]);
+    expect(cloudFront.config().StagingDistributionDnsNames.Items).toEqual(['dstaging.cloudfront.net']);
+
+    expect(cloudFront.client.inputs('UpdateDistributionWithStagingConfigCommand')).toEqual([{
+      Id: 'EPRIMARY',
+      StagingDistributionId: 'ESTAGING',
+      IfMatch: 'EPRIMARY-ETAG, ESTAGING-ETAG',
+    }]);
+  });
+
+  test('rolls back when an alarm fires', async () => {
+    const result = await runRamp(load(), (state) => {
+      if (state.percent === 10) {
+        alarmStates['hmac-deny-rate'] = 'ALARM';
+      }
+    });
+
+    expect(result).toMatchObject({ result: 'rolled-back', alarm: 'hmac-deny-rate', percent: 10 });
+    expect(cloudFront.config().TrafficConfig).toEqual(HEADER_TRAFFIC);
+    expect(cloudFront.client.inputs('UpdateDistributionWithStagingConfigCommand')).toHaveLength(0);
+    // No step after the alarm
+    expect(cloudFront.client.inputs('UpdateContinuousDeploymentPolicyCommand')
+      .map((input) => input.ContinuousDeploymentPolicyConfig.TrafficConfig.SingleWeightConfig?.Weight)).not.toContain(0.15);
+  });
+
+  test('rolls back when a step fails', async () => {
+    let steps = 0;
+    const result = await runRamp(load(), () => {
+      if (++steps === 2) {
+        throw new Error('Rate exceeded');
+      }
+    });
+
+    expect(result).toMatchObject({ result: 'rolled-back', error: 'Error: Rate exceeded' });
+    expect(cloudFront.config().TrafficConfig).toEqual(HEADER_TRAFFIC);
+  });
+
+  test('keeps the session stickiness of a weight-based policy', async () => {
+    const stickiness = { IdleTTL: 300, MaximumTTL: 600 };
+    cloudFront = fakeCloudFront({ Type: 'SingleWeight', SingleWeightConfig: { Weight: 0.01, SessionStickinessConfig: stickiness } });
+    const handler = load();
+
+    const state = await handler({ action: 'applyStep', state: await handler({ action: 'start', state: {} }) });
+    expect(cloudFront.config().TrafficConfig).toEqual({
+      Type: 'SingleWeight',
+      SingleWeightConfig: { Weight: 0.05, SessionStickinessConfig: stickiness },
+    });
+
+    // Rolling back sends no viewers to staging at all
+    await handler({ action: 'rollback', state });
+    expect(cloudFront.config().TrafficConfig).toEqual({
+      Type: 'SingleWeight',
+      SingleWeightConfig: { Weight: 0, SessionStickinessConfig: stickiness },
+    });
+  });
+
+  test('rejects an unknown action', async () => {
+    await expect(load()({ action: 'deploy' })).rejects.toThrow('Unknown action: deploy');
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  clientSubnet,
+  decryptAuthToken,
+  deviceFingerprint,
+  encryptAuthToken,
+  publicJwk,
+  signHmacRequest,
+  signJwt,
+  verifyAuthToken,
+  verifyHmacRequest,
+  verifyJwt,
+} from '../../client-sdk/src';
+import { tamper } from './harness/tokens';
+import { vectors } from './harness/vectors';
+
+const { key, timestamp, canonical } = vectors.hmac;
+const { keyHex, tokens } = vectors.aesGcm;
+const jwt = vectors.jwt;
+
+describe('client-sdk', () => {
+  describe('signHmacRequest', () => {
+    test.each(timestamp)('reproduces $description', (vector) => {
+      const signed = signHmacRequest({ key, timestamp: vector.timestamp, nonce: vector.nonce, keyId: vector.keyId });
+      expect(signed.token).toBe(vector.token);
+      expect(signed.signature).toBe(vector.signature);
+      expect(signed.headers['X-Bot-Key-Id']).toBe(vector.keyId);
+    });
+
+    test.each(canonical)('reproduces canonical $description', (vector) => {
+      const signed = signHmacRequest({ key, mode: 'canonical', ...vector });
+      expect(signed.stringToSign).toBe(vector.canonicalRequest);
+      expect(signed.signature).toBe(vector.signature);
+      expect(signed.headers['X-Bot-Content-SHA256']).toBe(vector.bodyHash);
+    });
+  });
+
+  describe('verifyHmacRequest', () => {
+    test.each(canonical)('accepts canonical $description', (vector) => {
+      const headers = { ...vector.headers, ...signHmacRequest({ key, mode: 'canonical', ...vector }).headers };
+      expect(verifyHmacRequest({ key, mode: 'canonical', ...vector, headers, now: vectors.now })).toEqual({ valid: true });
+    });
+
+    test('rejects a request that differs from the signed one', () => {
+      const vector = canonical[1];
+      const headers = { ...vector.headers, 'X-Bot-Token': vector.token, 'X-Bot-Signature': vector.signature };
+      const result = verifyHmacRequest({ key, mode: 'canonical', ...vector, uri: '/cf-function/admin.html', headers, now: vectors.now });
+      expect(result).toEqual({ valid: false, error: 'Invalid signature' });
+    });
+
+    test('rejects a token outside the timestamp tolerance', () => {
+      const headers = { 'X-Bot-Token': timestamp[0].token, 'X-Bot-Signature': timestamp[0].signature };
+      expect(verifyHmacRequest({ key, headers, now: vectors.now + 301 }))
+        .toEqual({ valid: false, error: 'Token expired or invalid timestamp' });
+    });
+
+    test('rejects a body that differs from the signed hash', () => {
+      const vector = canonical[2];
+      const headers = { ...vector.headers, ...signHmacRequest({ key, mode: 'canonical', ...vector }).headers };
+      const result = verifyHmacRequest({ key, mode: 'canonical', ...vector, headers, body: 'tampered', now: vectors.now });
+      expect(result).toEqual({ valid: false, error: 'Body does not match X-Bot-Content-SHA256' });
+    });
+  });
+
+  describe('encryptAuthToken', () => {
+    test.each(tokens)('reproduces $description', (vector) => {
+      expect(encryptAuthToken(vector.payload, keyHex, { keyId: vector.keyId, nonceHex: vector.nonceHex })).toBe(vector.token);
+    });
+
+    test('uses a fresh nonce per token', () => {
+      expect(encryptAuthToken({ ts: vectors.now }, keyHex)).not.toBe(encryptAuthToken({ ts: vectors.now }, keyHex));
+    });
+
+    test('rejects a key that is not 32 bytes', () => {
+      expect(() => encryptAuthToken({ ts: vectors.now }, 'abcd')).toThrow(/32 bytes/);
+    });
+  });
+
+  describe('verifyAuthToken', () => {
+    test.each(tokens)('decrypts $description', (vector) => {
+      expect(verifyAuthToken(vector.token, keyHex, { now: vectors.now }))
+        .toEqual({ valid: true, kid: vector.keyId ?? null, payload: vector.payload });
+    });
+
+    test.each([
+      ['nonce', 0],
+      ['ciphertext', 1],
+      ['auth tag', 2],
+    ])('rejects a token with a tampered %s', (_part, part) => {
+      const token = tamper(tokens[0].token, part as number);
+      expect(decryptAuthToken(token, keyHex)).toBeNull();
+      expect(verifyAuthToken(token, keyHex, { now: vectors.now }))
+        .toEqual({ valid: false, error: 'Invalid or corrupted token' });
+    });
+
+    test('rejects an expired token', () => {
+      expect(verifyAuthToken(tokens[0].token, keyHex, { now: vectors.now + 301 }))
+        .toEqual({ valid: false, error: 'Token expired or invalid timestamp' });
+    });
+  });
+
+  describe('signJwt', () => {
+    // Ed25519 signatures are deterministic, ECDSA ones are not
+    test('reproduces the EdDSA token', () => {
+      const vector = jwt.tokens.find((candidate) => candidate.alg === 'EdDSA')!;
+      const privateKey = jwt.privateKeys.find((candidate) => candidate.kid === vector.kid)!;
+      expect(signJwt(vector.claims, privateKey)).toBe(vector.token);
+    });
+
+    test.each(jwt.privateKeys)('round-trips with $kid', (privateKey) => {
+      const claims = { sub: 'bot-001', exp: vectors.now + 60 };
+      const result = verifyJwt(signJwt(claims, privateKey), { keys: [publicJwk(privateKey)] }, { now: vectors.now });
+      expect(result).toEqual({ valid: true, kid: privateKey.kid, claims });
+    });
+  });
+
+  describe('verifyJwt', () => {
+    const options = { issuer: jwt.issuer, audience: jwt.audience, now: vectors.now };
+
+    test.each(jwt.tokens)('accepts $description', (vector) => {
+      expect(verifyJwt(vector.token, jwt.jwks, options)).toEqual({ valid: true, kid: vector.kid, claims: vector.claims });
+    });
+
+    test.each([
+      ['expired', { now: vectors.now + 361 }, { error: 'Token expired', code: 'TOKEN_EXPIRED' }],
+      ['from another issuer', { issuer: 'https://other.example.com' }, { error: 'Token issuer is not accepted', code: 'ISSUER_MISMATCH' }],
+      ['for another audience', { audience: 'other-service' }, { error: 'Token is not valid for this audience', code: 'AUDIENCE_MISMATCH' }],
+    ])('rejects a token that is %s', (_case, overrides, error) => {
+      expect(verifyJwt(jwt.tokens[0].token, jwt.jwks, { ...options, ...overrides })).toEqual({ valid: false, ...error });
+    });
+
+    test('rejects a tampered signature', () => {
+      const [header, payload, signature] = jwt.tokens[0].token.split('.');
+      const tampered = `${header}.${payload}.${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`;
+      expect(verifyJwt(tampered, jwt.jwks, options))
+        .toEqual({ valid: false, error: 'Invalid signature' });
+    });
+  });
+
+  describe('deviceFingerprint', () => {
+    test.each(vectors.deviceFingerprint)('reproduces the fingerprint for $clientIp', (vector) => {
+      expect(clientSubnet(vector.clientIp)).toBe(vector.subnet);
+      expect(deviceFingerprint(vector.userAgent, vector.clientIp)).toBe(vector.fingerprint);
+    });
+  });
+});
@@ -0,0 +1,1589 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { CanaryTrafficType, EdgeLabStack, EdgeLabStackProps, JwtPublicKey, RateLimitEnforcement, SigningMode } from '../lib/edge-lab-stack';
+import { EdgeValidator, FailMode, RateLimitKey, RateLimitStore, ReplayCacheStore, VALIDATION_REQUEST_HEADERS } from '../lib/edge-validator';
+import { cloudFrontFunctionCode, MAX_CLOUDFRONT_FUNCTION_BYTES } from '../lib/function-code';
+import { bundleLambdaCode, KVS_WRITE_ENTRY, KVS_WRITE_FILE } from '../lib/lambda-asset';
+import { NetworkPolicy, resolveValidatorConfig, ValidatorConfig, VALIDATOR_CONFIG_FILE, VALIDATOR_POLICY_KVS_KEY } from '../lib/validator-policy';
+import { CF_FUNCTION_ENTRY, RATE_LIMIT_PUBLISHER_ENTRY } from './harness/handlers';
+
+const VALIDATOR_PATHS = ['/cf-function/*', '/lambda-edge/*', '/aes-gcm/*', '/jwt/*'];
+
+const BASE_OUTPUTS = [
+  'LambdaEdgeFunctionName',
+  'LambdaEdgeCurrentVersionArn',
+  'AesGcmLambdaEdgeFunctionName',
+  'LambdaListVersionsCommand',
+  'LambdaCanaryNote',
+  'DistributionDomainName',
+  'CloudFrontFunctionTestUrl',
+  'LambdaEdgeTestUrl',
+  'AesGcmTestUrl',
+  'JwtTestUrl',
+  'BucketName',
+  'SecretArn',
+  'AesGcmSecretArn',
+  'JwksSecretArn',
+  'JwtLambdaEdgeFunctionName',
+  'KeyValueStoreArn',
+  'AccessLogBucketName',
+  'DashboardUrl',
+  'AthenaQueryExample',
+];
+
+const CANARY_OUTPUTS = [
+  'StagingDistributionDomainName',
+  'StagingDistributionId',
+  'CanaryTestCommand',
+  'PromoteCommand',
+  'CanaryRampStateMachineArn',
+  'CanaryRampStartCommand',
+  'CloudFrontFunctionLogGroup',
+  'StagingCloudFrontFunctionLogGroup',
+];
+
+/**
+ * Synthesize the stack offline: an empty bundling-stacks list skips bundling
+ * the Lambda handlers
+ */
+function synth(props: EdgeLabStackProps = {}): Template {
+  return Template.fromStack(testStack(new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } }), props));
+}
+
+function testStack(app: cdk.App, props: EdgeLabStackProps = {}): EdgeLabStack {
+  return new EdgeLabStack(app, 'TestStack', {
+    env: { account: '123456789012', region: 'us-east-1' },
+    ...props,
+  });
+}
+
+// The parts of the synthesized resources the assertions read
+
+interface CacheBehavior {
+  PathPattern: string;
+  AllowedMethods?: string[];
+  CachePolicyId?: unknown;
+  OriginRequestPolicyId?: unknown;
+  ResponseHeadersPolicyId?: unknown;
+  FunctionAssociations?: { EventType: string; FunctionARN: unknown }[];
+  LambdaFunctionAssociations?: { EventType: string; LambdaFunctionARN: unknown; IncludeBody?: boolean }[];
+}
+
+interface DistributionConfig {
+  Staging?: boolean;
+  DefaultCacheBehavior: Omit<CacheBehavior, 'PathPattern'>;
+  CacheBehaviors: CacheBehavior[];
+  ContinuousDeploymentPolicyId?: unknown;
+  Logging?: Record<string, unknown>;
+  Aliases?: string[];
+  ViewerCertificate?: unknown;
+  WebACLId?: unknown;
+  Origins: { OriginAccessControlId?: unknown }[];
+}
+
+interface PolicyStatement {
+  Action: string | string[];
+  Resource?: unknown;
+  Principal?: { Service: string | string[] };
+}
+
+interface KvsValueSeedProperties {
+  Key: string;
+  Value: string;
+}
+
+interface JoinedString {
+  'Fn::Join': [string, unknown[]];
+}
+
+/**
+ * Properties of the resources of a type, optionally matching `properties`
+ */
+function resourceProperties<P>(template: Template, type: string, properties?: object): P[] {
+  return Object.values(template.findResources(type, properties && { Properties: properties }))
+    .map((resource) => resource.Properties as P);
+}
+
+function distributionConfigs(template: Template, staging: boolean): DistributionConfig[] {
+  return resourceProperties<{ DistributionConfig: DistributionConfig }>(template, 'AWS::CloudFront::Distribution')
+    .map((properties) => properties.DistributionConfig)
+    .filter((config) => (config.Staging === true) === staging);
+}
+
+function cacheBehavior(config: DistributionConfig, pathPattern: string): CacheBehavior {
+  const behavior = config.CacheBehaviors.find((candidate) => candidate.PathPattern === pathPattern);
+  expect(behavior).toBeDefined();
+  return behavior!;
+}
+
+function policyStatements(template: Template): PolicyStatement[] {
+  return resourceProperties<{ PolicyDocument: { Statement: PolicyStatement[] } }>(template, 'AWS::IAM::Policy')
+    .flatMap((properties) => properties.PolicyDocument.Statement);
+}
+
+function actionsOf(statement: PolicyStatement): string[] {
+  return ([] as string[]).concat(statement.Action);
+}
+
+function resourcesOf(statement: PolicyStatement): unknown[] {
+  return ([] as unknown[]).concat(statement.Resource);
+}
+
+/**
+ * The literal parts of an Fn::Join, with the tokens left out
+ */
+function literalParts(value: JoinedString): string {
+  return value['Fn::Join'][1]
+    .map((part) => (typeof part === 'string' ? part : ''))
+    .join('');
+}
+
+/**
+ * The CloudFront Function's policy, as the stack seeds it into the KeyValueStore
+ */
+function cfFunctionPolicy(template: Template): ValidatorConfig {
+  const [seed] = resourceProperties<{ Value: string }>(template, 'Custom::KvsValueSeed', { Key: VALIDATOR_POLICY_KVS_KEY });
+  return JSON.parse(seed.Value);
+}
+
+interface StateDefinition {
+  Type?: string;
+  Next?: string;
+  Default?: string;
+  Seconds?: number;
+  Choices?: { Next: string }[];
+  Catch?: unknown;
+}
+
+/**
+ * The canary ramp state machine's definition, with the tokens (function ARNs) left out
+ */
+function canaryRampDefinition(template: Template): { StartAt: string; States: Record<string, StateDefinition> } {
+  const [stateMachine] = resourceProperties<{ DefinitionString: JoinedString }>(template, 'AWS::StepFunctions::StateMachine');
+  return JSON.parse(literalParts(stateMachine.DefinitionString));
+}
+
+/**
+ * Environment of the canary ramp controller
+ */
+function canaryControllerEnv(template: Template): Record<string, unknown> {
+  const [controller] = resourceProperties<{ Environment: { Variables: Record<string, unknown> } }>(template, 'AWS::Lambda::Function', {
+    Description: 'Shifts canary traffic, checks alarms, promotes or rolls back',
+  });
+  return controller.Environment.Variables;
+}
+
+function logicalIdOf(template: Template, type: string, props: object): string {
+  const ids = Object.keys(template.findResources(type, { Properties: props }));
+  expect(ids).toHaveLength(1);
+  return ids[0];
+}
+
+describe('EdgeLabStack (default)', () => {
+  let template: Template;
+
+  beforeAll(() => {
+    template = synth();
+  });
+
+  test('has one distribution with the default and four validator behaviors', () => {
+    const [config, ...others] = distributionConfigs(template, false);
+    expect(others).toHaveLength(0);
+    expect(distributionConfigs(template, true)).toHaveLength(0);
+
+    expect(config.DefaultCacheBehavior).toBeDefined();
+    expect(config.DefaultCacheBehavior.FunctionAssociations).toBeUndefined();
+    expect(config.DefaultCacheBehavior.LambdaFunctionAssociations).toBeUndefined();
+    expect(config.CacheBehaviors.map((behavior) => behavior.PathPattern).sort())
+      .toEqual([...VALIDATOR_PATHS].sort());
+  });
+
+  test('associates each validator with its behavior', () => {
+    const [config] = distributionConfigs(template, false);
+    const behavior = (pathPattern: string) => cacheBehavior(config, pathPattern);
+
+    const cfFunction = logicalIdOf(template, 'AWS::CloudFront::Function', {
+      FunctionConfig: Match.objectLike({ Runtime: 'cloudfront-js-2.0' }),
+      Name: Match.anyValue(),
+    });
+    expect(behavior('/cf-function/*').FunctionAssociations).toEqual([
+      { EventType: 'viewer-request', FunctionARN: { 'Fn::GetAtt': [cfFunction, 'FunctionARN'] } },
+    ]);
+    expect(behavior('/cf-function/*').LambdaFunctionAssociations).toBeUndefined();
+
+    const lambdaArns = new Set<string>();
+    for (const pathPattern of ['/lambda-edge/*', '/aes-gcm/*', '/jwt/*']) {
+      expect(behavior(pathPattern).FunctionAssociations).toBeUndefined();
+      expect(behavior(pathPattern).LambdaFunctionAssociations).toEqual([
+        expect.objectContaining({ EventType: 'viewer-request', LambdaFunctionARN: expect.anything() }),
+      ]);
+      // Timestamp signing doesn't need the body
+      expect(behavior(pathPattern).LambdaFunctionAssociations![0].IncludeBody ?? false).toBe(false);
+      lambdaArns.add(JSON.stringify(behavior(pathPattern).LambdaFunctionAssociations![0].LambdaFunctionARN));
+    }
+    expect(lambdaArns.size).toBe(3);
+  });
+
+  test('reads the KeyValueStore from the CloudFront Function', () => {
+    template.hasResourceProperties('AWS::CloudFront::Function', {
+      FunctionConfig: Match.objectLike({
+        Runtime: 'cloudfront-js-2.0',
+        KeyValueStoreAssociations: [{ KeyValueStoreARN: Match.anyValue() }],
+      }),
+    });
+  });
+
+  test('signs origin requests with SigV4 through an origin access control', () => {
+    template.hasResourceProperties('AWS::CloudFront::OriginAccessControl', {
+      OriginAccessControlConfig: {
+        Name: Match.anyValue(),
+        OriginAccessControlOriginType: 's3',
+        SigningBehavior: 'always',
+        SigningProtocol: 'sigv4',
+      },
+    });
+
+    const [config] = distributionConfigs(template, false);
+    expect(config.Origins).toHaveLength(1);
+    expect(config.Origins[0].OriginAccessControlId).toBeDefined();
+  });
+
+  test('writes access logs to an object-writer bucket', () => {
+    const logBucket = logicalIdOf(template, 'AWS::S3::Bucket', {
+      OwnershipControls: { Rules: [{ ObjectOwnership: 'ObjectWriter' }] },
+    });
+
+    const [config] = distributionConfigs(template, false);
+    expect(config.Logging).toEqual({
+      Bucket: { 'Fn::GetAtt': [logBucket, 'RegionalDomainName'] },
+      IncludeCookies: false,
+      Prefix: 'cloudfront-logs/primary/',
+    });
+  });
+
+  test('has no canary ramp workflow', () => {
+    template.resourceCountIs('AWS::StepFunctions::StateMachine', 0);
+    template.resourceCountIs('AWS::CloudWatch::Alarm', 0);
+  });
+
+  test('provisions no analytics resources', () => {
+    template.resourceCountIs('AWS::Glue::Table', 0);
+    template.resourceCountIs('AWS::Athena::WorkGroup', 0);
+  });
+
+  test('lets Lambda@Edge assume the validator roles', () => {
+    const edgeRoles = template.findResources('AWS::IAM::Role', {
+      Properties: {
+        AssumeRolePolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({ Principal: { Service: 'edgelambda.amazonaws.com' } }),
+          ]),
+        },
+      },
+    });
+    expect(Object.keys(edgeRoles)).toHaveLength(3);
+
+    for (const role of Object.values(edgeRoles)) {
+      const statements: PolicyStatement[] = role.Properties.AssumeRolePolicyDocument.Statement;
+      const services = statements.map((statement) => statement.Principal!.Service);
+      expect(services.sort()).toEqual(['edgelambda.amazonaws.com', 'lambda.amazonaws.com']);
+    }
+  });
+
+  test('scopes GetSecretValue to the validator secrets', () => {
+    const botSecret = logicalIdOf(template, 'AWS::SecretsManager::Secret', { Name: 'bot-validator-secret' });
+    const aesGcmSecret = logicalIdOf(template, 'AWS::SecretsManager::Secret', { Name: 'aesgcm-validator-secret' });
+    const jwksSecret = logicalIdOf(template, 'AWS::SecretsManager::Secret', { Name: 'jwt-validator-jwks' });
+
+    const statements = policyStatements(template)
+      .filter((statement) => actionsOf(statement).includes('secretsmanager:GetSecretValue'));
+    expect(statements.length).toBeGreaterThan(0);
+
+    const resources = new Set<string>();
+    for (const statement of statements) {
+      for (const resource of resourcesOf(statement)) {
+        expect(resource).not.toBe('*');
+        resources.add(JSON.stringify(resource));
+      }
+    }
+    expect([...resources].sort()).toEqual([
+      JSON.stringify({ Ref: aesGcmSecret }),
+      JSON.stringify({ Ref: botSecret }),
+      JSON.stringify({ Ref: jwksSecret }),
+    ].sort());
+  });
+
+  test('generates the validator keys instead of embedding them', () => {
+    const secrets = resourceProperties<{ Name: string; SecretString?: string; GenerateSecretString?: object }>(
+      template, 'AWS::SecretsManager::Secret');
+    // The JWKS only holds public keys
+    for (const secret of secrets.filter((candidate) => candidate.Name !== 'jwt-validator-jwks')) {
+      expect(secret.SecretString).toBeUndefined();
+      expect(secret.GenerateSecretString).toMatchObject({ PasswordLength: 64 });
+    }
+    template.resourceCountIs('AWS::SecretsManager::RotationSchedule', 2);
+  });
+
+  test('creates no continuous deployment policy', () => {
+    template.resourceCountIs('AWS::CloudFront::ContinuousDeploymentPolicy', 0);
+    const [config] = distributionConfigs(template, false);
+    expect(config.ContinuousDeploymentPolicyId).toBeUndefined();
+  });
+
+  test('exports the full set of outputs', () => {
+    expect(Object.keys(template.findOutputs('*')).sort()).toEqual([...BASE_OUTPUTS].sort());
+  });
+});
+
+describe('EdgeLabStack (enableCanary)', () => {
+  let template: Template;
+
+  beforeAll(() => {
+    template = synth({ enableCanary: true });
+  });
+
+  test('adds a staging distribution with the same behaviors', () => {
+    const [primary] = distributionConfigs(template, false);
+    const staging = distributionConfigs(template, true);
+    expect(staging).toHaveLength(1);
+
+    const pathPatterns = (config: DistributionConfig) => config.CacheBehaviors.map((behavior) => behavior.PathPattern).sort();
+    expect(pathPatterns(staging[0])).toEqual(pathPatterns(primary));
+
+    // The staging copy of the CloudFront Function is its own resource
+    const stagingCfFunction = cacheBehavior(staging[0], '/cf-function/*').FunctionAssociations![0].FunctionARN;
+    const primaryCfFunction = cacheBehavior(primary, '/cf-function/*').FunctionAssociations![0].FunctionARN;
+    expect(stagingCfFunction).not.toEqual(primaryCfFunction);
+    template.resourceCountIs('AWS::CloudFront::Function', 2);
+  });
+
+  test('logs the staging distribution under its own prefix', () => {
+    const [primary] = distributionConfigs(template, false);
+    const [staging] = distributionConfigs(template, true);
+    expect(staging.Logging).toEqual({ ...primary.Logging, Prefix: 'cloudfront-logs/staging/' });
+  });
+
+  test('routes the staging header through a SingleHeader policy', () => {
+    const stagingDistribution = Object.entries(template.findResources('AWS::CloudFront::Distribution'))
+      .find(([, resource]) => resource.Properties.DistributionConfig.Staging === true)![0];
+
+    const policy = logicalIdOf(template, 'AWS::CloudFront::ContinuousDeploymentPolicy', {
+      ContinuousDeploymentPolicyConfig: {
+        Enabled: true,
+        StagingDistributionDnsNames: [{ 'Fn::GetAtt': [stagingDistribution, 'DomainName'] }],
+        TrafficConfig: {
+          Type: 'SingleHeader',
+          SingleHeaderConfig: { Header: 'aws-cf-cd-staging', Value: 'true' },
+        },
+      },
+    });
+
+    const [primary] = distributionConfigs(template, false);
+    expect(primary.ContinuousDeploymentPolicyId).toEqual({ 'Fn::GetAtt': [policy, 'Id'] });
+  });
+
+  test('ramps the staging distribution with a Step Functions workflow', () => {
+    const policy = logicalIdOf(template, 'AWS::CloudFront::ContinuousDeploymentPolicy', {});
+    const env = canaryControllerEnv(template);
+    expect(env.POLICY_ID).toEqual({ 'Fn::GetAtt': [policy, 'Id'] });
+    expect(env.STEPS).toBe('[5,10,15]');
+
+    const { States: states, StartAt: startAt } = canaryRampDefinition(template);
+    expect(startAt).toBe('Start');
+    expect(states.Start.Next).toBe('ApplyStep');
+    expect(states.ApplyStep.Next).toBe('Bake');
+    expect(states.Bake).toEqual({ Type: 'Wait', Seconds: 600, Next: 'CheckAlarms' });
+    expect(states.Healthy.Choices!.map((choice) => choice.Next)).toEqual(['Rollback', 'Promote']);
+    expect(states.Healthy.Default).toBe('ApplyStep');
+    expect(states.Promote.Next).toBe('Promoted');
+    expect(states.Rollback.Next).toBe('RolledBack');
+    for (const step of ['ApplyStep', 'CheckAlarms', 'Promote']) {
+      expect(states[step].Catch).toEqual([{ ErrorEquals: ['States.ALL'], ResultPath: '$.error', Next: 'Rollback' }]);
+    }
+  });
+
+  test('rolls back on 5xx errors of either distribution or a validator deny rate', () => {
+    const distributions = Object.keys(template.findResources('AWS::CloudFront::Distribution'));
+    for (const distribution of distributions) {
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Namespace: 'AWS/CloudFront',
+        MetricName: '5xxErrorRate',
+        Dimensions: Match.arrayWith([{ Name: 'DistributionId', Value: { Ref: distribution } }]),
+        Threshold: 5,
+      });
+    }
+
+    const denyRateAlarms = template.findResources('AWS::CloudWatch::Alarm', {
+      Properties: { Metrics: Match.arrayWith([Match.objectLike({ Expression: Match.stringLikeRegexp('FILL\\(deny, 0\\)') })]) },
+    });
+    expect(Object.keys(denyRateAlarms)).toHaveLength(4);
+    template.resourceCountIs('AWS::CloudWatch::Alarm', distributions.length + 4);
+
+    const alarmNames = (canaryControllerEnv(template).ALARM_NAMES as JoinedString)['Fn::Join'][1].filter((part) => typeof part !== 'string');
+    expect(alarmNames).toHaveLength(distributions.length + 4);
+  });
+
+  test('lets the controller update the policy and promote the staging distribution', () => {
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: ['cloudfront:GetContinuousDeploymentPolicy', 'cloudfront:UpdateContinuousDeploymentPolicy'],
+          }),
+          Match.objectLike({
+            Action: ['cloudfront:GetDistribution', 'cloudfront:UpdateDistribution', 'cloudfront:UpdateDistributionWithStagingConfig'],
+          }),
+          // Promotion replicates the staging distribution's Lambda@Edge versions
+          Match.objectLike({ Action: ['lambda:GetFunction', 'lambda:EnableReplication*'] }),
+        ]),
+      },
+    });
+  });
+
+  test('takes the ramp steps and bake time from canaryRamp', () => {
+    const ramped = synth({ enableCanary: true, canaryRamp: { steps: [1, 10], stepDuration: cdk.Duration.minutes(30) } });
+    expect(canaryControllerEnv(ramped).STEPS).toBe('[1,10]');
+    expect(canaryRampDefinition(ramped).States.Bake.Seconds).toBe(1800);
+  });
+
+  test('rejects steps that are not ascending percentages', () => {
+    for (const steps of [[], [10, 5], [5, 50], [0, 5]]) {
+      expect(() => synth({ enableCanary: true, canaryRamp: { steps } })).toThrow(/steps must be ascending percentages/);
+    }
+  });
+
+  test('exports the canary outputs', () => {
+    expect(Object.keys(template.findOutputs('*')).sort())
+      .toEqual([...BASE_OUTPUTS, ...CANARY_OUTPUTS].sort());
+  });
+});
+
+describe('EdgeLabStack (canaryTraffic)', () => {
+  function trafficConfig(template: Template): unknown {
+    const [policy] = resourceProperties<{ ContinuousDeploymentPolicyConfig: { TrafficConfig: unknown } }>(
+      template, 'AWS::CloudFront::ContinuousDeploymentPolicy');
+    return policy.ContinuousDeploymentPolicyConfig.TrafficConfig;
+  }
+
+  test('sends a share of all requests to staging, with session stickiness', () => {
+    const template = synth({
+      enableCanary: true,
+      canaryTraffic: {
+        type: CanaryTrafficType.WEIGHT,
+        weight: 10,
+        sessionStickiness: { idleTtl: cdk.Duration.minutes(5), maximumTtl: cdk.Duration.minutes(15) },
+      },
+    });
+
+    expect(trafficConfig(template)).toEqual({
+      Type: 'SingleWeight',
+      SingleWeightConfig: { Weight: 0.1, SessionStickinessConfig: { IdleTTL: 300, MaximumTTL: 900 } },
+    });
+    expect(template.findOutputs('CanaryTestCommand').CanaryTestCommand.Value['Fn::Join'][1])
+      .toEqual(expect.arrayContaining([expect.stringContaining('CANARY_MODE=weight ./test/test-canary.sh')]));
+  });
+
+  test('defaults weight-based routing to 5% without stickiness', () => {
+    const template = synth({ enableCanary: true, canaryTraffic: { type: CanaryTrafficType.WEIGHT } });
+    expect(trafficConfig(template)).toEqual({ Type: 'SingleWeight', SingleWeightConfig: { Weight: 0.05 } });
+  });
+
+  test('routes on a custom header', () => {
+    const template = synth({
+      enableCanary: true,
+      canaryTraffic: { type: CanaryTrafficType.HEADER, header: 'aws-cf-cd-tester', headerValue: 'alice' },
+    });
+
+    expect(trafficConfig(template)).toEqual({
+      Type: 'SingleHeader',
+      SingleHeaderConfig: { Header: 'aws-cf-cd-tester', Value: 'alice' },
+    });
+    expect(template.findOutputs('CanaryTestCommand').CanaryTestCommand.Value['Fn::Join'][1][0])
+      .toBe('curl -H "aws-cf-cd-tester: alice" https://');
+  });
+
+  test.each([
+    ['a weight above 15%', { type: CanaryTrafficType.WEIGHT, weight: 16 }, /weight must be 0 to 15/],
+    ['a negative weight', { type: CanaryTrafficType.WEIGHT, weight: -1 }, /weight must be 0 to 15/],
+    ['a short idle TTL', {
+      type: CanaryTrafficType.WEIGHT,
+      sessionStickiness: { idleTtl: cdk.Duration.seconds(200), maximumTtl: cdk.Duration.seconds(600) },
+    }, /idleTtl must be 300 to 3600 seconds/],
+    ['a long maximum TTL', {
+      type: CanaryTrafficType.WEIGHT,
+      sessionStickiness: { idleTtl: cdk.Duration.seconds(300), maximumTtl: cdk.Duration.hours(2) },
+    }, /maximumTtl must be 300 to 3600 seconds/],
+    ['an idle TTL above the maximum', {
+      type: CanaryTrafficType.WEIGHT,
+      sessionStickiness: { idleTtl: cdk.Duration.minutes(30), maximumTtl: cdk.Duration.minutes(10) },
+    }, /can't exceed maximumTtl/],
+    ['a header without the aws-cf-cd- prefix', { type: CanaryTrafficType.HEADER, header: 'x-staging' }, /starting with aws-cf-cd-/],
+    ['a weight with header routing', { type: CanaryTrafficType.HEADER, weight: 5 }, /only apply to weight-based routing/],
+    ['a header with weight routing', { type: CanaryTrafficType.WEIGHT, header: 'aws-cf-cd-x' }, /only apply to header-based routing/],
+  ])('rejects %s', (_name, canaryTraffic, error) => {
+    expect(() => synth({ enableCanary: true, canaryTraffic })).toThrow(error);
+  });
+});
+
+describe('EdgeLabStack (enableLambdaCanary)', () => {
+  /**
+   * Lambda@Edge ARN a distribution associates with a path
+   */
+  function lambdaArn(template: Template, staging: boolean, pathPattern: string): unknown {
+    const [config] = distributionConfigs(template, staging);
+    return cacheBehavior(config, pathPattern).LambdaFunctionAssociations![0].LambdaFunctionARN;
+  }
+
+  test('serves the stable versions on the primary distribution and the new ones on staging', () => {
+    const template = synth({
+      enableLambdaCanary: true,
+      lambdaCanaryWeight: 12,
+      lambdaStableVersions: { hmac: '3', aesGcm: '7' },
+    });
+
+    // Numbered versions only: Lambda@Edge rejects aliases
+    template.resourceCountIs('AWS::Lambda::Alias', 0);
+    expect(JSON.stringify(lambdaArn(template, false, '/lambda-edge/*'))).toContain('":3"');
+    expect(JSON.stringify(lambdaArn(template, false, '/aes-gcm/*'))).toContain('":7"');
+    const versions = Object.keys(template.findResources('AWS::Lambda::Version'));
+    for (const pathPattern of ['/lambda-edge/*', '/aes-gcm/*', '/jwt/*']) {
+      expect(versions).toContain((lambdaArn(template, true, pathPattern) as { Ref: string }).Ref);
+    }
+    // No stable JWT version: both distributions serve the current one
+    expect(lambdaArn(template, false, '/jwt/*')).toEqual(lambdaArn(template, true, '/jwt/*'));
+
+    template.hasResourceProperties('AWS::CloudFront::ContinuousDeploymentPolicy', {
+      ContinuousDeploymentPolicyConfig: {
+        TrafficConfig: { Type: 'SingleWeight', SingleWeightConfig: { Weight: 0.12 } },
+      },
+    });
+
+    const outputs = template.findOutputs('*');
+    expect(outputs.LambdaCanaryWeight.Value).toBe('12');
+    expect(Object.keys(outputs)).toEqual(expect.arrayContaining([
+      'LambdaEdgeStableVersionArn',
+      'AesGcmLambdaEdgeStableVersionArn',
+      'AesGcmLambdaEdgeCanaryVersionArn',
+      'StagingDistributionId',
+      'CanaryRampStateMachineArn',
+    ]));
+  });
+
+  test('includes the JWT validator when it has a stable version', () => {
+    const template = synth({
+      enableLambdaCanary: true,
+      lambdaStableVersions: { hmac: '3', aesGcm: '7', jwt: '2' },
+    });
+
+    expect(JSON.stringify(lambdaArn(template, false, '/jwt/*'))).toContain('":2"');
+    expect(lambdaArn(template, true, '/jwt/*')).toHaveProperty('Ref');
+  });
+
+  test('takes the routing from canaryTraffic', () => {
+    const template = synth({
+      enableLambdaCanary: true,
+      lambdaStableVersions: { hmac: '3', aesGcm: '7' },
+      canaryTraffic: { type: CanaryTrafficType.HEADER },
+    });
+
+    template.hasResourceProperties('AWS::CloudFront::ContinuousDeploymentPolicy', {
+      ContinuousDeploymentPolicyConfig: { TrafficConfig: { Type: 'SingleHeader' } },
+    });
+    expect(Object.keys(template.findOutputs('*'))).not.toContain('LambdaCanaryWeight');
+  });
+
+  test.each([0, 16, Number.NaN])('rejects a weight of %s', (lambdaCanaryWeight) => {
+    expect(() => synth({ enableLambdaCanary: true, lambdaCanaryWeight, lambdaStableVersions: { hmac: '3', aesGcm: '7' } }))
+      .toThrow(/lambdaCanaryWeight must be greater than 0 and at most 15/);
+  });
+
+  test('rejects a weight next to canaryTraffic', () => {
+    expect(() => synth({
+      enableLambdaCanary: true,
+      lambdaCanaryWeight: 5,
+      lambdaStableVersions: { hmac: '3', aesGcm: '7' },
+      canaryTraffic: { type: CanaryTrafficType.WEIGHT, weight: 5 },
+    })).toThrow(/either it or canaryTraffic/);
+  });
+
+  test('rejects a stable version that is not a version number', () => {
+    expect(() => synth({ enableLambdaCanary: true, lambdaStableVersions: { hmac: 'live', aesGcm: '7' } }))
+      .toThrow(/stable version must be a published version number/);
+  });
+
+  test('requires the stable versions', () => {
+    expect(() => synth({ enableLambdaCanary: true })).toThrow(/lambdaStableVersions/);
+  });
+});
+
+describe('EdgeLabStack (labSecrets)', () => {
+  test('uses the fixed lab keys and skips rotation', () => {
+    const template = synth({ labSecrets: true });
+
+    template.hasResourceProperties('AWS::SecretsManager::Secret', {
+      Name: 'bot-validator-secret',
+      SecretString: JSON.stringify({ secretKey: 'my-secret-key-2024' }),
+      GenerateSecretString: Match.absent(),
+    });
+    template.resourceCountIs('AWS::SecretsManager::RotationSchedule', 0);
+    expect(Object.keys(template.findOutputs('*'))).toContain('AesGcmKeyHex');
+  });
+});
+
+describe('EdgeLabStack (replayCache)', () => {
+  test('provisions a global replay table the Lambda@Edge validators can write to', () => {
+    const template = synth({ replayCache: ReplayCacheStore.DYNAMODB, replayTableReplicaRegions: ['eu-west-1'] });
+
+    template.hasResourceProperties('AWS::DynamoDB::GlobalTable', {
+      TableName: 'edge-validator-replay-cache',
+      KeySchema: [{ AttributeName: 'pk', KeyType: 'HASH' }],
+      TimeToLiveSpecification: { AttributeName: 'expiresAt', Enabled: true },
+      Replicas: [
+        Match.objectLike({ Region: 'eu-west-1' }),
+        Match.objectLike({ Region: 'us-east-1' }),
+      ],
+    });
+
+    const putItemStatements = policyStatements(template)
+      .filter((statement) => actionsOf(statement).includes('dynamodb:PutItem'));
+    expect(putItemStatements).toHaveLength(2);
+    for (const statement of putItemStatements) {
+      expect(actionsOf(statement)).toEqual(['dynamodb:PutItem']);
+      expect(resourcesOf(statement).map((arn) => JSON.stringify(arn))).toEqual([
+        expect.stringContaining(':dynamodb:us-east-1:123456789012:table/edge-validator-replay-cache'),
+        expect.stringContaining(':dynamodb:eu-west-1:123456789012:table/edge-validator-replay-cache'),
+      ]);
+    }
+
+    expect(Object.keys(template.findOutputs('*'))).toContain('ReplayCacheTableName');
+  });
+
+  test('needs no table for the in-memory store', () => {
+    const template = synth({ replayCache: ReplayCacheStore.MEMORY });
+    template.resourceCountIs('AWS::DynamoDB::GlobalTable', 0);
+    expect(Object.keys(template.findOutputs('*'))).not.toContain('ReplayCacheTableName');
+  });
+});
+
+describe('EdgeLabStack (rateLimits)', () => {
+  const PER_MINUTE = { limit: 100, window: cdk.Duration.minutes(1) };
+
+  test('publishes a deny list for the CloudFront Function from its decision logs', () => {
+    const template = synth({ rateLimits: { '/cf-function/*': PER_MINUTE } });
+
+    expect(cfFunctionPolicy(template).rateLimitKey).toBe('ip');
+
+    template.hasResourceProperties('AWS::DynamoDB::GlobalTable', {
+      TableName: 'edge-validator-rate-limits',
+      TimeToLiveSpecification: { AttributeName: 'expiresAt', Enabled: true },
+    });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: { Variables: Match.objectLike({ LIMIT: '100', WINDOW: '60', VALIDATOR: 'cf-function' }) },
+    });
+    template.hasResourceProperties('AWS::Logs::SubscriptionFilter', {
+      FilterPattern: '{ ($.decision = "allow") && ($.client = "*") }',
+    });
+    template.hasResourceProperties('AWS::Events::Rule', {
+      ScheduleExpression: 'rate(15 minutes)',
+      Targets: [Match.objectLike({ Input: '{"action":"sweep"}' })],
+    });
+    expect(policyStatements(template).some((statement) => actionsOf(statement).includes('cloudfront-keyvaluestore:UpdateKeys')))
+      .toBe(true);
+    expect(Object.keys(template.findOutputs('*'))).toContain('RateLimitTableName');
+  });
+
+  test('subscribes to the staging copy of the CloudFront Function too', () => {
+    const template = synth({ enableCanary: true, rateLimits: { '/cf-function/*': PER_MINUTE } });
+    template.resourceCountIs('AWS::Logs::SubscriptionFilter', 2);
+  });
+
+  test('counts in memory at the edge without a table', () => {
+    const template = synth({ rateLimits: { '/lambda-edge/*': PER_MINUTE } });
+    template.resourceCountIs('AWS::DynamoDB::GlobalTable', 0);
+    template.resourceCountIs('AWS::Logs::SubscriptionFilter', 0);
+  });
+
+  test('lets the Lambda@Edge validators update the shared table', () => {
+    const template = synth({
+      rateLimits: { '/lambda-edge/*': PER_MINUTE, '/jwt/*': { ...PER_MINUTE, key: RateLimitKey.TOKEN } },
+      rateLimitStore: RateLimitStore.DYNAMODB,
+      rateLimitTableReplicaRegions: ['eu-west-1'],
+    });
+
+    template.hasResourceProperties('AWS::DynamoDB::GlobalTable', {
+      TableName: 'edge-validator-rate-limits',
+      Replicas: [Match.objectLike({ Region: 'eu-west-1' }), Match.objectLike({ Region: 'us-east-1' })],
+    });
+    const updateItemStatements = policyStatements(template)
+      .filter((statement) => actionsOf(statement).includes('dynamodb:UpdateItem'));
+    expect(updateItemStatements).toHaveLength(2);
+    for (const statement of updateItemStatements) {
+      expect(resourcesOf(statement).map((arn) => JSON.stringify(arn))).toEqual([
+        expect.stringContaining(':dynamodb:us-east-1:123456789012:table/edge-validator-rate-limits'),
+        expect.stringContaining(':dynamodb:eu-west-1:123456789012:table/edge-validator-rate-limits'),
+      ]);
+    }
+  });
+
+  test('can leave enforcement to an AWS WAF rate-based rule', () => {
+    const template = synth({
+      enableCanary: true,
+      rateLimits: { '/cf-function/*': PER_MINUTE, '/aes-gcm/*': { limit: 500, window: cdk.Duration.minutes(5) } },
+      rateLimitEnforcement: RateLimitEnforcement.WAF,
+    });
+
+    template.hasResourceProperties('AWS::WAFv2::WebACL', {
+      Scope: 'CLOUDFRONT',
+      Rules: [
+        Match.objectLike({
+          Name: 'rate-limit-cf-function',
+          Action: { Block: { CustomResponse: Match.objectLike({ ResponseCode: 429 }) } },
+          Statement: {
+            RateBasedStatement: Match.objectLike({
+              Limit: 100,
+              EvaluationWindowSec: 60,
+              AggregateKeyType: 'IP',
+              ScopeDownStatement: { ByteMatchStatement: Match.objectLike({ SearchString: '/cf-function/', PositionalConstraint: 'STARTS_WITH' }) },
+            }),
+          },
+        }),
+        Match.objectLike({ Name: 'rate-limit-aes-gcm', Priority: 1 }),
+      ],
+    });
+    for (const config of [...distributionConfigs(template, false), ...distributionConfigs(template, true)]) {
+      expect(config.WebACLId).toEqual({ 'Fn::GetAtt': [expect.stringMatching(/^WebAcl/), 'Arn'] });
+    }
+
+    // Nothing to count at the edge
+    template.resourceCountIs('AWS::DynamoDB::GlobalTable', 0);
+    expect(cfFunctionPolicy(template).rateLimitKey).toBe('');
+  });
+
+  test.each([
+    ['an unknown path', { rateLimits: { '/other/*': PER_MINUTE } }, /keyed by validator path/],
+    ['a zero limit', { rateLimits: { '/jwt/*': { ...PER_MINUTE, limit: 0 } } }, /rate limit must be a positive whole number/],
+    ['a short CloudFront Function window', { rateLimits: { '/cf-function/*': { ...PER_MINUTE, window: cdk.Duration.seconds(30) } } }, /at least 60 seconds/],
+    ['a token key on the HMAC Lambda@Edge path', { rateLimits: { '/lambda-edge/*': { ...PER_MINUTE, key: RateLimitKey.TOKEN } } }, /HMAC clients share the signing key/],
+    ['a token key on the CloudFront Function path', { rateLimits: { '/cf-function/*': { ...PER_MINUTE, key: RateLimitKey.TOKEN } } }, /HMAC clients share the signing key/],
+    ['a token key with WAF', { rateLimits: { '/jwt/*': { ...PER_MINUTE, key: RateLimitKey.TOKEN } }, rateLimitEnforcement: RateLimitEnforcement.WAF }, /only count by client IP/],
+    ['a WAF window', { rateLimits: { '/jwt/*': { ...PER_MINUTE, window: cdk.Duration.minutes(2.5) } }, rateLimitEnforcement: RateLimitEnforcement.WAF }, /one of 60, 120, 300, 600/],
+    ['a WAF limit under 10', { rateLimits: { '/jwt/*': { ...PER_MINUTE, limit: 5 } }, rateLimitEnforcement: RateLimitEnforcement.WAF }, /at least 10/],
+  ])('rejects %s', (_name, props, error) => {
+    expect(() => synth(props as EdgeLabStackProps)).toThrow(error);
+  });
+});
+
+describe('EdgeLabStack (failModes)', () => {
+  test('accepts a fail mode per Lambda@Edge path', () => {
+    const stack = testStack(new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } }), {
+      failModes: { '/jwt/*': FailMode.OPEN, '/aes-gcm/*': FailMode.CLOSED },
+    });
+    const failMode = (id: string) => (stack.node.findChild(id) as EdgeValidator).config.failMode;
+    expect([failMode('HmacValidator'), failMode('AesGcmValidator'), failMode('JwtValidator')]).toEqual(['closed', 'closed', 'open']);
+  });
+
+  test.each(['/cf-function/*', '/other/*'])('rejects %s', (pathPattern) => {
+    expect(() => synth({ failModes: { [pathPattern]: FailMode.OPEN } })).toThrow(/Lambda@Edge validator path/);
+  });
+});
+
+describe('EdgeLabStack (validatorPolicies)', () => {
+  test('writes the CloudFront Function policy to the KeyValueStore', () => {
+    const template = synth({
+      validatorPolicies: { '/cf-function/*': { timestampTolerance: cdk.Duration.seconds(30), exemptPaths: ['/cf-function/health'] } },
+    });
+
+    const [seed] = resourceProperties<KvsValueSeedProperties>(template, 'Custom::KvsValueSeed');
+    expect(seed.Key).toBe('validator-policy');
+    expect(JSON.parse(seed.Value)).toEqual({
+      kind: 'cf-function',
+      signingMode: 'timestamp',
+      signedHeaders: ['host'],
+      rateLimitKey: '',
+      timestampTolerance: 30,
+      headers: { token: 'X-Bot-Token', signature: 'X-Bot-Signature', keyId: 'X-Bot-Key-Id', bodyHash: 'X-Bot-Content-SHA256' },
+      exemptPaths: ['/cf-function/health'],
+      errorResponse: null,
+      cors: null,
+      wwwAuthenticate: null,
+    });
+  });
+
+  test('resolves the Lambda@Edge policy into the config module', () => {
+    const stack = testStack(new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } }), {
+      validatorPolicies: {
+        '/jwt/*': {
+          secretCacheTtl: cdk.Duration.minutes(1),
+          maxStale: cdk.Duration.hours(6),
+          requiredClaims: ['sub'],
+          errorResponse: { body: '{"error":"{error}"}' },
+          authenticateRealm: 'edge-lab',
+        },
+      },
+    });
+
+    expect((stack.node.findChild('JwtValidator') as EdgeValidator).config).toEqual({
+      kind: 'jwt',
+      secretName: 'jwt-validator-jwks',
+      timestampTolerance: 60,
+      secretCacheTtl: 60,
+      maxStale: 21600,
+      headers: { token: 'Authorization' },
+      requiredClaims: ['sub'],
+      exemptPaths: [],
+      errorResponse: { contentType: 'application/json', body: '{"error":"{error}"}' },
+      cors: null,
+      wwwAuthenticate: 'Bearer realm="edge-lab"',
+      network: null,
+      failMode: 'closed',
+      metricsNamespace: 'EdgeLab/Validators',
+      issuer: '',
+      audience: '',
+      rateLimit: { key: '', limit: 0, window: 0, store: 'none', tableName: '', tableRegions: [] },
+    });
+  });
+
+  test('lets CORS preflights through and adds CORS headers to origin responses', () => {
+    const template = synth({
+      validatorPolicies: {
+        '/jwt/*': { cors: { allowOrigins: ['https://app.example.com'], allowCredentials: true } },
+        '/aes-gcm/*': { cors: { allowOrigins: ['*'], allowMethods: ['GET', 'POST'] } },
+      },
+    });
+
+    template.hasResourceProperties('AWS::CloudFront::ResponseHeadersPolicy', {
+      ResponseHeadersPolicyConfig: Match.objectLike({
+        CorsConfig: {
+          AccessControlAllowOrigins: { Items: ['https://app.example.com'] },
+          AccessControlAllowMethods: { Items: ['GET', 'HEAD', 'OPTIONS'] },
+          AccessControlAllowHeaders: { Items: ['Authorization', 'Content-Type'] },
+          AccessControlExposeHeaders: { Items: ['Retry-After', 'WWW-Authenticate'] },
+          AccessControlMaxAgeSec: 600,
+          AccessControlAllowCredentials: true,
+          OriginOverride: true,
+        },
+      }),
+    });
+
+    const [config] = distributionConfigs(template, false);
+    const methodsOf = (pathPattern: string) => cacheBehavior(config, pathPattern).AllowedMethods;
+    expect(methodsOf('/jwt/*')).toEqual(['GET', 'HEAD', 'OPTIONS']);
+    expect(methodsOf('/aes-gcm/*')).toHaveLength(7);
+    expect(methodsOf('/lambda-edge/*')).toBeUndefined();
+  });
+
+  test.each([
+    ['an unknown path', { '/other/*': {} }, /validatorPolicies must be keyed by validator path/],
+    ['a header the validator lacks', { '/aes-gcm/*': { headers: { signature: 'X-Sig' } } }, /headers can set token, deviceId, got "signature"/],
+    ['a malformed header name', { '/lambda-edge/*': { headers: { token: 'X Bot Token' } } }, /headers.token must be a header name/],
+    ['clashing header names', { '/lambda-edge/*': { headers: { token: 'x-bot-signature' } } }, /headers must be distinct/],
+    ['a fractional tolerance', { '/jwt/*': { timestampTolerance: cdk.Duration.millis(1500) } }, /timestampTolerance must be whole seconds/],
+    ['a secret cache TTL of an hour', { '/jwt/*': { secretCacheTtl: cdk.Duration.hours(1) } }, /secretCacheTtl must be under maxStale \(3600 seconds\), got 3600/],
+    ['a secret cache TTL over maxStale', { '/jwt/*': { secretCacheTtl: cdk.Duration.minutes(10), maxStale: cdk.Duration.minutes(5) } }, /secretCacheTtl must be under maxStale \(300 seconds\)/],
+    ['a maxStale over a day', { '/jwt/*': { maxStale: cdk.Duration.days(2) } }, /maxStale must be at most 86400 seconds, got 172800/],
+    ['a maxStale on the CloudFront Function', { '/cf-function/*': { maxStale: cdk.Duration.hours(2) } }, /maxStale only applies to Lambda@Edge/],
+    ['a secret cache TTL on the CloudFront Function', { '/cf-function/*': { secretCacheTtl: cdk.Duration.minutes(1) } }, /only applies to Lambda@Edge/],
+    ['required claims on HMAC', { '/lambda-edge/*': { requiredClaims: ['sub'] } }, /requiredClaims only apply to token validators/],
+    ['an exempt path outside the validator path', { '/jwt/*': { exemptPaths: ['/health'] } }, /exemptPaths must be paths under \/jwt\//],
+    ['a wildcard inside an exempt path', { '/jwt/*': { exemptPaths: ['/jwt/*/health'] } }, /'\*' only at the end/],
+    ['an unknown template field', { '/jwt/*': { errorResponse: { body: '{reason}' } } }, /got "\{reason\}"/],
+    ['a CORS origin with a path', { '/jwt/*': { cors: { allowOrigins: ['https://app.example.com/'] } } }, /cors.allowOrigins must be/],
+    ['credentials for any origin', { '/jwt/*': { cors: { allowOrigins: ['*'], allowCredentials: true } } }, /can't be used with the '\*' origin/],
+    ['an unknown CORS method', { '/jwt/*': { cors: { allowOrigins: ['*'], allowMethods: ['CONNECT'] } } }, /cors.allowMethods must be/],
+    ['a quote in the realm', { '/jwt/*': { authenticateRealm: 'edge"lab' } }, /authenticateRealm must be printable ASCII/],
+    ['a policy over 1 KB', { '/cf-function/*': { exemptPaths: Array.from({ length: 40 }, (_, i) => `/cf-function/public-${i}/*`) } }, /limited to 1024/],
+  ])('rejects %s', (_case, validatorPolicies, error) => {
+    expect(() => synth({ validatorPolicies })).toThrow(error);
+  });
+
+  test('rejects handler defaults that do not name their kind', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'validator-'));
+    try {
+      const { kind, ...defaults } = JSON.parse(fs.readFileSync(path.join(path.dirname(CF_FUNCTION_ENTRY), VALIDATOR_CONFIG_FILE), 'utf-8'));
+      expect(kind).toBe('cf-function');
+      fs.writeFileSync(path.join(dir, VALIDATOR_CONFIG_FILE), JSON.stringify(defaults));
+      expect(() => resolveValidatorConfig('Validator', path.join(dir, 'index.js'), '/*')).toThrow(/must be one of cf-function, hmac, aes-gcm, jwt, got "undefined"/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('EdgeLabStack (network policy)', () => {
+  // Managed CORS-S3Origin origin request policy
+  const CORS_S3_ORIGIN_POLICY_ID = '88a5eaf4-2fd4-4709-b370-b4c650ea3fcf';
+
+  function originRequestPolicyOf(template: Template, pathPattern: string): unknown {
+    const [config] = distributionConfigs(template, false);
+    return cacheBehavior(config, pathPattern).OriginRequestPolicyId;
+  }
+
+  test('forwards the viewer country and ASN to the CloudFront Function path', () => {
+    const template = synth();
+
+    template.resourceCountIs('AWS::CloudFront::OriginRequestPolicy', 1);
+    template.hasResourceProperties('AWS::CloudFront::OriginRequestPolicy', {
+      OriginRequestPolicyConfig: Match.objectLike({
+        HeadersConfig: {
+          HeaderBehavior: 'whitelist',
+          Headers: ['Origin', 'Access-Control-Request-Headers', 'Access-Control-Request-Method', 'CloudFront-Viewer-Country', 'CloudFront-Viewer-ASN'],
+        },
+      }),
+    });
+    const [policyId] = Object.keys(template.findResources('AWS::CloudFront::OriginRequestPolicy'));
+    expect(originRequestPolicyOf(template, '/cf-function/*')).toEqual({ Ref: policyId });
+    for (const pathPattern of ['/lambda-edge/*', '/aes-gcm/*', '/jwt/*']) {
+      expect(originRequestPolicyOf(template, pathPattern)).toBe(CORS_S3_ORIGIN_POLICY_ID);
+    }
+  });
+
+  test('writes the CloudFront Function lists to the KeyValueStore', () => {
+    const template = synth({
+      validatorPolicies: { '/cf-function/*': { network: { denyCountries: ['kp'], allowCidrs: ['203.0.113.0/24', '2001:db8::1'] } } },
+    });
+
+    const seeds = resourceProperties<KvsValueSeedProperties>(template, 'Custom::KvsValueSeed');
+    const networkSeed = seeds.find((seed) => seed.Key === 'network-policy');
+    expect(JSON.parse(networkSeed!.Value)).toEqual({
+      denyCountries: ['KP'],
+      allowCidrs: ['203.0.113.0/24', '2001:db8::1/128'],
+    });
+    expect(seeds.find((seed) => seed.Key === 'validator-policy')!.Value).not.toContain('network');
+  });
+
+  test('seeds the keyring and the lists through one seeder function', () => {
+    const template = synth({ validatorPolicies: { '/cf-function/*': { network: { denyCountries: ['KP'] } } } });
+
+    const seeders = template.findResources('AWS::Lambda::Function', {
+      Properties: { Description: 'Seeds KeyValueStore keys from the template or Secrets Manager' },
+    });
+    expect(Object.keys(seeders)).toHaveLength(1);
+    template.resourceCountIs('Custom::KvsSecretSeed', 1);
+    template.resourceCountIs('Custom::KvsValueSeed', 2);
+  });
+
+  test('leaves the lists to the CLI without a CloudFront Function network policy', () => {
+    const seeds = resourceProperties<KvsValueSeedProperties>(synth(), 'Custom::KvsValueSeed');
+    expect(seeds.map((seed) => seed.Key)).not.toContain('network-policy');
+  });
+
+  test('bundles Lambda@Edge IP lists with the config module', () => {
+    const stack = testStack(new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } }), {
+      validatorPolicies: { '/aes-gcm/*': { network: { denyCidrs: ['198.51.100.0/24', '198.51.100.0/24'] } } },
+    });
+
+    expect((stack.node.findChild('AesGcmValidator') as EdgeValidator).config.network).toEqual({ denyCidrs: ['198.51.100.0/24'] });
+    expect((stack.node.findChild('JwtValidator') as EdgeValidator).config.network).toBeNull();
+  });
+
+  test.each([
+    ['a country code that is a name', { allowCountries: ['Germany'] }, /network.allowCountries must be ISO 3166-1 alpha-2 country codes, got "Germany"/],
+    ['an AS number of 0', { denyAsns: [0] }, /network.denyAsns must be AS numbers from 1 to 4294967295/],
+    ['a prefix longer than the address', { denyCidrs: ['203.0.113.0/33'] }, /network.denyCidrs must be IPv4 or IPv6 CIDRs/],
+    ['a host name', { allowCidrs: ['example.com/24'] }, /network.allowCidrs must be IPv4 or IPv6 CIDRs/],
+    ['an IPv6 address with an IPv4 tail', { allowCidrs: ['::ffff:203.0.113.1'] }, /network.allowCidrs must be IPv4 or IPv6 CIDRs/],
+    ['an unknown list', { blockCountries: ['KP'] }, /network can set allowCountries, .*, got "blockCountries"/],
+    ['a country both allowed and denied', { allowCountries: ['DE'], denyCountries: ['de'] }, /network lists DE in both allowCountries and denyCountries/],
+    ['lists over 1 KB', { denyCidrs: Array.from({ length: 80 }, (_, i) => `198.51.${i}.0/24`) }, /network policy is \d+ bytes, KeyValueStore values are limited to 1024/],
+  ])('rejects %s', (_case, network, error) => {
+    expect(() => synth({ validatorPolicies: { '/cf-function/*': { network: network as NetworkPolicy } } })).toThrow(error);
+  });
+
+  test('rejects country lists on viewer-request Lambda@Edge validators', () => {
+    expect(() => synth({ validatorPolicies: { '/jwt/*': { network: { allowAsns: [64496] } } } }))
+      .toThrow(/JwtValidator: country and ASN lists need a Lambda@Edge validator on origin events/);
+  });
+
+  test('deploys country and ASN lists on an origin-request Lambda@Edge validator', () => {
+    const template = synth({
+      eventTypes: { '/aes-gcm/*': cloudfront.LambdaEdgeEventType.ORIGIN_REQUEST },
+      validatorPolicies: { '/aes-gcm/*': { network: { allowCountries: ['DE'], denyAsns: [64496] } } },
+    });
+
+    const [config] = distributionConfigs(template, false);
+    expect(cacheBehavior(config, '/aes-gcm/*').LambdaFunctionAssociations).toEqual([expect.objectContaining({ EventType: 'origin-request' })]);
+    const { Ref: policyId } = originRequestPolicyOf(template, '/aes-gcm/*') as { Ref: string };
+    expect(template.toJSON().Resources[policyId].Properties.OriginRequestPolicyConfig.HeadersConfig.Headers).toEqual([
+      'Origin', 'Access-Control-Request-Headers', 'Access-Control-Request-Method', 'CloudFront-Viewer-Country', 'CloudFront-Viewer-ASN',
+      'X-Auth-Token', 'X-Device-Id',
+    ]);
+    for (const pathPattern of ['/lambda-edge/*', '/jwt/*']) {
+      expect(originRequestPolicyOf(template, pathPattern)).toBe(CORS_S3_ORIGIN_POLICY_ID);
+    }
+  });
+
+  test('rejects origin-request validators that read Authorization', () => {
+    expect(() => synth({ eventTypes: { '/jwt/*': cloudfront.LambdaEdgeEventType.ORIGIN_REQUEST } }))
+      .toThrow(/JwtValidator: a validator on origin events can't read Authorization/);
+  });
+
+  test.each([
+    ['the CloudFront Function path', { '/cf-function/*': cloudfront.LambdaEdgeEventType.ORIGIN_REQUEST }, /eventTypes must be keyed by Lambda@Edge validator path/],
+    ['a response event', { '/jwt/*': cloudfront.LambdaEdgeEventType.ORIGIN_RESPONSE }, /eventTypes must be viewer-request or origin-request, got "origin-response"/],
+  ])('rejects event types on %s', (_case, eventTypes, error) => {
+    expect(() => synth({ eventTypes })).toThrow(error);
+  });
+});
+
+describe('EdgeLabStack (caching)', () => {
+  function behaviorOf(template: Template, pathPattern: string): CacheBehavior {
+    const [config] = distributionConfigs(template, false);
+    return cacheBehavior(config, pathPattern);
+  }
+
+  test('caches validated responses without headers or cookies in the cache key', () => {
+    const template = synth({
+      caching: {
+        '/cf-function/*': { defaultTtl: cdk.Duration.minutes(5) },
+        '/jwt/*': { defaultTtl: cdk.Duration.minutes(1), maxTtl: cdk.Duration.hours(1), queryStrings: ['v'] },
+      },
+    });
+
+    template.hasResourceProperties('AWS::CloudFront::CachePolicy', {
+      CachePolicyConfig: {
+        Name: Match.anyValue(),
+        Comment: 'Validated responses of /jwt/*',
+        MinTTL: 0,
+        DefaultTTL: 60,
+        MaxTTL: 3600,
+        ParametersInCacheKeyAndForwardedToOrigin: {
+          HeadersConfig: { HeaderBehavior: 'none' },
+          CookiesConfig: { CookieBehavior: 'none' },
+          QueryStringsConfig: { QueryStringBehavior: 'whitelist', QueryStrings: ['v'] },
+          EnableAcceptEncodingGzip: true,
+          EnableAcceptEncodingBrotli: true,
+        },
+      },
+    });
+    template.resourceCountIs('AWS::CloudFront::CachePolicy', 2);
+
+    expect(behaviorOf(template, '/cf-function/*').CachePolicyId).toEqual({ Ref: expect.stringMatching(/^BotValidatorCachePolicy/) });
+    expect(behaviorOf(template, '/jwt/*').CachePolicyId).toEqual({ Ref: expect.stringMatching(/^JwtValidatorCachePolicy/) });
+    // CachingDisabled
+    expect(behaviorOf(template, '/aes-gcm/*').CachePolicyId).toBe('4135ea2d-6df8-44a3-9df3-4b5a84be39ad');
+    // The validators stay on the viewer request, which runs on cache hits too
+    expect(behaviorOf(template, '/jwt/*').LambdaFunctionAssociations![0].EventType).toBe('viewer-request');
+  });
+
+  test('strips the validation headers from every validator path\'s responses', () => {
+    const template = synth();
+
+    const policies = resourceProperties<{
+      ResponseHeadersPolicyConfig: { RemoveHeadersConfig: { Items: { Header: string }[] }; SecurityHeadersConfig?: unknown };
+    }>(template, 'AWS::CloudFront::ResponseHeadersPolicy');
+    expect(policies).toHaveLength(4);
+    for (const policy of policies) {
+      const config = policy.ResponseHeadersPolicyConfig;
+      expect(config.RemoveHeadersConfig.Items.map((item) => item.Header).sort()).toEqual([...VALIDATION_REQUEST_HEADERS].sort());
+      expect(config.SecurityHeadersConfig).toBeUndefined();
+    }
+    for (const pathPattern of VALIDATOR_PATHS) {
+      expect(behaviorOf(template, pathPattern).ResponseHeadersPolicyId).toEqual({ Ref: expect.any(String) });
+    }
+  });
+
+  test('lists every validation header the handlers add', () => {
+    const added = new Set<string>();
+    for (const dir of ['lambda-edge', 'lambda-edge-aesgcm', 'lambda-edge-jwt', 'secret-cache', 'cloudfront-function']) {
+      const entry = dir === 'cloudfront-function' ? CF_FUNCTION_ENTRY : path.join(__dirname, `../../${dir}/index.js`);
+      for (const [, name] of fs.readFileSync(entry, 'utf-8').matchAll(/headers\['(x-validat[a-z-]+)'\]\s*=/g)) {
+        added.add(name);
+      }
+    }
+    expect(added.size).toBeGreaterThan(0);
+    expect([...added].sort()).toEqual(VALIDATION_REQUEST_HEADERS.map((name) => name.toLowerCase()).sort());
+  });
+
+  test('adds the security headers next to the policy\'s CORS', () => {
+    const template = synth({
+      securityHeaders: { hstsMaxAge: cdk.Duration.days(730) },
+      validatorPolicies: { '/jwt/*': { cors: { allowOrigins: ['https://app.example.com'] } } },
+    });
+
+    template.hasResourceProperties('AWS::CloudFront::ResponseHeadersPolicy', {
+      ResponseHeadersPolicyConfig: Match.objectLike({
+        Comment: 'Response headers of /jwt/*',
+        CorsConfig: Match.objectLike({ AccessControlAllowOrigins: { Items: ['https://app.example.com'] } }),
+        SecurityHeadersConfig: {
+          StrictTransportSecurity: { AccessControlMaxAgeSec: 63072000, IncludeSubdomains: true, Override: true },
+          ContentSecurityPolicy: { ContentSecurityPolicy: "default-src 'self'; frame-ancestors 'none'", Override: true },
+          ContentTypeOptions: { Override: true },
+        },
+      }),
+    });
+    template.resourceCountIs('AWS::CloudFront::ResponseHeadersPolicy', 4);
+  });
+
+  test.each([
+    ['an unknown path', { '/other/*': { defaultTtl: cdk.Duration.minutes(1) } }, /caching must be keyed by validator path/],
+    ['a zero TTL', { '/jwt/*': { defaultTtl: cdk.Duration.seconds(0) } }, /cache defaultTtl must be whole seconds, at least 1/],
+    ['a max TTL under the default', { '/jwt/*': { defaultTtl: cdk.Duration.minutes(5), maxTtl: cdk.Duration.minutes(1) } }, /cache maxTtl must be whole seconds, at least defaultTtl/],
+    ['a malformed query string', { '/jwt/*': { defaultTtl: cdk.Duration.minutes(1), queryStrings: ['a b'] } }, /cache queryStrings must be query parameter names/],
+  ])('rejects %s', (_case, caching, error) => {
+    expect(() => synth({ caching })).toThrow(error);
+  });
+});
+
+describe('EdgeLabStack (signingMode)', () => {
+  test('switches both HMAC validators to canonical signing', () => {
+    const template = synth({ signingMode: SigningMode.CANONICAL_REQUEST, signedHeaders: ['Host', 'User-Agent'] });
+
+    expect(cfFunctionPolicy(template)).toMatchObject({ signingMode: 'canonical', signedHeaders: ['host', 'user-agent'] });
+
+    const [config] = distributionConfigs(template, false);
+    expect(cacheBehavior(config, '/lambda-edge/*').LambdaFunctionAssociations![0].IncludeBody).toBe(true);
+    expect(cacheBehavior(config, '/aes-gcm/*').LambdaFunctionAssociations![0].IncludeBody ?? false).toBe(false);
+  });
+
+  test('writes the signing settings into the Lambda@Edge config module', () => {
+    const stack = testStack(new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } }), {
+      signingMode: SigningMode.CANONICAL_REQUEST,
+      signedHeaders: ['Host', 'User-Agent'],
+    });
+    expect((stack.node.findChild('HmacValidator') as EdgeValidator).config).toMatchObject({
+      signingMode: 'canonical',
+      signedHeaders: ['host', 'user-agent'],
+    });
+  });
+
+  test('rejects invalid signed header names', () => {
+    expect(() => synth({ signedHeaders: ['host', 'x bad'] })).toThrow(/signedHeaders/);
+  });
+});
+
+describe('EdgeLabStack (jwt)', () => {
+  const PUBLIC_KEY = { kid: 'issuer-2026', kty: 'OKP', crv: 'Ed25519', x: '4PWTgHjQG3ijFeDIYbWtjwRUwua2HBkzAQREo9YaXSw' } as const;
+
+  test('stores the public keys in the JWKS secret', () => {
+    const template = synth({ jwtPublicKeys: [PUBLIC_KEY], jwtIssuer: 'https://issuer.example.com', jwtAudience: 'edge-lab' });
+
+    template.hasResourceProperties('AWS::SecretsManager::Secret', {
+      Name: 'jwt-validator-jwks',
+      SecretString: JSON.stringify({ keys: [PUBLIC_KEY] }),
+    });
+  });
+
+  test('starts with an empty JWKS, or the lab key with labSecrets', () => {
+    synth().hasResourceProperties('AWS::SecretsManager::Secret', {
+      Name: 'jwt-validator-jwks',
+      SecretString: JSON.stringify({ keys: [] }),
+    });
+    synth({ labSecrets: true }).hasResourceProperties('AWS::SecretsManager::Secret', {
+      Name: 'jwt-validator-jwks',
+      SecretString: Match.stringLikeRegexp('"kid":"lab-ed25519"'),
+    });
+  });
+
+  test.each([
+    ['a private key', { ...PUBLIC_KEY, d: 'q7HZ1EFlQ9ViIxYX-OU3yRSs1y3vtKLiCGicr9UIdCE' }, /private part/],
+    ['an RSA key', { ...PUBLIC_KEY, kty: 'RSA' }, /Ed25519 \(OKP\) or P-256 \(EC\)/],
+    ['a malformed key', { ...PUBLIC_KEY, x: 'AAAA' }, /not a valid Ed25519 key/],
+  ])('rejects %s', (_case, jwk, error) => {
+    expect(() => synth({ jwtPublicKeys: [jwk as JwtPublicKey] })).toThrow(error);
+  });
+
+  test('rejects duplicate key IDs', () => {
+    expect(() => synth({ jwtPublicKeys: [PUBLIC_KEY, PUBLIC_KEY] })).toThrow(/unique kids/);
+  });
+});
+
+describe('EdgeLabStack (decision metrics)', () => {
+  function dashboardBody(template: Template): string {
+    const [dashboard] = resourceProperties<{ DashboardBody: JoinedString }>(template, 'AWS::CloudWatch::Dashboard');
+    // DashboardBody is an Fn::Join of literal parts and tokens
+    return literalParts(dashboard.DashboardBody);
+  }
+
+  test('turns the CloudFront Function decision logs into metrics', () => {
+    const template = synth();
+    const [cfFunction] = resourceProperties<{ Name: string }>(template, 'AWS::CloudFront::Function');
+
+    template.hasResourceProperties('AWS::Logs::LogGroup', {
+      LogGroupName: `/aws/cloudfront/function/${cfFunction.Name}`,
+    });
+    for (const [metricName, metricValue] of [['Decisions', '1'], ['Latency', '$.Latency']]) {
+      template.hasResourceProperties('AWS::Logs::MetricFilter', {
+        FilterPattern: '{ ($.validator = "cf-function") && ($.decision = "*") }',
+        MetricTransformations: [{
+          MetricNamespace: 'EdgeLab/Validators',
+          MetricName: metricName,
+          MetricValue: metricValue,
+          Dimensions: Match.arrayWith([
+            { Key: 'validator', Value: '$.validator' },
+            { Key: 'decision', Value: '$.decision' },
+            { Key: 'reason', Value: '$.reason' },
+          ]),
+        }],
+      });
+    }
+    // Totals by validator and decision, for the canary deny-rate alarms
+    template.hasResourceProperties('AWS::Logs::MetricFilter', {
+      MetricTransformations: [Match.objectLike({
+        MetricName: 'Decisions',
+        Dimensions: [{ Key: 'validator', Value: '$.validator' }, { Key: 'decision', Value: '$.decision' }],
+      })],
+    });
+    // Lambda@Edge validators publish through EMF instead
+    template.resourceCountIs('AWS::Logs::MetricFilter', 3);
+  });
+
+  test('counts the staging copy of the CloudFront Function too', () => {
+    const template = synth({ enableCanary: true });
+    template.resourceCountIs('AWS::Logs::LogGroup', 2);
+    template.resourceCountIs('AWS::Logs::MetricFilter', 6);
+  });
+
+  test('charts allow and deny counts by reason for every validator path', () => {
+    const body = dashboardBody(synth());
+
+    for (const name of ['cf-function', 'hmac', 'aes-gcm', 'jwt']) {
+      expect(body).toContain(`validator=\\"${name}\\" decision=\\"deny\\"`);
+      expect(body).toContain(`validator=\\"${name}\\" decision=\\"allow\\"`);
+    }
+    for (const path of VALIDATOR_PATHS) {
+      expect(body).toContain(`"title":"${path} denials by reason"`);
+    }
+  });
+
+  test('adds the Lambda@Edge metrics of each listed region', () => {
+    const body = dashboardBody(synth({ metricsRegions: ['us-east-1', 'eu-west-1'] }));
+
+    // hmac, aes-gcm and jwt: allowed, denied, denials by reason and latency
+    expect(body.match(/"region":"eu-west-1"/g)).toHaveLength(3 * 4);
+    expect(body).toContain('"label":"Denied (eu-west-1)"');
+  });
+});
+
+describe('EdgeLabStack (enableAnalytics)', () => {
+  let template: Template;
+
+  beforeAll(() => {
+    template = synth({ enableAnalytics: true });
+  });
+
+  function namedQuery(name: string): string {
+    const [query] = resourceProperties<{ QueryString: string }>(template, 'AWS::Athena::NamedQuery', { Name: name });
+    return query.QueryString;
+  }
+
+  test('partitions the cloudfront_logs table by distribution prefix', () => {
+    const logBucket = logicalIdOf(template, 'AWS::S3::Bucket', {
+      OwnershipControls: { Rules: [{ ObjectOwnership: 'ObjectWriter' }] },
+    });
+
+    template.hasResourceProperties('AWS::Glue::Database', { DatabaseInput: { Name: 'edge_lab' } });
+    template.hasResourceProperties('AWS::Glue::Table', {
+      DatabaseName: 'edge_lab',
+      TableInput: {
+        Name: 'cloudfront_logs',
+        PartitionKeys: [{ Name: 'distribution', Type: 'string' }],
+        Parameters: Match.objectLike({
+          'skip.header.line.count': '2',
+          'projection.enabled': 'true',
+          'projection.distribution.values': 'primary,staging',
+          'storage.location.template': {
+            'Fn::Join': ['', ['s3://', { Ref: logBucket }, '/cloudfront-logs/${distribution}/']],
+          },
+        }),
+        StorageDescriptor: Match.objectLike({
+          Columns: Match.arrayWith([
+            { Name: 'cs_uri_stem', Type: 'string' },
+            { Name: 'sc_status', Type: 'int' },
+            { Name: 'time_taken', Type: 'float' },
+          ]),
+          SerdeInfo: Match.objectLike({ Parameters: Match.objectLike({ 'field.delim': '\t' }) }),
+        }),
+      },
+    });
+  });
+
+  test('writes query results to the workgroup bucket', () => {
+    const resultsBucket = logicalIdOf(template, 'AWS::S3::Bucket', {
+      BucketEncryption: Match.anyValue(),
+      LifecycleConfiguration: { Rules: [Match.objectLike({ ExpirationInDays: 7 })] },
+    });
+
+    template.hasResourceProperties('AWS::Athena::WorkGroup', {
+      Name: 'edge-lab-analytics',
+      RecursiveDeleteOption: true,
+      WorkGroupConfiguration: Match.objectLike({
+        EnforceWorkGroupConfiguration: true,
+        ResultConfiguration: {
+          OutputLocation: { 'Fn::Join': ['', ['s3://', { Ref: resultsBucket }, '/results/']] },
+          EncryptionConfiguration: { EncryptionOption: 'SSE_S3' },
+        },
+      }),
+    });
+  });
+
+  test('saves the validator queries in the workgroup', () => {
+    template.resourceCountIs('AWS::Athena::NamedQuery', 3);
+    template.allResourcesProperties('AWS::Athena::NamedQuery', {
+      Database: 'edge_lab',
+      WorkGroup: 'edge-lab-analytics',
+    });
+
+    const deniedRate = namedQuery('403 rate per validator path');
+    for (const path of VALIDATOR_PATHS) {
+      expect(deniedRate).toContain(`cs_uri_stem LIKE '${path.replace('*', '%')}' THEN '${path}'`);
+    }
+
+    const latency = namedQuery('time-taken percentiles per behavior');
+    expect(latency).toContain("cs_uri_stem LIKE '/cf-function/%' THEN 'CloudFront Function'");
+    expect(latency).toContain("cs_uri_stem LIKE '/lambda-edge/%' THEN 'Lambda@Edge'");
+    expect(latency).toContain('approx_percentile(time_taken, 0.99)');
+
+    expect(namedQuery('canary vs primary error rates')).toContain('GROUP BY 1, 2');
+  });
+
+  test('exports the workgroup and database', () => {
+    expect(Object.keys(template.findOutputs('*')).sort())
+      .toEqual([...BASE_OUTPUTS, 'AthenaWorkGroup', 'AthenaDatabase'].sort());
+  });
+});
+
+describe('EdgeLabStack (resourcePrefix)', () => {
+  const template = synth({
+    resourcePrefix: 'staging',
+    enableCanary: true,
+    enableAnalytics: true,
+    replayCache: ReplayCacheStore.DYNAMODB,
+    rateLimits: { '/cf-function/*': { limit: 100, window: cdk.Duration.minutes(1) } },
+  });
+
+  test('prefixes the resource names', () => {
+    for (const name of ['staging-bot-validator-secret', 'staging-aesgcm-validator-secret', 'staging-jwt-validator-jwks']) {
+      template.hasResourceProperties('AWS::SecretsManager::Secret', { Name: name });
+    }
+    template.hasResourceProperties('AWS::CloudFront::KeyValueStore', { Name: 'staging-bot-validator-kvs' });
+    template.hasResourceProperties('AWS::DynamoDB::GlobalTable', { TableName: 'staging-edge-validator-replay-cache' });
+    template.hasResourceProperties('AWS::DynamoDB::GlobalTable', { TableName: 'staging-edge-validator-rate-limits' });
+    template.hasResourceProperties('AWS::CloudWatch::Dashboard', { DashboardName: 'staging-edge-validators' });
+    template.hasResourceProperties('AWS::Athena::WorkGroup', { Name: 'staging-edge-lab-analytics' });
+    template.hasResourceProperties('AWS::Glue::Database', { DatabaseInput: { Name: 'staging_edge_lab' } });
+  });
+
+  test('points the Lambda@Edge validators at the prefixed secrets and namespace', () => {
+    const stack = testStack(new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } }), { resourcePrefix: 'staging' });
+    const jwtValidator = stack.node.findChild('JwtValidator') as EdgeValidator;
+    expect(jwtValidator.config).toMatchObject({
+      secretName: 'staging-jwt-validator-jwks',
+      metricsNamespace: 'EdgeLab/staging/Validators',
+    });
+  });
+
+  test('publishes the decision metrics under its own namespace', () => {
+    template.hasResourceProperties('AWS::Logs::MetricFilter', {
+      MetricTransformations: Match.arrayWith([Match.objectLike({ MetricNamespace: 'EdgeLab/staging/Validators' })]),
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Metrics: Match.arrayWith([Match.objectLike({
+        MetricStat: Match.objectLike({ Metric: Match.objectLike({ Namespace: 'EdgeLab/staging/Validators' }) }),
+      })]),
+    });
+  });
+
+  test('lets two stages share an account', () => {
+    const app = new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } });
+    const stacks = ['dev', 'prod'].map((resourcePrefix) => new EdgeLabStack(app, `EdgeLabStack-${resourcePrefix}`, {
+      env: { account: '123456789012', region: 'us-east-1' },
+      resourcePrefix,
+    }));
+    const names = stacks.map((stack) => {
+      const stackTemplate = Template.fromStack(stack);
+      return [
+        ...resourceProperties<{ Name: string }>(stackTemplate, 'AWS::SecretsManager::Secret').map((secret) => secret.Name),
+        ...resourceProperties<{ Name: string }>(stackTemplate, 'AWS::CloudFront::KeyValueStore').map((store) => store.Name),
+        ...resourceProperties<{ DashboardName: string }>(stackTemplate, 'AWS::CloudWatch::Dashboard').map((dashboard) => dashboard.DashboardName),
+      ];
+    });
+    expect(names[0]).toHaveLength(5);
+    expect(names[0].filter((name) => names[1].includes(name))).toEqual([]);
+  });
+
+  test.each(['Dev', '1st', 'dev_1', 'a-very-long-stage-name-indeed'])('rejects "%s"', (resourcePrefix) => {
+    expect(() => synth({ resourcePrefix })).toThrow(/resourcePrefix must be up to 20 lowercase letters/);
+  });
+});
+
+describe('EdgeLabStack (domainNames)', () => {
+  const hostedZone = { hostedZoneId: 'Z0123456789ABC', zoneName: 'example.com' };
+  const template = synth({ enableCanary: true, domainNames: ['bots.example.com', 'www.bots.example.com'], hostedZone });
+
+  test('issues a DNS-validated certificate for the domains', () => {
+    template.hasResourceProperties('AWS::CertificateManager::Certificate', {
+      DomainName: 'bots.example.com',
+      SubjectAlternativeNames: ['www.bots.example.com'],
+      ValidationMethod: 'DNS',
+      DomainValidationOptions: Match.arrayWith([{ DomainName: 'bots.example.com', HostedZoneId: 'Z0123456789ABC' }]),
+    });
+  });
+
+  test('serves the domains from the primary distribution only', () => {
+    const [primary] = distributionConfigs(template, false);
+    expect(primary.Aliases).toEqual(['bots.example.com', 'www.bots.example.com']);
+    expect(primary.ViewerCertificate).toMatchObject({
+      AcmCertificateArn: { Ref: expect.stringMatching(/^Certificate/) },
+      SslSupportMethod: 'sni-only',
+    });
+    const [staging] = distributionConfigs(template, true);
+    expect(staging.Aliases).toBeUndefined();
+  });
+
+  test('points A and AAAA alias records at the distribution', () => {
+    for (const type of ['A', 'AAAA']) {
+      for (const name of ['bots.example.com.', 'www.bots.example.com.']) {
+        template.hasResourceProperties('AWS::Route53::RecordSet', {
+          Name: name,
+          Type: type,
+          HostedZoneId: 'Z0123456789ABC',
+          AliasTarget: Match.objectLike({ DNSName: { 'Fn::GetAtt': [Match.stringLikeRegexp('^Distribution'), 'DomainName'] } }),
+        });
+      }
+    }
+    template.resourceCountIs('AWS::Route53::RecordSet', 4);
+  });
+
+  test('uses the first domain in the test URLs', () => {
+    expect(template.findOutputs('JwtTestUrl').JwtTestUrl.Value).toBe('https://bots.example.com/jwt/test.html');
+    expect(template.findOutputs('DomainNames').DomainNames.Value).toBe('bots.example.com,www.bots.example.com');
+  });
+
+  test.each([
+    ['no hosted zone', { domainNames: ['bots.example.com'] }, /need a hostedZone/],
+    ['a domain outside the zone', { domainNames: ['bots.example.org'], hostedZone }, /must be in the hosted zone example.com/],
+    ['an uppercase domain', { domainNames: ['Bots.example.com'], hostedZone }, /must be lowercase DNS names/],
+    ['a duplicate domain', { domainNames: ['bots.example.com', 'bots.example.com'], hostedZone }, /must be unique/],
+    ['another region', { domainNames: ['bots.example.com'], hostedZone, env: { account: '123456789012', region: 'eu-west-1' } }, /only uses certificates from us-east-1/],
+  ])('rejects %s', (_name, props, error) => {
+    expect(() => synth(props as EdgeLabStackProps)).toThrow(error);
+  });
+});
+
+describe('EdgeLabStack (webAcl)', () => {
+  test('attaches the managed rule groups to both distributions', () => {
+    const template = synth({ enableCanary: true, webAcl: {} });
+
+    template.hasResourceProperties('AWS::WAFv2::WebACL', {
+      Scope: 'CLOUDFRONT',
+      DefaultAction: { Allow: {} },
+      Rules: [
+        Match.objectLike({
+          Name: 'AWSManagedRulesAmazonIpReputationList',
+          Priority: 0,
+          OverrideAction: { None: {} },
+          Statement: { ManagedRuleGroupStatement: { VendorName: 'AWS', Name: 'AWSManagedRulesAmazonIpReputationList' } },
+        }),
+        Match.objectLike({
+          Name: 'AWSManagedRulesBotControlRuleSet',
+          Priority: 1,
+          Statement: {
+            ManagedRuleGroupStatement: Match.objectLike({
+              Name: 'AWSManagedRulesBotControlRuleSet',
+              ManagedRuleGroupConfigs: [{ AWSManagedRulesBotControlRuleSet: { InspectionLevel: 'COMMON' } }],
+            }),
+          },
+        }),
+      ],
+      CustomResponseBodies: Match.absent(),
+    });
+    for (const config of [...distributionConfigs(template, false), ...distributionConfigs(template, true)]) {
+      expect(config.WebACLId).toEqual({ 'Fn::GetAtt': [expect.stringMatching(/^WebAcl/), 'Arn'] });
+    }
+    expect(template.findOutputs('WebAclArn')).toHaveProperty('WebAclArn');
+  });
+
+  test('puts the WAF rate-based rules between the managed rule groups', () => {
+    const template = synth({
+      webAcl: { countOnly: true },
+      rateLimits: { '/jwt/*': { limit: 100, window: cdk.Duration.minutes(1) } },
+      rateLimitEnforcement: RateLimitEnforcement.WAF,
+    });
+
+    template.resourceCountIs('AWS::WAFv2::WebACL', 1);
+    template.hasResourceProperties('AWS::WAFv2::WebACL', {
+      Rules: [
+        Match.objectLike({ Name: 'AWSManagedRulesAmazonIpReputationList', Priority: 0, OverrideAction: { Count: {} } }),
+        Match.objectLike({ Name: 'rate-limit-jwt', Priority: 1 }),
+        Match.objectLike({ Name: 'AWSManagedRulesBotControlRuleSet', Priority: 2, OverrideAction: { Count: {} } }),
+      ],
+      CustomResponseBodies: { 'rate-limited': Match.objectLike({ ContentType: 'APPLICATION_JSON' }) },
+    });
+  });
+
+  test('can leave out a managed rule group', () => {
+    const template = synth({ webAcl: { botControl: false } });
+
+    template.hasResourceProperties('AWS::WAFv2::WebACL', {
+      Rules: [Match.objectLike({ Name: 'AWSManagedRulesAmazonIpReputationList' })],
+    });
+  });
+
+  test('has no web ACL by default', () => {
+    synth().resourceCountIs('AWS::WAFv2::WebACL', 0);
+  });
+});
+
+describe('EdgeLabStack (bundling)', () => {
+  const outdir = fs.mkdtempSync(path.join(os.tmpdir(), 'edge-lab-test-'));
+  afterAll(() => fs.rmSync(outdir, { recursive: true, force: true }));
+
+  function functionEntry(source: string): string {
+    const entry = path.join(outdir, `function-${Math.random().toString(36).slice(2)}.js`);
+    fs.writeFileSync(entry, source);
+    return entry;
+  }
+
+  test('bundles each Lambda@Edge validator into a single file with its config and SDK clients', () => {
+    const template = Template.fromStack(testStack(new cdk.App({ outdir }), {
+      validatorPolicies: { '/jwt/*': { requiredClaims: ['sub'] } },
+    }));
+
+    const [jwtFunction] = resourceProperties<{ Code: { S3Key: string } }>(template, 'AWS::Lambda::Function', {
+      Description: 'Bot validation using Lambda@Edge with EdDSA / ES256 signed JWTs',
+    });
+    const assetDir = path.join(outdir, `asset.${path.basename(jwtFunction.Code.S3Key, '.zip')}`);
+    expect(fs.readdirSync(assetDir)).toEqual(['index.js']);
+
+    // (matched as booleans: a failing toContain would print the whole bundle)
+    const code = fs.readFileSync(path.join(assetDir, 'index.js'), 'utf-8');
+    expect(code.includes('requiredClaims:["sub"]')).toBe(true);
+    expect(code.includes('"GetSecretValue"')).toBe(true);
+    expect(/require\("(@aws-sdk\/client-|\.\/)/.test(code)).toBe(false);
+    // Tree-shaken: operations the validator doesn't call are left out
+    expect(code.includes('"CreateSecret"')).toBe(false);
+  }, 120_000);
+
+  test('fails synthesis when a bundle is over its size limit', () => {
+    const stack = new cdk.Stack(new cdk.App({ outdir }), 'SizeLimitStack');
+
+    expect(() => new lambda.Function(stack, 'Function', {
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'index.handler',
+      code: bundleLambdaCode(RATE_LIMIT_PUBLISHER_ENTRY, { [KVS_WRITE_FILE]: fs.readFileSync(KVS_WRITE_ENTRY, 'utf-8') }, 16 * 1024),
+    })).toThrow(/rate-limit-publisher\/index\.js bundles to \d+ KiB zipped, over the 16 KiB limit/);
+  }, 60_000);
+
+  test('keeps the CloudFront Function within the runtime limit', () => {
+    const code = cloudFrontFunctionCode(CF_FUNCTION_ENTRY, { KVS_ID_PLACEHOLDER: cdk.Token.asString({ Ref: 'Store' }) });
+
+    expect(Buffer.byteLength(code)).toBeLessThan(MAX_CLOUDFRONT_FUNCTION_BYTES);
+    expect(code).not.toContain('// ');
+  });
+
+  test.each([
+    ['class Validator {}\nfunction handler(event) { return event.request; }', /syntax the CloudFront Functions JS 2.0 runtime doesn't support:\n  line 1: /],
+    ['import fs from \'fs\';\nfunction handler(event) { return event.request; }', /imports 'fs'; CloudFront Functions can import cloudfront, crypto, querystring, buffer/],
+    ['var fs = require(\'fs\');\nfunction handler(event) { return event.request; }', /uses require\(\), which CloudFront Functions don't provide/],
+    ['function handler(event) { setTimeout(function () {}, 1); return event.request; }', /uses timers/],
+    ['function validate(event) { return event.request; }', /doesn't define a handler function/],
+    [`var PADDING = '${'x'.repeat(MAX_CLOUDFRONT_FUNCTION_BYTES)}';\nfunction handler(event) { return event.request; }`, /bytes after minification, over the CloudFront Functions limit of 10240 bytes/],
+  ])('rejects CloudFront Function code the runtime can\'t run (%#)', (source, error) => {
+    expect(() => cloudFrontFunctionCode(functionEntry(source))).toThrow(error);
+  });
+});
@@ -0,0 +1,452 @@
+import * as fs from 'fs';
+import { LAB_AES_KEY_HEX, LAB_BOT_SECRET } from '../../lib/edge-lab-stack';
+import { cloudFrontFunctionCode, MAX_CLOUDFRONT_FUNCTION_BYTES } from '../../lib/function-code';
+import { cloudFrontFunctionEvent, lambdaEdgeEvent, RequestOptions } from './events';
+import {
+  AES_GCM_LAMBDA_ENTRY,
+  CF_FUNCTION_ENTRY,
+  HandlerDate,
+  HMAC_LAMBDA_ENTRY,
+  InMemoryKeyValueStore,
+  InMemorySecretsManager,
+  LambdaEdgeHandler,
+  loadCloudFrontFunction,
+  loadLambdaHandler,
+  RecordingConsole,
+} from './handlers';
+import { encryptAesGcm, signHmac, tamper } from './tokens';
+
+/**
+ * Offline benchmark of the validators: replays a request corpus through the
+ * handlers with the in-memory stand-ins and measures each invocation
+ */
+
+export type BenchmarkValidator = 'cf-function' | 'lambda-edge' | 'aes-gcm';
+
+export const BENCHMARK_VALIDATORS: BenchmarkValidator[] = ['cf-function', 'lambda-edge', 'aes-gcm'];
+
+/**
+ * Time CloudFront counts as 100 ComputeUtilization. AWS doesn't publish it;
+ * functions are meant to finish in under a millisecond, so that stands in.
+ */
+export const CLOUDFRONT_FUNCTION_COMPUTE_BUDGET_MICROS = 1000;
+
+/**
+ * ComputeUtilization from which a function is flagged: near 100 CloudFront
+ * starts throttling it
+ */
+export const COMPUTE_UTILIZATION_WARNING = 70;
+
+/**
+ * CloudFront Functions memory limit
+ */
+export const CLOUDFRONT_FUNCTION_MEMORY_BYTES = 2 * 1024 * 1024;
+
+// Time generated requests are sent at, so generated corpora are the same on every run
+const GENERATED_AT = 1_800_000_000;
+
+// Secret names the Lambda@Edge handlers are loaded with
+const HMAC_SECRET_NAME = 'bot-validator-secret';
+const AES_GCM_SECRET_NAME = 'aesgcm-validator-secret';
+
+/**
+ * One request of a corpus (a JSON line of a corpus file)
+ */
+export interface CorpusRequest extends RequestOptions {
+  /**
+   * Validator the request goes to
+   * @default - the one whose path the uri is under
+   */
+  validator?: BenchmarkValidator;
+
+  /**
+   * Unix seconds the request was sent at: the validators' clock is set to it,
+   * so recorded tokens are still fresh
+   * @default - the current time
+   */
+  at?: number;
+
+  /**
+   * Kind of request, e.g. 'valid' or 'expired', to break the results down by
+   * @default 'recorded'
+   */
+  label?: string;
+}
+
+export interface BenchmarkOptions {
+  /**
+   * Replays of the whole corpus before measuring, so results are for warm
+   * functions (Lambda@Edge containers are reused, CloudFront compiles
+   * functions ahead of time)
+   * @default 1
+   */
+  warmup?: number;
+
+  /**
+   * HMAC key of the CloudFront Function and HMAC Lambda@Edge validators
+   * @default - the lab key (a `-c labSecrets=true` deployment's)
+   */
+  secretKey?: string;
+
+  /**
+   * AES-256 key (hex) of the AES-GCM validator
+   * @default - the lab key
+   */
+  aesKeyHex?: string;
+
+  /**
+   * Time taken as 100 ComputeUtilization, microseconds
+   * @default CLOUDFRONT_FUNCTION_COMPUTE_BUDGET_MICROS
+   */
+  computeBudgetMicros?: number;
+}
+
+export interface Distribution {
+  readonly p50: number;
+  readonly p95: number;
+  readonly p99: number;
+  readonly max: number;
+  readonly mean: number;
+}
+
+export interface ValidatorResult {
+  readonly requests: number;
+
+  /**
+   * Requests by decision log reason (OK, INVALID_SIGNATURE, ...)
+   */
+  readonly reasons: Record<string, number>;
+
+  /**
+   * CPU time (user + system) of an invocation, microseconds
+   */
+  readonly cpuMicros: Distribution;
+
+  /**
+   * Wall time of an invocation, microseconds
+   */
+  readonly wallMicros: Distribution;
+
+  /**
+   * Heap growth over an invocation (what it allocated and still held when it
+   * returned), bytes
+   */
+  readonly heapBytes: Distribution;
+
+  /**
+   * Median CPU time of each kind of request, microseconds
+   */
+  readonly cpuMicrosByLabel: Record<string, number>;
+
+  /**
+   * CloudFront Function limits (cf-function only)
+   */
+  readonly cloudFrontFunction?: CloudFrontFunctionResult;
+}
+
+export interface CloudFrontFunctionResult {
+  readonly codeBytes: number;
+  readonly codeLimitBytes: number;
+  readonly kvsReadsPerRequest: number;
+  readonly computeBudgetMicros: number;
+
+  /**
+   * Estimated ComputeUtilization at the p95 and maximum CPU time
+   */
+  readonly computeUtilizationP95: number;
+  readonly computeUtilizationMax: number;
+
+  /**
+   * 'ok', 'warning' (p95 from COMPUTE_UTILIZATION_WARNING) or 'over' (p95 over the budget)
+   */
+  readonly computeRisk: 'ok' | 'warning' | 'over';
+  readonly memoryLimitBytes: number;
+}
+
+export interface BenchmarkReport {
+  readonly corpus: { readonly source: string; readonly requests: number; readonly warmup: number };
+  readonly environment: { readonly node: string; readonly platform: string; readonly commit?: string };
+  readonly validators: Partial<Record<BenchmarkValidator, ValidatorResult>>;
+}
+
+/**
+ * Corpus of `perValidator` requests for each validator, signed with the
+ * given keys: 7 in 10 valid, the rest with an invalid signature, an expired
+ * token or no token
+ */
+export function generateCorpus(perValidator: number, secretKey = LAB_BOT_SECRET, aesKeyHex = LAB_AES_KEY_HEX): CorpusRequest[] {
+  const corpus: CorpusRequest[] = [];
+  for (const validator of BENCHMARK_VALIDATORS) {
+    for (let i = 0; i < perValidator; i++) {
+      const label = ['valid', 'valid', 'valid', 'valid', 'valid', 'valid', 'valid', 'invalid-signature', 'expired', 'missing-token'][i % 10];
+      const ts = label === 'expired' ? GENERATED_AT - 3600 : GENERATED_AT;
+      let headers: Record<string, string> = {};
+      if (validator === 'aes-gcm') {
+        const token = encryptAesGcm({ ts, device: `device-${i % 50}` }, aesKeyHex);
+        headers = { 'X-Auth-Token': label === 'invalid-signature' ? tamper(token, 2) : token };
+      } else {
+        // A nonce per request, as clients sending more than one a second do
+        const token = `${ts}.${i}`;
+        headers = { 'X-Bot-Token': token, 'X-Bot-Signature': signHmac(token, label === 'invalid-signature' ? `${secretKey}-old` : secretKey) };
+      }
+      corpus.push({
+        validator,
+        label,
+        at: GENERATED_AT,
+        uri: `/${validator}/test.html`,
+        clientIp: `198.51.100.${(i % 250) + 1}`,
+        headers: label === 'missing-token' ? { 'User-Agent': 'edge-lab-benchmark' } : { 'User-Agent': 'edge-lab-benchmark', ...headers },
+      });
+    }
+  }
+  return corpus;
+}
+
+/**
+ * Corpus from a JSON Lines file of CorpusRequests. A request without
+ * `validator` goes to the validator of its path.
+ */
+export function readCorpus(file: string): CorpusRequest[] {
+  return fs.readFileSync(file, 'utf-8').split('\n')
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line)
+    .map(({ line, index }) => {
+      const request: CorpusRequest = JSON.parse(line);
+      const validator = request.validator ?? BENCHMARK_VALIDATORS.find((name) => request.uri?.startsWith(`/${name}/`));
+      if (!validator || !BENCHMARK_VALIDATORS.includes(validator)) {
+        throw new Error(`${file}:${index + 1}: requests must go to ${BENCHMARK_VALIDATORS.join(', ')}, by validator or path, got "${request.validator ?? request.uri}"`);
+      }
+      return { label: 'recorded', ...request, validator };
+    });
+}
+
+/**
+ * Replay the corpus through each validator it has requests for and measure
+ * every invocation
+ */
+export async function runBenchmark(corpus: CorpusRequest[], source: string, options: BenchmarkOptions = {}): Promise<BenchmarkReport> {
+  const warmup = options.warmup ?? 1;
+  const validators: Partial<Record<BenchmarkValidator, ValidatorResult>> = {};
+  for (const validator of BENCHMARK_VALIDATORS) {
+    const requests = corpus.filter((request) => (request.validator ?? '') === validator);
+    if (requests.length) {
+      validators[validator] = await benchmarkValidator(validator, requests, warmup, options);
+    }
+  }
+  return {
+    corpus: { source, requests: corpus.length, warmup },
+    environment: { node: process.version, platform: `${process.platform}-${process.arch}` },
+    validators,
+  };
+}
+
+interface Measurement {
+  label: string;
+  reason: string;
+  cpuMicros: number;
+  wallMicros: number;
+  heapBytes: number;
+}
+
+async function benchmarkValidator(
+  validator: BenchmarkValidator,
+  requests: CorpusRequest[],
+  warmup: number,
+  options: BenchmarkOptions,
+): Promise<ValidatorResult> {
+  const logs = new RecordingConsole();
+  const store = new InMemoryKeyValueStore();
+  const secretsManager = new InMemorySecretsManager();
+  const secretKey = options.secretKey ?? LAB_BOT_SECRET;
+  // Placeholders are left as they are, which the validators read as the stack's defaults.
+  // prepare() builds a request's event and returns the invocation with it.
+  let prepare: (request: RequestOptions) => () => Promise<unknown>;
+  if (validator === 'cf-function') {
+    store.put('bot-secret-keyring', { keys: [{ kid: 'default', key: secretKey }] });
+    const handler = loadCloudFrontFunction(store, CF_FUNCTION_ENTRY, {}, logs);
+    prepare = (request) => {
+      const event = cloudFrontFunctionEvent(request);
+      return () => handler(event);
+    };
+  } else {
+    let handler: LambdaEdgeHandler;
+    if (validator === 'lambda-edge') {
+      secretsManager.putSecret(HMAC_SECRET_NAME, { secretKey });
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, HMAC_SECRET_NAME, { console: logs });
+    } else {
+      secretsManager.putSecret(AES_GCM_SECRET_NAME, { aesKey: options.aesKeyHex ?? LAB_AES_KEY_HEX });
+      handler = loadLambdaHandler(AES_GCM_LAMBDA_ENTRY, secretsManager, AES_GCM_SECRET_NAME, { console: logs });
+    }
+    prepare = (request) => {
+      const event = lambdaEdgeEvent(request);
+      return () => handler(event);
+    };
+  }
+
+  for (let round = 0; round < warmup; round++) {
+    for (const request of requests) {
+      await atTime(request.at, prepare(request));
+    }
+  }
+
+  const readsBefore = store.reads;
+  const measurements: Measurement[] = [];
+  for (const request of requests) {
+    // Fresh event outside the measurement: the handlers change the request
+    const invoke = prepare(request);
+    logs.lines.length = 0;
+    await atTime(request.at, async () => {
+      const heapStart = process.memoryUsage().heapUsed;
+      const cpuStart = process.cpuUsage();
+      const wallStart = process.hrtime.bigint();
+      await invoke();
+      const wallEnd = process.hrtime.bigint();
+      const cpu = process.cpuUsage(cpuStart);
+      const heapEnd = process.memoryUsage().heapUsed;
+      const decision = logs.json().find((line) => line.reason);
+      measurements.push({
+        label: request.label ?? 'recorded',
+        reason: decision?.reason ?? 'UNKNOWN',
+        cpuMicros: cpu.user + cpu.system,
+        wallMicros: Number(wallEnd - wallStart) / 1000,
+        // Negative when the collector ran during the invocation
+        heapBytes: Math.max(0, heapEnd - heapStart),
+      });
+    });
+  }
+
+  const cpuMicros = distribution(measurements.map((measurement) => measurement.cpuMicros));
+  const reasons: Record<string, number> = {};
+  const labels: Record<string, number[]> = {};
+  for (const measurement of measurements) {
+    reasons[measurement.reason] = (reasons[measurement.reason] ?? 0) + 1;
+    (labels[measurement.label] ??= []).push(measurement.cpuMicros);
+  }
+
+  return {
+    requests: requests.length,
+    reasons: sortedKeys(reasons),
+    cpuMicros,
+    wallMicros: distribution(measurements.map((measurement) => measurement.wallMicros)),
+    heapBytes: distribution(measurements.map((measurement) => measurement.heapBytes)),
+    cpuMicrosByLabel: sortedKeys(Object.fromEntries(Object.entries(labels).map(([label, values]) => [label, distribution(values).p50]))),
+    cloudFrontFunction: validator === 'cf-function'
+      ? cloudFrontFunctionResult(cpuMicros, (store.reads - readsBefore) / requests.length, options.computeBudgetMicros ?? CLOUDFRONT_FUNCTION_COMPUTE_BUDGET_MICROS)
+      : undefined,
+  };
+}
+
+function cloudFrontFunctionResult(cpuMicros: Distribution, kvsReadsPerRequest: number, computeBudgetMicros: number): CloudFrontFunctionResult {
+  const utilization = (micros: number) => round(Math.min(100, (micros / computeBudgetMicros) * 100));
+  const p95 = (cpuMicros.p95 / computeBudgetMicros) * 100;
+  return {
+    codeBytes: Buffer.byteLength(cloudFrontFunctionCode(CF_FUNCTION_ENTRY)),
+    codeLimitBytes: MAX_CLOUDFRONT_FUNCTION_BYTES,
+    kvsReadsPerRequest: round(kvsReadsPerRequest),
+    computeBudgetMicros,
+    computeUtilizationP95: utilization(cpuMicros.p95),
+    computeUtilizationMax: utilization(cpuMicros.max),
+    computeRisk: p95 > 100 ? 'over' : p95 >= COMPUTE_UTILIZATION_WARNING ? 'warning' : 'ok',
+    memoryLimitBytes: CLOUDFRONT_FUNCTION_MEMORY_BYTES,
+  };
+}
+
+// Run `fn` with the validators' clock at `at` (unix seconds), if given
+async function atTime<T>(at: number | undefined, fn: () => Promise<T>): Promise<T> {
+  if (at === undefined) {
+    return fn();
+  }
+  // The CloudFront Function sees this module's Date, the Lambda handlers HandlerDate
+  const dates = [...new Set([Date, HandlerDate])];
+  const nows = dates.map((date) => date.now);
+  for (const date of dates) {
+    date.now = () => at * 1000;
+  }
+  try {
+    return await fn();
+  } finally {
+    dates.forEach((date, index) => {
+      date.now = nows[index];
+    });
+  }
+}
+
+function distribution(values: number[]): Distribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+  return {
+    p50: round(percentile(50)),
+    p95: round(percentile(95)),
+    p99: round(percentile(99)),
+    max: round(sorted[sorted.length - 1]),
+    mean: round(sorted.reduce((total, value) => total + value, 0) / sorted.length),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Same key order on every run, so reports diff cleanly
+function sortedKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Markdown rendering of a report, for reading and for diffs between commits
+ */
+export function renderMarkdown(report: BenchmarkReport): string {
+  const lines = [
+    '# Validator benchmark',
+    '',
+    `Corpus: ${report.corpus.source}, ${report.corpus.requests} requests, ${report.corpus.warmup} warmup replay(s). ` +
+      `Node ${report.environment.node} on ${report.environment.platform}${report.environment.commit ? `, commit ${report.environment.commit}` : ''}.`,
+    '',
+    'Times are from Node, not the edge runtimes: compare them between commits and validators, not with CloudWatch.',
+    '',
+    '## Per invocation',
+    '',
+    '| Validator | Requests | CPU p50 (µs) | CPU p95 (µs) | CPU p99 (µs) | CPU max (µs) | Wall p50 (µs) | Wall p95 (µs) | Heap p50 (KB) | Heap p95 (KB) |',
+    '|-----------|---------:|-------------:|-------------:|-------------:|-------------:|--------------:|--------------:|--------------:|--------------:|',
+  ];
+  const kb = (bytes: number) => round(bytes / 1024);
+  const results = Object.entries(report.validators) as Array<[BenchmarkValidator, ValidatorResult]>;
+  for (const [validator, result] of results) {
+    const { cpuMicros: cpu, wallMicros: wall, heapBytes: heap } = result;
+    lines.push(`| ${validator} | ${result.requests} | ${cpu.p50} | ${cpu.p95} | ${cpu.p99} | ${cpu.max} | ${wall.p50} | ${wall.p95} | ${kb(heap.p50)} | ${kb(heap.p95)} |`);
+  }
+
+  lines.push('', '## Decisions', '', '| Validator | Reason | Requests |', '|-----------|--------|---------:|');
+  for (const [validator, result] of results) {
+    for (const [reason, count] of Object.entries(result.reasons)) {
+      lines.push(`| ${validator} | ${reason} | ${count} |`);
+    }
+  }
+
+  lines.push('', '## CPU by kind of request', '', '| Validator | Kind | CPU p50 (µs) |', '|-----------|------|-------------:|');
+  for (const [validator, result] of results) {
+    for (const [label, micros] of Object.entries(result.cpuMicrosByLabel)) {
+      lines.push(`| ${validator} | ${label} | ${micros} |`);
+    }
+  }
+
+  const cf = report.validators['cf-function']?.cloudFrontFunction;
+  if (cf) {
+    const heap = report.validators['cf-function']!.heapBytes;
+    lines.push(
+      '',
+      '## CloudFront Function limits',
+      '',
+      '| Check | Value | Limit | Status |',
+      '|-------|------:|------:|--------|',
+      `| Compute utilization at p95 | ${cf.computeUtilizationP95} | ${COMPUTE_UTILIZATION_WARNING} (warning), 100 | ${cf.computeRisk} |`,
+      `| Compute utilization at max | ${cf.computeUtilizationMax} | 100 | ${cf.computeUtilizationMax >= 100 ? 'over' : 'ok'} |`,
+      `| Code size (bytes) | ${cf.codeBytes} | ${cf.codeLimitBytes} | ${cf.codeBytes > cf.codeLimitBytes ? 'over' : 'ok'} |`,
+      `| Heap growth, max (KB) | ${kb(heap.max)} | ${kb(cf.memoryLimitBytes)} | ${heap.max > cf.memoryLimitBytes ? 'over' : 'ok'} |`,
+      `| KeyValueStore reads per request | ${cf.kvsReadsPerRequest} | | |`,
+      '',
+      `Compute utilization assumes ${cf.computeBudgetMicros} µs of CPU is 100: AWS doesn't publish the budget of the JS 2.0 runtime.`,
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
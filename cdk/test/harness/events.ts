@@ -0,0 +1,146 @@
+/**
+ * Builders for the two edge event formats
+ */
+
+export interface RequestOptions {
+  uri?: string;
+  method?: string;
+  querystring?: string;
+  clientIp?: string;
+  headers?: Record<string, string>;
+
+  /**
+   * Request body (Lambda@Edge with includeBody only)
+   */
+  body?: string;
+}
+
+/**
+ * CloudFront Functions viewer request event.
+ * Header names are lowercase keys with a single `{ value }` object.
+ */
+export interface CloudFrontFunctionEvent {
+  version: '1.0';
+  context: { eventType: 'viewer-request'; distributionId: string; requestId: string };
+  viewer: { ip: string };
+  request: {
+    method: string;
+    uri: string;
+    querystring: Record<string, { value: string; multiValue?: Array<{ value: string }> }>;
+    headers: Record<string, { value: string }>;
+    cookies: Record<string, { value: string }>;
+  };
+}
+
+/**
+ * Lambda@Edge viewer request event.
+ * Header names are lowercase keys with an array of `{ key, value }` objects.
+ */
+export interface LambdaEdgeEvent {
+  Records: Array<{
+    cf: {
+      config: { distributionDomainName: string; distributionId: string; eventType: 'viewer-request'; requestId: string };
+      request: {
+        clientIp: string;
+        method: string;
+        uri: string;
+        querystring: string;
+        headers: Record<string, Array<{ key: string; value: string }>>;
+        body?: { inputTruncated: boolean; action: 'read-only'; encoding: 'base64'; data: string };
+      };
+    };
+  }>;
+}
+
+/**
+ * CloudFront Functions response, as a validator answers a request it denies.
+ * An allowed request comes back as the event's request instead, without a
+ * statusCode.
+ */
+export interface CloudFrontFunctionResponse {
+  statusCode: number;
+  statusDescription: string;
+  headers: Record<string, { value: string }>;
+  body: { encoding: 'text'; data: string };
+}
+
+/**
+ * Lambda@Edge response, as a validator answers a request it denies.
+ * An allowed request comes back as the event's request instead, without a
+ * status.
+ */
+export interface LambdaEdgeResponse {
+  status: string;
+  statusDescription: string;
+  headers: Record<string, Array<{ key: string; value: string }>>;
+  body: string;
+}
+
+export function cloudFrontFunctionEvent(options: RequestOptions = {}): CloudFrontFunctionEvent {
+  const headers: Record<string, { value: string }> = {};
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    headers[name.toLowerCase()] = { value };
+  }
+
+  // Query values are passed as sent; repeated names get a multiValue list
+  const querystring: CloudFrontFunctionEvent['request']['querystring'] = {};
+  for (const param of (options.querystring ?? '').split('&').filter(Boolean)) {
+    const separator = param.indexOf('=');
+    const name = separator < 0 ? param : param.slice(0, separator);
+    const value = separator < 0 ? '' : param.slice(separator + 1);
+    const existing = querystring[name];
+    if (existing) {
+      existing.multiValue = [...(existing.multiValue ?? [{ value: existing.value }]), { value }];
+    } else {
+      querystring[name] = { value };
+    }
+  }
+
+  return {
+    version: '1.0',
+    context: { eventType: 'viewer-request', distributionId: 'EDFDVBD6EXAMPLE', requestId: 'test-request-id' },
+    viewer: { ip: options.clientIp ?? '198.51.100.10' },
+    request: {
+      method: options.method ?? 'GET',
+      uri: options.uri ?? '/cf-function/test.html',
+      querystring,
+      headers,
+      cookies: {},
+    },
+  };
+}
+
+export function lambdaEdgeEvent(options: RequestOptions = {}): LambdaEdgeEvent {
+  const headers: Record<string, Array<{ key: string; value: string }>> = {};
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    headers[name.toLowerCase()] = [{ key: name, value }];
+  }
+
+  return {
+    Records: [{
+      cf: {
+        config: {
+          distributionDomainName: 'd111111abcdef8.cloudfront.net',
+          distributionId: 'EDFDVBD6EXAMPLE',
+          eventType: 'viewer-request',
+          requestId: 'test-request-id',
+        },
+        request: {
+          clientIp: options.clientIp ?? '198.51.100.10',
+          method: options.method ?? 'GET',
+          uri: options.uri ?? '/lambda-edge/test.html',
+          querystring: options.querystring ?? '',
+          headers,
+          ...(options.body !== undefined ? {
+            body: {
+              inputTruncated: false,
+              action: 'read-only' as const,
+              encoding: 'base64' as const,
+              data: Buffer.from(options.body).toString('base64'),
+            },
+          } : {}),
+        },
+      },
+    }],
+  };
+}
@@ -0,0 +1,551 @@
+import * as crypto from 'crypto';
+import * as esbuild from 'esbuild';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import {
+  cloudFrontFunctionCode,
+  EDGE_RESPONSE_ENTRY,
+  EDGE_RESPONSE_FILE,
+  NETWORK_POLICY_ENTRY,
+  NETWORK_POLICY_FILE,
+} from '../../lib/function-code';
+import { RATE_LIMIT_ENTRY, RATE_LIMIT_FILE, SECRET_CACHE_ENTRY, SECRET_CACHE_FILE } from '../../lib/lambda-asset';
+import {
+  applyHandlerSettings,
+  resolveValidatorConfig,
+  ValidatorConfig,
+  ValidatorPolicy,
+  VALIDATOR_CONFIG_FILE,
+  VALIDATOR_POLICY_KVS_KEY,
+} from '../../lib/validator-policy';
+import { CloudFrontFunctionEvent, CloudFrontFunctionResponse, LambdaEdgeEvent, LambdaEdgeResponse } from './events';
+
+/**
+ * Loaders that run the validator sources offline, with the AWS-only modules
+ * replaced by in-memory stand-ins
+ */
+
+export const REPO_ROOT = path.join(__dirname, '../../..');
+export const CF_FUNCTION_ENTRY = path.join(REPO_ROOT, 'cloudfront-function/bot-validator.js');
+export const HMAC_LAMBDA_ENTRY = path.join(REPO_ROOT, 'lambda-edge/index.js');
+export const AES_GCM_LAMBDA_ENTRY = path.join(REPO_ROOT, 'lambda-edge-aesgcm/index.js');
+export const JWT_LAMBDA_ENTRY = path.join(REPO_ROOT, 'lambda-edge-jwt/index.js');
+export const CANARY_CONTROLLER_ENTRY = path.join(REPO_ROOT, 'canary-controller/index.js');
+export const RATE_LIMIT_PUBLISHER_ENTRY = path.join(REPO_ROOT, 'rate-limit-publisher/index.js');
+export const KVS_SEEDER_ENTRY = path.join(REPO_ROOT, 'kvs-seeder/index.js');
+
+export type EdgeHandler<Event, Result> = (event: Event) => Promise<Result>;
+
+export type CloudFrontFunctionHandler = EdgeHandler<CloudFrontFunctionEvent, CloudFrontFunctionResponse>;
+
+export type LambdaEdgeHandler = EdgeHandler<LambdaEdgeEvent, LambdaEdgeResponse>;
+
+/**
+ * Handler of a regular Lambda (custom resource, Step Functions task,
+ * subscription), whose events and results each test spells out
+ */
+export type TaskHandler = EdgeHandler<object, unknown>;
+
+/**
+ * `Date` as the Lambda handlers see it: loadLambdaHandler() runs them outside
+ * the Jest sandbox, so spy on this one to move their clock
+ */
+export const HandlerDate: DateConstructor = vm.runInThisContext('Date');
+
+/**
+ * Console that swallows the validators' diagnostic output
+ */
+export const quietConsole: HandlerConsole = {
+  log: () => undefined,
+  error: () => undefined,
+  warn: () => undefined,
+};
+
+export interface HandlerConsole {
+  log(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+}
+
+/**
+ * Console that keeps the validators' console.log lines (their decision logs)
+ * and swallows the rest
+ */
+export class RecordingConsole implements HandlerConsole {
+  public readonly lines: string[] = [];
+
+  log = (...args: unknown[]) => {
+    this.lines.push(args.map(String).join(' '));
+  };
+
+  error = () => undefined;
+  warn = () => undefined;
+
+  /**
+   * Lines that are JSON objects, parsed
+   */
+  json(): any[] {
+    return this.lines
+      .filter((line) => line.startsWith('{'))
+      .map((line) => JSON.parse(line));
+  }
+}
+
+/**
+ * CloudFront KeyValueStore stand-in for the `cloudfront` module.
+ * Like the real store, `get` rejects for keys that don't exist.
+ */
+export class InMemoryKeyValueStore {
+  private readonly entries = new Map<string, string>();
+  public reads = 0;
+
+  put(key: string, value: string | object): void {
+    this.entries.set(key, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  module() {
+    const entries = this.entries;
+    const store = this;
+    return {
+      kvs(_id: string) {
+        return {
+          async get(key: string, options?: { format?: 'string' | 'json' | 'bytes' }) {
+            store.reads++;
+            const value = entries.get(key);
+            if (value === undefined) {
+              throw new Error(`Key ${key} not found`);
+            }
+            return options?.format === 'json' ? JSON.parse(value) : value;
+          },
+          async exists(key: string) {
+            return entries.has(key);
+          },
+        };
+      },
+    };
+  }
+}
+
+/**
+ * The subset of `crypto` the CloudFront Functions JS 2.0 runtime provides
+ */
+export const cloudFrontCrypto = {
+  createHash: (algorithm: string) => crypto.createHash(algorithm),
+  createHmac: (algorithm: string, key: string) => crypto.createHmac(algorithm, key),
+};
+
+/**
+ * Secrets Manager stand-in for `@aws-sdk/client-secrets-manager`
+ */
+export class InMemorySecretsManager {
+  private readonly secrets = new Map<string, string>();
+  private failure?: Error;
+  private stalls = 0;
+  public calls = 0;
+
+  putSecret(secretId: string, value: string | object): void {
+    this.secrets.set(secretId, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+
+  /**
+   * Make every GetSecretValue call reject with `error` (undefined to recover)
+   */
+  failWith(error?: Error): void {
+    this.failure = error;
+  }
+
+  /**
+   * Make the next `count` GetSecretValue calls hang until the caller aborts them
+   */
+  stall(count: number): void {
+    this.stalls = count;
+  }
+
+  module() {
+    const manager = this;
+
+    class GetSecretValueCommand {
+      constructor(public readonly input: { SecretId: string }) {}
+    }
+
+    class SecretsManagerClient {
+      constructor(public readonly config: unknown) {}
+
+      async send(command: GetSecretValueCommand, options: { abortSignal?: AbortSignal } = {}) {
+        manager.calls++;
+        if (manager.stalls > 0) {
+          manager.stalls--;
+          await new Promise((_resolve, reject) => {
+            options.abortSignal?.addEventListener('abort', () => {
+              reject(Object.assign(new Error('Request aborted'), { name: 'AbortError' }));
+            });
+          });
+        }
+        if (manager.failure) {
+          throw manager.failure;
+        }
+        const value = manager.secrets.get(command.input.SecretId);
+        if (value === undefined) {
+          throw Object.assign(new Error(`Secrets Manager can't find the specified secret: ${command.input.SecretId}`), {
+            name: 'ResourceNotFoundException',
+          });
+        }
+        return { Name: command.input.SecretId, SecretString: value };
+      }
+    }
+
+    return { SecretsManagerClient, GetSecretValueCommand };
+  }
+}
+
+/**
+ * DynamoDB attribute value, of the types the validators store
+ */
+export interface AttributeValue {
+  S?: string;
+  N?: string;
+}
+
+export type DynamoDbItem = Record<string, AttributeValue>;
+
+/**
+ * DynamoDB stand-in for `@aws-sdk/client-dynamodb` (PutItem and UpdateItem).
+ * Condition expressions support `attribute_not_exists(a)` and `a < :v`
+ * comparisons on number attributes, joined with OR. Update expressions
+ * support `ADD a :n` (numbers), `SET a = :v` and `REMOVE a` clauses. Like
+ * DynamoDB TTL, nothing is deleted when it expires.
+ */
+export class InMemoryDynamoDb {
+  private readonly tables = new Map<string, Map<string, DynamoDbItem>>();
+  private failure?: Error;
+  public calls = 0;
+
+  items(tableName: string): Map<string, DynamoDbItem> {
+    if (!this.tables.has(tableName)) {
+      this.tables.set(tableName, new Map());
+    }
+    return this.tables.get(tableName)!;
+  }
+
+  /**
+   * Make every call reject with `error` (undefined to recover)
+   */
+  failWith(error?: Error): void {
+    this.failure = error;
+  }
+
+  module() {
+    const dynamoDb = this;
+
+    class PutItemCommand {
+      constructor(public readonly input: {
+        TableName: string;
+        Item: DynamoDbItem;
+        ConditionExpression?: string;
+        ExpressionAttributeValues?: Record<string, AttributeValue>;
+      }) {}
+    }
+
+    class UpdateItemCommand {
+      constructor(public readonly input: {
+        TableName: string;
+        Key: DynamoDbItem;
+        UpdateExpression: string;
+        ExpressionAttributeNames?: Record<string, string>;
+        ExpressionAttributeValues?: Record<string, AttributeValue>;
+        ReturnValues?: 'ALL_NEW' | 'UPDATED_NEW';
+      }) {}
+    }
+
+    class DynamoDBClient {
+      constructor(public readonly config: unknown) {}
+
+      async send(command: PutItemCommand | UpdateItemCommand) {
+        dynamoDb.calls++;
+        if (dynamoDb.failure) {
+          throw dynamoDb.failure;
+        }
+        if (command instanceof UpdateItemCommand) {
+          return updateItem(dynamoDb.items(command.input.TableName), command.input);
+        }
+        const { TableName, Item, ConditionExpression, ExpressionAttributeValues = {} } = command.input;
+        const items = dynamoDb.items(TableName);
+        const key = JSON.stringify(Item.pk);
+        const existing = items.get(key);
+
+        if (ConditionExpression && !conditionHolds(ConditionExpression, existing, ExpressionAttributeValues)) {
+          throw Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+        }
+        items.set(key, Item);
+        return {};
+      }
+    }
+
+    return { DynamoDBClient, PutItemCommand, UpdateItemCommand };
+  }
+}
+
+function updateItem(items: Map<string, DynamoDbItem>, input: {
+  Key: DynamoDbItem;
+  UpdateExpression: string;
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues?: Record<string, AttributeValue>;
+  ReturnValues?: 'ALL_NEW' | 'UPDATED_NEW';
+}) {
+  const key = JSON.stringify(input.Key.pk);
+  const item: DynamoDbItem = { ...(items.get(key) ?? input.Key) };
+  const names = input.ExpressionAttributeNames ?? {};
+  const values = input.ExpressionAttributeValues ?? {};
+  const name = (token: string) => names[token] ?? token;
+  const updated: DynamoDbItem = {};
+
+  for (const clause of input.UpdateExpression.split(/\s+(?=ADD |SET |REMOVE )/)) {
+    const [action, ...rest] = clause.split(' ');
+    const operands = rest.join(' ');
+    if (action === 'ADD') {
+      const [, attribute, value] = operands.match(/^(\S+) (:\w+)$/)!;
+      const current = item[name(attribute)] ? Number(item[name(attribute)].N) : 0;
+      item[name(attribute)] = updated[name(attribute)] = { N: String(current + Number(values[value].N)) };
+    } else if (action === 'SET') {
+      const [, attribute, value] = operands.match(/^(\S+) = (:\w+)$/)!;
+      item[name(attribute)] = updated[name(attribute)] = values[value];
+    } else if (action === 'REMOVE') {
+      delete item[name(operands)];
+    } else {
+      throw new Error(`Unsupported update clause: ${clause}`);
+    }
+  }
+
+  items.set(key, item);
+  if (input.ReturnValues === 'ALL_NEW') {
+    return { Attributes: item };
+  }
+  return input.ReturnValues === 'UPDATED_NEW' ? { Attributes: updated } : {};
+}
+
+function conditionHolds(expression: string, item: DynamoDbItem | undefined, values: Record<string, AttributeValue>): boolean {
+  return expression.split(/\s+OR\s+/).some((clause) => {
+    const notExists = clause.match(/^attribute_not_exists\((\w+)\)$/);
+    if (notExists) {
+      return !item || !(notExists[1] in item);
+    }
+    const lessThan = clause.match(/^(\w+) < (:\w+)$/);
+    if (lessThan) {
+      return !!item && lessThan[1] in item && Number(item[lessThan[1]].N) < Number(values[lessThan[2]].N);
+    }
+    throw new Error(`Unsupported condition: ${clause}`);
+  });
+}
+
+/**
+ * Stand-in for an AWS SDK v3 client package (e.g. `@aws-sdk/client-lambda`):
+ * each command is answered by the responder of the same name, and recorded
+ */
+export class FakeSdkClient {
+  public readonly calls: Array<{ command: string; input: any }> = [];
+
+  constructor(
+    private readonly clientName: string,
+    private readonly responders: Record<string, (input: any) => unknown>,
+  ) {}
+
+  /**
+   * Inputs of the recorded calls to `command`
+   */
+  inputs(command: string): any[] {
+    return this.calls.filter((call) => call.command === command).map((call) => call.input);
+  }
+
+  module() {
+    const fake = this;
+    const exports: Record<string, unknown> = {
+      [this.clientName]: class {
+        constructor(public readonly config: unknown) {}
+
+        async send(command: { input: any }) {
+          const name = command.constructor.name;
+          fake.calls.push({ command: name, input: command.input });
+          return fake.responders[name](command.input);
+        }
+      },
+    };
+    for (const name of Object.keys(this.responders)) {
+      // A named class, so send() can tell the commands apart
+      exports[name] = { [name]: class { constructor(public readonly input: unknown) {} } }[name];
+    }
+    return exports;
+  }
+}
+
+/**
+ * Evaluate the CloudFront Function as the stack deploys it (shared responses
+ * inlined, comments dropped) with stubbed `crypto` and `cloudfront` imports,
+ * after writing the default validator policy with the given settings
+ * (e.g. { signingMode: 'canonical' }) to the store as the stack does.
+ * Each call returns a fresh instance (fresh KVS handle).
+ */
+export function loadCloudFrontFunction(
+  store: InMemoryKeyValueStore,
+  entry = CF_FUNCTION_ENTRY,
+  settings: Partial<ValidatorConfig> = {},
+  console: HandlerConsole = quietConsole,
+): CloudFrontFunctionHandler {
+  store.put(VALIDATOR_POLICY_KVS_KEY, applyHandlerSettings('test', resolveValidatorConfig('test', entry, '/*'), settings));
+
+  const modules: Record<string, unknown> = {
+    crypto: cloudFrontCrypto,
+    cloudfront: store.module(),
+  };
+
+  // JS 2.0 functions use `import x from 'module'` (minified: `import x from"module";`);
+  // bind those names to the stubs
+  const source = cloudFrontFunctionCode(entry)
+    .replace(/\bimport\s*(\w+)\s*from\s*"([\w-]+)";/g, (_match, name: string, moduleName: string) => {
+      if (!(moduleName in modules)) {
+        throw new Error(`${entry} imports '${moduleName}', which CloudFront Functions don't provide`);
+      }
+      return `var ${name} = __modules['${moduleName}'];`;
+    });
+
+  const factory = new Function('__modules', 'console', `${source}\nreturn handler;`);
+  return factory(modules, console);
+}
+
+export interface LambdaHandlerOptions {
+  /**
+   * Settings the stack writes over the policy, e.g. { failMode: 'open' };
+   * object settings are merged over the defaults, e.g. { rateLimit: { key: 'ip', limit: 3 } }
+   */
+  settings?: { [name: string]: unknown };
+
+  /**
+   * Policy the generated config module is built from
+   * @default - the handler's defaults
+   */
+  policy?: ValidatorPolicy;
+
+  /**
+   * Serves `@aws-sdk/client-dynamodb`
+   * @default - a fresh InMemoryDynamoDb
+   */
+  dynamoDb?: InMemoryDynamoDb;
+
+  /**
+   * Console the handler logs to
+   * @default quietConsole
+   */
+  console?: HandlerConsole;
+}
+
+/**
+ * Load a Lambda@Edge handler (an ES module) as a fresh CommonJS module, with
+ * the config and shared response modules bundled as the stack does and
+ * `@aws-sdk/client-secrets-manager` served by `secretsManager`.
+ * Each call returns a fresh instance (empty secret and replay caches).
+ */
+export function loadLambdaHandler(
+  entry: string,
+  secretsManager: InMemorySecretsManager,
+  secretName = 'test-validator-secret',
+  options: LambdaHandlerOptions = {},
+): LambdaEdgeHandler {
+  const dynamoDb = options.dynamoDb ?? new InMemoryDynamoDb();
+  const policyConfig: { [name: string]: unknown } = { ...resolveValidatorConfig('test', entry, '/*', options.policy, secretName) };
+  const settings = Object.fromEntries(Object.entries(options.settings ?? {}).map(([name, value]) => {
+    const defaults = policyConfig[name];
+    return [name, defaults && typeof defaults === 'object' && !Array.isArray(defaults) ? { ...defaults, ...value as object } : value];
+  }));
+  const config = applyHandlerSettings('test', policyConfig as unknown as ValidatorConfig, settings);
+  const handlerConsole = options.console ?? quietConsole;
+  const secretsManagerModule = secretsManager.module();
+  const dynamoDbModule = dynamoDb.module();
+  const awsRequire = (id: string) => {
+    if (id === '@aws-sdk/client-secrets-manager') {
+      return secretsManagerModule;
+    }
+    if (id === '@aws-sdk/client-dynamodb') {
+      return dynamoDbModule;
+    }
+    return require(id);
+  };
+  const secretCache = loadEdgeModule(SECRET_CACHE_ENTRY, awsRequire, handlerConsole);
+  const rateLimit = loadEdgeModule(RATE_LIMIT_ENTRY, awsRequire, handlerConsole);
+  const localRequire = (id: string) => {
+    if (id === `./${SECRET_CACHE_FILE}`) {
+      return secretCache;
+    }
+    if (id === `./${RATE_LIMIT_FILE}`) {
+      return rateLimit;
+    }
+    if (id === `./${VALIDATOR_CONFIG_FILE}`) {
+      return JSON.parse(JSON.stringify(config));
+    }
+    if (id === `./${EDGE_RESPONSE_FILE}`) {
+      return require(EDGE_RESPONSE_ENTRY);
+    }
+    if (id === `./${NETWORK_POLICY_FILE}`) {
+      return require(NETWORK_POLICY_ENTRY);
+    }
+    return awsRequire(id);
+  };
+
+  return (loadEdgeModule(entry, localRequire, handlerConsole) as { handler: LambdaEdgeHandler }).handler;
+}
+
+/**
+ * Exports of an ES module of the Lambda@Edge validators (a handler or a module
+ * they bundle, e.g. secret-cache) as a fresh CommonJS module, its imports
+ * resolved by `localRequire`
+ */
+function loadEdgeModule(entry: string, localRequire: (id: string) => unknown, console: HandlerConsole): unknown {
+  const source = esbuild.transformSync(fs.readFileSync(entry, 'utf-8'), { format: 'cjs', loader: 'js', sourcefile: entry }).code;
+  const wrapper = vm.runInThisContext(
+    `(function (exports, require, module, __filename, __dirname, console) {${source}\n})`,
+    { filename: entry },
+  );
+
+  const module = { exports: {} };
+  wrapper(module.exports, localRequire, module, entry, path.dirname(entry), console);
+  return module.exports;
+}
+
+/**
+ * Load a regular (non-edge) Lambda handler as a fresh CommonJS module, with
+ * `process.env` set to `env` and the given modules served by stand-ins,
+ * e.g. { '@aws-sdk/client-lambda': fakeLambda.module() }
+ */
+export function loadTaskHandler(
+  entry: string,
+  modules: Record<string, unknown>,
+  env: Record<string, string> = {},
+  console: HandlerConsole = quietConsole,
+): TaskHandler {
+  return (loadTaskModule(entry, modules, env, console) as { handler: TaskHandler }).handler;
+}
+
+/**
+ * Exports of a CommonJS module bundled into a task Lambda (e.g. kvs-write),
+ * loaded like loadTaskHandler so it gets the same stand-ins
+ */
+export function loadTaskModule(
+  entry: string,
+  modules: Record<string, unknown>,
+  env: Record<string, string> = {},
+  console: HandlerConsole = quietConsole,
+): unknown {
+  const source = fs.readFileSync(entry, 'utf-8');
+  const wrapper = vm.runInThisContext(
+    `(function (exports, require, module, __filename, __dirname, console, process) {${source}\n})`,
+    { filename: entry },
+  );
+
+  const localRequire = (id: string) => (id in modules ? modules[id] : require(id));
+  const module = { exports: {} };
+  wrapper(module.exports, localRequire, module, entry, path.dirname(entry), console, { env });
+  return module.exports;
+}
@@ -0,0 +1,129 @@
+import * as crypto from 'crypto';
+
+/**
+ * Client-side token helpers, mirroring the openssl snippets in test/test-requests.sh
+ */
+
+export function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * X-Bot-Signature for an X-Bot-Token
+ */
+export function signHmac(token: string, secretKey: string): string {
+  return crypto.createHmac('sha256', secretKey).update(token).digest('hex');
+}
+
+export interface CanonicalRequestOptions {
+  token: string;
+  method?: string;
+  uri: string;
+  querystring?: string;
+  /**
+   * Request headers by name; only signedHeaders are used
+   */
+  headers?: Record<string, string>;
+  signedHeaders?: string[];
+  /**
+   * X-Bot-Content-SHA256 value
+   */
+  bodyHash?: string;
+}
+
+/**
+ * String signed in the canonical signing mode
+ */
+export function canonicalRequest(options: CanonicalRequestOptions): string {
+  const encode = (value: string) => encodeURIComponent(value)
+    .replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+  const query = (options.querystring ?? '').split('&').filter(Boolean)
+    .map((param) => {
+      const [name, ...value] = param.split('=');
+      return `${encode(decodeURIComponent(name))}=${encode(decodeURIComponent(value.join('=')))}`;
+    })
+    .sort()
+    .join('&');
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    headers[name.toLowerCase()] = value;
+  }
+  const names = (options.signedHeaders ?? ['host']).map((name) => name.toLowerCase()).sort();
+
+  return [
+    options.token,
+    options.method ?? 'GET',
+    options.uri,
+    query,
+    names.map((name) => `${name}:${(headers[name] ?? '').trim()}`).join('\n'),
+    names.join(';'),
+    options.bodyHash ?? 'UNSIGNED-PAYLOAD',
+  ].join('\n');
+}
+
+export function sha256Hex(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * X-Auth-Token: [<kid>:]<nonce_hex>:<ciphertext_hex>:<auth_tag_hex>
+ */
+export function encryptAesGcm(payload: object, keyHex: string, kid?: string): string {
+  const nonce = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(keyHex, 'hex'), nonce);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+  const token = `${nonce.toString('hex')}:${ciphertext.toString('hex')}:${cipher.getAuthTag().toString('hex')}`;
+  return kid ? `${kid}:${token}` : token;
+}
+
+/**
+ * Device claim for fingerprint binding: SHA-256 hex of "<User-Agent>|<client subnet>",
+ * e.g. subnet "198.51.100.0/24" or "2001:db8:a0b::/48"
+ */
+export function deviceFingerprint(userAgent: string, subnet: string): string {
+  return crypto.createHash('sha256').update(`${userAgent}|${subnet}`).digest('hex');
+}
+
+export interface JwtKeyPair {
+  privateKey: crypto.KeyObject;
+
+  /**
+   * Public JWK with kid, as listed in the JWKS
+   */
+  jwk: Record<string, string>;
+}
+
+export function jwtKeyPair(alg: 'EdDSA' | 'ES256', kid: string): JwtKeyPair {
+  const { privateKey, publicKey } = alg === 'EdDSA'
+    ? crypto.generateKeyPairSync('ed25519')
+    : crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return { privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid } as Record<string, string> };
+}
+
+/**
+ * Compact JWT signed with the given header (alg, kid) and claims
+ */
+export function signJwt(header: { alg: string; kid?: string }, claims: object, privateKey: crypto.KeyObject): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode({ typ: 'JWT', ...header })}.${encode(claims)}`;
+  const signature = header.alg === 'ES256'
+    ? crypto.sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+    : crypto.sign(null, Buffer.from(signingInput), privateKey);
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Flip one hex digit of the given token part (0 = first part)
+ */
+export function tamper(token: string, part: number): string {
+  const parts = token.split(':');
+  const value = parts[part];
+  parts[part] = (value[0] === '0' ? '1' : '0') + value.slice(1);
+  return parts.join(':');
+}
+
+export function randomKeyHex(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Jwk } from '../../../client-sdk/src';
+import { HandlerDate, REPO_ROOT } from './handlers';
+
+/**
+ * Shared test vectors (client-sdk/test-vectors.json), also checked by test/*.sh
+ */
+
+export interface HmacVector {
+  description: string;
+  timestamp: number;
+  nonce?: string;
+  keyId?: string;
+  token: string;
+  signature: string;
+}
+
+export interface CanonicalVector extends HmacVector {
+  method: string;
+  uri: string;
+  querystring: string;
+  headers: Record<string, string>;
+  signedHeaders: string[];
+  body?: string;
+  bodyHash?: string;
+  canonicalRequest: string;
+}
+
+export interface AesGcmVector {
+  description: string;
+  payload: { ts: number; [claim: string]: unknown };
+  keyId?: string;
+  nonceHex: string;
+  token: string;
+}
+
+export interface DeviceFingerprintVector {
+  userAgent: string;
+  clientIp: string;
+  subnet: string;
+  fingerprint: string;
+}
+
+export interface JwtVector {
+  description: string;
+  alg: 'EdDSA' | 'ES256';
+  kid: string;
+  claims: { exp: number; [claim: string]: unknown };
+  token: string;
+}
+
+export interface TestVectors {
+  /**
+   * Unix time (seconds) the vectors are valid at
+   */
+  now: number;
+  hmac: { key: string; timestamp: HmacVector[]; canonical: CanonicalVector[] };
+  aesGcm: { keyHex: string; tokens: AesGcmVector[] };
+  deviceFingerprint: DeviceFingerprintVector[];
+  jwt: {
+    issuer: string;
+    audience: string;
+    privateKeys: Array<Jwk & { kid: string }>;
+    jwks: { keys: Jwk[] };
+    tokens: JwtVector[];
+  };
+}
+
+export const TEST_VECTORS_PATH = path.join(REPO_ROOT, 'client-sdk/test-vectors.json');
+
+export const vectors: TestVectors = JSON.parse(fs.readFileSync(TEST_VECTORS_PATH, 'utf-8'));
+
+/**
+ * Pin Date.now() to the vectors' time for the tests in the enclosing block,
+ * for the tests and the handlers
+ */
+export function atVectorTime(): void {
+  const dates = [Date, HandlerDate];
+  let clocks: jest.SpyInstance[] = [];
+  beforeEach(() => {
+    clocks = dates.map((date) => jest.spyOn(date, 'now').mockReturnValue(vectors.now * 1000));
+  });
+  afterEach(() => {
+    clocks.forEach((clock) => clock.mockRestore());
+  });
+}
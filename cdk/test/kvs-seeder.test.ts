@@ -0,0 +1,109 @@
+import { KVS_WRITE_ENTRY } from '../lib/lambda-asset';
+import { FakeSdkClient, InMemorySecretsManager, KVS_SEEDER_ENTRY, loadTaskHandler, loadTaskModule, TaskHandler } from './harness/handlers';
+
+const KVS_ARN = 'arn:aws:cloudfront::123456789012:key-value-store/bot-secrets';
+
+/**
+ * KeyValueStore whose every write needs the current ETag; `conflicts` makes
+ * that many writes lose a race with another writer first
+ */
+function fakeKeyValueStore(conflicts = 0) {
+  const keys = new Map<string, string>();
+  let etag = 1;
+  const write = (input: { IfMatch: string }, change: () => void) => {
+    if (conflicts > 0) {
+      conflicts--;
+      etag++;
+    }
+    if (input.IfMatch !== `E${etag}`) {
+      throw Object.assign(new Error('Pre-condition failed'), { name: 'ConflictException' });
+    }
+    change();
+    etag++;
+    return { ETag: `E${etag}` };
+  };
+
+  const client = new FakeSdkClient('CloudFrontKeyValueStoreClient', {
+    DescribeKeyValueStoreCommand: () => ({ ETag: `E${etag}` }),
+    PutKeyCommand: (input) => write(input, () => keys.set(input.Key, input.Value)),
+    DeleteKeyCommand: (input) => {
+      if (!keys.has(input.Key)) {
+        throw Object.assign(new Error('Key not found'), { name: 'ResourceNotFoundException' });
+      }
+      return write(input, () => keys.delete(input.Key));
+    },
+  });
+  return { client, keys };
+}
+
+function customResourceEvent(requestType: string, properties: Record<string, string>) {
+  return {
+    RequestType: requestType,
+    PhysicalResourceId: requestType === 'Create' ? undefined : `${KVS_ARN}|${properties.Key}`,
+    ResourceProperties: { ServiceToken: 'arn:aws:lambda:us-east-1:123456789012:function:provider', KvsArn: KVS_ARN, ...properties },
+  };
+}
+
+describe('kvs-seeder', () => {
+  let store: ReturnType<typeof fakeKeyValueStore>;
+  let secretsManager: InMemorySecretsManager;
+  let handler: TaskHandler;
+
+  function load(conflicts = 0) {
+    store = fakeKeyValueStore(conflicts);
+    const sdk = {
+      '@aws-sdk/signature-v4a': {},
+      '@aws-sdk/client-secrets-manager': secretsManager.module(),
+      '@aws-sdk/client-cloudfront-keyvaluestore': store.client.module(),
+    };
+    handler = loadTaskHandler(KVS_SEEDER_ENTRY, { ...sdk, './kvs-write.js': loadTaskModule(KVS_WRITE_ENTRY, sdk) });
+  }
+
+  beforeEach(() => {
+    secretsManager = new InMemorySecretsManager();
+    secretsManager.putSecret('bot-validator-secret', { secretKey: 'a'.repeat(64) });
+    load();
+  });
+
+  test('copies a secret into a keyring', async () => {
+    const result = await handler(customResourceEvent('Create', { Key: 'bot-secret-keyring', SecretId: 'bot-validator-secret', LegacyField: 'secretKey' }));
+
+    expect(result).toEqual({ PhysicalResourceId: `${KVS_ARN}|bot-secret-keyring` });
+    expect(JSON.parse(store.keys.get('bot-secret-keyring')!)).toEqual({ keys: [{ kid: 'default', key: 'a'.repeat(64) }] });
+  });
+
+  test('retries a write that another writer beat to the store', async () => {
+    load(2);
+    await handler(customResourceEvent('Create', { Key: 'validator-policy', Value: '{}' }));
+
+    expect(store.keys.get('validator-policy')).toBe('{}');
+    expect(store.client.inputs('PutKeyCommand')).toHaveLength(3);
+  });
+
+  test('gives up after three conflicts', async () => {
+    load(3);
+    await expect(handler(customResourceEvent('Create', { Key: 'validator-policy', Value: '{}' }))).rejects.toThrow('Pre-condition failed');
+  });
+
+  test('deletes a value with its seed', async () => {
+    await handler(customResourceEvent('Create', { Key: 'network-policy', Value: '{"denyCountries":["KP"]}' }));
+    await handler(customResourceEvent('Delete', { Key: 'network-policy', Value: '{"denyCountries":["KP"]}' }));
+
+    expect(store.keys.has('network-policy')).toBe(false);
+  });
+
+  test('deletes a value that is already gone without an error', async () => {
+    await expect(handler(customResourceEvent('Delete', { Key: 'network-policy', Value: '{}' }))).resolves.toEqual({
+      PhysicalResourceId: `${KVS_ARN}|network-policy`,
+    });
+  });
+
+  test('leaves the keyring when its seed is deleted', async () => {
+    const properties = { Key: 'bot-secret-keyring', SecretId: 'bot-validator-secret', LegacyField: 'secretKey' };
+    await handler(customResourceEvent('Create', properties));
+    await handler(customResourceEvent('Delete', properties));
+
+    expect(store.keys.has('bot-secret-keyring')).toBe(true);
+    expect(store.client.inputs('DeleteKeyCommand')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,461 @@
+import { lambdaEdgeEvent } from './harness/events';
+import { AES_GCM_LAMBDA_ENTRY, InMemoryDynamoDb, InMemorySecretsManager, LambdaEdgeHandler, loadLambdaHandler, RecordingConsole } from './harness/handlers';
+import { deviceFingerprint, encryptAesGcm, nowSeconds, randomKeyHex, tamper } from './harness/tokens';
+import { atVectorTime, vectors } from './harness/vectors';
+
+const SECRET_NAME = 'aesgcm-validator-secret';
+const AES_KEY = randomKeyHex();
+
+function authHeaders(token: string): Record<string, string> {
+  return { 'X-Auth-Token': token };
+}
+
+function errorOf(response: { body: string }): string {
+  return JSON.parse(response.body).detail;
+}
+
+describe('lambda-edge-aesgcm/index.js', () => {
+  let secretsManager: InMemorySecretsManager;
+  let handler: LambdaEdgeHandler;
+
+  beforeEach(() => {
+    secretsManager = new InMemorySecretsManager();
+    secretsManager.putSecret(SECRET_NAME, { aesKey: AES_KEY });
+    handler = loadLambdaHandler(AES_GCM_LAMBDA_ENTRY, secretsManager, SECRET_NAME);
+  });
+
+  test('passes a valid token through and adds the validated claims', async () => {
+    const token = encryptAesGcm({ ts: nowSeconds(), device: 'device-001' }, AES_KEY);
+    const event = lambdaEdgeEvent({ uri: '/aes-gcm/test.html', headers: authHeaders(token) });
+    const result = await handler(event);
+
+    expect(result).toBe(event.Records[0].cf.request);
+    expect(result.headers['x-validated-device']).toEqual([{ key: 'X-Validated-Device', value: 'device-001' }]);
+    expect(result.headers['x-validated-timestamp'][0].value).toMatch(/^\d+$/);
+  });
+
+  test('rejects a request without X-Auth-Token', async () => {
+    const result = await handler(lambdaEdgeEvent({ uri: '/aes-gcm/test.html' }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Missing required header: X-Auth-Token');
+  });
+
+  test('rejects an expired token', async () => {
+    const token = encryptAesGcm({ ts: nowSeconds() - 301 }, AES_KEY);
+    const result = await handler(lambdaEdgeEvent({ headers: authHeaders(token) }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Token expired or invalid timestamp');
+  });
+
+  test('rejects a payload without a numeric timestamp', async () => {
+    const token = encryptAesGcm({ ts: String(nowSeconds()) }, AES_KEY);
+    const result = await handler(lambdaEdgeEvent({ headers: authHeaders(token) }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Missing or invalid timestamp');
+  });
+
+  test.each([
+    ['nonce', 0],
+    ['ciphertext', 1],
+    ['auth tag', 2],
+  ])('rejects a token with a tampered %s', async (_name, part) => {
+    const token = tamper(encryptAesGcm({ ts: nowSeconds() }, AES_KEY), part);
+    const result = await handler(lambdaEdgeEvent({ headers: authHeaders(token) }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Invalid or corrupted token');
+  });
+
+  test.each([
+    ['too few parts', 'abc:def'],
+    ['too many parts', 'a:b:c:d:e'],
+    ['a short nonce', 'abcd:abcd:' + '00'.repeat(16)],
+  ])('rejects a malformed token with %s', async (_name, token) => {
+    const result = await handler(lambdaEdgeEvent({ headers: authHeaders(token) }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Invalid or corrupted token');
+  });
+
+  test('rejects a token encrypted with another key', async () => {
+    const token = encryptAesGcm({ ts: nowSeconds() }, randomKeyHex());
+    const result = await handler(lambdaEdgeEvent({ headers: authHeaders(token) }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Invalid or corrupted token');
+  });
+
+  test('returns 503 when the secret cannot be fetched', async () => {
+    secretsManager.failWith(new Error('connect ETIMEDOUT'));
+    const token = encryptAesGcm({ ts: nowSeconds() }, AES_KEY);
+    const result = await handler(lambdaEdgeEvent({ headers: authHeaders(token) }));
+    expect(result.status).toBe('503');
+    expect(errorOf(result)).toBe('Validation keys unavailable');
+  });
+
+  test('can pass requests on unvalidated when the secret cannot be fetched', async () => {
+    handler = loadLambdaHandler(AES_GCM_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+      settings: { failMode: 'open' },
+    });
+    secretsManager.failWith(new Error('connect ETIMEDOUT'));
+    const result = await handler(lambdaEdgeEvent({}));
+    expect(result.headers['x-validation-skipped'][0].value).toBe('secret-unavailable');
+  });
+
+  test('rejects a token without a claim the policy requires', async () => {
+    handler = loadLambdaHandler(AES_GCM_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+      policy: { requiredClaims: ['device'] },
+    });
+    const withDevice = lambdaEdgeEvent({ headers: authHeaders(encryptAesGcm({ ts: nowSeconds(), device: 'device-001' }, AES_KEY)) });
+    expect(await handler(withDevice)).toBe(withDevice.Records[0].cf.request);
+
+    const result = await handler(lambdaEdgeEvent({ headers: authHeaders(encryptAesGcm({ ts: nowSeconds() }, AES_KEY)) }));
+    expect(result.status).toBe('403');
+    expect(JSON.parse(result.body)).toEqual(expect.objectContaining({ detail: 'Missing required claim: device', code: 'MISSING_CLAIM' }));
+  });
+
+  test('denies clients outside the allowed IP ranges', async () => {
+    handler = loadLambdaHandler(AES_GCM_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+      policy: { network: { allowCidrs: ['203.0.113.0/24'] } },
+    });
+    const headers = authHeaders(encryptAesGcm({ ts: nowSeconds() }, AES_KEY));
+    const allowed = lambdaEdgeEvent({ clientIp: '203.0.113.7', headers });
+    expect(await handler(allowed)).toBe(allowed.Records[0].cf.request);
+
+    const result = await handler(lambdaEdgeEvent({ clientIp: '198.51.100.10', headers }));
+    expect(result.status).toBe('403');
+    expect(JSON.parse(result.body).code).toBe('IP_DENIED');
+  });
+
+  describe('key rotation', () => {
+    const now = nowSeconds();
+    const keys = { old: randomKeyHex(), current: randomKeyHex(), expired: randomKeyHex() };
+
+    beforeEach(() => {
+      secretsManager.putSecret(SECRET_NAME, {
+        current: 'current',
+        keys: [
+          { kid: 'old', key: keys.old, notAfter: now + 3600 },
+          { kid: 'current', key: keys.current, notBefore: now - 3600 },
+          { kid: 'expired', key: keys.expired, notAfter: now - 10 },
+        ],
+      });
+    });
+
+    test.each(['old', 'current'] as const)('accepts a token for active key %s', async (kid) => {
+      const event = lambdaEdgeEvent({ headers: authHeaders(encryptAesGcm({ ts: nowSeconds() }, keys[kid], kid)) });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+
+    test('accepts a token without key ID for any active key', async () => {
+      const event = lambdaEdgeEvent({ headers: authHeaders(encryptAesGcm({ ts: nowSeconds() }, keys.old)) });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+
+    test('rejects a token for an expired key ID', async () => {
+      const result = await handler(lambdaEdgeEvent({ headers: authHeaders(encryptAesGcm({ ts: nowSeconds() }, keys.expired, 'expired')) }));
+      expect(result.status).toBe('403');
+      expect(errorOf(result)).toBe('Unknown or inactive key ID');
+    });
+
+    test('rejects a token whose key ID names a different key', async () => {
+      const result = await handler(lambdaEdgeEvent({ headers: authHeaders(encryptAesGcm({ ts: nowSeconds() }, keys.old, 'current')) }));
+      expect(result.status).toBe('403');
+      expect(errorOf(result)).toBe('Invalid or corrupted token');
+    });
+  });
+
+  describe('replay cache', () => {
+    test('accepts the same token twice when disabled', async () => {
+      const token = encryptAesGcm({ ts: nowSeconds() }, AES_KEY);
+      for (let i = 0; i < 2; i++) {
+        const event = lambdaEdgeEvent({ headers: authHeaders(token) });
+        expect(await handler(event)).toBe(event.Records[0].cf.request);
+      }
+    });
+
+    describe.each(['memory', 'dynamodb'])('%s store', (store) => {
+      let dynamoDb: InMemoryDynamoDb;
+
+      beforeEach(() => {
+        dynamoDb = new InMemoryDynamoDb();
+        handler = loadLambdaHandler(AES_GCM_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+          settings: { replayCache: { store, tableName: 'replay-cache', tableRegions: ['us-east-1'] } },
+          dynamoDb,
+        });
+      });
+
+      test('rejects a replayed token with its own error code', async () => {
+        const token = encryptAesGcm({ ts: nowSeconds() }, AES_KEY);
+        const first = lambdaEdgeEvent({ headers: authHeaders(token) });
+        expect(await handler(first)).toBe(first.Records[0].cf.request);
+
+        const result = await handler(lambdaEdgeEvent({ headers: authHeaders(token) }));
+        expect(result.status).toBe('403');
+        expect(JSON.parse(result.body)).toEqual(expect.objectContaining({ detail: 'Token has already been used', code: 'TOKEN_REPLAYED' }));
+      });
+
+      test.each([
+        ['in upper case', (nonce: string) => nonce.toUpperCase()],
+        ['with trailing junk', (nonce: string) => `${nonce}zz`],
+      ])('rejects a replayed token with its nonce written %s', async (_name, alter) => {
+        const token = encryptAesGcm({ ts: nowSeconds() }, AES_KEY);
+        const first = lambdaEdgeEvent({ headers: authHeaders(token) });
+        expect(await handler(first)).toBe(first.Records[0].cf.request);
+
+        const [nonce, ...rest] = token.split(':');
+        const result = await handler(lambdaEdgeEvent({ headers: authHeaders([alter(nonce), ...rest].join(':')) }));
+        expect(JSON.parse(result.body).code).toBe('TOKEN_REPLAYED');
+      });
+
+      test('keys the cache by jti when the token has one', async () => {
+        const first = lambdaEdgeEvent({ headers: authHeaders(encryptAesGcm({ ts: nowSeconds(), jti: 'req-1' }, AES_KEY)) });
+        expect(await handler(first)).toBe(first.Records[0].cf.request);
+
+        // Fresh encryption (new nonce), same jti
+        const result = await handler(lambdaEdgeEvent({ headers: authHeaders(encryptAesGcm({ ts: nowSeconds(), jti: 'req-1' }, AES_KEY)) }));
+        expect(JSON.parse(result.body).code).toBe('TOKEN_REPLAYED');
+      });
+
+      test('accepts distinct tokens', async () => {
+        for (let i = 0; i < 3; i++) {
+          const event = lambdaEdgeEvent({ headers: authHeaders(encryptAesGcm({ ts: nowSeconds() }, AES_KEY)) });
+          expect(await handler(event)).toBe(event.Records[0].cf.request);
+        }
+      });
+
+      test('does not record rejected tokens', async () => {
+        const expired = encryptAesGcm({ ts: nowSeconds() - 3600, jti: 'req-2' }, AES_KEY);
+        expect((await handler(lambdaEdgeEvent({ headers: authHeaders(expired) }))).status).toBe('403');
+
+        const event = lambdaEdgeEvent({ headers: authHeaders(encryptAesGcm({ ts: nowSeconds(), jti: 'req-2' }, AES_KEY)) });
+        expect(await handler(event)).toBe(event.Records[0].cf.request);
+      });
+
+      if (store === 'dynamodb') {
+        test('records the token until its timestamp window ends', async () => {
+          const ts = nowSeconds();
+          await handler(lambdaEdgeEvent({ headers: authHeaders(encryptAesGcm({ ts, jti: 'req-3' }, AES_KEY)) }));
+
+          const item = dynamoDb.items('replay-cache').get(JSON.stringify({ S: 'aesgcm:jti:req-3' }));
+          expect(item).toEqual({ pk: { S: 'aesgcm:jti:req-3' }, expiresAt: { N: String(ts + 300) } });
+        });
+
+        test('returns 503 when the table is unavailable', async () => {
+          dynamoDb.failWith(new Error('connect ETIMEDOUT'));
+          const result = await handler(lambdaEdgeEvent({ headers: authHeaders(encryptAesGcm({ ts: nowSeconds() }, AES_KEY)) }));
+          expect(result.status).toBe('503');
+          expect(errorOf(result)).toBe('Replay cache unavailable');
+        });
+      }
+    });
+  });
+
+  describe('device binding', () => {
+    const USER_AGENT = 'ExampleBot/1.0';
+
+    function bindTo(...methods: string[]): LambdaEdgeHandler {
+      return loadLambdaHandler(AES_GCM_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        settings: { deviceBinding: methods },
+      });
+    }
+
+    function codeOf(response: { body: string }): string {
+      return JSON.parse(response.body).code;
+    }
+
+    test('ignores the device claim when binding is off', async () => {
+      handler = bindTo();
+      const event = lambdaEdgeEvent({ headers: { ...authHeaders(encryptAesGcm({ ts: nowSeconds(), device: 'device-001' }, AES_KEY)), 'X-Device-Id': 'other' } });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+
+    describe('header', () => {
+      beforeEach(() => {
+        handler = bindTo('header');
+      });
+
+      test('accepts a matching X-Device-Id', async () => {
+        const token = encryptAesGcm({ ts: nowSeconds(), device: 'device-001' }, AES_KEY);
+        const event = lambdaEdgeEvent({ headers: { ...authHeaders(token), 'X-Device-Id': 'device-001' } });
+        expect(await handler(event)).toBe(event.Records[0].cf.request);
+      });
+
+      test.each([
+        ['another device ID', { 'X-Device-Id': 'device-002' }],
+        ['no device ID', {}],
+      ])('rejects %s', async (_case, deviceHeaders) => {
+        const token = encryptAesGcm({ ts: nowSeconds(), device: 'device-001' }, AES_KEY);
+        const result = await handler(lambdaEdgeEvent({ headers: { ...authHeaders(token), ...deviceHeaders } }));
+        expect(result.status).toBe('403');
+        expect(codeOf(result)).toBe('DEVICE_MISMATCH');
+      });
+
+      test('rejects a token without a device claim', async () => {
+        const token = encryptAesGcm({ ts: nowSeconds() }, AES_KEY);
+        const result = await handler(lambdaEdgeEvent({ headers: { ...authHeaders(token), 'X-Device-Id': 'device-001' } }));
+        expect(result.status).toBe('403');
+        expect(codeOf(result)).toBe('DEVICE_MISSING');
+      });
+    });
+
+    describe('fingerprint', () => {
+      beforeEach(() => {
+        handler = bindTo('fingerprint');
+      });
+
+      test.each([
+        ['198.51.100.10', '198.51.100.0/24'],
+        ['198.51.100.250', '198.51.100.0/24'],
+        ['2001:db8:a0b:12f0::1', '2001:db8:a0b::/48'],
+        ['2001:0db8:0a0b:ffff:1:2:3:4', '2001:db8:a0b::/48'],
+      ])('accepts a client at %s (subnet %s)', async (clientIp, subnet) => {
+        const token = encryptAesGcm({ ts: nowSeconds(), device: deviceFingerprint(USER_AGENT, subnet) }, AES_KEY);
+        const event = lambdaEdgeEvent({ clientIp, headers: { ...authHeaders(token), 'User-Agent': USER_AGENT } });
+        expect(await handler(event)).toBe(event.Records[0].cf.request);
+      });
+
+      test.each([
+        ['another subnet', '198.51.101.10', USER_AGENT],
+        ['another User-Agent', '198.51.100.10', 'OtherBot/2.0'],
+      ])('rejects %s', async (_case, clientIp, userAgent) => {
+        const token = encryptAesGcm({ ts: nowSeconds(), device: deviceFingerprint(USER_AGENT, '198.51.100.0/24') }, AES_KEY);
+        const result = await handler(lambdaEdgeEvent({ clientIp, headers: { ...authHeaders(token), 'User-Agent': userAgent } }));
+        expect(result.status).toBe('403');
+        expect(codeOf(result)).toBe('DEVICE_MISMATCH');
+      });
+    });
+
+    test('accepts either method when both are configured', async () => {
+      handler = bindTo('header', 'fingerprint');
+      const byHeader = lambdaEdgeEvent({
+        headers: { ...authHeaders(encryptAesGcm({ ts: nowSeconds(), device: 'device-001' }, AES_KEY)), 'X-Device-Id': 'device-001' },
+      });
+      expect(await handler(byHeader)).toBe(byHeader.Records[0].cf.request);
+
+      const fingerprint = deviceFingerprint(USER_AGENT, '198.51.100.0/24');
+      const byFingerprint = lambdaEdgeEvent({
+        headers: { ...authHeaders(encryptAesGcm({ ts: nowSeconds(), device: fingerprint }, AES_KEY)), 'User-Agent': USER_AGENT },
+      });
+      expect(await handler(byFingerprint)).toBe(byFingerprint.Records[0].cf.request);
+    });
+  });
+
+  describe('audience', () => {
+    test.each([
+      ['/aes-gcm', '/aes-gcm/test.html'],
+      ['/aes-gcm/', '/aes-gcm/test.html'],
+      ['/aes-gcm/test.html', '/aes-gcm/test.html'],
+    ])('accepts aud %s for %s', async (aud, uri) => {
+      const event = lambdaEdgeEvent({ uri, headers: authHeaders(encryptAesGcm({ ts: nowSeconds(), aud }, AES_KEY)) });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+
+    test('accepts any prefix of a list', async () => {
+      const aud = ['/aes-gcm/api', '/aes-gcm/static'];
+      const event = lambdaEdgeEvent({ uri: '/aes-gcm/static/app.js', headers: authHeaders(encryptAesGcm({ ts: nowSeconds(), aud }, AES_KEY)) });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+
+    test.each([
+      ['another path', '/aes-gcm/api', '/aes-gcm/test.html'],
+      ['a partial segment', '/aes-gcm/te', '/aes-gcm/test.html'],
+      ['a non-path value', 'aes-gcm', '/aes-gcm/test.html'],
+    ])('rejects %s', async (_case, aud, uri) => {
+      const result = await handler(lambdaEdgeEvent({ uri, headers: authHeaders(encryptAesGcm({ ts: nowSeconds(), aud }, AES_KEY)) }));
+      expect(result.status).toBe('403');
+      expect(JSON.parse(result.body)).toEqual(expect.objectContaining({ detail: 'Token is not valid for this path', code: 'AUDIENCE_MISMATCH' }));
+    });
+  });
+
+  describe('rate limit by token', () => {
+    beforeEach(() => {
+      handler = loadLambdaHandler(AES_GCM_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        settings: { rateLimit: { key: 'token', limit: 2, window: 3600, store: 'memory' } },
+      });
+    });
+
+    test('counts requests per device claim', async () => {
+      const request = (device: string) => handler(lambdaEdgeEvent({
+        headers: authHeaders(encryptAesGcm({ ts: nowSeconds(), device }, AES_KEY)),
+      }));
+
+      for (let i = 0; i < 2; i++) {
+        expect((await request('device-001')).status).toBeUndefined();
+      }
+      const result = await request('device-001');
+      expect(result.status).toBe('429');
+      expect(JSON.parse(result.body)).toEqual(expect.objectContaining({ code: 'RATE_LIMITED' }));
+      expect((await request('device-002')).status).toBeUndefined();
+    });
+
+    test('counts tokens without a device claim by client IP, not by their shared key', async () => {
+      const request = (clientIp: string) => handler(lambdaEdgeEvent({
+        clientIp,
+        headers: authHeaders(encryptAesGcm({ ts: nowSeconds() }, AES_KEY)),
+      }));
+
+      for (let i = 0; i < 2; i++) {
+        expect((await request('198.51.100.10')).status).toBeUndefined();
+      }
+      expect((await request('198.51.100.10')).status).toBe('429');
+      expect((await request('198.51.100.20')).status).toBeUndefined();
+    });
+  });
+
+  describe('decision logs', () => {
+    let logs: RecordingConsole;
+
+    beforeEach(() => {
+      logs = new RecordingConsole();
+      handler = loadLambdaHandler(AES_GCM_LAMBDA_ENTRY, secretsManager, SECRET_NAME, { console: logs });
+    });
+
+    test('logs an allowed request with the key that decrypted it', async () => {
+      await handler(lambdaEdgeEvent({ uri: '/aes-gcm/test.html', headers: authHeaders(encryptAesGcm({ ts: nowSeconds() }, AES_KEY)) }));
+      expect(logs.json()).toEqual([expect.objectContaining({
+        validator: 'aes-gcm',
+        decision: 'allow',
+        reason: 'OK',
+        path: '/aes-gcm/test.html',
+        keyId: 'default',
+        secretCache: 'miss',
+      })]);
+    });
+
+    test.each([
+      ['MISSING_HEADERS', () => ({})],
+      ['INVALID_TOKEN', () => authHeaders('invalid:corrupted:token')],
+      ['UNKNOWN_KEY_ID', () => authHeaders(encryptAesGcm({ ts: nowSeconds() }, AES_KEY, 'retired'))],
+      ['INVALID_PAYLOAD', () => authHeaders(encryptAesGcm({ ts: 'yesterday' }, AES_KEY))],
+      ['TOKEN_EXPIRED', () => authHeaders(encryptAesGcm({ ts: nowSeconds() - 301 }, AES_KEY))],
+      ['AUDIENCE_MISMATCH', () => authHeaders(encryptAesGcm({ ts: nowSeconds(), aud: '/elsewhere' }, AES_KEY))],
+    ])('logs a denial with reason %s', async (reason, headers) => {
+      await handler(lambdaEdgeEvent({ headers: headers() }));
+      expect(logs.json()).toEqual([expect.objectContaining({ validator: 'aes-gcm', decision: 'deny', reason })]);
+    });
+  });
+
+  describe('shared test vectors', () => {
+    atVectorTime();
+
+    beforeEach(() => {
+      secretsManager.putSecret(SECRET_NAME, { keys: [{ kid: 'k1', key: vectors.aesGcm.keyHex }] });
+      handler = loadLambdaHandler(AES_GCM_LAMBDA_ENTRY, secretsManager, SECRET_NAME);
+    });
+
+    test.each(vectors.aesGcm.tokens)('accepts $description', async (vector) => {
+      const event = lambdaEdgeEvent({
+        uri: '/aes-gcm/test.html',
+        headers: { ...authHeaders(vector.token), 'X-Device-Id': 'test-device-001' },
+      });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+
+    test.each(vectors.deviceFingerprint)('binds a fingerprint for a client at $clientIp', async (vector) => {
+      handler = loadLambdaHandler(AES_GCM_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        settings: { deviceBinding: ['fingerprint'] },
+      });
+      const token = encryptAesGcm({ ts: vectors.now, device: vector.fingerprint }, vectors.aesGcm.keyHex);
+      const event = lambdaEdgeEvent({ clientIp: vector.clientIp, headers: { ...authHeaders(token), 'User-Agent': vector.userAgent } });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+  });
+});
@@ -0,0 +1,342 @@
+import * as cdk from 'aws-cdk-lib';
+import { lambdaEdgeEvent } from './harness/events';
+import { HandlerDate, InMemorySecretsManager, JWT_LAMBDA_ENTRY, LambdaEdgeHandler, loadLambdaHandler, RecordingConsole } from './harness/handlers';
+import { jwtKeyPair, nowSeconds, signJwt } from './harness/tokens';
+import { atVectorTime, vectors } from './harness/vectors';
+import { ValidatorPolicy } from '../lib/validator-policy';
+
+const SECRET_NAME = 'jwt-validator-jwks';
+const ISSUER = 'https://issuer.example.com';
+const AUDIENCE = 'edge-lab';
+
+const ED25519 = jwtKeyPair('EdDSA', 'ed-1');
+const P256 = jwtKeyPair('ES256', 'ec-1');
+
+function bearer(token: string): Record<string, string> {
+  return { Authorization: `Bearer ${token}` };
+}
+
+function claims(overrides: object = {}): object {
+  return { iss: ISSUER, aud: AUDIENCE, sub: 'bot-001', iat: nowSeconds(), exp: nowSeconds() + 300, ...overrides };
+}
+
+function errorOf(response: { body: string }): string {
+  return JSON.parse(response.body).detail;
+}
+
+describe('lambda-edge-jwt/index.js', () => {
+  let secretsManager: InMemorySecretsManager;
+  let handler: LambdaEdgeHandler;
+
+  function loadWith(issuer = ISSUER, audience = AUDIENCE, policy?: ValidatorPolicy): LambdaEdgeHandler {
+    return loadLambdaHandler(JWT_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+      settings: { issuer, audience },
+      policy,
+    });
+  }
+
+  beforeEach(() => {
+    secretsManager = new InMemorySecretsManager();
+    secretsManager.putSecret(SECRET_NAME, { keys: [ED25519.jwk, P256.jwk] });
+    handler = loadWith();
+  });
+
+  test.each([
+    ['EdDSA', ED25519],
+    ['ES256', P256],
+  ] as const)('passes a valid %s token through and adds the subject', async (alg, pair) => {
+    const token = signJwt({ alg, kid: pair.jwk.kid }, claims(), pair.privateKey);
+    const event = lambdaEdgeEvent({ uri: '/jwt/test.html', headers: bearer(token) });
+    const result = await handler(event);
+
+    expect(result).toBe(event.Records[0].cf.request);
+    expect(result.headers['x-validated-subject']).toEqual([{ key: 'X-Validated-Subject', value: 'bot-001' }]);
+    expect(result.headers['x-validated-key-id']).toEqual([{ key: 'X-Validated-Key-Id', value: pair.jwk.kid }]);
+  });
+
+  test('tries every key of the algorithm for a token without kid', async () => {
+    const event = lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'EdDSA' }, claims(), ED25519.privateKey)) });
+    expect(await handler(event)).toBe(event.Records[0].cf.request);
+  });
+
+  test('caches the JWKS between invocations', async () => {
+    const token = signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims(), ED25519.privateKey);
+    await handler(lambdaEdgeEvent({ headers: bearer(token) }));
+    await handler(lambdaEdgeEvent({ headers: bearer(token) }));
+    expect(secretsManager.calls).toBe(1);
+  });
+
+  test.each([
+    ['no Authorization header', {}],
+    ['another scheme', { Authorization: 'Basic Ym90OnNlY3JldA==' }],
+  ])('rejects a request with %s', async (_case, headers) => {
+    const result = await handler(lambdaEdgeEvent({ headers }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Missing required header: Authorization: Bearer <token>');
+  });
+
+  test.each([
+    ['two parts', 'abc.def'],
+    ['a header that is not JSON', 'bm90LWpzb24.e30.c2ln'],
+  ])('rejects a malformed token (%s)', async (_case, token) => {
+    const result = await handler(lambdaEdgeEvent({ headers: bearer(token) }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Invalid or corrupted token');
+  });
+
+  test.each(['none', 'HS256', 'RS256'])('rejects alg %s', async (alg) => {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const token = `${encode({ alg, kid: 'ed-1' })}.${encode(claims())}.c2ln`;
+    const result = await handler(lambdaEdgeEvent({ headers: bearer(token) }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Unsupported token algorithm');
+  });
+
+  test('rejects a token signed by a key outside the JWKS', async () => {
+    const stranger = jwtKeyPair('EdDSA', 'ed-1');
+    const result = await handler(lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims(), stranger.privateKey)) }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Invalid signature');
+  });
+
+  test('rejects a token whose claims were changed after signing', async () => {
+    const [header, , signature] = signJwt({ alg: 'ES256', kid: 'ec-1' }, claims(), P256.privateKey).split('.');
+    const forged = Buffer.from(JSON.stringify(claims({ sub: 'admin' }))).toString('base64url');
+    const result = await handler(lambdaEdgeEvent({ headers: bearer(`${header}.${forged}.${signature}`) }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Invalid signature');
+  });
+
+  test('rejects a kid whose key has another algorithm', async () => {
+    const result = await handler(lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'ES256', kid: 'ed-1' }, claims(), P256.privateKey)) }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Unknown key ID');
+  });
+
+  test('refetches the JWKS for an unknown kid, at most every 30 seconds', async () => {
+    const added = jwtKeyPair('EdDSA', 'ed-2');
+    const token = signJwt({ alg: 'EdDSA', kid: 'ed-2' }, claims(), added.privateKey);
+    const clock = jest.spyOn(HandlerDate, 'now');
+    try {
+      const start = Date.now();
+      clock.mockReturnValue(start);
+      await handler(lambdaEdgeEvent({ headers: bearer(token) }));
+      expect(secretsManager.calls).toBe(1);
+
+      // The issuer publishes a new key
+      secretsManager.putSecret(SECRET_NAME, { keys: [ED25519.jwk, P256.jwk, added.jwk] });
+      clock.mockReturnValue(start + 10 * 1000);
+      const tooSoon = await handler(lambdaEdgeEvent({ headers: bearer(token) }));
+      expect(errorOf(tooSoon)).toBe('Unknown key ID');
+      expect(secretsManager.calls).toBe(1);
+
+      clock.mockReturnValue(start + 30 * 1000);
+      const event = lambdaEdgeEvent({ headers: bearer(token) });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+      expect(secretsManager.calls).toBe(2);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  // Claims built when the test runs, not when the suite is collected
+  test.each([
+    ['expired', () => ({ exp: nowSeconds() - 61 }), 'Token expired', 'TOKEN_EXPIRED'],
+    ['not yet valid', () => ({ nbf: nowSeconds() + 61 }), 'Token not yet valid', 'TOKEN_NOT_YET_VALID'],
+    ['from another issuer', () => ({ iss: 'https://other.example.com' }), 'Token issuer is not accepted', 'ISSUER_MISMATCH'],
+    ['for another audience', () => ({ aud: 'other-service' }), 'Token is not valid for this audience', 'AUDIENCE_MISMATCH'],
+  ])('rejects a token that is %s', async (_case, overrides, error, code) => {
+    const result = await handler(lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims(overrides()), ED25519.privateKey)) }));
+    expect(result.status).toBe('403');
+    expect(JSON.parse(result.body)).toEqual(expect.objectContaining({ detail: error, code }));
+  });
+
+  test('rejects a token without exp', async () => {
+    const result = await handler(lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims({ exp: undefined }), ED25519.privateKey)) }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Missing or invalid exp claim');
+  });
+
+  test.each([
+    ['exp', { exp: nowSeconds() - 30 }],
+    ['nbf', { nbf: nowSeconds() + 30 }],
+  ])('allows 60 seconds of clock skew on %s', async (_claim, overrides) => {
+    const event = lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims(overrides), ED25519.privateKey)) });
+    expect(await handler(event)).toBe(event.Records[0].cf.request);
+  });
+
+  test('accepts an audience list containing the configured audience', async () => {
+    const event = lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims({ aud: ['other-service', AUDIENCE] }), ED25519.privateKey)) });
+    expect(await handler(event)).toBe(event.Records[0].cf.request);
+  });
+
+  test('applies the configured clock skew', async () => {
+    handler = loadWith(ISSUER, AUDIENCE, { timestampTolerance: cdk.Duration.seconds(10) });
+    const result = await handler(lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims({ exp: nowSeconds() - 30 }), ED25519.privateKey)) }));
+    expect(JSON.parse(result.body)).toEqual(expect.objectContaining({ detail: 'Token expired', code: 'TOKEN_EXPIRED' }));
+  });
+
+  test('rejects a token without a claim the policy requires', async () => {
+    handler = loadWith(ISSUER, AUDIENCE, { requiredClaims: ['sub', 'scope'] });
+    const withScope = lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims({ scope: 'read' }), ED25519.privateKey)) });
+    expect(await handler(withScope)).toBe(withScope.Records[0].cf.request);
+
+    const result = await handler(lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims(), ED25519.privateKey)) }));
+    expect(result.status).toBe('403');
+    expect(JSON.parse(result.body)).toEqual(expect.objectContaining({ detail: 'Missing required claim: scope', code: 'MISSING_CLAIM' }));
+  });
+
+  test('reads the token from the configured header', async () => {
+    handler = loadWith(ISSUER, AUDIENCE, { headers: { token: 'X-Bot-Authorization' } });
+    const token = signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims(), ED25519.privateKey);
+    const event = lambdaEdgeEvent({ headers: { 'X-Bot-Authorization': `Bearer ${token}` } });
+    expect(await handler(event)).toBe(event.Records[0].cf.request);
+
+    const result = await handler(lambdaEdgeEvent({ headers: bearer(token) }));
+    expect(errorOf(result)).toBe('Missing required header: X-Bot-Authorization: Bearer <token>');
+  });
+
+  test('skips the iss and aud checks when none are configured', async () => {
+    handler = loadWith('', '');
+    const event = lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims({ iss: 'anyone', aud: undefined }), ED25519.privateKey)) });
+    expect(await handler(event)).toBe(event.Records[0].cf.request);
+  });
+
+  test('skips JWKS entries that are not signing keys or fail to import', async () => {
+    secretsManager.putSecret(SECRET_NAME, {
+      keys: [{ ...ED25519.jwk, kid: 'enc', use: 'enc' }, { kty: 'OKP', crv: 'Ed25519', x: '', kid: 'broken' }, ED25519.jwk],
+    });
+    handler = loadWith();
+    const event = lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims(), ED25519.privateKey)) });
+    expect(await handler(event)).toBe(event.Records[0].cf.request);
+
+    const result = await handler(lambdaEdgeEvent({ headers: bearer(signJwt({ alg: 'EdDSA', kid: 'enc' }, claims(), ED25519.privateKey)) }));
+    expect(errorOf(result)).toBe('Unknown key ID');
+  });
+
+  test('returns 503 when the JWKS cannot be read', async () => {
+    handler = loadLambdaHandler(JWT_LAMBDA_ENTRY, secretsManager, 'missing-secret');
+    const result = await handler(lambdaEdgeEvent({ headers: bearer('a.b.c') }));
+    expect(result.status).toBe('503');
+    expect(errorOf(result)).toBe('Validation keys unavailable');
+  });
+
+  test('serves the cached JWKS while Secrets Manager is down', async () => {
+    const clock = jest.spyOn(HandlerDate, 'now');
+    try {
+      const start = Date.now();
+      clock.mockReturnValue(start);
+      const token = (at: number) => signJwt(
+        { alg: 'EdDSA', kid: 'ed-1' },
+        claims({ iat: Math.floor(at / 1000), exp: Math.floor(at / 1000) + 300 }),
+        ED25519.privateKey,
+      );
+      await handler(lambdaEdgeEvent({ headers: bearer(token(start)) }));
+
+      secretsManager.failWith(new Error('connect ETIMEDOUT'));
+      clock.mockReturnValue(start + 10 * 60 * 1000);
+      const event = lambdaEdgeEvent({ headers: bearer(token(start + 10 * 60 * 1000)) });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  test('denies viewers from denied countries before checking the token', async () => {
+    handler = loadWith(ISSUER, AUDIENCE, { network: { denyCountries: ['US'] } });
+    const result = await handler(lambdaEdgeEvent({ headers: { 'CloudFront-Viewer-Country': 'US' } }));
+    expect(result.status).toBe('403');
+    expect(JSON.parse(result.body).code).toBe('COUNTRY_DENIED');
+    expect(secretsManager.calls).toBe(0);
+  });
+
+  describe('rate limit by token', () => {
+    beforeEach(() => {
+      handler = loadLambdaHandler(JWT_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        settings: {
+          issuer: ISSUER,
+          audience: AUDIENCE,
+          rateLimit: { key: 'token', limit: 2, window: 3600, store: 'memory' },
+        },
+      });
+    });
+
+    test('counts requests per subject', async () => {
+      const request = (sub: string) => handler(lambdaEdgeEvent({
+        headers: bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims({ sub }), ED25519.privateKey)),
+      }));
+
+      for (let i = 0; i < 2; i++) {
+        expect((await request('bot-001')).status).toBeUndefined();
+      }
+      const result = await request('bot-001');
+      expect(result.status).toBe('429');
+      expect(result.headers['retry-after'][0].value).toMatch(/^\d+$/);
+      expect((await request('bot-002')).status).toBeUndefined();
+    });
+
+    test('counts tokens without a sub claim by client IP, not by their shared key', async () => {
+      const request = (clientIp: string) => handler(lambdaEdgeEvent({
+        clientIp,
+        headers: bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims({ sub: undefined }), ED25519.privateKey)),
+      }));
+
+      for (let i = 0; i < 2; i++) {
+        expect((await request('198.51.100.10')).status).toBeUndefined();
+      }
+      expect((await request('198.51.100.10')).status).toBe('429');
+      expect((await request('198.51.100.20')).status).toBeUndefined();
+    });
+  });
+
+  describe('decision logs', () => {
+    let logs: RecordingConsole;
+
+    beforeEach(() => {
+      logs = new RecordingConsole();
+      handler = loadLambdaHandler(JWT_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        settings: { issuer: ISSUER, audience: AUDIENCE },
+        console: logs,
+      });
+    });
+
+    test('logs an allowed request with the verifying key', async () => {
+      await handler(lambdaEdgeEvent({ uri: '/jwt/test.html', headers: bearer(signJwt({ alg: 'ES256' }, claims(), P256.privateKey)) }));
+      expect(logs.json()).toEqual([expect.objectContaining({
+        validator: 'jwt',
+        decision: 'allow',
+        reason: 'OK',
+        path: '/jwt/test.html',
+        keyId: 'ec-1',
+        secretCache: 'miss',
+      })]);
+    });
+
+    test.each([
+      ['MISSING_HEADERS', () => ({})],
+      ['UNSUPPORTED_ALGORITHM', () => bearer(`${Buffer.from('{"alg":"none"}').toString('base64url')}.e30.c2ln`)],
+      ['INVALID_SIGNATURE', () => bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims(), jwtKeyPair('EdDSA', 'ed-1').privateKey))],
+      ['INVALID_CLAIMS', () => bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims({ exp: undefined }), ED25519.privateKey))],
+      ['ISSUER_MISMATCH', () => bearer(signJwt({ alg: 'EdDSA', kid: 'ed-1' }, claims({ iss: 'https://other.example.com' }), ED25519.privateKey))],
+    ])('logs a denial with reason %s', async (reason, headers) => {
+      await handler(lambdaEdgeEvent({ headers: headers() }));
+      expect(logs.json()).toEqual([expect.objectContaining({ validator: 'jwt', decision: 'deny', reason })]);
+    });
+  });
+
+  describe('shared test vectors', () => {
+    atVectorTime();
+
+    beforeEach(() => {
+      secretsManager.putSecret(SECRET_NAME, vectors.jwt.jwks);
+      handler = loadWith(vectors.jwt.issuer, vectors.jwt.audience);
+    });
+
+    test.each(vectors.jwt.tokens)('accepts $description', async (vector) => {
+      const event = lambdaEdgeEvent({ uri: '/jwt/test.html', headers: bearer(vector.token) });
+      const result = await handler(event);
+      expect(result).toBe(event.Records[0].cf.request);
+      expect(result.headers['x-validated-key-id'][0].value).toBe(vector.kid);
+    });
+  });
+});
@@ -0,0 +1,719 @@
+import { lambdaEdgeEvent } from './harness/events';
+import * as cdk from 'aws-cdk-lib';
+import { HandlerDate, HMAC_LAMBDA_ENTRY, InMemoryDynamoDb, InMemorySecretsManager, LambdaEdgeHandler, loadLambdaHandler, RecordingConsole } from './harness/handlers';
+import { canonicalRequest, CanonicalRequestOptions, nowSeconds, sha256Hex, signHmac } from './harness/tokens';
+import { atVectorTime, vectors } from './harness/vectors';
+
+const SECRET_NAME = 'bot-validator-secret';
+const SECRET = 'lambda-edge-test-secret';
+
+function botHeaders(secret: string, token = String(nowSeconds()), keyId?: string): Record<string, string> {
+  return {
+    'X-Bot-Token': token,
+    'X-Bot-Signature': signHmac(token, secret),
+    ...(keyId ? { 'X-Bot-Key-Id': keyId } : {}),
+  };
+}
+
+function errorOf(response: { body: string }): string {
+  return JSON.parse(response.body).detail;
+}
+
+describe('lambda-edge/index.js', () => {
+  let secretsManager: InMemorySecretsManager;
+  let handler: LambdaEdgeHandler;
+
+  beforeEach(() => {
+    secretsManager = new InMemorySecretsManager();
+    secretsManager.putSecret(SECRET_NAME, { secretKey: SECRET });
+    handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME);
+  });
+
+  test('passes a valid request through unchanged', async () => {
+    const event = lambdaEdgeEvent({ headers: botHeaders(SECRET) });
+    const result = await handler(event);
+    expect(result).toBe(event.Records[0].cf.request);
+  });
+
+  test('caches the secret between invocations', async () => {
+    await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET) }));
+    await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET) }));
+    expect(secretsManager.calls).toBe(1);
+  });
+
+  test.each([
+    ['token', { 'X-Bot-Signature': 'abc' }],
+    ['signature', { 'X-Bot-Token': String(nowSeconds()) }],
+    ['both headers', {}],
+  ])('rejects a request missing the %s with 403', async (_name, headers) => {
+    const result = await handler(lambdaEdgeEvent({ headers }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Missing required headers: X-Bot-Token and X-Bot-Signature');
+  });
+
+  test('rejects an expired token', async () => {
+    const result = await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET, String(nowSeconds() - 301)) }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Token expired or invalid timestamp');
+  });
+
+  test('rejects a tampered token', async () => {
+    const headers = botHeaders(SECRET);
+    headers['X-Bot-Token'] = String(Number(headers['X-Bot-Token']) - 1);
+    const result = await handler(lambdaEdgeEvent({ headers }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Invalid signature');
+  });
+
+  test('rejects a tampered signature', async () => {
+    const headers = botHeaders(SECRET);
+    headers['X-Bot-Signature'] = headers['X-Bot-Signature'].replace(/^./, (c) => (c === '0' ? '1' : '0'));
+    const result = await handler(lambdaEdgeEvent({ headers }));
+    expect(result.status).toBe('403');
+    expect(errorOf(result)).toBe('Invalid signature');
+  });
+
+  test('returns 503 with Retry-After when the secret cannot be fetched', async () => {
+    secretsManager.failWith(Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' }));
+    const result = await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET) }));
+    expect(result.status).toBe('503');
+    expect(result.headers['retry-after']).toEqual([{ key: 'Retry-After', value: '5' }]);
+    expect(JSON.parse(result.body)).toEqual(expect.objectContaining({ detail: 'Validation keys unavailable', code: 'SECRET_UNAVAILABLE' }));
+    expect(secretsManager.calls).toBe(3);
+  });
+
+  test('does not retry when the secret does not exist', async () => {
+    handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, 'missing-secret');
+    const result = await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET) }));
+    expect(result.status).toBe('503');
+    expect(secretsManager.calls).toBe(1);
+  });
+
+  describe('secret fetching', () => {
+    let clock: jest.SpyInstance<number, []>;
+    let start: number;
+
+    // Requests at `minutes` past the first fetch, signed at that time
+    function requestAt(minutes: number) {
+      const at = start + minutes * 60 * 1000;
+      clock.mockReturnValue(at);
+      return handler(lambdaEdgeEvent({ headers: botHeaders(SECRET, String(Math.floor(at / 1000))) }));
+    }
+
+    beforeEach(() => {
+      start = Date.now();
+      clock = jest.spyOn(HandlerDate, 'now');
+    });
+
+    afterEach(() => clock.mockRestore());
+
+    test('retries a failed fetch', async () => {
+      secretsManager.failWith(Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' }));
+      const pending = requestAt(0);
+      secretsManager.failWith();
+      expect((await pending).status).toBeUndefined();
+      expect(secretsManager.calls).toBe(2);
+    });
+
+    test('gives up on an attempt that does not answer in time', async () => {
+      secretsManager.stall(1);
+      expect((await requestAt(0)).status).toBeUndefined();
+      expect(secretsManager.calls).toBe(2);
+    });
+
+    test('shares one fetch between concurrent requests', async () => {
+      const results = await Promise.all([requestAt(0), requestAt(0), requestAt(0)]);
+      expect(results.map((result) => result.status)).toEqual([undefined, undefined, undefined]);
+      expect(secretsManager.calls).toBe(1);
+    });
+
+    test('serves the cached keyring while a refresh is tried, up to an hour', async () => {
+      await requestAt(0);
+      secretsManager.failWith(new Error('connect ETIMEDOUT'));
+
+      expect((await requestAt(10)).status).toBeUndefined();
+      expect((await requestAt(59)).status).toBeUndefined();
+      expect((await requestAt(61)).status).toBe('503');
+    });
+
+    test('serves the cached keyring for the policy\'s maxStale', async () => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        policy: { maxStale: cdk.Duration.minutes(10) },
+      });
+      await requestAt(0);
+      secretsManager.failWith(new Error('connect ETIMEDOUT'));
+
+      expect((await requestAt(9)).status).toBeUndefined();
+      expect((await requestAt(11)).status).toBe('503');
+    });
+
+    test('switches to the refreshed keyring', async () => {
+      await requestAt(0);
+      secretsManager.putSecret(SECRET_NAME, { secretKey: 'rotated-secret' });
+
+      // The stale keyring answers while the refresh runs
+      expect((await requestAt(6)).status).toBeUndefined();
+      await new Promise((resolve) => setImmediate(resolve));
+      expect((await requestAt(6)).status).toBe('403');
+      expect(secretsManager.calls).toBe(2);
+    });
+  });
+
+  describe('fail open', () => {
+    beforeEach(() => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        settings: { failMode: 'open' },
+      });
+    });
+
+    test('passes requests on unvalidated and flagged when the secret cannot be fetched', async () => {
+      secretsManager.failWith(Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' }));
+      const event = lambdaEdgeEvent({ headers: {} });
+      const result = await handler(event);
+      expect(result).toBe(event.Records[0].cf.request);
+      expect(result.headers['x-validation-skipped']).toEqual([{ key: 'X-Validation-Skipped', value: 'secret-unavailable' }]);
+    });
+
+    test('still validates while the secret is available', async () => {
+      const result = await handler(lambdaEdgeEvent({ headers: {} }));
+      expect(result.status).toBe('403');
+    });
+  });
+
+  describe('validator policy', () => {
+    test('reads the configured header names', async () => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        policy: { headers: { token: 'X-Client-Time', signature: 'X-Client-Signature' } },
+      });
+      const token = String(nowSeconds());
+      const event = lambdaEdgeEvent({ headers: { 'X-Client-Time': token, 'X-Client-Signature': signHmac(token, SECRET) } });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+
+      const result = await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET) }));
+      expect(errorOf(result)).toBe('Missing required headers: X-Client-Time and X-Client-Signature');
+    });
+
+    test('applies the configured timestamp tolerance', async () => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        policy: { timestampTolerance: cdk.Duration.seconds(30) },
+      });
+      expect((await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET, String(nowSeconds() - 20)) }))).status).toBeUndefined();
+      const result = await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET, String(nowSeconds() - 40)) }));
+      expect(errorOf(result)).toBe('Token expired or invalid timestamp');
+    });
+
+    test('lets exempt paths through without a token or the secret', async () => {
+      const logs = new RecordingConsole();
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        policy: { exemptPaths: ['/lambda-edge/health', '/lambda-edge/public/*'] },
+        console: logs,
+      });
+
+      for (const uri of ['/lambda-edge/health', '/lambda-edge/public/logo.png']) {
+        const event = lambdaEdgeEvent({ uri });
+        expect(await handler(event)).toBe(event.Records[0].cf.request);
+      }
+      expect(secretsManager.calls).toBe(0);
+      expect(logs.json().map((line) => line.reason)).toEqual(['EXEMPT', 'EXEMPT']);
+
+      expect((await handler(lambdaEdgeEvent({ uri: '/lambda-edge/health/check' }))).status).toBe('403');
+    });
+
+    test('renders denials with the error response template', async () => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        policy: { errorResponse: { contentType: 'text/plain', body: '{status} {code}: {error}' } },
+      });
+      const result = await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET, String(nowSeconds() - 301)) }));
+      expect(result.status).toBe('403');
+      expect(result.headers['content-type']).toEqual([{ key: 'Content-Type', value: 'text/plain' }]);
+      expect(result.body).toBe('403 TOKEN_EXPIRED: Token expired or invalid timestamp');
+    });
+
+    test('keeps extra headers of templated denials', async () => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        policy: { errorResponse: { body: '{"message":"{error}","status":{status}}' } },
+      });
+      secretsManager.failWith(Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' }));
+      const result = await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET) }));
+      expect(result.status).toBe('503');
+      expect(result.headers['retry-after']).toEqual([{ key: 'Retry-After', value: '5' }]);
+      expect(JSON.parse(result.body)).toEqual({ message: 'Validation keys unavailable', status: 503 });
+    });
+  });
+
+  describe('network policy', () => {
+    test('denies clients in a denied IP range before fetching the secret', async () => {
+      const logs = new RecordingConsole();
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        policy: { network: { denyCidrs: ['198.51.100.0/24', '2001:db8::/48'] } },
+        console: logs,
+      });
+      for (const clientIp of ['198.51.100.10', '2001:db8:0:ffff::1']) {
+        const result = await handler(lambdaEdgeEvent({ clientIp, headers: botHeaders(SECRET) }));
+        expect(result.status).toBe('403');
+        expect(JSON.parse(result.body)).toEqual(expect.objectContaining({ code: 'IP_DENIED', detail: 'Client IP address not allowed' }));
+      }
+      expect(secretsManager.calls).toBe(0);
+      expect(logs.json()).toEqual([
+        expect.objectContaining({ decision: 'deny', reason: 'IP_DENIED' }),
+        expect.objectContaining({ decision: 'deny', reason: 'IP_DENIED' }),
+      ]);
+
+      const event = lambdaEdgeEvent({ clientIp: '2001:db8:1::1', headers: botHeaders(SECRET) });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+
+    test('checks the viewer country and network headers', async () => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        policy: { network: { allowCountries: ['DE'], denyAsns: [64496] } },
+      });
+      const allowed = lambdaEdgeEvent({ headers: { ...botHeaders(SECRET), 'CloudFront-Viewer-Country': 'DE', 'CloudFront-Viewer-ASN': '64497' } });
+      expect(await handler(allowed)).toBe(allowed.Records[0].cf.request);
+
+      const country = await handler(lambdaEdgeEvent({ headers: { ...botHeaders(SECRET), 'CloudFront-Viewer-Country': 'US' } }));
+      expect(JSON.parse(country.body).code).toBe('COUNTRY_DENIED');
+      const network = await handler(lambdaEdgeEvent({ headers: { ...botHeaders(SECRET), 'CloudFront-Viewer-Country': 'DE', 'CloudFront-Viewer-ASN': '64496' } }));
+      expect(JSON.parse(network.body).code).toBe('ASN_DENIED');
+    });
+
+    test('denies preflights and exempt paths from denied networks too', async () => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        policy: {
+          network: { denyCidrs: ['198.51.100.10/32'] },
+          exemptPaths: ['/lambda-edge/health'],
+          cors: { allowOrigins: ['https://app.example.com'] },
+        },
+      });
+      const preflight = await handler(lambdaEdgeEvent({
+        method: 'OPTIONS',
+        headers: { Origin: 'https://app.example.com', 'Access-Control-Request-Method': 'GET' },
+      }));
+      expect(preflight.status).toBe('403');
+      expect((await handler(lambdaEdgeEvent({ uri: '/lambda-edge/health' }))).status).toBe('403');
+    });
+  });
+
+  describe('problem details and CORS', () => {
+    const ORIGIN = 'https://app.example.com';
+    const cors = { allowOrigins: [ORIGIN], allowMethods: ['GET', 'POST'], allowCredentials: true };
+
+    test('denies with application/problem+json', async () => {
+      const result = await handler(lambdaEdgeEvent({ uri: '/lambda-edge/data.json', headers: botHeaders(SECRET, String(nowSeconds() - 301)) }));
+      expect(result.status).toBe('403');
+      expect(result.headers['content-type']).toEqual([{ key: 'Content-Type', value: 'application/problem+json' }]);
+      expect(JSON.parse(result.body)).toEqual({
+        type: 'urn:edge-lab:problem:TOKEN_EXPIRED',
+        title: 'Forbidden',
+        status: 403,
+        detail: 'Token expired or invalid timestamp',
+        instance: '/lambda-edge/data.json',
+        code: 'TOKEN_EXPIRED',
+        requestId: 'test-request-id',
+      });
+      expect(result.headers['www-authenticate']).toBeUndefined();
+    });
+
+    test('carries Retry-After as a header and a member', async () => {
+      secretsManager.failWith(Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' }));
+      const result = await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET) }));
+      expect(result.headers['retry-after']).toEqual([{ key: 'Retry-After', value: '5' }]);
+      expect(JSON.parse(result.body)).toEqual(expect.objectContaining({ status: 503, code: 'SECRET_UNAVAILABLE', retryAfter: 5 }));
+    });
+
+    test('hints the scheme and realm on 403s', async () => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, { policy: { authenticateRealm: 'edge-lab' } });
+      const result = await handler(lambdaEdgeEvent({ headers: {} }));
+      expect(result.headers['www-authenticate']).toEqual([{ key: 'WWW-Authenticate', value: 'BotSignature realm="edge-lab"' }]);
+    });
+
+    test('answers preflights from allowed origins without a token', async () => {
+      const logs = new RecordingConsole();
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, { policy: { cors }, console: logs });
+      const result = await handler(lambdaEdgeEvent({
+        method: 'OPTIONS',
+        headers: { Origin: ORIGIN, 'Access-Control-Request-Method': 'POST' },
+      }));
+
+      expect(result).toEqual({
+        status: '204',
+        statusDescription: 'No Content',
+        headers: {
+          'access-control-allow-origin': [{ key: 'Access-Control-Allow-Origin', value: ORIGIN }],
+          'vary': [{ key: 'Vary', value: 'Origin' }],
+          'access-control-allow-credentials': [{ key: 'Access-Control-Allow-Credentials', value: 'true' }],
+          'access-control-allow-methods': [{ key: 'Access-Control-Allow-Methods', value: 'GET, POST' }],
+          'access-control-allow-headers': [{
+            key: 'Access-Control-Allow-Headers',
+            value: 'X-Bot-Token, X-Bot-Signature, X-Bot-Key-Id, X-Bot-Content-SHA256, Content-Type',
+          }],
+          'access-control-max-age': [{ key: 'Access-Control-Max-Age', value: '600' }],
+        },
+      });
+      expect(secretsManager.calls).toBe(0);
+      expect(logs.json()[0]).toEqual(expect.objectContaining({ decision: 'allow', reason: 'PREFLIGHT' }));
+    });
+
+    test('validates preflights from other origins', async () => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, { policy: { cors } });
+      const result = await handler(lambdaEdgeEvent({
+        method: 'OPTIONS',
+        headers: { Origin: 'https://evil.example.com', 'Access-Control-Request-Method': 'POST' },
+      }));
+      expect(result.status).toBe('403');
+      expect(result.headers['access-control-allow-origin']).toBeUndefined();
+    });
+
+    test('adds CORS headers to denials for allowed origins', async () => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, { policy: { cors } });
+      const result = await handler(lambdaEdgeEvent({ headers: { Origin: ORIGIN } }));
+      expect(result.status).toBe('403');
+      expect(result.headers['access-control-allow-origin']).toEqual([{ key: 'Access-Control-Allow-Origin', value: ORIGIN }]);
+      expect(result.headers['access-control-expose-headers'])
+        .toEqual([{ key: 'Access-Control-Expose-Headers', value: 'Retry-After, WWW-Authenticate' }]);
+    });
+  });
+
+  describe('key rotation', () => {
+    const now = nowSeconds();
+
+    beforeEach(() => {
+      secretsManager.putSecret(SECRET_NAME, {
+        current: 'current',
+        next: 'next',
+        keys: [
+          { kid: 'old', key: 'old-secret', notAfter: now + 3600 },
+          { kid: 'expired', key: 'expired-secret', notAfter: now - 10 },
+          { kid: 'current', key: 'current-secret', notBefore: now - 3600 },
+          { kid: 'next', key: 'next-secret', notBefore: now - 60 },
+        ],
+      });
+    });
+
+    test.each(['old', 'current', 'next'])('accepts the active key %s by key ID', async (kid) => {
+      const event = lambdaEdgeEvent({ headers: botHeaders(`${kid}-secret`, undefined, kid) });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+
+    test('accepts any active key when no key ID is sent', async () => {
+      const event = lambdaEdgeEvent({ headers: botHeaders('next-secret') });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+
+    test.each(['expired', 'unknown'])('rejects key ID %s', async (kid) => {
+      const result = await handler(lambdaEdgeEvent({ headers: botHeaders(`${kid}-secret`, undefined, kid) }));
+      expect(result.status).toBe('403');
+      expect(errorOf(result)).toBe('Unknown or inactive key ID');
+    });
+
+    test('rejects an expired key without a key ID', async () => {
+      const result = await handler(lambdaEdgeEvent({ headers: botHeaders('expired-secret') }));
+      expect(result.status).toBe('403');
+      expect(errorOf(result)).toBe('Invalid signature');
+    });
+  });
+
+  describe.each(['memory', 'dynamodb'])('replay cache (%s store)', (store) => {
+    beforeEach(() => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        settings: { replayCache: { store, tableName: 'replay-cache', tableRegions: ['us-east-1'] } },
+        dynamoDb: new InMemoryDynamoDb(),
+      });
+    });
+
+    test('rejects a replayed signature with its own error code', async () => {
+      const headers = botHeaders(SECRET);
+      const first = lambdaEdgeEvent({ headers });
+      expect(await handler(first)).toBe(first.Records[0].cf.request);
+
+      const result = await handler(lambdaEdgeEvent({ headers }));
+      expect(result.status).toBe('403');
+      expect(JSON.parse(result.body)).toEqual(expect.objectContaining({ detail: 'Token has already been used', code: 'TOKEN_REPLAYED' }));
+    });
+
+    test('accepts several requests in the same second with nonce suffixes', async () => {
+      const ts = nowSeconds();
+      for (const nonce of ['a1', 'b2', 'c3']) {
+        const event = lambdaEdgeEvent({ headers: botHeaders(SECRET, `${ts}.${nonce}`) });
+        expect(await handler(event)).toBe(event.Records[0].cf.request);
+      }
+    });
+
+    test('does not record invalid signatures', async () => {
+      const token = String(nowSeconds());
+      const forged = { 'X-Bot-Token': token, 'X-Bot-Signature': signHmac(token, 'wrong-secret') };
+      expect(errorOf(await handler(lambdaEdgeEvent({ headers: forged })))).toBe('Invalid signature');
+
+      const event = lambdaEdgeEvent({ headers: botHeaders(SECRET, token) });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+  });
+
+  describe('canonical signing mode', () => {
+    const HOST = 'd111111abcdef8.cloudfront.net';
+
+    beforeEach(() => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        settings: { signingMode: 'canonical', signedHeaders: ['host', 'user-agent'] },
+      });
+    });
+
+    /**
+     * Request signed over `signed`, sent as `sent` (defaults to the signed request)
+     */
+    function signedEvent(
+      signed: Omit<CanonicalRequestOptions, 'token'>,
+      sent: Partial<CanonicalRequestOptions> = {},
+      body?: string,
+    ) {
+      const token = String(nowSeconds());
+      const signature = signHmac(canonicalRequest({ token, signedHeaders: ['host', 'user-agent'], ...signed }), SECRET);
+      const request = { ...signed, ...sent };
+      return lambdaEdgeEvent({
+        method: request.method,
+        uri: request.uri,
+        querystring: request.querystring,
+        headers: {
+          ...request.headers,
+          ...(request.bodyHash ? { 'X-Bot-Content-SHA256': request.bodyHash } : {}),
+          'X-Bot-Token': token,
+          'X-Bot-Signature': signature,
+        },
+        body,
+      });
+    }
+
+    const baseRequest = {
+      method: 'GET',
+      uri: '/lambda-edge/test.html',
+      querystring: 'b=2&a=1&a=0&q=hello%20world',
+      headers: { Host: HOST, 'User-Agent': 'ExampleBot/1.0' },
+    };
+
+    test('accepts a request matching the signed method, URI, query and headers', async () => {
+      const event = signedEvent(baseRequest);
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+
+    test('ignores query parameter order and unsigned headers', async () => {
+      const event = signedEvent(baseRequest, {
+        querystring: 'q=hello%20world&a=0&b=2&a=1',
+        headers: { ...baseRequest.headers, Accept: 'text/html' },
+      });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+
+    test.each([
+      ['method', { method: 'DELETE' }],
+      ['URI', { uri: '/lambda-edge/admin.html' }],
+      ['query', { querystring: 'b=2&a=1&a=0&q=goodbye' }],
+      ['signed header', { headers: { Host: HOST, 'User-Agent': 'OtherBot/2.0' } }],
+      ['body hash', { bodyHash: sha256Hex('tampered') }],
+    ])('rejects a request with a different %s', async (_part, sent) => {
+      const result = await handler(signedEvent(baseRequest, sent));
+      expect(result.status).toBe('403');
+      expect(errorOf(result)).toBe('Invalid signature');
+    });
+
+    test('rejects a timestamp-only signature', async () => {
+      const result = await handler(lambdaEdgeEvent({ headers: { ...baseRequest.headers, ...botHeaders(SECRET) } }));
+      expect(result.status).toBe('403');
+      expect(errorOf(result)).toBe('Invalid signature');
+    });
+
+    describe('body hash', () => {
+      const body = '{"hello":"world"}';
+      const postRequest = { ...baseRequest, method: 'POST', bodyHash: sha256Hex(body) };
+
+      test('accepts a body matching the signed hash', async () => {
+        const event = signedEvent(postRequest, {}, body);
+        expect(await handler(event)).toBe(event.Records[0].cf.request);
+      });
+
+      test('rejects a body that differs from the signed hash', async () => {
+        const result = await handler(signedEvent(postRequest, {}, '{"hello":"mallory"}'));
+        expect(result.status).toBe('403');
+        expect(errorOf(result)).toBe('Body does not match X-Bot-Content-SHA256');
+      });
+
+      test('rejects a truncated body', async () => {
+        const event = signedEvent(postRequest, {}, body);
+        event.Records[0].cf.request.body!.inputTruncated = true;
+        const result = await handler(event);
+        expect(result.status).toBe('403');
+        expect(errorOf(result)).toBe('Request body too large to verify');
+      });
+
+      test('only checks the signature when the body is not included', async () => {
+        const event = signedEvent(postRequest);
+        expect(await handler(event)).toBe(event.Records[0].cf.request);
+      });
+    });
+  });
+
+  describe.each(['memory', 'dynamodb'])('rate limit (%s store)', (store) => {
+    // The start of a 60-second window
+    const start = 1_800_000_000;
+    let dynamoDb: InMemoryDynamoDb;
+    let clock: jest.SpyInstance<number, []>;
+
+    function load(key: string) {
+      return loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        settings: {
+          rateLimit: { key, limit: 3, window: 60, store, tableName: 'rate-limits', tableRegions: ['us-east-1'] },
+        },
+        dynamoDb,
+      });
+    }
+
+    function request(at: number, clientIp = '198.51.100.10', secret = SECRET) {
+      clock.mockReturnValue(at * 1000);
+      return handler(lambdaEdgeEvent({ clientIp, headers: botHeaders(secret, String(at)) }));
+    }
+
+    beforeEach(() => {
+      dynamoDb = new InMemoryDynamoDb();
+      clock = jest.spyOn(HandlerDate, 'now');
+      handler = load('ip');
+    });
+
+    afterEach(() => clock.mockRestore());
+
+    test('answers the request over the limit with 429 and Retry-After', async () => {
+      for (let i = 0; i < 3; i++) {
+        expect((await request(start)).status).toBeUndefined();
+      }
+
+      const result = await request(start);
+      expect(result.status).toBe('429');
+      expect(result.headers['retry-after']).toEqual([{ key: 'Retry-After', value: '90' }]);
+      expect(JSON.parse(result.body)).toEqual(expect.objectContaining({ detail: 'Rate limit exceeded', code: 'RATE_LIMITED', retryAfter: 90 }));
+    });
+
+    test('lets the client through again after Retry-After', async () => {
+      for (let i = 0; i < 4; i++) {
+        await request(start);
+      }
+      expect((await request(start + 90)).status).toBeUndefined();
+    });
+
+    test('counts each client IP on its own', async () => {
+      for (let i = 0; i < 3; i++) {
+        await request(start);
+      }
+      expect((await request(start, '203.0.113.7')).status).toBeUndefined();
+    });
+
+    test('does not count invalid signatures', async () => {
+      for (let i = 0; i < 3; i++) {
+        expect((await request(start, '198.51.100.10', 'wrong-secret')).status).toBe('403');
+      }
+      expect((await request(start)).status).toBeUndefined();
+    });
+
+    if (store === 'dynamodb') {
+      test('lets requests through when the table is unavailable', async () => {
+        dynamoDb.failWith(new Error('ProvisionedThroughputExceededException'));
+        for (let i = 0; i < 4; i++) {
+          expect((await request(start)).status).toBeUndefined();
+        }
+      });
+    }
+  });
+
+  describe('decision logs', () => {
+    let logs: RecordingConsole;
+
+    beforeEach(() => {
+      logs = new RecordingConsole();
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, { console: logs });
+    });
+
+    test('logs an allowed request as one EMF line', async () => {
+      await handler(lambdaEdgeEvent({ uri: '/lambda-edge/test.html', headers: botHeaders(SECRET) }));
+      expect(logs.json()).toEqual([{
+        _aws: {
+          Timestamp: expect.any(Number),
+          CloudWatchMetrics: [{
+            Namespace: 'EdgeLab/Validators',
+            Dimensions: [['validator', 'decision', 'reason'], ['validator', 'decision']],
+            Metrics: [{ Name: 'Decisions', Unit: 'Count' }, { Name: 'Latency', Unit: 'Milliseconds' }],
+          }],
+        },
+        validator: 'hmac',
+        decision: 'allow',
+        reason: 'OK',
+        path: '/lambda-edge/test.html',
+        keyId: 'default',
+        secretCache: 'miss',
+        Decisions: 1,
+        Latency: expect.any(Number),
+      }]);
+    });
+
+    test('reports secret cache hits', async () => {
+      await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET) }));
+      await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET) }));
+      expect(logs.json().map((entry) => entry.secretCache)).toEqual(['miss', 'hit']);
+    });
+
+    test.each([
+      ['MISSING_HEADERS', {}],
+      ['TOKEN_EXPIRED', botHeaders(SECRET, String(nowSeconds() - 301))],
+      ['UNKNOWN_KEY_ID', botHeaders(SECRET, undefined, 'retired')],
+      ['INVALID_SIGNATURE', botHeaders('another-secret')],
+    ])('logs a denial with reason %s', async (reason, headers) => {
+      await handler(lambdaEdgeEvent({ headers }));
+      expect(logs.json()).toEqual([expect.objectContaining({ validator: 'hmac', decision: 'deny', reason, Decisions: 1 })]);
+    });
+
+    test('logs the key ID the client named', async () => {
+      await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET, undefined, 'retired') }));
+      expect(logs.json()[0].keyId).toBe('retired');
+    });
+
+    test('logs an unavailable secret as a denial', async () => {
+      secretsManager.failWith(Object.assign(new Error('Access denied'), { name: 'AccessDeniedException' }));
+      await handler(lambdaEdgeEvent({ headers: botHeaders(SECRET) }));
+      expect(logs.json()).toEqual([expect.objectContaining({ decision: 'deny', reason: 'SECRET_UNAVAILABLE', secretCache: 'miss' })]);
+    });
+  });
+
+  describe('shared test vectors', () => {
+    atVectorTime();
+
+    beforeEach(() => {
+      secretsManager.putSecret(SECRET_NAME, { keys: [{ kid: 'k2', key: vectors.hmac.key }] });
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME);
+    });
+
+    test.each(vectors.hmac.timestamp)('accepts $description', async (vector) => {
+      const event = lambdaEdgeEvent({
+        headers: {
+          'X-Bot-Token': vector.token,
+          'X-Bot-Signature': vector.signature,
+          ...(vector.keyId ? { 'X-Bot-Key-Id': vector.keyId } : {}),
+        },
+      });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+
+    test.each(vectors.hmac.canonical)('accepts canonical $description', async (vector) => {
+      handler = loadLambdaHandler(HMAC_LAMBDA_ENTRY, secretsManager, SECRET_NAME, {
+        settings: { signingMode: 'canonical', signedHeaders: vector.signedHeaders },
+      });
+      const event = lambdaEdgeEvent({
+        method: vector.method,
+        uri: vector.uri,
+        querystring: vector.querystring,
+        headers: {
+          ...vector.headers,
+          ...(vector.bodyHash ? { 'X-Bot-Content-SHA256': vector.bodyHash } : {}),
+          'X-Bot-Token': vector.token,
+          'X-Bot-Signature': vector.signature,
+        },
+        body: vector.body,
+      });
+      expect(await handler(event)).toBe(event.Records[0].cf.request);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  DescribeKeyValueStoreCommand,
+  DescribeKeyValueStoreCommandOutput,
+  GetKeyCommand,
+  GetKeyCommandOutput,
+  PutKeyCommand,
+  PutKeyCommandOutput,
+} from '@aws-sdk/client-cloudfront-keyvaluestore';
+import { changeList, KeyValueStoreSender, publishNetworkPolicy, readNetworkPolicy } from '../bin/network-policy';
+
+const KVS_ARN = 'arn:aws:cloudfront::123456789012:key-value-store/bot-secrets';
+
+/**
+ * KeyValueStore whose every write needs the current ETag; `conflicts` makes
+ * that many writes lose a race with another writer first
+ */
+function fakeKeyValueStore(conflicts = 0) {
+  const keys = new Map<string, string>();
+  let etag = 1;
+  const puts: Array<PutKeyCommand['input']> = [];
+  const counts = () => ({ $metadata: {}, ItemCount: keys.size, TotalSizeInBytes: 0 });
+
+  function send(command: DescribeKeyValueStoreCommand): Promise<DescribeKeyValueStoreCommandOutput>;
+  function send(command: GetKeyCommand): Promise<GetKeyCommandOutput>;
+  function send(command: PutKeyCommand): Promise<PutKeyCommandOutput>;
+  async function send(
+    command: DescribeKeyValueStoreCommand | GetKeyCommand | PutKeyCommand,
+  ): Promise<DescribeKeyValueStoreCommandOutput | GetKeyCommandOutput | PutKeyCommandOutput> {
+    if (command instanceof DescribeKeyValueStoreCommand) {
+      return { ...counts(), KvsARN: command.input.KvsARN, Created: new Date(0), ETag: `E${etag}` };
+    }
+    if (command instanceof GetKeyCommand) {
+      const value = keys.get(command.input.Key!);
+      if (value === undefined) {
+        throw Object.assign(new Error('Key not found'), { name: 'ResourceNotFoundException' });
+      }
+      return { ...counts(), Key: command.input.Key, Value: value };
+    }
+    puts.push(command.input);
+    if (conflicts > 0) {
+      conflicts--;
+      keys.set('network-policy', JSON.stringify({ denyCountries: ['KP'] }));
+      etag++;
+    }
+    if (command.input.IfMatch !== `E${etag}`) {
+      throw Object.assign(new Error('Pre-condition failed'), { name: 'ConflictException' });
+    }
+    keys.set(command.input.Key!, command.input.Value!);
+    etag++;
+    return { ...counts(), ETag: `E${etag}` };
+  }
+
+  const client: KeyValueStoreSender = { send };
+  return { client, keys, puts };
+}
+
+describe('bin/network-policy.ts', () => {
+  test('reads no lists from a store without the key', async () => {
+    const { client } = fakeKeyValueStore();
+    expect(await readNetworkPolicy(client, KVS_ARN)).toEqual({});
+  });
+
+  test('writes checked, normalized lists with the store ETag', async () => {
+    const { client, keys, puts } = fakeKeyValueStore();
+    const written = await publishNetworkPolicy(client, KVS_ARN, () => ({ allowCountries: ['de', 'DE'], denyCidrs: ['198.51.100.7'] }));
+
+    expect(written).toEqual({ allowCountries: ['DE'], denyCidrs: ['198.51.100.7/32'] });
+    expect(JSON.parse(keys.get('network-policy')!)).toEqual(written);
+    expect(puts).toEqual([expect.objectContaining({ KvsARN: KVS_ARN, Key: 'network-policy', IfMatch: 'E1' })]);
+  });
+
+  test('retries a change on the lists another writer just wrote', async () => {
+    const { client, keys, puts } = fakeKeyValueStore(1);
+    await publishNetworkPolicy(client, KVS_ARN, (current) => changeList(current, 'denyAsns', ['64496']));
+
+    expect(puts).toHaveLength(2);
+    expect(JSON.parse(keys.get('network-policy')!)).toEqual({ denyCountries: ['KP'], denyAsns: [64496] });
+  });
+
+  test('gives up after three conflicts', async () => {
+    const { client, puts } = fakeKeyValueStore(3);
+    await expect(publishNetworkPolicy(client, KVS_ARN, (current) => current)).rejects.toThrow('Pre-condition failed');
+    expect(puts).toHaveLength(3);
+  });
+
+  test('writes nothing for lists the stack would reject', async () => {
+    const { client, puts } = fakeKeyValueStore();
+    await expect(publishNetworkPolicy(client, KVS_ARN, () => ({ allowCidrs: ['203.0.113.0/40'] })))
+      .rejects.toThrow(/network-policy: network.allowCidrs must be IPv4 or IPv6 CIDRs/);
+    expect(puts).toHaveLength(0);
+  });
+
+  test('adds values to a list and removes them, country codes in any case', () => {
+    const added = changeList({ denyCountries: ['KP'] }, 'denyCountries', ['ir']);
+    expect(added).toEqual({ denyCountries: ['KP', 'ir'] });
+    expect(changeList(added, 'denyCountries', ['kp', 'IR'], true)).toEqual({ denyCountries: [] });
+    expect(() => changeList({}, 'blockCountries', ['KP'])).toThrow(/--list must be allowCountries, denyCountries/);
+  });
+});
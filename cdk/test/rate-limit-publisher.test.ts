@@ -0,0 +1,154 @@
+import * as zlib from 'zlib';
+import { KVS_WRITE_ENTRY } from '../lib/lambda-asset';
+import { FakeSdkClient, HandlerDate, InMemoryDynamoDb, loadTaskHandler, loadTaskModule, RATE_LIMIT_PUBLISHER_ENTRY, TaskHandler } from './harness/handlers';
+
+const ENV = {
+  KVS_ARN: 'arn:aws:cloudfront::123456789012:key-value-store/bot-secrets',
+  TABLE_NAME: 'edge-validator-rate-limits',
+  LIMIT: '3',
+  WINDOW: '60',
+};
+
+// The start of a 60-second window, in milliseconds
+const START = 1_800_000_000_000;
+
+/**
+ * KeyValueStore whose every update needs the current ETag; `conflicts` makes
+ * that many updates lose a race with another writer first
+ */
+function fakeKeyValueStore(conflicts = 0) {
+  const keys = new Map<string, string>();
+  let etag = 1;
+
+  const client = new FakeSdkClient('CloudFrontKeyValueStoreClient', {
+    DescribeKeyValueStoreCommand: () => ({ ETag: `E${etag}` }),
+    UpdateKeysCommand: (input) => {
+      if (conflicts > 0) {
+        conflicts--;
+        etag++;
+      }
+      if (input.IfMatch !== `E${etag}`) {
+        throw Object.assign(new Error('Pre-condition failed'), { name: 'ConflictException' });
+      }
+      for (const { Key, Value } of input.Puts ?? []) {
+        keys.set(Key, Value);
+      }
+      for (const { Key } of input.Deletes ?? []) {
+        keys.delete(Key);
+      }
+      etag++;
+      return { ETag: `E${etag}` };
+    },
+    // One key per page, like a store with many keys
+    ListKeysCommand: (input) => {
+      const items = [...keys].map(([Key, Value]) => ({ Key, Value }));
+      const index = input.NextToken ? Number(input.NextToken) : 0;
+      return { Items: items.slice(index, index + 1), NextToken: index + 1 < items.length ? String(index + 1) : undefined };
+    },
+  });
+  return { client, keys };
+}
+
+/**
+ * CloudWatch Logs subscription event carrying CloudFront Function log lines
+ */
+function subscriptionEvent(lines: Array<{ timestamp: number; line: object | string }>) {
+  const logEvents = lines.map(({ timestamp, line }, i) => ({
+    id: String(i),
+    timestamp,
+    message: typeof line === 'string' ? line : `${i}-request-id ${JSON.stringify(line)}`,
+  }));
+  const data = zlib.gzipSync(JSON.stringify({ messageType: 'DATA_MESSAGE', logEvents })).toString('base64');
+  return { awslogs: { data } };
+}
+
+function allowed(client: string, validator = 'cf-function') {
+  return { validator, decision: 'allow', reason: 'OK', path: '/cf-function/test.html', keyId: 'default', client, Latency: 0 };
+}
+
+describe('rate-limit-publisher/index.js', () => {
+  let dynamoDb: InMemoryDynamoDb;
+  let kvs: ReturnType<typeof fakeKeyValueStore>;
+  let handler: TaskHandler;
+  let clock: jest.SpyInstance<number, []>;
+
+  function load(conflicts = 0) {
+    kvs = fakeKeyValueStore(conflicts);
+    const sdk = {
+      '@aws-sdk/client-dynamodb': dynamoDb.module(),
+      '@aws-sdk/client-cloudfront-keyvaluestore': kvs.client.module(),
+      '@aws-sdk/signature-v4a': {},
+    };
+    handler = loadTaskHandler(RATE_LIMIT_PUBLISHER_ENTRY, { ...sdk, './kvs-write.js': loadTaskModule(KVS_WRITE_ENTRY, sdk) }, ENV);
+  }
+
+  beforeEach(() => {
+    dynamoDb = new InMemoryDynamoDb();
+    clock = jest.spyOn(HandlerDate, 'now').mockReturnValue(START + 5000);
+    load();
+  });
+
+  afterEach(() => clock.mockRestore());
+
+  test('lists a client over the limit until the end of its window', async () => {
+    const lines = [1, 2, 3, 4].map((i) => ({ timestamp: START + i * 1000, line: allowed('ip:198.51.100.10') }));
+    expect(await handler(subscriptionEvent(lines))).toEqual({ blocked: 1 });
+    expect(kvs.keys.get('rl:ip:198.51.100.10')).toBe(String(START / 1000 + 60));
+  });
+
+  test('adds up requests across batches', async () => {
+    await handler(subscriptionEvent([1, 2].map((i) => ({ timestamp: START + i * 1000, line: allowed('ip:198.51.100.10') }))));
+    expect(kvs.keys.size).toBe(0);
+
+    await handler(subscriptionEvent([3, 4].map((i) => ({ timestamp: START + i * 1000, line: allowed('ip:198.51.100.10') }))));
+    expect(kvs.keys.has('rl:ip:198.51.100.10')).toBe(true);
+  });
+
+  test('counts each client and window on its own', async () => {
+    const result = await handler(subscriptionEvent([
+      { timestamp: START - 2000, line: allowed('ip:198.51.100.10') },
+      { timestamp: START - 1000, line: allowed('ip:198.51.100.10') },
+      { timestamp: START + 1000, line: allowed('ip:198.51.100.10') },
+      { timestamp: START + 2000, line: allowed('ip:198.51.100.10') },
+      { timestamp: START + 3000, line: allowed('ip:203.0.113.7') },
+    ]));
+    expect(result).toEqual({ blocked: 0 });
+    expect(kvs.client.inputs('UpdateKeysCommand')).toEqual([]);
+  });
+
+  test('ignores other validators, denials and lines that are not JSON', async () => {
+    const result = await handler(subscriptionEvent([1, 2, 3, 4].flatMap((i) => [
+      { timestamp: START + i * 1000, line: allowed('ip:198.51.100.10', 'hmac') },
+      { timestamp: START + i * 1000, line: { ...allowed('ip:198.51.100.10'), decision: 'deny' } },
+      { timestamp: START + i * 1000, line: 'START RequestId: abc' },
+    ])));
+    expect(result).toEqual({ blocked: 0 });
+  });
+
+  test('does not list a client whose window is already over', async () => {
+    clock.mockReturnValue(START + 61 * 1000);
+    const lines = [1, 2, 3, 4].map((i) => ({ timestamp: START + i * 1000, line: allowed('ip:198.51.100.10') }));
+    expect(await handler(subscriptionEvent(lines))).toEqual({ blocked: 0 });
+  });
+
+  test('retries an update that lost a race with another writer', async () => {
+    load(1);
+    const lines = [1, 2, 3, 4].map((i) => ({ timestamp: START + i * 1000, line: allowed('ip:198.51.100.10') }));
+    await handler(subscriptionEvent(lines));
+    expect(kvs.client.inputs('UpdateKeysCommand')).toHaveLength(2);
+    expect(kvs.keys.has('rl:ip:198.51.100.10')).toBe(true);
+  });
+
+  test('sweeps the entries whose window is over', async () => {
+    kvs.keys.set('rl:ip:198.51.100.10', String(START / 1000));
+    kvs.keys.set('rl:ip:203.0.113.7', String(START / 1000 + 60));
+    kvs.keys.set('bot-secret-keyring', '{"keys":[]}');
+
+    expect(await handler({ action: 'sweep' })).toEqual({ removed: 1 });
+    expect([...kvs.keys.keys()]).toEqual(['rl:ip:203.0.113.7', 'bot-secret-keyring']);
+  });
+
+  test('rejects an unknown event', async () => {
+    await expect(handler({ action: 'publish' })).rejects.toThrow('Unknown event');
+  });
+});
@@ -0,0 +1,152 @@
+import * as crypto from 'crypto';
+import { TIMESTAMP_TOLERANCE, VerifyResult } from './hmac';
+
+/**
+ * X-Auth-Token encryption for the /aes-gcm/* validator (lambda-edge-aesgcm/index.js)
+ *
+ * Token format: [<kid>:]<nonce_hex>:<ciphertext_hex>:<auth_tag_hex>
+ * AES-256-GCM, 12-byte nonce, 16-byte tag, JSON payload.
+ */
+
+export interface AuthTokenPayload {
+  /**
+   * Unix timestamp in seconds
+   */
+  ts: number;
+
+  /**
+   * Token ID for the replay cache (defaults to the nonce)
+   */
+  jti?: string;
+
+  /**
+   * Device ID (X-Device-Id) or deviceFingerprint() for device binding
+   */
+  device?: string;
+
+  /**
+   * Path prefix, or list of them, the token is valid for
+   */
+  aud?: string | string[];
+
+  [claim: string]: unknown;
+}
+
+export interface EncryptAuthTokenOptions {
+  /**
+   * Key ID prefixed to the token
+   * @default - no key ID, the validator tries every active key
+   */
+  keyId?: string;
+
+  /**
+   * 12-byte nonce as hex. Only for test vectors: never reuse a nonce with the same key.
+   * @default random
+   */
+  nonceHex?: string;
+}
+
+export interface VerifyAuthTokenOptions {
+  /**
+   * Unix timestamp in seconds
+   * @default now
+   */
+  now?: number;
+}
+
+export interface VerifiedAuthToken extends VerifyResult {
+  kid?: string | null;
+  payload?: AuthTokenPayload;
+}
+
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+function keyFromHex(keyHex: string): Buffer {
+  const key = Buffer.from(keyHex, 'hex');
+  if (key.length !== KEY_BYTES || keyHex.length !== KEY_BYTES * 2) {
+    throw new Error(`AES-256 key must be ${KEY_BYTES} bytes (${KEY_BYTES * 2} hex characters)`);
+  }
+  return key;
+}
+
+/**
+ * Encrypt a payload into an X-Auth-Token
+ *
+ * @param keyHex - AES-256 key as 64 hex characters
+ */
+export function encryptAuthToken(payload: AuthTokenPayload, keyHex: string, options: EncryptAuthTokenOptions = {}): string {
+  const nonce = options.nonceHex !== undefined ? Buffer.from(options.nonceHex, 'hex') : crypto.randomBytes(NONCE_BYTES);
+  if (nonce.length !== NONCE_BYTES) {
+    throw new Error(`Nonce must be ${NONCE_BYTES} bytes`);
+  }
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', keyFromHex(keyHex), nonce);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+  const token = [nonce, ciphertext, cipher.getAuthTag()].map((part) => part.toString('hex')).join(':');
+  return options.keyId ? `${options.keyId}:${token}` : token;
+}
+
+/**
+ * Split off the key ID; null for malformed tokens
+ */
+export function splitAuthToken(token: string): { kid: string | null; encrypted: string } | null {
+  const parts = token.split(':');
+  if (parts.length === 4) {
+    return { kid: parts[0], encrypted: parts.slice(1).join(':') };
+  }
+  if (parts.length === 3) {
+    return { kid: null, encrypted: token };
+  }
+  return null;
+}
+
+/**
+ * Decrypt the payload; null if the token is malformed or fails authentication
+ */
+export function decryptAuthToken(token: string, keyHex: string): AuthTokenPayload | null {
+  const split = splitAuthToken(token);
+  if (!split) {
+    return null;
+  }
+
+  const [nonce, ciphertext, tag] = split.encrypted.split(':').map((part) => Buffer.from(part, 'hex'));
+  if (nonce.length !== NONCE_BYTES || tag.length !== TAG_BYTES) {
+    return null;
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', keyFromHex(keyHex), nonce);
+    decipher.setAuthTag(tag);
+    const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    return JSON.parse(plaintext);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a token the way the AES-GCM validator does (single key; device
+ * binding and aud depend on the request and aren't checked here)
+ */
+export function verifyAuthToken(token: string, keyHex: string, options: VerifyAuthTokenOptions = {}): VerifiedAuthToken {
+  const split = splitAuthToken(token);
+  const payload = decryptAuthToken(token, keyHex);
+  if (!split || !payload) {
+    return { valid: false, error: 'Invalid or corrupted token' };
+  }
+  if (typeof payload !== 'object') {
+    return { valid: false, error: 'Invalid payload structure' };
+  }
+  if (typeof payload.ts !== 'number') {
+    return { valid: false, error: 'Missing or invalid timestamp' };
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - payload.ts) > TIMESTAMP_TOLERANCE) {
+    return { valid: false, error: 'Token expired or invalid timestamp' };
+  }
+
+  return { valid: true, kid: split.kid, payload };
+}
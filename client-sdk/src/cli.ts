@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import { encryptAuthToken } from './aes-gcm';
+import { deviceFingerprint } from './device';
+import { SigningMode, signHmacRequest } from './hmac';
+import { signJwt } from './jwt';
+
+/**
+ * Command line wrapper for the shell test scripts:
+ *
+ *   bot-validator-token sign --key <secret> [--key-id <kid>] [--mode canonical]
+ *       [--method GET] [--uri /path] [--query 'a=1'] [--header 'Host: example.com']...
+ *       [--signed-headers host,user-agent] [--body-file <file>] [--timestamp <unix>] [--nonce <n>]
+ *     prints the request headers, one "Name: value" per line
+ *
+ *   bot-validator-token encrypt --key <hex> --payload '<json>' [--key-id <kid>] [--nonce <hex>]
+ *     prints an X-Auth-Token ("ts" defaults to now)
+ *
+ *   bot-validator-token fingerprint --user-agent <ua> --client-ip <ip>
+ *     prints a device claim for fingerprint binding
+ *
+ *   bot-validator-token jwt --key-file <private JWK or PEM> [--kid <kid>] [--claims '<json>'] [--ttl <seconds>]
+ *     prints a JWT for Authorization: Bearer ("iat" defaults to now, "exp" to now + ttl, 300)
+ */
+
+const USAGE = 'Usage: bot-validator-token <sign|encrypt|fingerprint|jwt> [options], see src/cli.ts';
+
+function parseArgs(args: string[]): Map<string, string[]> {
+  const options = new Map<string, string[]>();
+  for (let i = 0; i < args.length; i += 2) {
+    const name = args[i];
+    const value = args[i + 1];
+    if (!name.startsWith('--') || value === undefined) {
+      throw new Error(`Expected --<option> <value>, got "${name}"`);
+    }
+    options.set(name.slice(2), [...(options.get(name.slice(2)) ?? []), value]);
+  }
+  return options;
+}
+
+function main(argv: string[]): string {
+  const [command, ...rest] = argv;
+  const options = parseArgs(rest);
+  const get = (name: string) => options.get(name)?.[0];
+  const required = (name: string) => {
+    const value = get(name);
+    if (value === undefined) {
+      throw new Error(`Missing --${name}`);
+    }
+    return value;
+  };
+
+  switch (command) {
+    case 'sign': {
+      const headers: Record<string, string> = {};
+      for (const header of options.get('header') ?? []) {
+        const separator = header.indexOf(':');
+        headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+      }
+      const signed = signHmacRequest({
+        key: required('key'),
+        keyId: get('key-id'),
+        mode: (get('mode') ?? 'timestamp') as SigningMode,
+        method: get('method'),
+        uri: get('uri'),
+        querystring: get('query'),
+        headers,
+        signedHeaders: get('signed-headers')?.split(','),
+        body: get('body-file') !== undefined ? fs.readFileSync(get('body-file')!) : undefined,
+        timestamp: get('timestamp') !== undefined ? Number(get('timestamp')) : undefined,
+        nonce: get('nonce'),
+      });
+      return Object.entries(signed.headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+    }
+
+    case 'encrypt': {
+      const payload = JSON.parse(required('payload'));
+      return encryptAuthToken(
+        { ts: Math.floor(Date.now() / 1000), ...payload },
+        required('key'),
+        { keyId: get('key-id'), nonceHex: get('nonce') },
+      );
+    }
+
+    case 'fingerprint':
+      return deviceFingerprint(required('user-agent'), required('client-ip'));
+
+    case 'jwt': {
+      const keyFile = fs.readFileSync(required('key-file'), 'utf-8').trim();
+      const now = Math.floor(Date.now() / 1000);
+      return signJwt(
+        { iat: now, exp: now + Number(get('ttl') ?? 300), ...JSON.parse(get('claims') ?? '{}') },
+        keyFile.startsWith('{') ? JSON.parse(keyFile) : keyFile,
+        { kid: get('kid') },
+      );
+    }
+
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+try {
+  console.log(main(process.argv.slice(2)));
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
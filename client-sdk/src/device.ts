@@ -0,0 +1,41 @@
+import * as crypto from 'crypto';
+
+/**
+ * Device fingerprints for the AES-GCM validator's fingerprint binding
+ * (-c aesGcmDeviceBinding=fingerprint)
+ */
+
+const IPV4_SUBNET_BITS = 24;
+const IPV6_SUBNET_BITS = 48;
+
+/**
+ * Network part of an IP address as the validator writes it:
+ * "198.51.100.0/24", or "2001:db8:a0b::/48" (IPv6 groups without leading zeros)
+ */
+export function clientSubnet(clientIp: string): string {
+  if (clientIp.includes(':')) {
+    const [head, tail] = clientIp.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const groups = tail === undefined
+      ? headGroups
+      : [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+    const prefix = groups.slice(0, IPV6_SUBNET_BITS / 16).map((group) => parseInt(group, 16).toString(16));
+    return `${prefix.join(':')}::/${IPV6_SUBNET_BITS}`;
+  }
+
+  const octets = clientIp.split('.').slice(0, IPV4_SUBNET_BITS / 8);
+  while (octets.length < 4) {
+    octets.push('0');
+  }
+  return `${octets.join('.')}/${IPV4_SUBNET_BITS}`;
+}
+
+/**
+ * Value for the token's device claim: SHA-256 hex of "<User-Agent>|<client subnet>"
+ *
+ * @param clientIp - the address CloudFront sees for the client
+ */
+export function deviceFingerprint(userAgent: string, clientIp: string): string {
+  return crypto.createHash('sha256').update(`${userAgent}|${clientSubnet(clientIp)}`).digest('hex');
+}
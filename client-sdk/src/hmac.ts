@@ -0,0 +1,280 @@
+import * as crypto from 'crypto';
+
+/**
+ * HMAC request signing for the /cf-function/* and /lambda-edge/* validators
+ * (cloudfront-function/bot-validator.js, lambda-edge/index.js)
+ */
+
+/**
+ * Seconds a token's timestamp may differ from the validator's clock
+ */
+export const TIMESTAMP_TOLERANCE = 300;
+
+/**
+ * Body hash placeholder when no X-Bot-Content-SHA256 header is sent
+ */
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+/**
+ * What X-Bot-Signature covers; must match the stack's signingMode
+ */
+export type SigningMode = 'timestamp' | 'canonical';
+
+export interface HmacRequest {
+  /**
+   * @default 'GET'
+   */
+  method?: string;
+
+  /**
+   * Request path, e.g. '/lambda-edge/test.html'
+   */
+  uri?: string;
+
+  /**
+   * Raw query string without '?', e.g. 'b=2&a=1'
+   */
+  querystring?: string;
+
+  /**
+   * Request headers by name (any case); only signedHeaders are signed
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Request body; its SHA-256 is sent as X-Bot-Content-SHA256 and signed
+   */
+  body?: string | Buffer;
+}
+
+export interface SignHmacRequestOptions extends HmacRequest {
+  /**
+   * Shared secret (the keyring key, used as a UTF-8 string)
+   */
+  key: string;
+
+  /**
+   * Key ID sent as X-Bot-Key-Id
+   * @default - no key ID, the validators try every active key
+   */
+  keyId?: string;
+
+  /**
+   * @default 'timestamp'
+   */
+  mode?: SigningMode;
+
+  /**
+   * Headers covered in canonical mode; must match the stack's signedHeaders
+   * @default ['host']
+   */
+  signedHeaders?: string[];
+
+  /**
+   * Unix timestamp in seconds
+   * @default now
+   */
+  timestamp?: number;
+
+  /**
+   * Appended to the token ("<ts>.<nonce>") so requests in the same second get
+   * distinct signatures (needed with the replay cache)
+   */
+  nonce?: string;
+}
+
+export interface SignedHmacRequest {
+  /**
+   * Headers to add to the request
+   */
+  headers: Record<string, string>;
+  token: string;
+  signature: string;
+
+  /**
+   * Input of the HMAC (the token, or the canonical request)
+   */
+  stringToSign: string;
+}
+
+export interface CanonicalRequestInput extends HmacRequest {
+  token: string;
+
+  /**
+   * @default ['host']
+   */
+  signedHeaders?: string[];
+
+  /**
+   * X-Bot-Content-SHA256 value
+   * @default UNSIGNED-PAYLOAD
+   */
+  bodyHash?: string;
+}
+
+/**
+ * Outcome of a verification; `error` is the message the validators return
+ */
+export interface VerifyResult {
+  valid: boolean;
+  error?: string;
+}
+
+export interface VerifyHmacRequestOptions extends HmacRequest {
+  key: string;
+
+  /**
+   * @default 'timestamp'
+   */
+  mode?: SigningMode;
+
+  /**
+   * @default ['host']
+   */
+  signedHeaders?: string[];
+
+  /**
+   * Unix timestamp in seconds
+   * @default now
+   */
+  now?: number;
+}
+
+/**
+ * RFC 3986 encoding: encodeURIComponent plus !'()*
+ */
+export function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function uriDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Canonical form of a raw query string: each name and value decoded and
+ * re-encoded per RFC 3986, `name=value` pairs sorted as strings
+ */
+export function canonicalQuery(querystring: string): string {
+  return querystring
+    .split('&')
+    .filter(Boolean)
+    .map((param) => {
+      const separator = param.indexOf('=');
+      const name = separator < 0 ? param : param.slice(0, separator);
+      const value = separator < 0 ? '' : param.slice(separator + 1);
+      return `${uriEncode(uriDecode(name))}=${uriEncode(uriDecode(value))}`;
+    })
+    .sort()
+    .join('&');
+}
+
+/**
+ * String signed in canonical mode, one field per line: token, method, URI,
+ * canonical query, signed header lines, signed header names, body hash
+ */
+export function canonicalRequest(input: CanonicalRequestInput): string {
+  const headers = lowercaseKeys(input.headers ?? {});
+  const names = (input.signedHeaders ?? ['host'])
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .sort();
+
+  return [
+    input.token,
+    input.method ?? 'GET',
+    input.uri ?? '/',
+    canonicalQuery(input.querystring ?? ''),
+    names.map((name) => `${name}:${(headers[name] ?? '').trim()}`).join('\n'),
+    names.join(';'),
+    input.bodyHash ?? UNSIGNED_PAYLOAD,
+  ].join('\n');
+}
+
+export function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+export function hmacSha256Hex(key: string, data: string): string {
+  return crypto.createHmac('sha256', key).update(data).digest('hex');
+}
+
+/**
+ * Constant-time string comparison
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Build X-Bot-Token / X-Bot-Signature (and X-Bot-Key-Id, X-Bot-Content-SHA256)
+ */
+export function signHmacRequest(options: SignHmacRequestOptions): SignedHmacRequest {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const token = options.nonce ? `${timestamp}.${options.nonce}` : String(timestamp);
+  const bodyHash = options.body !== undefined ? sha256Hex(options.body) : undefined;
+
+  const stringToSign = (options.mode ?? 'timestamp') === 'canonical'
+    ? canonicalRequest({ ...options, token, bodyHash })
+    : token;
+  const signature = hmacSha256Hex(options.key, stringToSign);
+
+  const headers: Record<string, string> = {
+    'X-Bot-Token': token,
+    'X-Bot-Signature': signature,
+  };
+  if (options.keyId) {
+    headers['X-Bot-Key-Id'] = options.keyId;
+  }
+  if (bodyHash) {
+    headers['X-Bot-Content-SHA256'] = bodyHash;
+  }
+
+  return { headers, token, signature, stringToSign };
+}
+
+/**
+ * Check a request the way the HMAC validators do (single key)
+ */
+export function verifyHmacRequest(options: VerifyHmacRequestOptions): VerifyResult {
+  const headers = lowercaseKeys(options.headers ?? {});
+  const token = headers['x-bot-token'];
+  const signature = headers['x-bot-signature'];
+  if (!token || !signature) {
+    return { valid: false, error: 'Missing required headers: X-Bot-Token and X-Bot-Signature' };
+  }
+
+  const tokenTimestamp = parseInt(token, 10);
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (isNaN(tokenTimestamp) || Math.abs(now - tokenTimestamp) > TIMESTAMP_TOLERANCE) {
+    return { valid: false, error: 'Token expired or invalid timestamp' };
+  }
+
+  const stringToSign = (options.mode ?? 'timestamp') === 'canonical'
+    ? canonicalRequest({ ...options, token, bodyHash: headers['x-bot-content-sha256'] })
+    : token;
+  if (!constantTimeEqual(signature, hmacSha256Hex(options.key, stringToSign))) {
+    return { valid: false, error: 'Invalid signature' };
+  }
+
+  if (options.body !== undefined && headers['x-bot-content-sha256']
+    && headers['x-bot-content-sha256'].toLowerCase() !== sha256Hex(options.body)) {
+    return { valid: false, error: 'Body does not match X-Bot-Content-SHA256' };
+  }
+
+  return { valid: true };
+}
+
+function lowercaseKeys(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name.toLowerCase()] = value;
+  }
+  return result;
+}
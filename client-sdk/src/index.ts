@@ -0,0 +1,4 @@
+export * from './hmac';
+export * from './aes-gcm';
+export * from './device';
+export * from './jwt';
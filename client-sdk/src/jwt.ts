@@ -0,0 +1,190 @@
+import * as crypto from 'crypto';
+import { VerifyResult } from './hmac';
+
+/**
+ * Signed JWTs for the /jwt/* validator (lambda-edge-jwt/index.js), sent as
+ * `Authorization: Bearer <token>`. Only the issuer holds the private key; the
+ * edge verifies with the public JWKS.
+ */
+
+/**
+ * Clock skew the validator allows on exp and nbf, in seconds
+ */
+export const JWT_CLOCK_SKEW = 60;
+
+export type JwtAlgorithm = 'EdDSA' | 'ES256';
+
+export interface JwtClaims {
+  /**
+   * Expiry, unix seconds (required by the validator)
+   */
+  exp: number;
+  nbf?: number;
+  iat?: number;
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  [claim: string]: unknown;
+}
+
+/**
+ * Public or private JWK (Ed25519 or P-256)
+ */
+export interface Jwk {
+  kty: string;
+  crv: string;
+  x: string;
+  y?: string;
+  d?: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+export interface SignJwtOptions {
+  /**
+   * EdDSA for Ed25519 keys, ES256 for P-256 keys
+   * @default - derived from the key
+   */
+  alg?: JwtAlgorithm;
+
+  /**
+   * Key ID in the JWT header
+   * @default - the JWK's kid, if any
+   */
+  kid?: string;
+}
+
+export interface VerifyJwtOptions {
+  /**
+   * Expected iss claim
+   * @default - not checked
+   */
+  issuer?: string;
+
+  /**
+   * Audience that must be, or be contained in, the aud claim
+   * @default - not checked
+   */
+  audience?: string;
+
+  /**
+   * Unix timestamp in seconds
+   * @default now
+   */
+  now?: number;
+}
+
+export interface VerifiedJwt extends VerifyResult {
+  /**
+   * Error code the validator returns alongside `error`, if any
+   */
+  code?: string;
+  kid?: string | null;
+  claims?: JwtClaims;
+}
+
+function base64url(data: string | Buffer): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+function algorithmFor(key: crypto.KeyObject): JwtAlgorithm {
+  if (key.asymmetricKeyType === 'ed25519') {
+    return 'EdDSA';
+  }
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+  throw new Error(`Unsupported key type ${key.asymmetricKeyType}: use an Ed25519 or P-256 key`);
+}
+
+/**
+ * Sign claims into a compact JWT
+ *
+ * @param privateKey - private JWK, PEM string or KeyObject
+ */
+export function signJwt(claims: JwtClaims, privateKey: Jwk | string | crypto.KeyObject, options: SignJwtOptions = {}): string {
+  const key = privateKey instanceof crypto.KeyObject
+    ? privateKey
+    : typeof privateKey === 'string'
+      ? crypto.createPrivateKey(privateKey)
+      : crypto.createPrivateKey({ key: privateKey as crypto.JsonWebKey, format: 'jwk' });
+  const alg = options.alg ?? algorithmFor(key);
+  const kid = options.kid ?? (typeof privateKey === 'object' && !(privateKey instanceof crypto.KeyObject) ? privateKey.kid : undefined);
+
+  const header = { alg, typ: 'JWT', ...(kid ? { kid } : {}) };
+  const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+  const signature = alg === 'ES256'
+    ? crypto.sign('sha256', Buffer.from(signingInput), { key, dsaEncoding: 'ieee-p1363' })
+    : crypto.sign(null, Buffer.from(signingInput), key);
+  return `${signingInput}.${base64url(signature)}`;
+}
+
+/**
+ * Public half of a private JWK, for the stack's jwtPublicKeys / the JWKS
+ */
+export function publicJwk(privateKey: Jwk): Jwk {
+  const { d: _d, ...publicKey } = privateKey;
+  return publicKey;
+}
+
+/**
+ * Check a token the way the JWT validator does
+ */
+export function verifyJwt(token: string, jwks: { keys: Jwk[] }, options: VerifyJwtOptions = {}): VerifiedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3 || !parts.every((part) => /^[A-Za-z0-9_-]+$/.test(part))) {
+    return { valid: false, error: 'Invalid or corrupted token' };
+  }
+
+  let header: { alg?: string; kid?: string };
+  let claims: JwtClaims;
+  try {
+    header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+    claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, error: 'Invalid or corrupted token' };
+  }
+
+  const keyType = header.alg === 'EdDSA' ? { kty: 'OKP', crv: 'Ed25519' } : header.alg === 'ES256' ? { kty: 'EC', crv: 'P-256' } : null;
+  if (!keyType) {
+    return { valid: false, error: 'Unsupported token algorithm' };
+  }
+
+  const candidates = jwks.keys.filter((k) => k.kty === keyType.kty && k.crv === keyType.crv
+    && (!k.use || k.use === 'sig') && (!k.alg || k.alg === header.alg) && (!header.kid || k.kid === header.kid));
+  if (header.kid && candidates.length === 0) {
+    return { valid: false, error: 'Unknown key ID' };
+  }
+
+  const data = Buffer.from(`${parts[0]}.${parts[1]}`);
+  const signature = Buffer.from(parts[2], 'base64url');
+  const signingKey = candidates.find((jwk) => {
+    const key = crypto.createPublicKey({ key: publicJwk(jwk) as crypto.JsonWebKey, format: 'jwk' });
+    return header.alg === 'ES256'
+      ? crypto.verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature)
+      : crypto.verify(null, data, key, signature);
+  });
+  if (!signingKey) {
+    return { valid: false, error: 'Invalid signature' };
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number') {
+    return { valid: false, error: 'Missing or invalid exp claim' };
+  }
+  if (now > claims.exp + JWT_CLOCK_SKEW) {
+    return { valid: false, error: 'Token expired', code: 'TOKEN_EXPIRED' };
+  }
+  if (claims.nbf !== undefined && (typeof claims.nbf !== 'number' || now < claims.nbf - JWT_CLOCK_SKEW)) {
+    return { valid: false, error: 'Token not yet valid', code: 'TOKEN_NOT_YET_VALID' };
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    return { valid: false, error: 'Token issuer is not accepted', code: 'ISSUER_MISMATCH' };
+  }
+  if (options.audience && !(Array.isArray(claims.aud) ? claims.aud : [claims.aud]).includes(options.audience)) {
+    return { valid: false, error: 'Token is not valid for this audience', code: 'AUDIENCE_MISMATCH' };
+  }
+
+  return { valid: true, kid: signingKey.kid ?? null, claims };
+}
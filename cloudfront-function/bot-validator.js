@@ -4,6 +4,14 @@
 import crypto from 'crypto';
 import cf from 'cloudfront';
 
+// Denials as problem details and CORS preflight answers, shared with the
+// Lambda@Edge validators (inlined by the stack)
+// @include ../edge-response/index.js
+
+// Country, ASN and IP allow and deny lists, shared with the Lambda@Edge
+// validators (inlined by the stack)
+// @include ../network-policy/index.js
+
 // KeyValueStore ID is injected during deployment via CDK
 // The KVS_ID will be replaced by the actual KeyValueStore ARN
 var kvsId = 'KVS_ID_PLACEHOLDER';
@@ -16,97 +24,260 @@ try {
     console.log('KeyValueStore initialization failed: ' + err);
 }
 
-// Timestamp tolerance in seconds (5 minutes)
-var TIMESTAMP_TOLERANCE = 300;
+// Decision logs: one JSON line per request. CloudFront Functions can't emit
+// Embedded Metric Format, so the stack's metric filters turn these lines into
+// metrics (must match cdk/lib/validator-dashboard.ts)
+var VALIDATOR = 'cf-function';
 
 async function handler(event) {
     var request = event.request;
     var headers = request.headers;
+    var decision = {
+        startTime: Date.now(),
+        path: request.uri,
+        keyId: null,
+        event: event,
+        responder: createResponder('cloudfront-function', {})
+    };
 
-    // Get secret key from KeyValueStore
-    var secretKey;
+    // Get the validator policy (written by the stack from the path's
+    // ValidatorPolicy and its signing and rate limit settings, see
+    // cdk/lib/validator-policy.ts) and the keyring.
+    // Keyring format: {"keys":[{"kid":"<kid>","key":"<secret>","notBefore":<unix>,"notAfter":<unix>}]}
+    var policy = null;
+    var keyring;
     try {
-        secretKey = await kvsHandle.get('bot-secret-key');
+        policy = await kvsHandle.get('validator-policy', { format: 'json' });
+        decision.responder = createResponder('cloudfront-function', policy);
+
+        // Requests from networks the lists turn away are denied first, on any
+        // path. The lists are written by the stack or `npm run network-policy`.
+        var lists = null;
+        try {
+            lists = await kvsHandle.get('network-policy', { format: 'json' });
+        } catch (err) {
+            // No lists
+        }
+        var denial = checkNetwork(lists, event.viewer.ip,
+            headerValue(headers, 'CloudFront-Viewer-Country'), headerValue(headers, 'CloudFront-Viewer-ASN'));
+        if (denial) {
+            return deny(decision, 403, denial.code, denial.detail);
+        }
+
+        // CORS preflights from allowed origins are answered here
+        var preflight = decision.responder.preflight(event);
+        if (preflight) {
+            logDecision(decision, 'allow', 'PREFLIGHT');
+            return preflight;
+        }
+
+        // Paths the policy exempts aren't validated
+        if (isExempt(policy, request.uri)) {
+            logDecision(decision, 'allow', 'EXEMPT');
+            return request;
+        }
+
+        keyring = await kvsHandle.get('bot-secret-keyring', { format: 'json' });
     } catch (err) {
-        console.log('Failed to retrieve secret from KeyValueStore: ' + err);
-        return {
-            statusCode: 500,
-            statusDescription: 'Internal Server Error',
-            headers: {
-                'content-type': { value: 'application/json' }
-            },
-            body: {
-                encoding: 'text',
-                data: JSON.stringify({ error: 'Configuration error' })
-            }
-        };
+        console.log('Failed to read the KeyValueStore: ' + err);
+        return deny(decision, 500, 'CONFIG_ERROR', 'Configuration error');
     }
 
     // Extract bot validation headers
-    var token = headers['x-bot-token'] ? headers['x-bot-token'].value : null;
-    var signature = headers['x-bot-signature'] ? headers['x-bot-signature'].value : null;
+    var names = policy.headers;
+    var token = headerValue(headers, names.token);
+    var signature = headerValue(headers, names.signature);
+    var keyId = headerValue(headers, names.keyId);
+    decision.keyId = keyId;
 
     // Reject if either header is missing
     if (!token || !signature) {
-        return {
-            statusCode: 403,
-            statusDescription: 'Forbidden',
-            headers: {
-                'content-type': { value: 'application/json' }
-            },
-            body: {
-                encoding: 'text',
-                data: JSON.stringify({ error: 'Missing required headers: X-Bot-Token and X-Bot-Signature' })
-            }
-        };
+        return deny(decision, 403, 'MISSING_HEADERS',
+            'Missing required headers: ' + names.token + ' and ' + names.signature);
     }
 
     // Optional: Validate timestamp to prevent replay attacks
     var tokenTimestamp = parseInt(token, 10);
     var currentTimestamp = Math.floor(Date.now() / 1000);
 
-    if (isNaN(tokenTimestamp) || Math.abs(currentTimestamp - tokenTimestamp) > TIMESTAMP_TOLERANCE) {
-        return {
-            statusCode: 403,
-            statusDescription: 'Forbidden',
-            headers: {
-                'content-type': { value: 'application/json' }
-            },
-            body: {
-                encoding: 'text',
-                data: JSON.stringify({ error: 'Token expired or invalid timestamp' })
-            }
-        };
+    if (isNaN(tokenTimestamp) || Math.abs(currentTimestamp - tokenTimestamp) > policy.timestampTolerance) {
+        return deny(decision, 403, 'TOKEN_EXPIRED', 'Token expired or invalid timestamp');
+    }
+
+    // Candidate keys: the one named by X-Bot-Key-Id, or every active key for
+    // clients that don't send a key ID yet
+    var candidates = [];
+    var keys = keyring.keys || [];
+    for (var i = 0; i < keys.length; i++) {
+        var k = keys[i];
+        if ((keyId && k.kid !== keyId) ||
+            (typeof k.notBefore === 'number' && currentTimestamp < k.notBefore) ||
+            (typeof k.notAfter === 'number' && currentTimestamp > k.notAfter)) {
+            continue;
+        }
+        candidates.push(k);
+    }
+
+    if (candidates.length === 0) {
+        return deny(decision, 403, 'UNKNOWN_KEY_ID', 'Unknown or inactive key ID');
+    }
+
+    // Compute expected signature using HMAC-SHA256 and compare in constant time.
+    // Signing modes:
+    // 'timestamp' - X-Bot-Signature = HMAC(key, X-Bot-Token)
+    // 'canonical' - X-Bot-Signature = HMAC(key, canonical request), see canonicalRequest()
+    var stringToSign = policy.signingMode === 'canonical'
+        ? canonicalRequest(request, token, names.bodyHash, policy.signedHeaders)
+        : token;
+    var signingKey = null;
+    for (var j = 0; j < candidates.length && !signingKey; j++) {
+        var expectedSignature = crypto.createHmac('sha256', candidates[j].key)
+            .update(stringToSign)
+            .digest('hex');
+        if (constantTimeCompare(signature, expectedSignature)) {
+            signingKey = candidates[j];
+        }
+    }
+
+    if (!signingKey) {
+        return deny(decision, 403, 'INVALID_SIGNATURE', 'Invalid signature');
     }
 
-    // Compute expected signature using HMAC-SHA256
-    var expectedSignature = crypto.createHmac('sha256', secretKey)
-        .update(token)
-        .digest('hex');
-
-    // Constant-time comparison to prevent timing attacks
-    if (!constantTimeCompare(signature, expectedSignature)) {
-        return {
-            statusCode: 403,
-            statusDescription: 'Forbidden',
-            headers: {
-                'content-type': { value: 'application/json' }
-            },
-            body: {
-                encoding: 'text',
-                data: JSON.stringify({ error: 'Invalid signature' })
-            }
-        };
+    decision.keyId = signingKey.kid;
+
+    // Clients over their limit are listed as 'rl:<client>' until the end of
+    // the window they went over in (unix seconds). HMAC clients share the
+    // signing key, so they are only counted by IP ('ip'; '' when off).
+    if (policy.rateLimitKey === 'ip') {
+        decision.client = 'ip:' + event.viewer.ip;
+        var retryAfter = 0;
+        try {
+            retryAfter = parseInt(await kvsHandle.get('rl:' + decision.client), 10) - currentTimestamp;
+        } catch (err) {
+            // Not listed
+        }
+        if (retryAfter > 0) {
+            return deny(decision, 429, 'RATE_LIMITED', 'Rate limit exceeded', { retryAfter: retryAfter });
+        }
     }
 
     // Validation passed - allow request to proceed
+    logDecision(decision, 'allow', 'OK');
     return request;
 }
 
+// Log the decision on a request ('allow' or 'deny', with a reason code)
+function logDecision(decision, outcome, reason) {
+    console.log(JSON.stringify({
+        validator: VALIDATOR,
+        decision: outcome,
+        reason: reason,
+        path: decision.path,
+        keyId: decision.keyId,
+        client: decision.client,
+        Latency: Date.now() - decision.startTime
+    }));
+}
+
+// Deny with problem details: the reason code, a message and any extension
+// members (e.g. retryAfter)
+function deny(decision, status, reason, detail, members) {
+    logDecision(decision, 'deny', reason);
+    return decision.responder.problem(decision.event, status, reason, detail, members);
+}
+
+// Exempt paths: exact paths, or prefixes ending in '*'
+function isExempt(policy, uri) {
+    for (var i = 0; i < policy.exemptPaths.length; i++) {
+        var path = policy.exemptPaths[i];
+        if (path.endsWith('*') ? uri.startsWith(path.slice(0, -1)) : uri === path) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// Header value by its configured name (header keys are lowercase), or null
+function headerValue(headers, name) {
+    var header = headers[name.toLowerCase()];
+    return header ? header.value : null;
+}
+
 // Export the handler for CloudFront Functions
 // eslint-disable-next-line no-unused-vars
 var handlerExport = handler;
 
+/**
+ * Canonical request (canonical signing mode), one field per line:
+ *   X-Bot-Token
+ *   method
+ *   URI
+ *   query: RFC 3986 encoded name=value pairs, sorted, joined with '&'
+ *   signed headers: one name:value line each (lowercase name, trimmed value, sorted by name)
+ *   signed header names joined with ';'
+ *   X-Bot-Content-SHA256 (hex SHA-256 of the body), or UNSIGNED-PAYLOAD
+ * The body itself isn't visible to CloudFront Functions; the origin can
+ * check it against the signed hash.
+ */
+function canonicalRequest(request, token, bodyHashHeader, signedHeaders) {
+    var headers = request.headers;
+
+    var names = [];
+    for (var i = 0; i < signedHeaders.length; i++) {
+        var name = signedHeaders[i].trim().toLowerCase();
+        if (name) {
+            names.push(name);
+        }
+    }
+    names.sort();
+
+    var headerLines = [];
+    for (var h = 0; h < names.length; h++) {
+        headerLines.push(names[h] + ':' + (headers[names[h]] ? headers[names[h]].value.trim() : ''));
+    }
+
+    var bodyHash = headerValue(headers, bodyHashHeader) || 'UNSIGNED-PAYLOAD';
+
+    return [
+        token,
+        request.method,
+        request.uri,
+        canonicalQuery(request.querystring),
+        headerLines.join('\n'),
+        names.join(';'),
+        bodyHash
+    ].join('\n');
+}
+
+function canonicalQuery(querystring) {
+    var pairs = [];
+    var params = Object.keys(querystring || {});
+    for (var i = 0; i < params.length; i++) {
+        var param = querystring[params[i]];
+        var values = param.multiValue ? param.multiValue : [param];
+        for (var v = 0; v < values.length; v++) {
+            pairs.push(uriEncode(uriDecode(params[i])) + '=' + uriEncode(uriDecode(values[v].value)));
+        }
+    }
+    pairs.sort();
+    return pairs.join('&');
+}
+
+// encodeURIComponent plus the characters RFC 3986 reserves
+function uriEncode(value) {
+    return encodeURIComponent(value).replace(/[!'()*]/g, function (c) {
+        return '%' + c.charCodeAt(0).toString(16).toUpperCase();
+    });
+}
+
+function uriDecode(value) {
+    try {
+        return decodeURIComponent(value);
+    } catch (err) {
+        return value;
+    }
+}
+
 // Constant-time string comparison to prevent timing attacks
 function constantTimeCompare(a, b) {
     if (a.length !== b.length) {
@@ -0,0 +1,166 @@
+// Responses the validators answer with themselves: RFC 9457 problem details
+// for denials and CORS preflight answers, in the CloudFront Function or the
+// Lambda@Edge event format. The Lambda@Edge functions bundle this file as
+// ./edge-response.js; the stack inlines it into the CloudFront Function, so it
+// sticks to what the JS 2.0 runtime supports.
+
+var STATUS_TEXT = {
+    204: 'No Content',
+    403: 'Forbidden',
+    429: 'Too Many Requests',
+    500: 'Internal Server Error',
+    503: 'Service Unavailable'
+};
+
+// Problem type URIs are this prefix plus the reason code
+var PROBLEM_TYPE = 'urn:edge-lab:problem:';
+
+/**
+ * Responder for one validator
+ *
+ * @param {string} format - 'cloudfront-function' or 'lambda-edge'
+ * @param {object} policy - validator config: errorResponse, cors and
+ *   wwwAuthenticate (see cdk/lib/validator-policy.ts), each may be null
+ */
+function createResponder(format, policy) {
+    var edge = format === 'lambda-edge';
+
+    function requestOf(event) {
+        return edge ? event.Records[0].cf.request : event.request;
+    }
+
+    function header(request, name) {
+        var value = request.headers[name];
+        return value ? (edge ? value[0].value : value.value) : null;
+    }
+
+    // Header pairs to the event format's header map
+    function headerMap(pairs) {
+        var headers = {};
+        for (var i = 0; i < pairs.length; i++) {
+            var name = pairs[i][0].toLowerCase();
+            headers[name] = edge ? [{ key: pairs[i][0], value: pairs[i][1] }] : { value: pairs[i][1] };
+        }
+        return headers;
+    }
+
+    function response(status, pairs, body) {
+        var result = { statusDescription: STATUS_TEXT[status], headers: headerMap(pairs) };
+        if (edge) {
+            result.status = String(status);
+            if (body !== null) {
+                result.body = body;
+            }
+        } else {
+            result.statusCode = status;
+            if (body !== null) {
+                result.body = { encoding: 'text', data: body };
+            }
+        }
+        return result;
+    }
+
+    // '*' if the CORS policy allows any origin, the request's Origin if it is
+    // listed, otherwise null
+    function allowedOrigin(request) {
+        var origin = header(request, 'origin');
+        var cors = policy.cors;
+        if (!cors || !origin) {
+            return null;
+        }
+        if (cors.allowOrigins.indexOf('*') >= 0) {
+            return '*';
+        }
+        return cors.allowOrigins.indexOf(origin) >= 0 ? origin : null;
+    }
+
+    function corsHeaders(origin) {
+        var pairs = [['Access-Control-Allow-Origin', origin]];
+        if (origin !== '*') {
+            pairs.push(['Vary', 'Origin']);
+        }
+        if (policy.cors.allowCredentials) {
+            pairs.push(['Access-Control-Allow-Credentials', 'true']);
+        }
+        return pairs;
+    }
+
+    /**
+     * Denial as application/problem+json, or as the policy's error response
+     * template ({status}, {code} and {error} filled in). Carries CORS headers
+     * for allowed origins, Retry-After when `members.retryAfter` is set and
+     * the WWW-Authenticate hint on 403s.
+     *
+     * @param {object} event - the function's event
+     * @param {number} status - HTTP status
+     * @param {string} code - stable reason code, e.g. 'TOKEN_EXPIRED'
+     * @param {string} detail - human-readable message
+     * @param {object} [members] - extension members, e.g. { retryAfter: 5 }
+     */
+    function problem(event, status, code, detail, members) {
+        var request = requestOf(event);
+        var template = policy.errorResponse;
+        var body;
+        if (template) {
+            body = template.body.replace(/\{(status|code|error)\}/g, function (match, field) {
+                return field === 'status' ? status : field === 'code' ? code : detail;
+            });
+        } else {
+            var details = {
+                type: PROBLEM_TYPE + code,
+                title: STATUS_TEXT[status],
+                status: status,
+                detail: detail,
+                instance: request.uri,
+                code: code,
+                requestId: edge ? event.Records[0].cf.config.requestId : event.context.requestId
+            };
+            for (var name in members || {}) {
+                details[name] = members[name];
+            }
+            body = JSON.stringify(details);
+        }
+
+        var pairs = [['Content-Type', template ? template.contentType : 'application/problem+json']];
+        if (members && members.retryAfter) {
+            pairs.push(['Retry-After', String(members.retryAfter)]);
+        }
+        if (status === 403 && policy.wwwAuthenticate) {
+            pairs.push(['WWW-Authenticate', policy.wwwAuthenticate]);
+        }
+        var origin = allowedOrigin(request);
+        if (origin) {
+            pairs = pairs.concat(corsHeaders(origin));
+            if (policy.cors.exposeHeaders.length) {
+                pairs.push(['Access-Control-Expose-Headers', policy.cors.exposeHeaders.join(', ')]);
+            }
+        }
+        return response(status, pairs, body);
+    }
+
+    /**
+     * Answer to a CORS preflight (OPTIONS with Access-Control-Request-Method)
+     * from an origin the CORS policy allows: 204 with the policy. Null for any
+     * other request, which is validated as usual (browsers send preflights
+     * without credentials, so those get denied).
+     */
+    function preflight(event) {
+        var request = requestOf(event);
+        var origin = allowedOrigin(request);
+        if (!origin || request.method !== 'OPTIONS' || !header(request, 'access-control-request-method')) {
+            return null;
+        }
+
+        var cors = policy.cors;
+        var pairs = corsHeaders(origin).concat([
+            ['Access-Control-Allow-Methods', cors.allowMethods.join(', ')],
+            ['Access-Control-Allow-Headers', cors.allowHeaders.join(', ')],
+            ['Access-Control-Max-Age', String(cors.maxAge)]
+        ]);
+        return response(204, pairs, null);
+    }
+
+    return { problem: problem, preflight: preflight };
+}
+
+module.exports = { createResponder: createResponder };
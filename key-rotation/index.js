@@ -0,0 +1,207 @@
+'use strict';
+
+const crypto = require('crypto');
+// KeyValueStore data-plane requests are signed with SigV4A; loading this
+// package registers the signer with the SDK
+require('@aws-sdk/signature-v4a');
+const {
+    SecretsManagerClient,
+    DescribeSecretCommand,
+    GetSecretValueCommand,
+    PutSecretValueCommand,
+    UpdateSecretVersionStageCommand,
+} = require('@aws-sdk/client-secrets-manager');
+const { CloudFrontKeyValueStoreClient } = require('@aws-sdk/client-cloudfront-keyvaluestore');
+const { putKey } = require('./kvs-write.js');
+
+// Field holding the key in a secret that hasn't been rotated into a keyring yet
+const LEGACY_FIELD = process.env.LEGACY_FIELD;
+
+// Optional KeyValueStore mirror (HMAC keyring read by the CloudFront Function)
+const KVS_ARN = process.env.KVS_ARN;
+const KVS_KEY = process.env.KVS_KEY;
+
+// How long the previous signing key stays valid after a rotation, in seconds
+const PREVIOUS_KEY_TTL = parseInt(process.env.PREVIOUS_KEY_TTL || '86400', 10);
+
+// KeyValueStore values are limited to 1 KB
+const MAX_KVS_VALUE_BYTES = 1024;
+
+const secretsClient = new SecretsManagerClient({});
+const kvsClient = new CloudFrontKeyValueStoreClient({ region: 'us-east-1' });
+
+/**
+ * Normalize a secret into a keyring
+ * A legacy single-key secret becomes a keyring with kid "default".
+ */
+function parseKeyring(secretData) {
+    if (Array.isArray(secretData.keys)) {
+        return secretData;
+    }
+    if (secretData[LEGACY_FIELD]) {
+        return { current: 'default', keys: [{ kid: 'default', key: secretData[LEGACY_FIELD] }] };
+    }
+    throw new Error(`Secret has neither a keyring nor a '${LEGACY_FIELD}' field`);
+}
+
+/**
+ * Produce the next keyring
+ *
+ * Keys move through three roles so no validator ever sees a token signed with a
+ * key it doesn't know yet:
+ * - next: accepted by validators, not used by clients yet
+ * - current: clients sign/encrypt with it (the previous next key)
+ * - previous: the old current key, accepted until notAfter
+ * Expired keys are dropped.
+ */
+function rotateKeyring(keyring, nowSeconds) {
+    const newKey = {
+        kid: `k${nowSeconds}`,
+        key: crypto.randomBytes(32).toString('hex'),
+        notBefore: nowSeconds,
+    };
+
+    // A single-key secret has no next key yet: its key stays current this time
+    const promote = Boolean(keyring.next) && keyring.keys.some((k) => k.kid === keyring.next);
+
+    const keys = keyring.keys
+        .filter((k) => typeof k.notAfter !== 'number' || k.notAfter > nowSeconds)
+        .map((k) => (promote && k.kid === keyring.current ? { ...k, notAfter: nowSeconds + PREVIOUS_KEY_TTL } : k));
+
+    return {
+        current: promote ? keyring.next : keyring.current,
+        next: newKey.kid,
+        keys: [...keys, newKey],
+    };
+}
+
+/**
+ * Compact keyring for the KeyValueStore (no current/next roles needed at the edge)
+ */
+function toKvsValue(keyring) {
+    const value = JSON.stringify({
+        keys: keyring.keys.map((k) => ({ kid: k.kid, key: k.key, notBefore: k.notBefore, notAfter: k.notAfter })),
+    });
+    if (Buffer.byteLength(value) > MAX_KVS_VALUE_BYTES) {
+        throw new Error(`Keyring is ${Buffer.byteLength(value)} bytes, KeyValueStore values are limited to ${MAX_KVS_VALUE_BYTES}`);
+    }
+    return value;
+}
+
+async function getKeyring(secretId, versionStage, versionId) {
+    const response = await secretsClient.send(new GetSecretValueCommand({
+        SecretId: secretId,
+        VersionStage: versionStage,
+        VersionId: versionId,
+    }));
+    return parseKeyring(JSON.parse(response.SecretString));
+}
+
+async function createSecret(secretId, token) {
+    // Nothing to do if the pending version already exists (retried step)
+    try {
+        await getKeyring(secretId, 'AWSPENDING', token);
+        return;
+    } catch (error) {
+        if (error.name !== 'ResourceNotFoundException') {
+            throw error;
+        }
+    }
+
+    const current = await getKeyring(secretId, 'AWSCURRENT');
+    const rotated = rotateKeyring(current, Math.floor(Date.now() / 1000));
+    await secretsClient.send(new PutSecretValueCommand({
+        SecretId: secretId,
+        ClientRequestToken: token,
+        SecretString: JSON.stringify(rotated),
+        VersionStages: ['AWSPENDING'],
+    }));
+    console.log(`createSecret: ${secretId} pending version ${token}, current key ${rotated.current}`);
+}
+
+async function setSecret(secretId, token) {
+    if (!KVS_ARN) {
+        return;
+    }
+
+    // Publish the pending keyring before it becomes current. Every key in it is
+    // either already accepted or not used by clients yet, so this is safe to do early.
+    const pending = await getKeyring(secretId, 'AWSPENDING', token);
+    await putKey(kvsClient, KVS_ARN, KVS_KEY, toKvsValue(pending));
+    console.log(`setSecret: mirrored ${secretId} keyring into ${KVS_ARN}`);
+}
+
+async function testSecret(secretId, token) {
+    const pending = await getKeyring(secretId, 'AWSPENDING', token);
+    for (const k of pending.keys) {
+        if (!/^[0-9a-f]{64}$/.test(k.key)) {
+            throw new Error(`testSecret: key ${k.kid} is not 32 bytes of hex`);
+        }
+    }
+    if (!pending.keys.some((k) => k.kid === pending.current)) {
+        throw new Error(`testSecret: current key ${pending.current} is missing from the keyring`);
+    }
+    if (KVS_ARN) {
+        toKvsValue(pending);
+    }
+}
+
+async function finishSecret(secretId, token) {
+    const metadata = await secretsClient.send(new DescribeSecretCommand({ SecretId: secretId }));
+    let currentVersion;
+    for (const [versionId, stages] of Object.entries(metadata.VersionIdsToStages)) {
+        if (stages.includes('AWSCURRENT')) {
+            if (versionId === token) {
+                return;
+            }
+            currentVersion = versionId;
+        }
+    }
+
+    await secretsClient.send(new UpdateSecretVersionStageCommand({
+        SecretId: secretId,
+        VersionStage: 'AWSCURRENT',
+        MoveToVersionId: token,
+        RemoveFromVersionId: currentVersion,
+    }));
+    console.log(`finishSecret: ${secretId} version ${token} is now AWSCURRENT`);
+}
+
+/**
+ * Secrets Manager rotation handler (createSecret → setSecret → testSecret → finishSecret)
+ */
+exports.handler = async (event) => {
+    const { SecretId: secretId, ClientRequestToken: token, Step: step } = event;
+
+    const metadata = await secretsClient.send(new DescribeSecretCommand({ SecretId: secretId }));
+    if (!metadata.RotationEnabled) {
+        throw new Error(`Secret ${secretId} is not enabled for rotation`);
+    }
+    const stages = metadata.VersionIdsToStages[token];
+    if (!stages) {
+        throw new Error(`Secret version ${token} has no stage for rotation of secret ${secretId}`);
+    }
+    if (stages.includes('AWSCURRENT')) {
+        console.log(`Secret version ${token} already set as AWSCURRENT for secret ${secretId}`);
+        return;
+    }
+    if (!stages.includes('AWSPENDING')) {
+        throw new Error(`Secret version ${token} not set as AWSPENDING for rotation of secret ${secretId}`);
+    }
+
+    switch (step) {
+        case 'createSecret':
+            return createSecret(secretId, token);
+        case 'setSecret':
+            return setSecret(secretId, token);
+        case 'testSecret':
+            return testSecret(secretId, token);
+        case 'finishSecret':
+            return finishSecret(secretId, token);
+        default:
+            throw new Error(`Unknown rotation step ${step}`);
+    }
+};
+
+exports.rotateKeyring = rotateKeyring;
+exports.toKvsValue = toKvsValue;
@@ -0,0 +1,74 @@
+'use strict';
+
+// KeyValueStore data-plane requests are signed with SigV4A; loading this
+// package registers the signer with the SDK
+require('@aws-sdk/signature-v4a');
+const { SecretsManagerClient, GetSecretValueCommand } = require('@aws-sdk/client-secrets-manager');
+const { CloudFrontKeyValueStoreClient } = require('@aws-sdk/client-cloudfront-keyvaluestore');
+const { putKey, deleteKey } = require('./kvs-write.js');
+
+const secretsClient = new SecretsManagerClient({ region: 'us-east-1' });
+const kvsClient = new CloudFrontKeyValueStoreClient({ region: 'us-east-1' });
+
+// KeyValueStore values are limited to 1 KB
+const MAX_KVS_VALUE_BYTES = 1024;
+
+/**
+ * Read a secret and return its keyring in the compact form the CloudFront
+ * Function reads: {"keys":[{"kid","key","notBefore","notAfter"}]}
+ * A legacy single-key secret ({ <legacyField>: "<key>" }) becomes kid "default".
+ */
+async function getKeyring(secretId, legacyField) {
+    const response = await secretsClient.send(new GetSecretValueCommand({ SecretId: secretId }));
+    const secretData = JSON.parse(response.SecretString);
+
+    let keys;
+    if (Array.isArray(secretData.keys)) {
+        keys = secretData.keys.map((k) => ({ kid: k.kid, key: k.key, notBefore: k.notBefore, notAfter: k.notAfter }));
+    } else if (secretData[legacyField]) {
+        keys = [{ kid: 'default', key: secretData[legacyField] }];
+    } else {
+        throw new Error(`Secret ${secretId} has neither a keyring nor a '${legacyField}' field`);
+    }
+
+    const value = JSON.stringify({ keys });
+    if (Buffer.byteLength(value) > MAX_KVS_VALUE_BYTES) {
+        throw new Error(`Keyring for ${secretId} is ${Buffer.byteLength(value)} bytes, KeyValueStore values are limited to ${MAX_KVS_VALUE_BYTES}`);
+    }
+    return value;
+}
+
+/**
+ * CloudFormation custom resource handler (custom-resources Provider onEvent).
+ * Copies the secret's keyring (or writes the given Value) into the
+ * KeyValueStore on Create and Update so CloudFront Functions never run
+ * against an empty store.
+ */
+exports.handler = async (event) => {
+    const { KvsArn, SecretId, LegacyField, Key, Value } = event.ResourceProperties;
+
+    // Deleting a value seed deletes its key, so a setting removed from the
+    // stack (e.g. a network list) stops applying. The keyring is left alone:
+    // the store goes with the stack, and the function can't verify without it.
+    if (event.RequestType === 'Delete') {
+        if (Value !== undefined) {
+            await deleteKey(kvsClient, KvsArn, Key);
+            console.log(`Deleted '${Key}' from ${KvsArn}`);
+        }
+        return { PhysicalResourceId: event.PhysicalResourceId };
+    }
+
+    if (Value !== undefined) {
+        await putKey(kvsClient, KvsArn, Key, Value);
+        console.log(`Seeded '${Key}' in ${KvsArn}`);
+        return { PhysicalResourceId: `${KvsArn}|${Key}` };
+    }
+
+    const value = await getKeyring(SecretId, LegacyField);
+    await putKey(kvsClient, KvsArn, Key, value);
+    console.log(`Seeded '${Key}' in ${KvsArn} from ${SecretId}`);
+
+    return { PhysicalResourceId: `${KvsArn}|${Key}` };
+};
+
+exports.getKeyring = getKeyring;
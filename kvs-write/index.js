@@ -0,0 +1,81 @@
+'use strict';
+
+// KeyValueStore writes shared by the seeder, the key rotation function and
+// the rate limit publisher, bundled with them as ./kvs-write.js. Every write
+// needs the store's current ETag, and the stack's seeds, key rotation, the
+// publisher and `npm run network-policy` all write the same store, so a write
+// that loses that race is retried with the new ETag.
+
+const {
+    DescribeKeyValueStoreCommand,
+    PutKeyCommand,
+    DeleteKeyCommand,
+    UpdateKeysCommand,
+} = require('@aws-sdk/client-cloudfront-keyvaluestore');
+
+// Attempts at a write when another writer changed the store first
+const MAX_UPDATE_ATTEMPTS = 3;
+
+// Puts or deletes per UpdateKeys call
+const MAX_KEYS_PER_UPDATE = 50;
+
+/**
+ * Run `write(etag)` with the store's current ETag, again with the new one
+ * when another writer changed the store first
+ */
+async function withETag(client, kvsArn, write) {
+    for (let attempt = 1; ; attempt++) {
+        const { ETag } = await client.send(new DescribeKeyValueStoreCommand({ KvsARN: kvsArn }));
+        try {
+            return await write(ETag);
+        } catch (error) {
+            if (error.name !== 'ConflictException' || attempt >= MAX_UPDATE_ATTEMPTS) {
+                throw error;
+            }
+        }
+    }
+}
+
+/**
+ * Write a key to the KeyValueStore
+ */
+async function putKey(client, kvsArn, key, value) {
+    await withETag(client, kvsArn, (etag) =>
+        client.send(new PutKeyCommand({ KvsARN: kvsArn, Key: key, Value: value, IfMatch: etag })));
+}
+
+/**
+ * Delete a key from the KeyValueStore; a key (or store) that is already gone
+ * is not an error
+ */
+async function deleteKey(client, kvsArn, key) {
+    try {
+        await withETag(client, kvsArn, (etag) =>
+            client.send(new DeleteKeyCommand({ KvsARN: kvsArn, Key: key, IfMatch: etag })));
+    } catch (error) {
+        if (error.name !== 'ResourceNotFoundException') {
+            throw error;
+        }
+    }
+}
+
+/**
+ * Apply puts ({ Key, Value }) and deletes ({ Key }) to the KeyValueStore, in
+ * batches of at most MAX_KEYS_PER_UPDATE, each written with its own ETag
+ */
+async function updateKeys(client, kvsArn, puts, deletes) {
+    const batches = [];
+    for (let i = 0; i < puts.length; i += MAX_KEYS_PER_UPDATE) {
+        batches.push({ Puts: puts.slice(i, i + MAX_KEYS_PER_UPDATE) });
+    }
+    for (let i = 0; i < deletes.length; i += MAX_KEYS_PER_UPDATE) {
+        batches.push({ Deletes: deletes.slice(i, i + MAX_KEYS_PER_UPDATE) });
+    }
+
+    for (const batch of batches) {
+        await withETag(client, kvsArn, (etag) =>
+            client.send(new UpdateKeysCommand({ KvsARN: kvsArn, IfMatch: etag, ...batch })));
+    }
+}
+
+module.exports = { putKey, deleteKey, updateKeys };
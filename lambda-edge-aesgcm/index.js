@@ -1,53 +1,220 @@
-'use strict';
+import crypto from 'crypto';
+import { DynamoDBClient, PutItemCommand } from '@aws-sdk/client-dynamodb';
+
+// Validator settings: the config module the stack generates from the path's
+// ValidatorPolicy (cdk/lib/validator-policy.ts), defaults in the committed one
+import CONFIG from './validator-config.json';
+
+// Denials as problem details and CORS preflight answers, shared with the
+// other validators
+import { createResponder } from './edge-response.js';
+const responder = createResponder('lambda-edge', CONFIG);
+
+// Country, ASN and IP allow and deny lists (CONFIG.network), shared with the
+// other validators
+import { checkNetwork } from './network-policy.js';
+
+// Secrets Manager reads with retries and a stale-while-revalidate cache,
+// shared with the other validators
+import { createSecretCache, secretUnavailable } from './secret-cache.js';
+
+// Per-client sliding-window rate limit, shared with the other validators
+import { createRateLimiter } from './rate-limit.js';
+
+// Secret name (Lambda@Edge doesn't support env vars)
+const SECRET_NAME = CONFIG.secretName;
+
+// Timestamp tolerance in seconds
+const TIMESTAMP_TOLERANCE = CONFIG.timestampTolerance;
+
+// Header names: token and deviceId
+const HEADERS = CONFIG.headers;
+
+// Replay cache: 'memory' (per container), 'dynamodb' (shared table) or 'none'
+const {
+    store: REPLAY_STORE,
+    tableName: REPLAY_TABLE_NAME,
+    tableRegions: REPLAY_TABLE_REGIONS,
+} = CONFIG.replayCache;
+
+// Upper bound for the in-memory replay cache
+const MAX_REPLAY_ENTRIES = 10000;
+
+// Rate limit key: 'ip' counts clients by address, 'token' by the token's
+// device claim where it has one
+const RATE_LIMIT_KEY = CONFIG.rateLimit.key;
+
+// Decision logs: validator name and the CloudWatch namespace of the metrics
+// embedded in them
+const VALIDATOR = 'aes-gcm';
+const METRICS_NAMESPACE = CONFIG.metricsNamespace;
+
+// Device binding: methods the token's device claim may match ('header',
+// 'fingerprint'), empty when off
+const DEVICE_BINDING = CONFIG.deviceBinding;
+
+// Client subnet used in the device fingerprint
+const IPV4_SUBNET_BITS = 24;
+const IPV6_SUBNET_BITS = 48;
+
+// The keyring, cached for CONFIG.secretCacheTtl and served stale while a
+// refresh runs for up to CONFIG.maxStale
+const secretCache = createSecretCache({
+    secretName: SECRET_NAME,
+    ttl: CONFIG.secretCacheTtl,
+    maxStale: CONFIG.maxStale,
+    // Keyring, or legacy JSON with 'aesKey' field; each key a 32-byte hex string
+    parse: (secretString) => parseKeyring(JSON.parse(secretString)),
+    label: 'keyring',
+});
+
+// Without a usable keyring: 'closed' answers 503, 'open' passes the request
+// on unvalidated, flagged with X-Validation-Skipped
+const FAIL_MODE = CONFIG.failMode;
 
-const crypto = require('crypto');
-const { SecretsManagerClient, GetSecretValueCommand } = require('@aws-sdk/client-secrets-manager');
-
-// Secret name is injected during CDK deployment (Lambda@Edge doesn't support env vars)
-// This placeholder will be replaced with the actual secret name
-const SECRET_NAME = 'SECRET_NAME_PLACEHOLDER';
-
-// Timestamp tolerance in seconds (5 minutes)
-const TIMESTAMP_TOLERANCE = 300;
+/**
+ * Normalize the secret into a keyring
+ *
+ * Keyring format (written by the rotation function):
+ * {
+ *   "current": "<kid>",                  // key clients encrypt with
+ *   "next": "<kid>",                     // accepted, becomes current on next rotation
+ *   "keys": [{ "kid": "<kid>", "key": "<hex>", "notBefore": <unix>, "notAfter": <unix> }]
+ * }
+ *
+ * A freshly deployed secret is a single { "aesKey": "<hex>" }, treated as kid "default".
+ */
+function parseKeyring(secretData) {
+    if (Array.isArray(secretData.keys)) {
+        return secretData.keys;
+    }
+    if (secretData.aesKey) {
+        return [{ kid: 'default', key: secretData.aesKey }];
+    }
+    throw new Error('Secret has neither a keyring nor an aesKey field');
+}
 
-// Cache the secret to avoid repeated Secrets Manager calls
-let cachedSecret = null;
-let cacheExpiry = 0;
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes in milliseconds
+/**
+ * Keys that are inside their notBefore/notAfter window
+ */
+function activeKeys(keyring, nowSeconds) {
+    return keyring.filter((k) =>
+        (typeof k.notBefore !== 'number' || nowSeconds >= k.notBefore) &&
+        (typeof k.notAfter !== 'number' || nowSeconds <= k.notAfter)
+    );
+}
 
-// Lambda@Edge runs in multiple regions, use us-east-1 where the secret is stored
-const secretsClient = new SecretsManagerClient({ region: 'us-east-1' });
+/**
+ * Replay cache held in the container's memory.
+ * A replay that reaches another container (or region) isn't detected.
+ *
+ * Stores implement checkAndSet(id, expiresAt): record the id until expiresAt
+ * (unix seconds) and resolve true, or resolve false if it is already recorded.
+ */
+function createMemoryReplayStore() {
+    const entries = new Map();
+
+    return {
+        async checkAndSet(id, expiresAt) {
+            const nowSeconds = Math.floor(Date.now() / 1000);
+            const existing = entries.get(id);
+            if (existing !== undefined && existing >= nowSeconds) {
+                return false;
+            }
+
+            if (entries.size >= MAX_REPLAY_ENTRIES) {
+                for (const [key, expiry] of entries) {
+                    if (expiry < nowSeconds) {
+                        entries.delete(key);
+                    }
+                }
+                // Still full: drop the oldest entries (Map keeps insertion order)
+                for (const key of entries.keys()) {
+                    if (entries.size < MAX_REPLAY_ENTRIES) {
+                        break;
+                    }
+                    entries.delete(key);
+                }
+            }
+
+            entries.set(id, expiresAt);
+            return true;
+        }
+    };
+}
 
 /**
- * Retrieve the AES-256-GCM key from Secrets Manager
- * The key must be exactly 32 bytes (256 bits) for AES-256
+ * Replay cache in a DynamoDB table (partition key 'pk', TTL attribute 'expiresAt').
+ * A conditional put records the id only if it isn't there yet. DynamoDB TTL
+ * deletes expired items lazily, so expired items count as absent.
  */
-async function getSecret() {
-    const now = Date.now();
+function createDynamoDbReplayStore(client, tableName) {
+    return {
+        async checkAndSet(id, expiresAt) {
+            const nowSeconds = Math.floor(Date.now() / 1000);
+            try {
+                await client.send(new PutItemCommand({
+                    TableName: tableName,
+                    Item: {
+                        pk: { S: id },
+                        expiresAt: { N: String(expiresAt) }
+                    },
+                    ConditionExpression: 'attribute_not_exists(pk) OR expiresAt < :now',
+                    ExpressionAttributeValues: {
+                        ':now': { N: String(nowSeconds) }
+                    }
+                }));
+                return true;
+            } catch (error) {
+                if (error.name === 'ConditionalCheckFailedException') {
+                    return false;
+                }
+                throw error;
+            }
+        }
+    };
+}
 
-    // Return cached secret if still valid
-    if (cachedSecret && now < cacheExpiry) {
-        return cachedSecret;
+/**
+ * Replay store selected at deployment, or null when replay protection is off.
+ * The DynamoDB client talks to the replica in the function's region if there
+ * is one, otherwise to the first listed region.
+ */
+function createReplayStore() {
+    if (REPLAY_STORE === 'memory') {
+        return createMemoryReplayStore();
     }
+    if (REPLAY_STORE === 'dynamodb') {
+        const region = REPLAY_TABLE_REGIONS.includes(process.env.AWS_REGION) ? process.env.AWS_REGION : REPLAY_TABLE_REGIONS[0];
+        return createDynamoDbReplayStore(new DynamoDBClient({ region }), REPLAY_TABLE_NAME);
+    }
+    return null;
+}
 
-    try {
-        const command = new GetSecretValueCommand({
-            SecretId: SECRET_NAME,
-        });
-
-        const response = await secretsClient.send(command);
+const replayStore = createReplayStore();
 
-        // Parse the secret value (stored as JSON with 'aesKey' field)
-        // The key should be a 32-byte hex string (64 characters)
-        const secretData = JSON.parse(response.SecretString);
-        cachedSecret = secretData.aesKey;
-        cacheExpiry = now + CACHE_TTL;
+// Per-client rate limit (CONFIG.rateLimit), null when off
+const rateLimiter = createRateLimiter(CONFIG.rateLimit, VALIDATOR);
 
-        return cachedSecret;
-    } catch (error) {
-        console.error('Failed to retrieve secret from Secrets Manager:', error);
-        throw error;
+/**
+ * Split a token into its key ID and encrypted parts
+ *
+ * Token format: [<kid>:]<nonce_hex>:<ciphertext_hex>:<auth_tag_hex>
+ * The key ID prefix is optional for clients that predate key rotation.
+ *
+ * @param {string} token - The encrypted token
+ * @returns {object|null} - { kid, encrypted } or null if malformed
+ */
+function splitToken(token) {
+    const parts = token.split(':');
+    if (parts.length === 4) {
+        return { kid: parts[0], encrypted: parts.slice(1).join(':') };
     }
+    if (parts.length === 3) {
+        return { kid: null, encrypted: token };
+    }
+    console.error('Invalid token format: expected [kid:]nonce:ciphertext:tag');
+    return null;
 }
 
 /**
@@ -55,7 +222,7 @@ async function getSecret() {
  *
  * Token format: <nonce_hex>:<ciphertext_hex>:<auth_tag_hex>
  *
- * @param {string} token - The encrypted token
+ * @param {string} token - The encrypted token (without key ID)
  * @param {string} keyHex - The AES-256 key as hex string (64 chars)
  * @returns {object|null} - Decrypted payload or null if invalid
  */
@@ -107,99 +274,327 @@ function decryptToken(token, keyHex) {
     }
 }
 
+/**
+ * Network part of the client IP (/24 for IPv4, /48 for IPv6), so the
+ * fingerprint survives address changes within the client's network
+ */
+function clientSubnet(clientIp) {
+    if (clientIp.includes(':')) {
+        // Expand "::" to the missing zero groups
+        const [head, tail] = clientIp.split('::');
+        const headGroups = head ? head.split(':') : [];
+        const tailGroups = tail !== undefined && tail !== '' ? tail.split(':') : [];
+        const groups = tail === undefined
+            ? headGroups
+            : headGroups.concat(new Array(8 - headGroups.length - tailGroups.length).fill('0'), tailGroups);
+        const prefixGroups = IPV6_SUBNET_BITS / 16;
+        return groups.slice(0, prefixGroups).map((g) => parseInt(g, 16).toString(16)).join(':') + `::/${IPV6_SUBNET_BITS}`;
+    }
+    const prefixOctets = IPV4_SUBNET_BITS / 8;
+    const octets = clientIp.split('.').slice(0, prefixOctets);
+    while (octets.length < 4) {
+        octets.push('0');
+    }
+    return `${octets.join('.')}/${IPV4_SUBNET_BITS}`;
+}
+
+/**
+ * Device fingerprint: SHA-256 hex of "<User-Agent>|<client subnet>"
+ */
+function deviceFingerprint(request) {
+    const userAgent = request.headers['user-agent'] ? request.headers['user-agent'][0].value : '';
+    return crypto
+        .createHash('sha256')
+        .update(`${userAgent}|${clientSubnet(request.clientIp)}`)
+        .digest('hex');
+}
+
+/**
+ * Check the token's device claim against the request, using the binding
+ * methods configured at deployment. Any configured method may match.
+ */
+function validateDeviceBinding(payload, request) {
+    const methods = DEVICE_BINDING.filter((m) => m === 'header' || m === 'fingerprint');
+    if (methods.length === 0) {
+        return { valid: true };
+    }
+
+    if (typeof payload.device !== 'string' || !payload.device) {
+        return { valid: false, error: 'Token is not bound to a device', code: 'DEVICE_MISSING' };
+    }
+
+    const matches = methods.some((method) => {
+        if (method === 'header') {
+            const deviceId = headerValue(request, HEADERS.deviceId);
+            return deviceId === payload.device;
+        }
+        return deviceFingerprint(request) === payload.device;
+    });
+
+    if (!matches) {
+        return { valid: false, error: 'Token is bound to another device', code: 'DEVICE_MISMATCH' };
+    }
+    return { valid: true };
+}
+
+/**
+ * Check the optional aud claim: a path prefix (or list of them) the token is
+ * valid for. "/aes-gcm/api" covers "/aes-gcm/api" and "/aes-gcm/api/...".
+ */
+function validateAudience(payload, uri) {
+    if (payload.aud === undefined) {
+        return { valid: true };
+    }
+
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    const matches = audiences.some((prefix) => typeof prefix === 'string' && prefix.startsWith('/') && (
+        uri === prefix ||
+        uri.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`)
+    ));
+
+    if (!matches) {
+        return { valid: false, error: 'Token is not valid for this path', code: 'AUDIENCE_MISMATCH' };
+    }
+    return { valid: true };
+}
+
 /**
  * Validate the decrypted payload
  *
  * Expected payload format:
  * {
  *   "ts": <unix_timestamp>,      // Required: timestamp for replay protection
- *   "device": "<device_id>",     // Optional: device binding
+ *   "jti": "<token_id>",         // Optional: replay cache key (defaults to the nonce)
+ *   "device": "<device_id>",     // Optional: device binding (required when binding is on)
+ *   "aud": "<path_prefix>",      // Optional: path prefix (or list) the token is valid for
  *   "data": "<custom_data>"      // Optional: any additional data
  * }
+ * plus any claims the policy requires.
+ *
+ * @returns {object} - { valid: true }, or { valid: false, error, code } with the reason code of the denial
  */
-function validatePayload(payload) {
+function validatePayload(payload, request) {
     if (!payload || typeof payload !== 'object') {
-        return { valid: false, error: 'Invalid payload structure' };
+        return { valid: false, error: 'Invalid payload structure', code: 'INVALID_PAYLOAD' };
     }
 
     // Validate timestamp exists and is a number
     if (typeof payload.ts !== 'number') {
-        return { valid: false, error: 'Missing or invalid timestamp' };
+        return { valid: false, error: 'Missing or invalid timestamp', code: 'INVALID_PAYLOAD' };
     }
 
     // Check timestamp is within tolerance window
     const currentTimestamp = Math.floor(Date.now() / 1000);
     if (Math.abs(currentTimestamp - payload.ts) > TIMESTAMP_TOLERANCE) {
-        return { valid: false, error: 'Token expired or invalid timestamp' };
+        return { valid: false, error: 'Token expired or invalid timestamp', code: 'TOKEN_EXPIRED' };
     }
 
-    // Optional: Validate device binding if device header is present
-    // This would be extended in a real implementation
+    // Claims the policy requires
+    const missingClaim = CONFIG.requiredClaims.find((claim) => !Object.prototype.hasOwnProperty.call(payload, claim));
+    if (missingClaim) {
+        return { valid: false, error: `Missing required claim: ${missingClaim}`, code: 'MISSING_CLAIM' };
+    }
 
-    return { valid: true };
+    const deviceBinding = validateDeviceBinding(payload, request);
+    if (!deviceBinding.valid) {
+        return deviceBinding;
+    }
+
+    return validateAudience(payload, request.uri);
+}
+
+/**
+ * Log the decision on a request as one JSON line in CloudWatch Embedded Metric
+ * Format, so it becomes the Decisions and Latency metrics (by validator,
+ * decision and reason, and by validator and decision for the canary alarms)
+ * in the region that served the request
+ *
+ * @param {object} decision - { startTime, path, keyId, secretCache, event } of the request
+ * @param {string} outcome - 'allow' or 'deny'
+ * @param {string} reason - 'OK', or the reason code of the denial
+ */
+function logDecision(decision, outcome, reason) {
+    const now = Date.now();
+    console.log(JSON.stringify({
+        _aws: {
+            Timestamp: now,
+            CloudWatchMetrics: [{
+                Namespace: METRICS_NAMESPACE,
+                Dimensions: [['validator', 'decision', 'reason'], ['validator', 'decision']],
+                Metrics: [
+                    { Name: 'Decisions', Unit: 'Count' },
+                    { Name: 'Latency', Unit: 'Milliseconds' }
+                ]
+            }]
+        },
+        validator: VALIDATOR,
+        decision: outcome,
+        reason,
+        path: decision.path,
+        keyId: decision.keyId,
+        secretCache: decision.secretCache,
+        Decisions: 1,
+        Latency: now - decision.startTime
+    }));
+}
+
+function allow(decision, request) {
+    logDecision(decision, 'allow', 'OK');
+    return request;
+}
+
+/**
+ * Deny with problem details: the reason code, a message and any extension
+ * members (e.g. retryAfter)
+ */
+function deny(decision, status, reason, detail, members) {
+    logDecision(decision, 'deny', reason);
+    return responder.problem(decision.event, status, reason, detail, members);
+}
+
+/**
+ * Whether the policy lets the path through unvalidated (exact paths, or
+ * prefixes ending in '*')
+ */
+function isExempt(uri) {
+    return CONFIG.exemptPaths.some((exempt) => (exempt.endsWith('*') ? uri.startsWith(exempt.slice(0, -1)) : uri === exempt));
+}
+
+/**
+ * Value of a request header by its configured name (Lambda@Edge lowercases
+ * header keys), or null
+ */
+function headerValue(request, name) {
+    const values = request.headers[name.toLowerCase()];
+    return values ? values[0].value : null;
 }
 
-exports.handler = async (event) => {
+export const handler = async (event) => {
     const request = event.Records[0].cf.request;
-    const headers = request.headers;
+    const decision = {
+        startTime: Date.now(),
+        path: request.uri,
+        keyId: null,
+        secretCache: secretCache.state(),
+        event
+    };
+
+    // Requests from networks the policy turns away are denied first, on any path
+    const denial = checkNetwork(CONFIG.network, request.clientIp,
+        headerValue(request, 'CloudFront-Viewer-Country'), headerValue(request, 'CloudFront-Viewer-ASN'));
+    if (denial) {
+        return deny(decision, 403, denial.code, denial.detail);
+    }
 
-    // Get AES key from Secrets Manager
-    let aesKey;
+    // CORS preflights from allowed origins are answered here
+    const preflight = responder.preflight(event);
+    if (preflight) {
+        logDecision(decision, 'allow', 'PREFLIGHT');
+        return preflight;
+    }
+
+    // Paths the policy exempts aren't validated
+    if (isExempt(request.uri)) {
+        logDecision(decision, 'allow', 'EXEMPT');
+        return request;
+    }
+
+    // Get AES keyring from Secrets Manager
+    let keyring;
     try {
-        aesKey = await getSecret();
+        keyring = await secretCache.get();
     } catch (error) {
         console.error('Configuration error:', error);
-        return {
-            status: '500',
-            statusDescription: 'Internal Server Error',
-            headers: {
-                'content-type': [{ key: 'Content-Type', value: 'application/json' }]
-            },
-            body: JSON.stringify({ error: 'Configuration error' })
-        };
+        return secretUnavailable(FAIL_MODE, request, {
+            allow: (reason) => logDecision(decision, 'allow', reason),
+            deny: (...problem) => deny(decision, ...problem),
+        });
     }
 
-    // Extract the encrypted auth token header (headers are lowercase in Lambda@Edge)
-    const authToken = headers['x-auth-token'] ? headers['x-auth-token'][0].value : null;
+    // Extract the encrypted auth token header
+    const authToken = headerValue(request, HEADERS.token);
 
     // Reject if header is missing
     if (!authToken) {
-        return {
-            status: '403',
-            statusDescription: 'Forbidden',
-            headers: {
-                'content-type': [{ key: 'Content-Type', value: 'application/json' }]
-            },
-            body: JSON.stringify({ error: 'Missing required header: X-Auth-Token' })
-        };
+        return deny(decision, 403, 'MISSING_HEADERS', `Missing required header: ${HEADERS.token}`);
     }
 
-    // Decrypt and validate the token
-    const payload = decryptToken(authToken, aesKey);
+    // Candidate keys: the one named by the token's key ID, or every active key
+    // for tokens without one
+    const parsedToken = splitToken(authToken);
+    decision.keyId = parsedToken ? parsedToken.kid : null;
+    const candidates = parsedToken
+        ? activeKeys(keyring, Math.floor(Date.now() / 1000))
+            .filter((k) => !parsedToken.kid || k.kid === parsedToken.kid)
+        : [];
+
+    if (parsedToken && parsedToken.kid && candidates.length === 0) {
+        return deny(decision, 403, 'UNKNOWN_KEY_ID', 'Unknown or inactive key ID');
+    }
+
+    // Decrypt and validate the token (GCM authentication rejects the wrong key)
+    let payload = null;
+    for (const k of candidates) {
+        payload = decryptToken(parsedToken.encrypted, k.key);
+        if (payload) {
+            decision.keyId = k.kid;
+            break;
+        }
+    }
 
     if (!payload) {
-        return {
-            status: '403',
-            statusDescription: 'Forbidden',
-            headers: {
-                'content-type': [{ key: 'Content-Type', value: 'application/json' }]
-            },
-            body: JSON.stringify({ error: 'Invalid or corrupted token' })
-        };
+        return deny(decision, 403, 'INVALID_TOKEN', 'Invalid or corrupted token');
     }
 
     // Validate the payload contents
-    const validation = validatePayload(payload);
+    const validation = validatePayload(payload, request);
 
     if (!validation.valid) {
-        return {
-            status: '403',
-            statusDescription: 'Forbidden',
-            headers: {
-                'content-type': [{ key: 'Content-Type', value: 'application/json' }]
-            },
-            body: JSON.stringify({ error: validation.error })
-        };
+        return deny(decision, 403, validation.code, validation.error);
+    }
+
+    // Reject tokens that were already accepted. Entries only need to outlive
+    // the timestamp window; after that the timestamp check rejects the token.
+    // Without a jti the ID is the decoded nonce: decoding ignores hex case and
+    // drops trailing non-hex characters, so the raw text would give a replayed
+    // token with an altered nonce a new ID.
+    if (replayStore) {
+        const replayId = typeof payload.jti === 'string' && payload.jti
+            ? `aesgcm:jti:${payload.jti}`
+            : `aesgcm:nonce:${Buffer.from(parsedToken.encrypted.split(':')[0], 'hex').toString('hex')}`;
+
+        let firstUse;
+        try {
+            firstUse = await replayStore.checkAndSet(replayId, payload.ts + TIMESTAMP_TOLERANCE);
+        } catch (error) {
+            console.error('Replay cache error:', error);
+            return deny(decision, 503, 'REPLAY_CACHE_UNAVAILABLE', 'Replay cache unavailable');
+        }
+
+        if (!firstUse) {
+            return deny(decision, 403, 'TOKEN_REPLAYED', 'Token has already been used');
+        }
+    }
+
+    // Per-client rate limit, counted only for requests that passed the checks
+    // above. A 'token' client is the device claim; a token without one is
+    // counted by client IP, as every client of its key would share a count.
+    if (rateLimiter) {
+        let client = `ip:${request.clientIp}`;
+        if (RATE_LIMIT_KEY === 'token' && payload.device) {
+            client = `device:${payload.device}`;
+        }
+        let retryAfter = null;
+        try {
+            retryAfter = await rateLimiter.check(client);
+        } catch (error) {
+            // Fail open: losing the counters shouldn't take the path down
+            console.error('Rate limit store error:', error);
+        }
+
+        if (retryAfter !== null) {
+            return deny(decision, 429, 'RATE_LIMITED', 'Rate limit exceeded', { retryAfter });
+        }
     }
 
     // Validation passed - allow request to proceed to origin
@@ -207,7 +602,7 @@ exports.handler = async (event) => {
     request.headers['x-validated-device'] = [{ key: 'X-Validated-Device', value: payload.device || 'unknown' }];
     request.headers['x-validated-timestamp'] = [{ key: 'X-Validated-Timestamp', value: String(payload.ts) }];
 
-    return request;
+    return allow(decision, request);
 };
 
 /// abc
\ No newline at end of file
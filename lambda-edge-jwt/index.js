@@ -0,0 +1,400 @@
+import crypto from 'crypto';
+
+// Validator settings: the config module the stack generates from the path's
+// ValidatorPolicy (cdk/lib/validator-policy.ts), defaults in the committed one
+import CONFIG from './validator-config.json';
+
+// Denials as problem details and CORS preflight answers, shared with the
+// other validators
+import { createResponder } from './edge-response.js';
+const responder = createResponder('lambda-edge', CONFIG);
+
+// Country, ASN and IP allow and deny lists (CONFIG.network), shared with the
+// other validators
+import { checkNetwork } from './network-policy.js';
+
+// Secrets Manager reads with retries and a stale-while-revalidate cache,
+// shared with the other validators
+import { createSecretCache, secretUnavailable } from './secret-cache.js';
+
+// Per-client sliding-window rate limit, shared with the other validators
+import { createRateLimiter } from './rate-limit.js';
+
+// Secret name (Lambda@Edge doesn't support env vars)
+const SECRET_NAME = CONFIG.secretName;
+
+// Expected iss and aud claims; empty when not checked
+const JWT_ISSUER = CONFIG.issuer;
+const JWT_AUDIENCE = CONFIG.audience;
+
+// Clock skew allowed when checking exp and nbf, in seconds
+const CLOCK_SKEW = CONFIG.timestampTolerance;
+
+// Header names: token (a bearer token)
+const HEADERS = CONFIG.headers;
+
+// Signature algorithms and the JWK types that can verify them
+const ALGORITHMS = {
+    EdDSA: { kty: 'OKP', crv: 'Ed25519' },
+    ES256: { kty: 'EC', crv: 'P-256' }
+};
+
+// The JWKS, cached for CONFIG.secretCacheTtl and served stale while a
+// refresh runs for up to CONFIG.maxStale
+const secretCache = createSecretCache({
+    secretName: SECRET_NAME,
+    ttl: CONFIG.secretCacheTtl,
+    maxStale: CONFIG.maxStale,
+    parse: (secretString) => parseJwks(JSON.parse(secretString)),
+    label: 'JWKS',
+});
+
+// Without a usable JWKS: 'closed' answers 503, 'open' passes the request on
+// unvalidated, flagged with X-Validation-Skipped
+const FAIL_MODE = CONFIG.failMode;
+
+// Decision logs: validator name and the CloudWatch namespace of the metrics
+// embedded in them
+const VALIDATOR = 'jwt';
+const METRICS_NAMESPACE = CONFIG.metricsNamespace;
+
+// A token with an unknown key ID refetches the JWKS (for newly published keys),
+// at most this often
+const MIN_REFRESH_INTERVAL = 30 * 1000;
+
+// Rate limit key: 'ip' counts clients by address, 'token' by the token's
+// sub claim where it has one
+const RATE_LIMIT_KEY = CONFIG.rateLimit.key;
+
+// Per-client rate limit (CONFIG.rateLimit), null when off
+const rateLimiter = createRateLimiter(CONFIG.rateLimit, VALIDATOR);
+
+/**
+ * Import the public keys of a JWKS
+ *
+ * JWKS format (public keys only, provisioned by the stack):
+ * {
+ *   "keys": [
+ *     { "kid": "<kid>", "kty": "OKP", "crv": "Ed25519", "x": "<base64url>" },
+ *     { "kid": "<kid>", "kty": "EC", "crv": "P-256", "x": "<base64url>", "y": "<base64url>" }
+ *   ]
+ * }
+ *
+ * Keys that can't be imported are skipped, so one bad entry doesn't take
+ * down the others.
+ */
+function parseJwks(jwks) {
+    if (!Array.isArray(jwks.keys)) {
+        throw new Error('Secret is not a JWKS (no keys array)');
+    }
+
+    const keys = [];
+    for (const jwk of jwks.keys) {
+        if (jwk.use && jwk.use !== 'sig') {
+            continue;
+        }
+        try {
+            const { kty, crv, x, y } = jwk;
+            keys.push({
+                kid: jwk.kid || null,
+                alg: jwk.alg || null,
+                kty,
+                crv,
+                key: crypto.createPublicKey({ key: { kty, crv, x, y }, format: 'jwk' })
+            });
+        } catch (error) {
+            console.error(`Skipping JWK ${jwk.kid || '(no kid)'}:`, error.message);
+        }
+    }
+    return keys;
+}
+
+/**
+ * Split a compact JWS and decode its header and payload
+ *
+ * @param {string} token - <header>.<payload>.<signature>, base64url encoded
+ * @returns {object|null} - { header, payload, signingInput, signature } or null if malformed
+ */
+function decodeToken(token) {
+    const parts = token.split('.');
+    if (parts.length !== 3 || !parts.every((part) => /^[A-Za-z0-9_-]+$/.test(part))) {
+        console.error('Invalid token format: expected header.payload.signature');
+        return null;
+    }
+
+    try {
+        const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+        const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+        if (!header || typeof header !== 'object' || !payload || typeof payload !== 'object') {
+            return null;
+        }
+        return {
+            header,
+            payload,
+            signingInput: `${parts[0]}.${parts[1]}`,
+            signature: Buffer.from(parts[2], 'base64url')
+        };
+    } catch (error) {
+        console.error('Token decoding failed:', error.message);
+        return null;
+    }
+}
+
+/**
+ * Keys that can verify the token: the one named by its kid, or every key of
+ * the algorithm's type for tokens without one
+ */
+function candidateKeys(keys, header) {
+    const { kty, crv } = ALGORITHMS[header.alg];
+    return keys.filter((k) =>
+        k.kty === kty && k.crv === crv &&
+        (!k.alg || k.alg === header.alg) &&
+        (!header.kid || k.kid === header.kid)
+    );
+}
+
+/**
+ * Verify the JWS signature with one public key
+ * (ES256 signatures are the raw 64-byte r || s, not DER)
+ */
+function verifySignature(decoded, publicKey) {
+    const data = Buffer.from(decoded.signingInput);
+    try {
+        if (decoded.header.alg === 'ES256') {
+            return crypto.verify('sha256', data, { key: publicKey, dsaEncoding: 'ieee-p1363' }, decoded.signature);
+        }
+        return crypto.verify(null, data, publicKey, decoded.signature);
+    } catch (error) {
+        console.error('Signature verification failed:', error.message);
+        return false;
+    }
+}
+
+/**
+ * Validate the registered claims
+ *
+ * - exp: required, the token is rejected after it (plus clock skew)
+ * - nbf: optional, the token is rejected before it (minus clock skew)
+ * - iss: must equal the configured issuer, if one is configured
+ * - aud: must be, or contain, the configured audience, if one is configured
+ * - claims the policy requires must be present
+ *
+ * @returns {object} - { valid: true }, or { valid: false, error, code } with the reason code of the denial
+ */
+function validateClaims(payload) {
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+
+    if (typeof payload.exp !== 'number') {
+        return { valid: false, error: 'Missing or invalid exp claim', code: 'INVALID_CLAIMS' };
+    }
+    if (currentTimestamp > payload.exp + CLOCK_SKEW) {
+        return { valid: false, error: 'Token expired', code: 'TOKEN_EXPIRED' };
+    }
+
+    if (payload.nbf !== undefined && (typeof payload.nbf !== 'number' || currentTimestamp < payload.nbf - CLOCK_SKEW)) {
+        return { valid: false, error: 'Token not yet valid', code: 'TOKEN_NOT_YET_VALID' };
+    }
+
+    if (JWT_ISSUER && payload.iss !== JWT_ISSUER) {
+        return { valid: false, error: 'Token issuer is not accepted', code: 'ISSUER_MISMATCH' };
+    }
+
+    if (JWT_AUDIENCE) {
+        const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+        if (!audiences.includes(JWT_AUDIENCE)) {
+            return { valid: false, error: 'Token is not valid for this audience', code: 'AUDIENCE_MISMATCH' };
+        }
+    }
+
+    const missingClaim = CONFIG.requiredClaims.find((claim) => !Object.prototype.hasOwnProperty.call(payload, claim));
+    if (missingClaim) {
+        return { valid: false, error: `Missing required claim: ${missingClaim}`, code: 'MISSING_CLAIM' };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Log the decision on a request as one JSON line in CloudWatch Embedded Metric
+ * Format, so it becomes the Decisions and Latency metrics (by validator,
+ * decision and reason, and by validator and decision for the canary alarms)
+ * in the region that served the request
+ *
+ * @param {object} decision - { startTime, path, keyId, secretCache, event } of the request
+ * @param {string} outcome - 'allow' or 'deny'
+ * @param {string} reason - 'OK', or the reason code of the denial
+ */
+function logDecision(decision, outcome, reason) {
+    const now = Date.now();
+    console.log(JSON.stringify({
+        _aws: {
+            Timestamp: now,
+            CloudWatchMetrics: [{
+                Namespace: METRICS_NAMESPACE,
+                Dimensions: [['validator', 'decision', 'reason'], ['validator', 'decision']],
+                Metrics: [
+                    { Name: 'Decisions', Unit: 'Count' },
+                    { Name: 'Latency', Unit: 'Milliseconds' }
+                ]
+            }]
+        },
+        validator: VALIDATOR,
+        decision: outcome,
+        reason,
+        path: decision.path,
+        keyId: decision.keyId,
+        secretCache: decision.secretCache,
+        Decisions: 1,
+        Latency: now - decision.startTime
+    }));
+}
+
+function allow(decision, request) {
+    logDecision(decision, 'allow', 'OK');
+    return request;
+}
+
+/**
+ * Deny with problem details: the reason code, a message and any extension
+ * members (e.g. retryAfter)
+ */
+function deny(decision, status, reason, detail, members) {
+    logDecision(decision, 'deny', reason);
+    return responder.problem(decision.event, status, reason, detail, members);
+}
+
+/**
+ * Whether the policy lets the path through unvalidated (exact paths, or
+ * prefixes ending in '*')
+ */
+function isExempt(uri) {
+    return CONFIG.exemptPaths.some((exempt) => (exempt.endsWith('*') ? uri.startsWith(exempt.slice(0, -1)) : uri === exempt));
+}
+
+/**
+ * Value of a request header by its configured name (Lambda@Edge lowercases
+ * header keys), or null
+ */
+function headerValue(request, name) {
+    const values = request.headers[name.toLowerCase()];
+    return values ? values[0].value : null;
+}
+
+export const handler = async (event) => {
+    const request = event.Records[0].cf.request;
+    const decision = {
+        startTime: Date.now(),
+        path: request.uri,
+        keyId: null,
+        secretCache: secretCache.state(),
+        event
+    };
+
+    // Requests from networks the policy turns away are denied first, on any path
+    const denial = checkNetwork(CONFIG.network, request.clientIp,
+        headerValue(request, 'CloudFront-Viewer-Country'), headerValue(request, 'CloudFront-Viewer-ASN'));
+    if (denial) {
+        return deny(decision, 403, denial.code, denial.detail);
+    }
+
+    // CORS preflights from allowed origins are answered here
+    const preflight = responder.preflight(event);
+    if (preflight) {
+        logDecision(decision, 'allow', 'PREFLIGHT');
+        return preflight;
+    }
+
+    // Paths the policy exempts aren't validated
+    if (isExempt(request.uri)) {
+        logDecision(decision, 'allow', 'EXEMPT');
+        return request;
+    }
+
+    // Get the public keys from Secrets Manager
+    let keys;
+    try {
+        keys = await secretCache.get();
+    } catch (error) {
+        console.error('Configuration error:', error);
+        return secretUnavailable(FAIL_MODE, request, {
+            allow: (reason) => logDecision(decision, 'allow', reason),
+            deny: (...problem) => deny(decision, ...problem),
+        });
+    }
+
+    // Extract the bearer token
+    const authorization = headerValue(request, HEADERS.token) || '';
+    const match = /^Bearer\s+(\S+)$/i.exec(authorization);
+
+    // Reject if header is missing
+    if (!match) {
+        return deny(decision, 403, 'MISSING_HEADERS', `Missing required header: ${HEADERS.token}: Bearer <token>`);
+    }
+
+    const decoded = decodeToken(match[1]);
+    if (!decoded) {
+        return deny(decision, 403, 'INVALID_TOKEN', 'Invalid or corrupted token');
+    }
+
+    // Only the asymmetric algorithms; "none" and HS256 (which would turn a
+    // public key into a shared secret) are rejected here
+    if (!Object.prototype.hasOwnProperty.call(ALGORITHMS, decoded.header.alg)) {
+        return deny(decision, 403, 'UNSUPPORTED_ALGORITHM', 'Unsupported token algorithm');
+    }
+
+    decision.keyId = decoded.header.kid || null;
+    let candidates = candidateKeys(keys, decoded.header);
+    if (decoded.header.kid && candidates.length === 0 && Date.now() - secretCache.lastFetch() >= MIN_REFRESH_INTERVAL) {
+        try {
+            candidates = candidateKeys(await secretCache.get(true), decoded.header);
+        } catch (error) {
+            // Keep serving with the cached keys
+        }
+    }
+
+    if (decoded.header.kid && candidates.length === 0) {
+        return deny(decision, 403, 'UNKNOWN_KEY_ID', 'Unknown key ID');
+    }
+
+    const signingKey = candidates.find((k) => verifySignature(decoded, k.key));
+    if (!signingKey) {
+        return deny(decision, 403, 'INVALID_SIGNATURE', 'Invalid signature');
+    }
+
+    decision.keyId = signingKey.kid;
+
+    // Validate the claims
+    const validation = validateClaims(decoded.payload);
+
+    if (!validation.valid) {
+        return deny(decision, 403, validation.code, validation.error);
+    }
+
+    // Per-client rate limit, counted only for requests that passed the checks
+    // above. A 'token' client is the sub claim; a token without one is
+    // counted by client IP, as every client of its key would share a count.
+    if (rateLimiter) {
+        let client = `ip:${request.clientIp}`;
+        if (RATE_LIMIT_KEY === 'token' && decoded.payload.sub) {
+            client = `sub:${decoded.payload.sub}`;
+        }
+        let retryAfter = null;
+        try {
+            retryAfter = await rateLimiter.check(client);
+        } catch (error) {
+            // Fail open: losing the counters shouldn't take the path down
+            console.error('Rate limit store error:', error);
+        }
+
+        if (retryAfter !== null) {
+            return deny(decision, 429, 'RATE_LIMITED', 'Rate limit exceeded', { retryAfter });
+        }
+    }
+
+    // Validation passed - allow request to proceed to origin
+    // Pass the verified subject and key on for downstream processing
+    request.headers['x-validated-subject'] = [{ key: 'X-Validated-Subject', value: String(decoded.payload.sub || 'unknown') }];
+    request.headers['x-validated-key-id'] = [{ key: 'X-Validated-Key-Id', value: signingKey.kid || 'unknown' }];
+
+    return allow(decision, request);
+};
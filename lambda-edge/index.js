@@ -1,84 +1,398 @@
-'use strict';
+import crypto from 'crypto';
+import { DynamoDBClient, PutItemCommand } from '@aws-sdk/client-dynamodb';
 
-const crypto = require('crypto');
-const { SecretsManagerClient, GetSecretValueCommand } = require('@aws-sdk/client-secrets-manager');
+// Validator settings: the config module the stack generates from the path's
+// ValidatorPolicy (cdk/lib/validator-policy.ts), defaults in the committed one
+import CONFIG from './validator-config.json';
 
-// Secret name is injected during CDK deployment (Lambda@Edge doesn't support env vars)
-// This placeholder will be replaced with the actual secret name
-const SECRET_NAME = 'SECRET_NAME_PLACEHOLDER';
+// Denials as problem details and CORS preflight answers, shared with the
+// other validators
+import { createResponder } from './edge-response.js';
+const responder = createResponder('lambda-edge', CONFIG);
 
-// Timestamp tolerance in seconds (5 minutes)
-const TIMESTAMP_TOLERANCE = 300;
+// Country, ASN and IP allow and deny lists (CONFIG.network), shared with the
+// other validators
+import { checkNetwork } from './network-policy.js';
 
-// Cache the secret to avoid repeated Secrets Manager calls
-let cachedSecret = null;
-let cacheExpiry = 0;
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes in milliseconds
+// Secrets Manager reads with retries and a stale-while-revalidate cache,
+// shared with the other validators
+import { createSecretCache, secretUnavailable } from './secret-cache.js';
 
-// Lambda@Edge runs in multiple regions, use us-east-1 where the secret is stored
-const secretsClient = new SecretsManagerClient({ region: 'us-east-1' });
+// Per-client sliding-window rate limit, shared with the other validators
+import { createRateLimiter } from './rate-limit.js';
 
-async function getSecret() {
-    const now = Date.now();
+// Secret name (Lambda@Edge doesn't support env vars)
+const SECRET_NAME = CONFIG.secretName;
+
+// Timestamp tolerance in seconds
+const TIMESTAMP_TOLERANCE = CONFIG.timestampTolerance;
+
+// Header names: token, signature, keyId and bodyHash
+const HEADERS = CONFIG.headers;
+
+// Signing mode:
+// 'timestamp' - X-Bot-Signature = HMAC(key, X-Bot-Token)
+// 'canonical' - X-Bot-Signature = HMAC(key, canonical request), see canonicalRequest()
+const SIGNING_MODE = CONFIG.signingMode;
+
+// Headers covered by the canonical request
+const SIGNED_HEADERS = CONFIG.signedHeaders;
+
+// Replay cache: 'memory' (per container), 'dynamodb' (shared table) or 'none'
+const {
+    store: REPLAY_STORE,
+    tableName: REPLAY_TABLE_NAME,
+    tableRegions: REPLAY_TABLE_REGIONS,
+} = CONFIG.replayCache;
+
+// Upper bound for the in-memory replay cache
+const MAX_REPLAY_ENTRIES = 10000;
+
+// Decision logs: validator name and the CloudWatch namespace of the metrics
+// embedded in them
+const VALIDATOR = 'hmac';
+const METRICS_NAMESPACE = CONFIG.metricsNamespace;
+
+// The keyring, cached for CONFIG.secretCacheTtl and served stale while a
+// refresh runs for up to CONFIG.maxStale
+const secretCache = createSecretCache({
+    secretName: SECRET_NAME,
+    ttl: CONFIG.secretCacheTtl,
+    maxStale: CONFIG.maxStale,
+    // Keyring, or legacy JSON with 'secretKey' field
+    parse: (secretString) => parseKeyring(JSON.parse(secretString)),
+    label: 'keyring',
+});
+
+// Without a usable keyring: 'closed' answers 503, 'open' passes the request
+// on unvalidated, flagged with X-Validation-Skipped
+const FAIL_MODE = CONFIG.failMode;
 
-    // Return cached secret if still valid
-    if (cachedSecret && now < cacheExpiry) {
-        return cachedSecret;
+/**
+ * Normalize the secret into a keyring
+ *
+ * Keyring format (written by the rotation function):
+ * {
+ *   "current": "<kid>",                  // key clients sign with
+ *   "next": "<kid>",                     // accepted, becomes current on next rotation
+ *   "keys": [{ "kid": "<kid>", "key": "<secret>", "notBefore": <unix>, "notAfter": <unix> }]
+ * }
+ *
+ * A freshly deployed secret is a single { "secretKey": "<secret>" }, treated as kid "default".
+ */
+function parseKeyring(secretData) {
+    if (Array.isArray(secretData.keys)) {
+        return secretData.keys;
     }
+    if (secretData.secretKey) {
+        return [{ kid: 'default', key: secretData.secretKey }];
+    }
+    throw new Error('Secret has neither a keyring nor a secretKey field');
+}
 
-    try {
-        const command = new GetSecretValueCommand({
-            SecretId: SECRET_NAME,
-        });
+/**
+ * Keys that are inside their notBefore/notAfter window
+ */
+function activeKeys(keyring, nowSeconds) {
+    return keyring.filter((k) =>
+        (typeof k.notBefore !== 'number' || nowSeconds >= k.notBefore) &&
+        (typeof k.notAfter !== 'number' || nowSeconds <= k.notAfter)
+    );
+}
 
-        const response = await secretsClient.send(command);
+/**
+ * Replay cache held in the container's memory.
+ * A replay that reaches another container (or region) isn't detected.
+ *
+ * Stores implement checkAndSet(id, expiresAt): record the id until expiresAt
+ * (unix seconds) and resolve true, or resolve false if it is already recorded.
+ */
+function createMemoryReplayStore() {
+    const entries = new Map();
 
-        // Parse the secret value (stored as JSON with 'secretKey' field)
-        const secretData = JSON.parse(response.SecretString);
-        cachedSecret = secretData.secretKey;
-        cacheExpiry = now + CACHE_TTL;
+    return {
+        async checkAndSet(id, expiresAt) {
+            const nowSeconds = Math.floor(Date.now() / 1000);
+            const existing = entries.get(id);
+            if (existing !== undefined && existing >= nowSeconds) {
+                return false;
+            }
+
+            if (entries.size >= MAX_REPLAY_ENTRIES) {
+                for (const [key, expiry] of entries) {
+                    if (expiry < nowSeconds) {
+                        entries.delete(key);
+                    }
+                }
+                // Still full: drop the oldest entries (Map keeps insertion order)
+                for (const key of entries.keys()) {
+                    if (entries.size < MAX_REPLAY_ENTRIES) {
+                        break;
+                    }
+                    entries.delete(key);
+                }
+            }
+
+            entries.set(id, expiresAt);
+            return true;
+        }
+    };
+}
+
+/**
+ * Replay cache in a DynamoDB table (partition key 'pk', TTL attribute 'expiresAt').
+ * A conditional put records the id only if it isn't there yet. DynamoDB TTL
+ * deletes expired items lazily, so expired items count as absent.
+ */
+function createDynamoDbReplayStore(client, tableName) {
+    return {
+        async checkAndSet(id, expiresAt) {
+            const nowSeconds = Math.floor(Date.now() / 1000);
+            try {
+                await client.send(new PutItemCommand({
+                    TableName: tableName,
+                    Item: {
+                        pk: { S: id },
+                        expiresAt: { N: String(expiresAt) }
+                    },
+                    ConditionExpression: 'attribute_not_exists(pk) OR expiresAt < :now',
+                    ExpressionAttributeValues: {
+                        ':now': { N: String(nowSeconds) }
+                    }
+                }));
+                return true;
+            } catch (error) {
+                if (error.name === 'ConditionalCheckFailedException') {
+                    return false;
+                }
+                throw error;
+            }
+        }
+    };
+}
 
-        return cachedSecret;
+/**
+ * Replay store selected at deployment, or null when replay protection is off.
+ * The DynamoDB client talks to the replica in the function's region if there
+ * is one, otherwise to the first listed region.
+ */
+function createReplayStore() {
+    if (REPLAY_STORE === 'memory') {
+        return createMemoryReplayStore();
+    }
+    if (REPLAY_STORE === 'dynamodb') {
+        const region = REPLAY_TABLE_REGIONS.includes(process.env.AWS_REGION) ? process.env.AWS_REGION : REPLAY_TABLE_REGIONS[0];
+        return createDynamoDbReplayStore(new DynamoDBClient({ region }), REPLAY_TABLE_NAME);
+    }
+    return null;
+}
+
+const replayStore = createReplayStore();
+
+// Per-client rate limit (CONFIG.rateLimit), null when off
+const rateLimiter = createRateLimiter(CONFIG.rateLimit, VALIDATOR);
+
+/**
+ * Canonical request (canonical signing mode), one field per line:
+ *   X-Bot-Token
+ *   method
+ *   URI
+ *   query: RFC 3986 encoded name=value pairs, sorted, joined with '&'
+ *   signed headers: one name:value line each (lowercase name, trimmed value, sorted by name)
+ *   signed header names joined with ';'
+ *   X-Bot-Content-SHA256 (hex SHA-256 of the body), or UNSIGNED-PAYLOAD
+ * Must match cloudfront-function/bot-validator.js.
+ */
+function canonicalRequest(request, token) {
+    const headers = request.headers;
+    const names = SIGNED_HEADERS
+        .map((name) => name.trim().toLowerCase())
+        .filter(Boolean)
+        .sort();
+
+    const headerLines = names.map((name) => `${name}:${headers[name] ? headers[name][0].value.trim() : ''}`);
+    const bodyHash = headerValue(request, HEADERS.bodyHash) || 'UNSIGNED-PAYLOAD';
+
+    return [
+        token,
+        request.method,
+        request.uri,
+        canonicalQuery(request.querystring),
+        headerLines.join('\n'),
+        names.join(';'),
+        bodyHash
+    ].join('\n');
+}
+
+/**
+ * Canonical form of the raw query string ("b=2&a=1" -> "a=1&b=2")
+ */
+function canonicalQuery(querystring) {
+    return (querystring || '')
+        .split('&')
+        .filter(Boolean)
+        .map((param) => {
+            const separator = param.indexOf('=');
+            const name = separator < 0 ? param : param.slice(0, separator);
+            const value = separator < 0 ? '' : param.slice(separator + 1);
+            return `${uriEncode(uriDecode(name))}=${uriEncode(uriDecode(value))}`;
+        })
+        .sort()
+        .join('&');
+}
+
+// encodeURIComponent plus the characters RFC 3986 reserves
+function uriEncode(value) {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function uriDecode(value) {
+    try {
+        return decodeURIComponent(value);
     } catch (error) {
-        console.error('Failed to retrieve secret from Secrets Manager:', error);
-        throw error;
+        return value;
     }
 }
 
-exports.handler = async (event) => {
+/**
+ * Check X-Bot-Content-SHA256 against the body, when CloudFront passes the body
+ * to the function (includeBody on the association)
+ *
+ * @returns {object|null} - { error, code }, or null if the body matches or isn't available
+ */
+function checkBodyHash(request) {
+    const claimed = headerValue(request, HEADERS.bodyHash);
+    if (!claimed || !request.body || request.body.data === undefined) {
+        return null;
+    }
+    if (request.body.inputTruncated) {
+        return { error: 'Request body too large to verify', code: 'BODY_TOO_LARGE' };
+    }
+
+    const body = Buffer.from(request.body.data, request.body.encoding === 'base64' ? 'base64' : 'utf8');
+    const actual = crypto.createHash('sha256').update(body).digest('hex');
+    return constantTimeCompare(claimed.toLowerCase(), actual)
+        ? null
+        : { error: `Body does not match ${HEADERS.bodyHash}`, code: 'BODY_MISMATCH' };
+}
+
+/**
+ * Log the decision on a request as one JSON line in CloudWatch Embedded Metric
+ * Format, so it becomes the Decisions and Latency metrics (by validator,
+ * decision and reason, and by validator and decision for the canary alarms)
+ * in the region that served the request
+ *
+ * @param {object} decision - { startTime, path, keyId, secretCache, event } of the request
+ * @param {string} outcome - 'allow' or 'deny'
+ * @param {string} reason - 'OK', or the reason code of the denial
+ */
+function logDecision(decision, outcome, reason) {
+    const now = Date.now();
+    console.log(JSON.stringify({
+        _aws: {
+            Timestamp: now,
+            CloudWatchMetrics: [{
+                Namespace: METRICS_NAMESPACE,
+                Dimensions: [['validator', 'decision', 'reason'], ['validator', 'decision']],
+                Metrics: [
+                    { Name: 'Decisions', Unit: 'Count' },
+                    { Name: 'Latency', Unit: 'Milliseconds' }
+                ]
+            }]
+        },
+        validator: VALIDATOR,
+        decision: outcome,
+        reason,
+        path: decision.path,
+        keyId: decision.keyId,
+        secretCache: decision.secretCache,
+        Decisions: 1,
+        Latency: now - decision.startTime
+    }));
+}
+
+function allow(decision, request) {
+    logDecision(decision, 'allow', 'OK');
+    return request;
+}
+
+/**
+ * Deny with problem details: the reason code, a message and any extension
+ * members (e.g. retryAfter)
+ */
+function deny(decision, status, reason, detail, members) {
+    logDecision(decision, 'deny', reason);
+    return responder.problem(decision.event, status, reason, detail, members);
+}
+
+/**
+ * Whether the policy lets the path through unvalidated (exact paths, or
+ * prefixes ending in '*')
+ */
+function isExempt(uri) {
+    return CONFIG.exemptPaths.some((exempt) => (exempt.endsWith('*') ? uri.startsWith(exempt.slice(0, -1)) : uri === exempt));
+}
+
+/**
+ * Value of a request header by its configured name (Lambda@Edge lowercases
+ * header keys), or null
+ */
+function headerValue(request, name) {
+    const values = request.headers[name.toLowerCase()];
+    return values ? values[0].value : null;
+}
+
+export const handler = async (event) => {
     const request = event.Records[0].cf.request;
-    const headers = request.headers;
+    const decision = {
+        startTime: Date.now(),
+        path: request.uri,
+        keyId: null,
+        secretCache: secretCache.state(),
+        event
+    };
+
+    // Requests from networks the policy turns away are denied first, on any path
+    const denial = checkNetwork(CONFIG.network, request.clientIp,
+        headerValue(request, 'CloudFront-Viewer-Country'), headerValue(request, 'CloudFront-Viewer-ASN'));
+    if (denial) {
+        return deny(decision, 403, denial.code, denial.detail);
+    }
+
+    // CORS preflights from allowed origins are answered here
+    const preflight = responder.preflight(event);
+    if (preflight) {
+        logDecision(decision, 'allow', 'PREFLIGHT');
+        return preflight;
+    }
 
-    // Get secret key from Secrets Manager
-    let secretKey;
+    // Paths the policy exempts aren't validated
+    if (isExempt(request.uri)) {
+        logDecision(decision, 'allow', 'EXEMPT');
+        return request;
+    }
+
+    // Get keyring from Secrets Manager
+    let keyring;
     try {
-        secretKey = await getSecret();
+        keyring = await secretCache.get();
     } catch (error) {
         console.error('Configuration error:', error);
-        return {
-            status: '500',
-            statusDescription: 'Internal Server Error',
-            headers: {
-                'content-type': [{ key: 'Content-Type', value: 'application/json' }]
-            },
-            body: JSON.stringify({ error: 'Configuration error' })
-        };
+        return secretUnavailable(FAIL_MODE, request, {
+            allow: (reason) => logDecision(decision, 'allow', reason),
+            deny: (...problem) => deny(decision, ...problem),
+        });
     }
 
-    // Extract bot validation headers (headers are lowercase in Lambda@Edge)
-    const token = headers['x-bot-token'] ? headers['x-bot-token'][0].value : null;
-    const signature = headers['x-bot-signature'] ? headers['x-bot-signature'][0].value : null;
+    // Extract bot validation headers
+    const token = headerValue(request, HEADERS.token);
+    const signature = headerValue(request, HEADERS.signature);
+    const keyId = headerValue(request, HEADERS.keyId);
+    decision.keyId = keyId;
 
     // Reject if either header is missing
     if (!token || !signature) {
-        return {
-            status: '403',
-            statusDescription: 'Forbidden',
-            headers: {
-                'content-type': [{ key: 'Content-Type', value: 'application/json' }]
-            },
-            body: JSON.stringify({ error: 'Missing required headers: X-Bot-Token and X-Bot-Signature' })
-        };
+        return deny(decision, 403, 'MISSING_HEADERS', `Missing required headers: ${HEADERS.token} and ${HEADERS.signature}`);
     }
 
     // Optional: Validate timestamp to prevent replay attacks
@@ -86,36 +400,78 @@ exports.handler = async (event) => {
     const currentTimestamp = Math.floor(Date.now() / 1000);
 
     if (isNaN(tokenTimestamp) || Math.abs(currentTimestamp - tokenTimestamp) > TIMESTAMP_TOLERANCE) {
-        return {
-            status: '403',
-            statusDescription: 'Forbidden',
-            headers: {
-                'content-type': [{ key: 'Content-Type', value: 'application/json' }]
-            },
-            body: JSON.stringify({ error: 'Token expired or invalid timestamp' })
-        };
-    }
-
-    // Compute expected signature using HMAC-SHA256
-    const expectedSignature = crypto
-        .createHmac('sha256', secretKey)
-        .update(token)
-        .digest('hex');
-
-    // Constant-time comparison to prevent timing attacks
-    if (!constantTimeCompare(signature, expectedSignature)) {
-        return {
-            status: '403',
-            statusDescription: 'Forbidden',
-            headers: {
-                'content-type': [{ key: 'Content-Type', value: 'application/json' }]
-            },
-            body: JSON.stringify({ error: 'Invalid signature' })
-        };
+        return deny(decision, 403, 'TOKEN_EXPIRED', 'Token expired or invalid timestamp');
+    }
+
+    // Candidate keys: the one named by X-Bot-Key-Id, or every active key for
+    // clients that don't send a key ID yet
+    const candidates = activeKeys(keyring, currentTimestamp)
+        .filter((k) => !keyId || k.kid === keyId);
+
+    if (candidates.length === 0) {
+        return deny(decision, 403, 'UNKNOWN_KEY_ID', 'Unknown or inactive key ID');
+    }
+
+    // Compute expected signature using HMAC-SHA256 and compare in constant time
+    const stringToSign = SIGNING_MODE === 'canonical' ? canonicalRequest(request, token) : token;
+    const signingKey = candidates.find((k) => {
+        const expectedSignature = crypto
+            .createHmac('sha256', k.key)
+            .update(stringToSign)
+            .digest('hex');
+        return constantTimeCompare(signature, expectedSignature);
+    });
+
+    if (!signingKey) {
+        return deny(decision, 403, 'INVALID_SIGNATURE', 'Invalid signature');
+    }
+
+    decision.keyId = signingKey.kid;
+
+    // The signature covers the claimed body hash; check it against the body
+    if (SIGNING_MODE === 'canonical') {
+        const bodyError = checkBodyHash(request);
+        if (bodyError) {
+            return deny(decision, 403, bodyError.code, bodyError.error);
+        }
+    }
+
+    // Reject signatures that were already accepted. Clients sending more than
+    // one request per second append a nonce to the token ("<ts>.<nonce>").
+    // Entries only need to outlive the timestamp window.
+    if (replayStore) {
+        let firstUse;
+        try {
+            firstUse = await replayStore.checkAndSet(`hmac:${signature}`, tokenTimestamp + TIMESTAMP_TOLERANCE);
+        } catch (error) {
+            console.error('Replay cache error:', error);
+            return deny(decision, 503, 'REPLAY_CACHE_UNAVAILABLE', 'Replay cache unavailable');
+        }
+
+        if (!firstUse) {
+            return deny(decision, 403, 'TOKEN_REPLAYED', 'Token has already been used');
+        }
+    }
+
+    // Per-client rate limit, counted only for requests that passed the checks
+    // above. Clients share the signing key, so a client is its IP address.
+    if (rateLimiter) {
+        const client = `ip:${request.clientIp}`;
+        let retryAfter = null;
+        try {
+            retryAfter = await rateLimiter.check(client);
+        } catch (error) {
+            // Fail open: losing the counters shouldn't take the path down
+            console.error('Rate limit store error:', error);
+        }
+
+        if (retryAfter !== null) {
+            return deny(decision, 429, 'RATE_LIMITED', 'Rate limit exceeded', { retryAfter });
+        }
     }
 
     // Validation passed - allow request to proceed to origin
-    return request;
+    return allow(decision, request);
 };
 
 // Constant-time string comparison to prevent timing attacks
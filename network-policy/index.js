@@ -0,0 +1,78 @@
+// Network policy the validators apply before any token check: allow and deny
+// lists of client IP ranges (CIDRs), viewer countries (CloudFront-Viewer-Country)
+// and networks (CloudFront-Viewer-ASN). Lambda@Edge functions bundle it as
+// ./network-policy.js with the lists from their config; the CloudFront
+// Function inlines it and reads the lists from the KeyValueStore. The stack
+// and the CLI check the lists (cdk/lib/validator-policy.ts), so this stays
+// small for the CloudFront Functions size limit.
+
+/**
+ * Why the network policy denies a request, or null if it passes. Each kind
+ * is checked on its own: a request on a deny list is denied, and so is one
+ * missing from an allow list that isn't empty (including a request without
+ * the country or ASN header).
+ *
+ * @param {object} lists - allowCidrs, denyCidrs, allowCountries,
+ *   denyCountries, allowAsns, denyAsns; each may be missing
+ * @param {string} clientIp - viewer IP address
+ * @param {string|null} country - CloudFront-Viewer-Country
+ * @param {string|null} asn - CloudFront-Viewer-ASN
+ * @returns {{code: string, detail: string}|null}
+ */
+function checkNetwork(lists, clientIp, country, asn) {
+    if (!lists) {
+        return null;
+    }
+    var ip = parseAddress(clientIp);
+    if (!listed(lists.allowCidrs, lists.denyCidrs, function (cidr) { return inCidr(ip, cidr); })) {
+        return { code: 'IP_DENIED', detail: 'Client IP address not allowed' };
+    }
+    if (!listed(lists.allowCountries, lists.denyCountries, function (code) { return code === country; })) {
+        return { code: 'COUNTRY_DENIED', detail: 'Viewer country not allowed' };
+    }
+    if (!listed(lists.allowAsns, lists.denyAsns, function (number) { return String(number) === asn; })) {
+        return { code: 'ASN_DENIED', detail: 'Viewer network (ASN) not allowed' };
+    }
+    return null;
+}
+
+// Whether a value passes a deny list and an allow list, given its matcher
+function listed(allow, deny, matches) {
+    return !(deny && deny.some(matches)) && (!allow || allow.length === 0 || allow.some(matches));
+}
+
+// Whether an address (see parseAddress) is in a CIDR range, e.g. '203.0.113.0/24'
+function inCidr(address, cidr) {
+    var parts = cidr.split('/');
+    var network = parseAddress(parts[0]);
+    if (!address || !network || network.length !== address.length) {
+        return false;
+    }
+    var bits = parts.length > 1 ? +parts[1] : network.length * 16;
+    for (var i = 0; bits > 0; i++, bits -= 16) {
+        var mask = bits >= 16 ? 0xffff : 0xffff & (0xffff << (16 - bits));
+        if ((address[i] & mask) !== (network[i] & mask)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+// IPv4 or IPv6 address as 16-bit numbers (2 or 8), or null. Addresses are
+// well-formed: CloudFront's, or checked by validator-policy.ts.
+function parseAddress(text) {
+    var octets = String(text).split('.');
+    if (octets.length === 4) {
+        return [octets[0] * 256 + +octets[1], octets[2] * 256 + +octets[3]];
+    }
+    var halves = String(text).split('::');
+    var groups = halves[0] ? halves[0].split(':') : [];
+    var tail = halves[1] ? halves[1].split(':') : [];
+    while (halves.length > 1 && groups.length + tail.length < 8) {
+        groups.push('0');
+    }
+    groups = groups.concat(tail);
+    return groups.length === 8 ? groups.map(function (group) { return parseInt(group, 16); }) : null;
+}
+
+module.exports = { checkNetwork: checkNetwork, parseAddress: parseAddress, inCidr: inCidr };
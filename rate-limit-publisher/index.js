@@ -0,0 +1,133 @@
+'use strict';
+
+const zlib = require('zlib');
+// KeyValueStore data-plane requests are signed with SigV4A; loading this
+// package registers the signer with the SDK
+require('@aws-sdk/signature-v4a');
+const { DynamoDBClient, UpdateItemCommand } = require('@aws-sdk/client-dynamodb');
+const { CloudFrontKeyValueStoreClient, ListKeysCommand } = require('@aws-sdk/client-cloudfront-keyvaluestore');
+// Batched KeyValueStore writes with ETag conflict retries
+const { updateKeys } = require('./kvs-write.js');
+
+// KeyValueStore the CloudFront Function reads the deny list from
+const KVS_ARN = process.env.KVS_ARN;
+
+// Table holding the fixed-window counters (partition key 'pk', TTL attribute 'expiresAt')
+const TABLE_NAME = process.env.TABLE_NAME;
+
+// At most LIMIT requests per WINDOW seconds from each client
+const LIMIT = parseInt(process.env.LIMIT, 10);
+const WINDOW = parseInt(process.env.WINDOW, 10);
+
+// Validator name in the decision logs, and in the counter keys
+const VALIDATOR = process.env.VALIDATOR || 'cf-function';
+
+// Deny list entries: 'rl:<client>' -> end of the blocked window (unix seconds)
+const KEY_PREFIX = 'rl:';
+
+const dynamoDbClient = new DynamoDBClient({});
+const kvsClient = new CloudFrontKeyValueStoreClient({ region: 'us-east-1' });
+
+/**
+ * Decision log lines of allowed requests that carry a client, grouped by
+ * client and fixed window: Map of "<client>\n<window>" -> requests
+ */
+function countDecisions(logEvents) {
+    const counts = new Map();
+    for (const { timestamp, message } of logEvents) {
+        let line;
+        try {
+            // CloudFront Function log lines may be prefixed with the request ID
+            line = JSON.parse(message.slice(message.indexOf('{')));
+        } catch (error) {
+            continue;
+        }
+        if (line.validator !== VALIDATOR || line.decision !== 'allow' || typeof line.client !== 'string') {
+            continue;
+        }
+        const key = `${line.client}\n${Math.floor(timestamp / 1000 / WINDOW)}`;
+        counts.set(key, (counts.get(key) || 0) + 1);
+    }
+    return counts;
+}
+
+/**
+ * Add a batch of CloudFront Function decision logs (a CloudWatch Logs
+ * subscription event) to the counters, and list every client over the limit
+ * until the end of its window
+ */
+async function publish(event) {
+    const { logEvents } = JSON.parse(zlib.gunzipSync(Buffer.from(event.awslogs.data, 'base64')));
+    const nowSeconds = Math.floor(Date.now() / 1000);
+
+    const puts = [];
+    for (const [key, requests] of countDecisions(logEvents)) {
+        const [client, windowText] = key.split('\n');
+        const window = Number(windowText);
+        const { Attributes } = await dynamoDbClient.send(new UpdateItemCommand({
+            TableName: TABLE_NAME,
+            Key: { pk: { S: `rl:${VALIDATOR}:${client}` } },
+            UpdateExpression: 'ADD #current :requests SET expiresAt = :expiresAt REMOVE #stale',
+            ExpressionAttributeNames: {
+                '#current': `w${window}`,
+                '#stale': `w${window - 2}`,
+            },
+            ExpressionAttributeValues: {
+                ':requests': { N: String(requests) },
+                ':expiresAt': { N: String((window + 2) * WINDOW) },
+            },
+            ReturnValues: 'UPDATED_NEW',
+        }));
+
+        const count = Number(Attributes[`w${window}`].N);
+        const blockedUntil = (window + 1) * WINDOW;
+        if (count > LIMIT && blockedUntil > nowSeconds) {
+            puts.push({ Key: `${KEY_PREFIX}${client}`, Value: String(blockedUntil) });
+        }
+    }
+
+    if (puts.length > 0) {
+        await updateKeys(kvsClient, KVS_ARN, puts, []);
+        console.log(`Blocked ${puts.map((put) => put.Key.slice(KEY_PREFIX.length)).join(', ')}`);
+    }
+    return { blocked: puts.length };
+}
+
+/**
+ * Delete the deny list entries whose window is over, so the KeyValueStore
+ * doesn't fill up with them (the CloudFront Function already ignores them)
+ */
+async function sweep() {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const deletes = [];
+    let nextToken;
+    do {
+        const page = await kvsClient.send(new ListKeysCommand({ KvsARN: KVS_ARN, NextToken: nextToken }));
+        for (const { Key, Value } of page.Items || []) {
+            if (Key.startsWith(KEY_PREFIX) && !(parseInt(Value, 10) > nowSeconds)) {
+                deletes.push({ Key });
+            }
+        }
+        nextToken = page.NextToken;
+    } while (nextToken);
+
+    if (deletes.length > 0) {
+        await updateKeys(kvsClient, KVS_ARN, [], deletes);
+        console.log(`Removed ${deletes.length} expired deny list entries`);
+    }
+    return { removed: deletes.length };
+}
+
+/**
+ * Subscription events from the CloudFront Function's log groups count
+ * requests; the scheduled { "action": "sweep" } event cleans up
+ */
+exports.handler = async (event) => {
+    if (event.awslogs) {
+        return publish(event);
+    }
+    if (event.action === 'sweep') {
+        return sweep();
+    }
+    throw new Error(`Unknown event: ${JSON.stringify(event)}`);
+};
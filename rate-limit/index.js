@@ -0,0 +1,138 @@
+// Per-client sliding-window rate limit shared by the Lambda@Edge validators,
+// bundled with them as ./rate-limit.js. The counters live in memory (per
+// container) or in a shared DynamoDB table.
+
+import { DynamoDBClient, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+
+// Upper bound for the in-memory rate limit counters (least recently seen clients go first)
+const MAX_RATE_LIMIT_ENTRIES = 10000;
+
+/**
+ * Rate limit counters held in the container's memory. Each container counts
+ * on its own, so a client spread over many containers gets more through.
+ *
+ * Stores implement hit(id, window): count one request from the client in the
+ * given fixed window (index since the epoch) and resolve the counts of the
+ * previous and the current window, this request included.
+ */
+function createMemoryRateLimitStore() {
+    const counters = new Map();
+
+    return {
+        async hit(id, window) {
+            const counter = counters.get(id);
+            let previous = 0;
+            let current = 0;
+            if (counter && counter.window === window) {
+                previous = counter.previous;
+                current = counter.current;
+            } else if (counter && counter.window === window - 1) {
+                previous = counter.current;
+            }
+
+            // Re-inserting keeps the Map in least recently seen order
+            counters.delete(id);
+            if (counters.size >= MAX_RATE_LIMIT_ENTRIES) {
+                counters.delete(counters.keys().next().value);
+            }
+            counters.set(id, { window, previous, current: current + 1 });
+            return { previous, current: current + 1 };
+        }
+    };
+}
+
+/**
+ * Rate limit counters in a DynamoDB table (partition key 'pk', TTL attribute
+ * 'expiresAt'): one item per client with a count attribute per window. One
+ * update adds the request and returns both counts; the window before the
+ * previous one is dropped on the way, and idle clients expire through TTL.
+ *
+ * @param {number} windowSeconds - length of a window, for the expiry
+ */
+function createDynamoDbRateLimitStore(client, tableName, windowSeconds) {
+    return {
+        async hit(id, window) {
+            const { Attributes = {} } = await client.send(new UpdateItemCommand({
+                TableName: tableName,
+                Key: { pk: { S: `rl:${id}` } },
+                UpdateExpression: 'ADD #current :one SET expiresAt = :expiresAt REMOVE #stale',
+                ExpressionAttributeNames: {
+                    '#current': `w${window}`,
+                    '#stale': `w${window - 2}`
+                },
+                ExpressionAttributeValues: {
+                    ':one': { N: '1' },
+                    ':expiresAt': { N: String((window + 2) * windowSeconds) }
+                },
+                ReturnValues: 'ALL_NEW'
+            }));
+            const count = (name) => (Attributes[name] ? Number(Attributes[name].N) : 0);
+            return { previous: count(`w${window - 1}`), current: count(`w${window}`) };
+        }
+    };
+}
+
+/**
+ * Sliding-window rate limit: the previous window's count, weighted by how much
+ * of it the sliding window still covers, plus the current window's. Requests
+ * over the limit count too, so a client has to back off for Retry-After
+ * seconds before it gets through again.
+ *
+ * @param {object} store - counters, see createMemoryRateLimitStore
+ * @param {number} limit - requests per window
+ * @param {number} windowSeconds - length of a window
+ * @param {string} id - the client, prefixed with the validator
+ * @returns {Promise<number|null>} Retry-After seconds, or null within the limit
+ */
+async function checkRateLimit(store, limit, windowSeconds, id) {
+    const nowSeconds = Date.now() / 1000;
+    const window = Math.floor(nowSeconds / windowSeconds);
+    const elapsed = nowSeconds - window * windowSeconds;
+    const { previous, current } = await store.hit(id, window);
+
+    if (previous * (1 - elapsed / windowSeconds) + current <= limit) {
+        return null;
+    }
+
+    // When the estimate leaves room for one more request, if none arrive meanwhile
+    const room = limit - 1;
+    const retryAfter = current <= room
+        ? windowSeconds * (previous - room + current) / previous - elapsed
+        : windowSeconds - elapsed + windowSeconds * (current - room) / current;
+    return Math.max(1, Math.ceil(retryAfter));
+}
+
+/**
+ * Rate limiter of one validator, or null when rate limiting is off. Like the
+ * replay table, the DynamoDB client uses the replica in the function's region
+ * if there is one.
+ *
+ * @param {object} rateLimit - CONFIG.rateLimit: key ('ip', 'token' or '' when
+ *   off), limit, window (seconds), store ('memory' or 'dynamodb'), tableName
+ *   and tableRegions
+ * @param {string} validator - validator name the client ids are prefixed with
+ * @returns {object|null} - { check(client) }: Retry-After seconds for a client
+ *   over the limit, null within it
+ */
+function createRateLimiter(rateLimit, validator) {
+    const { key, limit, window, store, tableName, tableRegions } = rateLimit;
+    if (key !== 'ip' && key !== 'token') {
+        return null;
+    }
+
+    let counters = null;
+    if (store === 'memory') {
+        counters = createMemoryRateLimitStore();
+    } else if (store === 'dynamodb') {
+        const region = tableRegions.includes(process.env.AWS_REGION) ? process.env.AWS_REGION : tableRegions[0];
+        counters = createDynamoDbRateLimitStore(new DynamoDBClient({ region }), tableName, window);
+    } else {
+        return null;
+    }
+
+    return {
+        check: (client) => checkRateLimit(counters, limit, window, `${validator}:${client}`),
+    };
+}
+
+export { createRateLimiter };
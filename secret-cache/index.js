@@ -0,0 +1,153 @@
+// Secrets Manager reads shared by the Lambda@Edge validators, bundled with
+// them as ./secret-cache.js (an ES module like them, so unused SDK commands
+// are tree-shaken). Each call times out and is retried with jittered
+// backoff, concurrent requests share one fetch, and a cached secret past its
+// TTL is served while a refresh runs (stale-while-revalidate).
+
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+
+// Secrets Manager calls: timeout per attempt, attempts, and the base of the
+// jittered exponential backoff between them (viewer requests get 5 seconds)
+const SECRET_FETCH_TIMEOUT = 1000;
+const SECRET_FETCH_ATTEMPTS = 3;
+const SECRET_FETCH_BACKOFF = 100;
+
+// Errors that retrying won't fix
+const PERMANENT_SECRET_ERRORS = ['ResourceNotFoundException', 'AccessDeniedException', 'DecryptionFailure'];
+
+// Retry-After (seconds) of the 503 a closed validator answers without a secret
+const SECRET_RETRY_AFTER = 5;
+
+// Lambda@Edge runs in multiple regions, use us-east-1 where the secrets are stored
+const secretsClient = new SecretsManagerClient({ region: 'us-east-1' });
+
+/**
+ * Fetch the secret string from Secrets Manager. Each attempt times out after
+ * SECRET_FETCH_TIMEOUT; failed attempts are retried after a random (full
+ * jitter) exponential backoff, unless the error is permanent.
+ */
+async function fetchSecretString(secretName) {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const command = new GetSecretValueCommand({
+                SecretId: secretName,
+            });
+            const response = await secretsClient.send(command, {
+                abortSignal: AbortSignal.timeout(SECRET_FETCH_TIMEOUT)
+            });
+            return response.SecretString;
+        } catch (error) {
+            if (attempt >= SECRET_FETCH_ATTEMPTS || PERMANENT_SECRET_ERRORS.includes(error.name)) {
+                throw error;
+            }
+            const backoff = Math.random() * SECRET_FETCH_BACKOFF * 2 ** (attempt - 1);
+            await new Promise((resolve) => setTimeout(resolve, backoff));
+        }
+    }
+}
+
+/**
+ * Cache of one parsed secret. Past `ttl` the cached value is still served
+ * while a refresh is tried, until it is `maxStale` old; after that requests
+ * wait for Secrets Manager.
+ *
+ * @param {object} options
+ * @param {string} options.secretName - Secrets Manager secret
+ * @param {number} options.ttl - seconds a fetched secret is used before it is refreshed
+ * @param {number} options.maxStale - seconds a fetched secret is used at all
+ * @param {function} options.parse - secret string to the cached value; throws on a malformed secret
+ * @param {string} options.label - what the secret holds, for the logs (e.g. 'keyring')
+ * @returns {object} - { get, state, lastFetch }
+ */
+function createSecretCache({ secretName, ttl, maxStale, parse, label }) {
+    let cached = null;
+    let cachedAt = 0;
+    let lastFetch = 0;
+    let secretFetch = null;
+
+    /**
+     * Fetch and parse the secret into the cache. Concurrent callers share one
+     * fetch.
+     */
+    function refresh() {
+        if (!secretFetch) {
+            lastFetch = Date.now();
+            secretFetch = fetchSecretString(secretName)
+                .then((secretString) => {
+                    cached = parse(secretString);
+                    cachedAt = Date.now();
+                    return cached;
+                })
+                .finally(() => {
+                    secretFetch = null;
+                });
+        }
+        return secretFetch;
+    }
+
+    /**
+     * The cached value, fetched first when there is none or it is too old
+     *
+     * A cached value past `ttl` is returned right away while a refresh runs
+     * alongside the request (Lambda freezes the container between requests,
+     * so it may finish during a later one). Only a missing or `maxStale` value
+     * waits.
+     *
+     * @param {boolean} forceRefresh - Bypass the cache (e.g. an unknown key ID)
+     */
+    async function get(forceRefresh = false) {
+        const age = Date.now() - cachedAt;
+        if (cached && age < ttl * 1000 && !forceRefresh) {
+            return cached;
+        }
+        if (cached && age < maxStale * 1000 && !forceRefresh) {
+            refresh().catch((error) => {
+                console.error(`Failed to refresh the ${label} from Secrets Manager, serving the cached one:`, error);
+            });
+            return cached;
+        }
+
+        try {
+            return await refresh();
+        } catch (error) {
+            console.error(`Failed to retrieve the ${label} from Secrets Manager:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Cache state for the decision log: 'hit', 'stale' (served while
+     * refreshing) or 'miss'
+     */
+    function state() {
+        const age = Date.now() - cachedAt;
+        if (!cached || age >= maxStale * 1000) {
+            return 'miss';
+        }
+        return age < ttl * 1000 ? 'hit' : 'stale';
+    }
+
+    return { get, state, lastFetch: () => lastFetch };
+}
+
+/**
+ * Answer a request that can't be validated for lack of a secret, as the fail
+ * mode says:
+ * 'closed' - 503 with Retry-After (SECRET_RETRY_AFTER seconds)
+ * 'open'   - pass the request on unvalidated, flagged with X-Validation-Skipped
+ *
+ * @param {string} failMode - 'closed' or 'open'
+ * @param {object} request - Lambda@Edge request
+ * @param {object} answers - allow(reason) logs the request as allowed;
+ *   deny(status, code, detail, options) answers with a problem
+ */
+function secretUnavailable(failMode, request, { allow, deny }) {
+    if (failMode === 'open') {
+        request.headers['x-validation-skipped'] = [{ key: 'X-Validation-Skipped', value: 'secret-unavailable' }];
+        allow('FAIL_OPEN');
+        return request;
+    }
+    return deny(503, 'SECRET_UNAVAILABLE', 'Validation keys unavailable', { retryAfter: SECRET_RETRY_AFTER });
+}
+
+export { createSecretCache, secretUnavailable };
@@ -4,15 +4,62 @@
 # Usage: ./test-canary.sh <cloudfront-domain>
 # Example: ./test-canary.sh d123abc.cloudfront.net
 #
-# This script tests canary deployment by comparing responses from:
+# Header mode (default) compares responses from:
 # 1. Primary distribution (normal requests)
-# 2. Staging distribution (requests with aws-cf-cd-staging header)
+# 2. Staging distribution (requests with the staging header, CANARY_HEADER /
+#    CANARY_HEADER_VALUE, default aws-cf-cd-staging: true)
+#
+# CANARY_MODE=weight (stack deployed with -c canaryTraffic=weight) sends SAMPLES
+# requests and measures the share the staging distribution served, from the
+# decision logs of each distribution's CloudFront Function, then checks session
+# stickiness with a cookie jar.
 
 set -e
 
+# Read the signing key from Secrets Manager (generated-secret deployments):
+# the keyring's current key, or the single key of a secret not rotated yet
+fetch_secret_field() {
+    aws secretsmanager get-secret-value --secret-id "$1" --region us-east-1 \
+        --query SecretString --output text 2>/dev/null | \
+        jq -r --arg f "$2" 'if .keys then (.current as $c | .keys[] | select(.kid == $c) | .key) else .[$f] end'
+}
+
+# Key ID of the keyring's current key (empty before the first rotation)
+fetch_key_id() {
+    aws secretsmanager get-secret-value --secret-id "$1" --region us-east-1 \
+        --query SecretString --output text 2>/dev/null | jq -r '.current // empty'
+}
+
 # Configuration
-SECRET_KEY="my-secret-key-2024"
+# Key comes from SECRET_KEY, else from Secrets Manager.
+# STAGE names the deployed stage (-c stage=<name>, default dev), whose stack is
+# EdgeLabStack-<stage> and secret <stage>-bot-validator-secret.
+# LAB_SECRETS=true uses the fixed lab key (stack deployed with -c labSecrets=true).
+STAGE="${STAGE:-dev}"
+SECRET_PREFIX="$STAGE-"
+if [ "${LAB_SECRETS:-}" = "true" ]; then
+    SECRET_KEY="${SECRET_KEY:-my-secret-key-2024}"
+fi
+if [ -z "${SECRET_KEY:-}" ]; then
+    SECRET_KEY="$(fetch_secret_field "${SECRET_PREFIX}bot-validator-secret" secretKey)"
+    KEY_ID="${KEY_ID:-$(fetch_key_id "${SECRET_PREFIX}bot-validator-secret")}"
+fi
 DOMAIN="${1:-}"
+CANARY_MODE="${CANARY_MODE:-header}"
+CANARY_HEADER="${CANARY_HEADER:-aws-cf-cd-staging}"
+CANARY_HEADER_VALUE="${CANARY_HEADER_VALUE:-true}"
+SAMPLES="${SAMPLES:-100}"
+STICKY_SAMPLES="${STICKY_SAMPLES:-20}"
+STACK_NAME="${STACK_NAME:-EdgeLabStack-$STAGE}"
+
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+TEST_VECTORS="$SCRIPT_DIR/../client-sdk/test-vectors.json"
+
+# Send the key ID once the secret has been rotated into a keyring
+KEY_ID_HEADER=()
+if [ -n "${KEY_ID:-}" ]; then
+    KEY_ID_HEADER=(-H "X-Bot-Key-Id: $KEY_ID")
+fi
 
 if [ -z "$DOMAIN" ]; then
     echo "Usage: $0 <cloudfront-domain>"
@@ -20,12 +67,166 @@ if [ -z "$DOMAIN" ]; then
     exit 1
 fi
 
+if [ -z "$SECRET_KEY" ] || [ "$SECRET_KEY" = "null" ]; then
+    echo "Could not read the HMAC key from Secrets Manager."
+    echo "Set SECRET_KEY, or LAB_SECRETS=true for a -c labSecrets=true deployment."
+    exit 1
+fi
+
 # Generate valid token and signature
+# SIGNING_MODE=canonical (stack deployed with -c signingMode=canonical) signs a
+# GET of the given path with the default signed headers (host)
 generate_signature() {
     local token="$1"
-    echo -n "$token" | openssl dgst -sha256 -hmac "$SECRET_KEY" | awk '{print $2}'
+    local uri="${2:-/}"
+    if [ "${SIGNING_MODE:-timestamp}" = "canonical" ]; then
+        printf '%s\n%s\n%s\n%s\n%s\n%s\n%s' \
+            "$token" "GET" "$uri" "" "host:$DOMAIN" "host" "UNSIGNED-PAYLOAD" | \
+            openssl dgst -sha256 -hmac "$SECRET_KEY" | awk '{print $2}'
+    else
+        echo -n "$token" | openssl dgst -sha256 -hmac "$SECRET_KEY" | awk '{print $2}'
+    fi
+}
+
+# Check the signing above against the shared test vectors (client-sdk/test-vectors.json),
+# so a local openssl/printf difference shows up here rather than as a 403
+check_hmac_vectors() {
+    local key token expected actual i
+    key=$(jq -r '.hmac.key' "$TEST_VECTORS")
+    while IFS=$'\t' read -r token expected; do
+        actual=$(SIGNING_MODE=timestamp SECRET_KEY="$key" generate_signature "$token")
+        if [ "$actual" != "$expected" ]; then
+            echo "HMAC test vector mismatch for token $token"
+            exit 1
+        fi
+    done < <(jq -r '.hmac.timestamp[] | [.token, .signature] | @tsv' "$TEST_VECTORS")
+
+    for i in $(seq 0 $(($(jq '.hmac.canonical | length' "$TEST_VECTORS") - 1))); do
+        expected=$(jq -r ".hmac.canonical[$i].signature" "$TEST_VECTORS")
+        actual=$(jq -j ".hmac.canonical[$i].canonicalRequest" "$TEST_VECTORS" | \
+            openssl dgst -sha256 -hmac "$key" | awk '{print $2}')
+        if [ "$actual" != "$expected" ]; then
+            echo "Canonical request test vector $i mismatch"
+            exit 1
+        fi
+    done
+
+    # The first canonical vector is a GET signed over host only, as generate_signature builds it
+    actual=$(jq -r '.hmac.canonical[0] | [.token, .uri, .headers.Host] | @tsv' "$TEST_VECTORS" | {
+        IFS=$'\t' read -r token uri host
+        SIGNING_MODE=canonical SECRET_KEY="$key" DOMAIN="$host" generate_signature "$token" "$uri"
+    })
+    if [ "$actual" != "$(jq -r '.hmac.canonical[0].signature' "$TEST_VECTORS")" ]; then
+        echo "Canonical signing does not match the test vectors"
+        exit 1
+    fi
 }
 
+check_hmac_vectors
+
+stack_output() {
+    aws cloudformation describe-stacks --stack-name "$STACK_NAME" --region us-east-1 \
+        --query "Stacks[0].Outputs[?OutputKey=='$1'].OutputValue" --output text
+}
+
+# Decisions logged since $2 (epoch ms) for request paths containing $3
+count_decisions() {
+    aws logs filter-log-events --log-group-name "$1" --region us-east-1 \
+        --start-time "$2" --filter-pattern "\"$3\"" \
+        --query 'length(events)' --output text 2>/dev/null || echo 0
+}
+
+# Send $2 signed requests under a path marked with $1 (extra curl options after)
+send_probes() {
+    local marker="$1" count="$2" i uri token signature
+    shift 2
+    for i in $(seq 1 "$count"); do
+        uri="/cf-function/$marker-$i.html"
+        token=$(date +%s)
+        signature=$(generate_signature "$token" "$uri")
+        # The probe objects don't exist; only the CloudFront Function's decision counts
+        curl -o /dev/null -s "$@" \
+            -H "X-Bot-Token: $token" \
+            -H "X-Bot-Signature: $signature" \
+            "${KEY_ID_HEADER[@]}" \
+            "https://$DOMAIN$uri"
+    done
+}
+
+# Wait until the decision logs of both distributions account for $2 probes
+# marked with $1, then print "<primary> <staging>"
+wait_for_decisions() {
+    local marker="$1" expected="$2" primary=0 staging=0 attempt
+    for attempt in $(seq 1 24); do
+        primary=$(count_decisions "$PRIMARY_LOG_GROUP" "$START_MS" "$marker")
+        staging=$(count_decisions "$STAGING_LOG_GROUP" "$START_MS" "$marker")
+        if [ $((primary + staging)) -ge "$expected" ]; then
+            break
+        fi
+        sleep 5
+    done
+    echo "$primary $staging"
+}
+
+if [ "$CANARY_MODE" = "weight" ]; then
+    PRIMARY_LOG_GROUP="${PRIMARY_LOG_GROUP:-$(stack_output CloudFrontFunctionLogGroup)}"
+    STAGING_LOG_GROUP="${STAGING_LOG_GROUP:-$(stack_output StagingCloudFrontFunctionLogGroup)}"
+    if [ -z "$PRIMARY_LOG_GROUP" ] || [ -z "$STAGING_LOG_GROUP" ]; then
+        echo "Could not read the CloudFront Function log groups from stack $STACK_NAME."
+        echo "Set PRIMARY_LOG_GROUP and STAGING_LOG_GROUP, or STACK_NAME."
+        exit 1
+    fi
+    RUN_ID="canary-probe-$(date +%s)-$$"
+    START_MS=$(( $(date +%s) * 1000 - 60000 ))
+
+    echo "=============================================="
+    echo "CloudFront Canary Deployment Tests (weight-based)"
+    echo "=============================================="
+    echo ""
+    echo "Domain: $DOMAIN"
+    echo "Sending $SAMPLES requests; each distribution's CloudFront Function logs the ones it served."
+    echo ""
+
+    echo "=============================================="
+    echo "Test 1: Observed staging share"
+    echo "=============================================="
+    send_probes "$RUN_ID-share" "$SAMPLES"
+    read -r PRIMARY STAGING < <(wait_for_decisions "$RUN_ID-share" "$SAMPLES")
+    TOTAL=$((PRIMARY + STAGING))
+    if [ "$TOTAL" -eq 0 ]; then
+        echo "No decisions logged yet; CloudFront Function logs can take a minute, try again"
+        exit 1
+    fi
+    echo "Primary: $PRIMARY  Staging: $STAGING  (of $TOTAL logged, $SAMPLES sent)"
+    awk -v s="$STAGING" -v t="$TOTAL" 'BEGIN {
+        p = s / t
+        margin = 1.96 * sqrt(p * (1 - p) / t)
+        printf "Staging share: %.1f%% (95%% interval %.1f%% to %.1f%%)\n", 100 * p, 100 * (p - margin < 0 ? 0 : p - margin), 100 * (p + margin)
+    }'
+    echo "Compare with the configured weight (-c canaryWeight, default 5%)."
+    echo ""
+
+    echo "=============================================="
+    echo "Test 2: Session stickiness ($STICKY_SAMPLES requests sharing a cookie jar)"
+    echo "=============================================="
+    COOKIE_JAR=$(mktemp)
+    trap 'rm -f "$COOKIE_JAR"' EXIT
+    send_probes "$RUN_ID-sticky" "$STICKY_SAMPLES" -b "$COOKIE_JAR" -c "$COOKIE_JAR"
+    read -r PRIMARY STAGING < <(wait_for_decisions "$RUN_ID-sticky" "$STICKY_SAMPLES")
+    echo "Primary: $PRIMARY  Staging: $STAGING"
+    if [ "$PRIMARY" -eq 0 ] || [ "$STAGING" -eq 0 ]; then
+        echo "All requests stayed on one distribution (sticky, or the weight is low)"
+    else
+        echo "Requests were split: session stickiness is off (-c canaryStickyIdleSeconds=... to enable)"
+    fi
+    echo ""
+
+    echo "=============================================="
+    echo "Tests Complete"
+    echo "=============================================="
+    exit 0
+fi
+
 echo "=============================================="
 echo "CloudFront Canary Deployment Tests"
 echo "=============================================="
@@ -33,7 +234,7 @@ echo ""
 echo "Domain: $DOMAIN"
 echo ""
 echo "This test compares PRIMARY vs STAGING distribution responses."
-echo "Staging is accessed via the 'aws-cf-cd-staging: true' header."
+echo "Staging is accessed via the '$CANARY_HEADER: $CANARY_HEADER_VALUE' header."
 echo ""
 
 # Test 1: Primary Distribution - CloudFront Function
@@ -41,11 +242,12 @@ echo "=============================================="
 echo "Test 1: PRIMARY - CloudFront Function Valid Request"
 echo "=============================================="
 TOKEN=$(date +%s)
-SIGNATURE=$(generate_signature "$TOKEN")
+SIGNATURE=$(generate_signature "$TOKEN" "/cf-function/test.html")
 echo "curl -s -w 'HTTP Status: %{http_code}' -H 'X-Bot-Token: $TOKEN' -H 'X-Bot-Signature: $SIGNATURE' https://$DOMAIN/cf-function/test.html"
 RESPONSE=$(curl -s -w '\nHTTP Status: %{http_code}' \
     -H "X-Bot-Token: $TOKEN" \
     -H "X-Bot-Signature: $SIGNATURE" \
+    "${KEY_ID_HEADER[@]}" \
     "https://$DOMAIN/cf-function/test.html")
 echo "$RESPONSE"
 echo ""
@@ -55,12 +257,13 @@ echo "=============================================="
 echo "Test 2: STAGING - CloudFront Function Valid Request"
 echo "=============================================="
 TOKEN=$(date +%s)
-SIGNATURE=$(generate_signature "$TOKEN")
-echo "curl -s -w 'HTTP Status: %{http_code}' -H 'aws-cf-cd-staging: true' -H 'X-Bot-Token: $TOKEN' -H 'X-Bot-Signature: $SIGNATURE' https://$DOMAIN/cf-function/test.html"
+SIGNATURE=$(generate_signature "$TOKEN" "/cf-function/test.html")
+echo "curl -s -w 'HTTP Status: %{http_code}' -H '$CANARY_HEADER: $CANARY_HEADER_VALUE' -H 'X-Bot-Token: $TOKEN' -H 'X-Bot-Signature: $SIGNATURE' https://$DOMAIN/cf-function/test.html"
 RESPONSE=$(curl -s -w '\nHTTP Status: %{http_code}' \
-    -H "aws-cf-cd-staging: true" \
+    -H "$CANARY_HEADER: $CANARY_HEADER_VALUE" \
     -H "X-Bot-Token: $TOKEN" \
     -H "X-Bot-Signature: $SIGNATURE" \
+    "${KEY_ID_HEADER[@]}" \
     "https://$DOMAIN/cf-function/test.html")
 echo "$RESPONSE"
 echo ""
@@ -79,7 +282,7 @@ echo "=============================================="
 echo "Test 4: STAGING - Missing Headers (expect 403)"
 echo "=============================================="
 RESPONSE=$(curl -s -w '\nHTTP Status: %{http_code}' \
-    -H "aws-cf-cd-staging: true" \
+    -H "$CANARY_HEADER: $CANARY_HEADER_VALUE" \
     "https://$DOMAIN/cf-function/test.html")
 echo "$RESPONSE"
 echo ""
@@ -94,10 +297,11 @@ echo "-------------------------------------------"
 printf "%-8s %-12s %-12s %-12s\n" "Request" "DNS(s)" "TTFB(s)" "Total(s)"
 for i in 1 2 3 4 5; do
     TOKEN=$(date +%s)
-    SIGNATURE=$(generate_signature "$TOKEN")
+    SIGNATURE=$(generate_signature "$TOKEN" "/cf-function/test.html")
     TIMING=$(curl -o /dev/null -s -w "%{time_namelookup} %{time_starttransfer} %{time_total}" \
         -H "X-Bot-Token: $TOKEN" \
         -H "X-Bot-Signature: $SIGNATURE" \
+        "${KEY_ID_HEADER[@]}" \
         "https://$DOMAIN/cf-function/test.html")
     DNS=$(echo $TIMING | awk '{print $1}')
     TTFB=$(echo $TIMING | awk '{print $2}')
@@ -112,11 +316,12 @@ echo "-------------------------------------------"
 printf "%-8s %-12s %-12s %-12s\n" "Request" "DNS(s)" "TTFB(s)" "Total(s)"
 for i in 1 2 3 4 5; do
     TOKEN=$(date +%s)
-    SIGNATURE=$(generate_signature "$TOKEN")
+    SIGNATURE=$(generate_signature "$TOKEN" "/cf-function/test.html")
     TIMING=$(curl -o /dev/null -s -w "%{time_namelookup} %{time_starttransfer} %{time_total}" \
-        -H "aws-cf-cd-staging: true" \
+        -H "$CANARY_HEADER: $CANARY_HEADER_VALUE" \
         -H "X-Bot-Token: $TOKEN" \
         -H "X-Bot-Signature: $SIGNATURE" \
+        "${KEY_ID_HEADER[@]}" \
         "https://$DOMAIN/cf-function/test.html")
     DNS=$(echo $TIMING | awk '{print $1}')
     TTFB=$(echo $TIMING | awk '{print $2}')
@@ -134,7 +339,7 @@ echo "1. Deploy with canary mode:"
 echo "   cdk deploy --context canary=true"
 echo ""
 echo "2. Test staging distribution:"
-echo "   curl -H 'aws-cf-cd-staging: true' https://$DOMAIN/cf-function/test.html"
+echo "   curl -H '$CANARY_HEADER: $CANARY_HEADER_VALUE' https://$DOMAIN/cf-function/test.html"
 echo ""
 echo "3. Monitor CloudWatch metrics for both distributions"
 echo ""
@@ -144,6 +349,9 @@ echo "     --id <PRIMARY_DIST_ID> \\"
 echo "     --staging-distribution-id <STAGING_DIST_ID> \\"
 echo "     --if-match <ETAG>"
 echo ""
+echo "   Or let the canary ramp workflow shift traffic, watch the alarms and promote:"
+echo "   aws stepfunctions start-execution --state-machine-arn <CanaryRampStateMachineArn> --region us-east-1"
+echo ""
 echo "=============================================="
 echo "Tests Complete"
 echo "=============================================="
@@ -6,26 +6,130 @@
 
 set -e
 
+# Read the signing key from Secrets Manager (generated-secret deployments):
+# the keyring's current key, or the single key of a secret not rotated yet
+fetch_secret_field() {
+    aws secretsmanager get-secret-value --secret-id "$1" --region us-east-1 \
+        --query SecretString --output text 2>/dev/null | \
+        jq -r --arg f "$2" 'if .keys then (.current as $c | .keys[] | select(.kid == $c) | .key) else .[$f] end'
+}
+
+# Key ID of the keyring's current key (empty before the first rotation)
+fetch_key_id() {
+    aws secretsmanager get-secret-value --secret-id "$1" --region us-east-1 \
+        --query SecretString --output text 2>/dev/null | jq -r '.current // empty'
+}
+
 # Configuration
-SECRET_KEY="my-secret-key-2024"
+# Keys come from SECRET_KEY / AES_KEY_HEX, else from Secrets Manager.
+# STAGE names the deployed stage (-c stage=<name>, default dev), whose secrets
+# are <stage>-bot-validator-secret etc.
+# LAB_SECRETS=true uses the fixed lab keys (stack deployed with -c labSecrets=true).
+# JWTs are signed with JWT_PRIVATE_KEY_FILE (private JWK or PEM of a key in the
+# stack's jwtPublicKeys); the JWT tests are skipped without one.
+SECRET_PREFIX="${STAGE:-dev}-"
+if [ "${LAB_SECRETS:-}" = "true" ]; then
+    SECRET_KEY="${SECRET_KEY:-my-secret-key-2024}"
+    AES_KEY_HEX="${AES_KEY_HEX:-0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef}"
+    if [ -z "${JWT_PRIVATE_KEY_FILE:-}" ]; then
+        # Private half of the stack's lab JWT key (LAB_JWT_PUBLIC_KEY)
+        JWT_PRIVATE_KEY_FILE="$(mktemp)"
+        trap 'rm -f "$JWT_PRIVATE_KEY_FILE"' EXIT
+        echo '{"kid":"lab-ed25519","kty":"OKP","crv":"Ed25519","x":"4PWTgHjQG3ijFeDIYbWtjwRUwua2HBkzAQREo9YaXSw","d":"q7HZ1EFlQ9ViIxYX-OU3yRSs1y3vtKLiCGicr9UIdCE"}' \
+            > "$JWT_PRIVATE_KEY_FILE"
+    fi
+fi
+if [ -z "${SECRET_KEY:-}" ]; then
+    SECRET_KEY="$(fetch_secret_field "${SECRET_PREFIX}bot-validator-secret" secretKey)"
+    KEY_ID="${KEY_ID:-$(fetch_key_id "${SECRET_PREFIX}bot-validator-secret")}"
+fi
 # AES-256-GCM key (32 bytes = 64 hex characters)
-AES_KEY_HEX="0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef"
+if [ -z "${AES_KEY_HEX:-}" ]; then
+    AES_KEY_HEX="$(fetch_secret_field "${SECRET_PREFIX}aesgcm-validator-secret" aesKey)"
+    AES_KEY_ID="${AES_KEY_ID:-$(fetch_key_id "${SECRET_PREFIX}aesgcm-validator-secret")}"
+fi
 DOMAIN="${1:-}"
 
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+TEST_VECTORS="$SCRIPT_DIR/../client-sdk/test-vectors.json"
+TOKEN_CLI="$SCRIPT_DIR/../client-sdk/dist/cli.js"
+
+# Send the key ID once the secret has been rotated into a keyring
+KEY_ID_HEADER=()
+if [ -n "${KEY_ID:-}" ]; then
+    KEY_ID_HEADER=(-H "X-Bot-Key-Id: $KEY_ID")
+fi
+
 if [ -z "$DOMAIN" ]; then
     echo "Usage: $0 <cloudfront-domain>"
     echo "Example: $0 d123abc.cloudfront.net"
     exit 1
 fi
 
+if [ -z "$SECRET_KEY" ] || [ "$SECRET_KEY" = "null" ] || [ -z "$AES_KEY_HEX" ] || [ "$AES_KEY_HEX" = "null" ]; then
+    echo "Could not read keys from Secrets Manager."
+    echo "Set SECRET_KEY and AES_KEY_HEX, or LAB_SECRETS=true for a -c labSecrets=true deployment."
+    exit 1
+fi
+
+if [ ! -f "$TOKEN_CLI" ]; then
+    echo "AES-GCM tokens are generated with the client SDK; build it first:"
+    echo "  (cd client-sdk && npm install && npm run build)"
+    exit 1
+fi
+
 # Generate valid token and signature (HMAC)
+# SIGNING_MODE=canonical (stack deployed with -c signingMode=canonical) signs a
+# GET of the given path with the default signed headers (host)
 generate_signature() {
     local token="$1"
-    echo -n "$token" | openssl dgst -sha256 -hmac "$SECRET_KEY" | awk '{print $2}'
+    local uri="${2:-/}"
+    if [ "${SIGNING_MODE:-timestamp}" = "canonical" ]; then
+        printf '%s\n%s\n%s\n%s\n%s\n%s\n%s' \
+            "$token" "GET" "$uri" "" "host:$DOMAIN" "host" "UNSIGNED-PAYLOAD" | \
+            openssl dgst -sha256 -hmac "$SECRET_KEY" | awk '{print $2}'
+    else
+        echo -n "$token" | openssl dgst -sha256 -hmac "$SECRET_KEY" | awk '{print $2}'
+    fi
 }
 
-# Generate AES-GCM encrypted token
-# Format: <nonce_hex>:<ciphertext_hex>:<auth_tag_hex>
+# Check the signing above against the shared test vectors (client-sdk/test-vectors.json),
+# so a local openssl/printf difference shows up here rather than as a 403
+check_hmac_vectors() {
+    local key token expected actual i
+    key=$(jq -r '.hmac.key' "$TEST_VECTORS")
+    while IFS=$'\t' read -r token expected; do
+        actual=$(SIGNING_MODE=timestamp SECRET_KEY="$key" generate_signature "$token")
+        if [ "$actual" != "$expected" ]; then
+            echo "HMAC test vector mismatch for token $token"
+            exit 1
+        fi
+    done < <(jq -r '.hmac.timestamp[] | [.token, .signature] | @tsv' "$TEST_VECTORS")
+
+    for i in $(seq 0 $(($(jq '.hmac.canonical | length' "$TEST_VECTORS") - 1))); do
+        expected=$(jq -r ".hmac.canonical[$i].signature" "$TEST_VECTORS")
+        actual=$(jq -j ".hmac.canonical[$i].canonicalRequest" "$TEST_VECTORS" | \
+            openssl dgst -sha256 -hmac "$key" | awk '{print $2}')
+        if [ "$actual" != "$expected" ]; then
+            echo "Canonical request test vector $i mismatch"
+            exit 1
+        fi
+    done
+
+    # The first canonical vector is a GET signed over host only, as generate_signature builds it
+    actual=$(jq -r '.hmac.canonical[0] | [.token, .uri, .headers.Host] | @tsv' "$TEST_VECTORS" | {
+        IFS=$'\t' read -r token uri host
+        SIGNING_MODE=canonical SECRET_KEY="$key" DOMAIN="$host" generate_signature "$token" "$uri"
+    })
+    if [ "$actual" != "$(jq -r '.hmac.canonical[0].signature' "$TEST_VECTORS")" ]; then
+        echo "Canonical signing does not match the test vectors"
+        exit 1
+    fi
+}
+
+# Generate AES-GCM encrypted token with the client SDK's CLI
+# (openssl enc doesn't support AEAD ciphers such as AES-256-GCM)
+# Format: [<key_id>:]<nonce_hex>:<ciphertext_hex>:<auth_tag_hex>
 generate_aesgcm_token() {
     local timestamp="$1"
     local device="${2:-test-device-001}"
@@ -33,28 +137,43 @@ generate_aesgcm_token() {
     # Create JSON payload
     local payload="{\"ts\":${timestamp},\"device\":\"${device}\",\"data\":\"test\"}"
 
-    # Generate random 12-byte nonce
-    local nonce_hex=$(openssl rand -hex 12)
-
-    # Convert hex key to binary and encrypt with AES-256-GCM
-    # OpenSSL outputs: ciphertext + tag (tag is last 16 bytes)
-    local encrypted=$(echo -n "$payload" | openssl enc -aes-256-gcm \
-        -K "$AES_KEY_HEX" \
-        -iv "$nonce_hex" \
-        2>/dev/null | xxd -p | tr -d '\n')
+    # Prefix the key ID once the secret has been rotated into a keyring
+    node "$TOKEN_CLI" encrypt --key "$AES_KEY_HEX" --payload "$payload" ${AES_KEY_ID:+--key-id "$AES_KEY_ID"}
+}
 
-    # Split encrypted output: ciphertext (all but last 32 hex chars) and tag (last 32 hex chars = 16 bytes)
-    local encrypted_len=${#encrypted}
-    local tag_start=$((encrypted_len - 32))
-    local ciphertext_hex="${encrypted:0:$tag_start}"
-    local auth_tag_hex="${encrypted:$tag_start:32}"
+# Check the CLI against the shared AES-GCM test vectors
+check_aesgcm_vectors() {
+    local key_hex expected actual i
+    key_hex=$(jq -r '.aesGcm.keyHex' "$TEST_VECTORS")
+    for i in $(seq 0 $(($(jq '.aesGcm.tokens | length' "$TEST_VECTORS") - 1))); do
+        expected=$(jq -r ".aesGcm.tokens[$i].token" "$TEST_VECTORS")
+        actual=$(node "$TOKEN_CLI" encrypt --key "$key_hex" \
+            --payload "$(jq -c ".aesGcm.tokens[$i].payload" "$TEST_VECTORS")" \
+            --nonce "$(jq -r ".aesGcm.tokens[$i].nonceHex" "$TEST_VECTORS")" \
+            $(jq -r ".aesGcm.tokens[$i].keyId // empty | \"--key-id \" + ." "$TEST_VECTORS"))
+        if [ "$actual" != "$expected" ]; then
+            echo "AES-GCM test vector $i mismatch"
+            exit 1
+        fi
+    done
+}
 
-    echo "${nonce_hex}:${ciphertext_hex}:${auth_tag_hex}"
+# Generate a JWT with the client SDK's CLI
+# JWT_ISSUER / JWT_AUDIENCE must match the stack's -c jwtIssuer / -c jwtAudience, if set
+generate_jwt() {
+    local claims="${1:-}"
+    claims=$(jq -c --arg iss "${JWT_ISSUER:-}" --arg aud "${JWT_AUDIENCE:-}" \
+        '{sub: "test-bot"} + (if $iss != "" then {iss: $iss} else {} end) + (if $aud != "" then {aud: $aud} else {} end) + .' \
+        <<< "${claims:-"{}"}")
+    node "$TOKEN_CLI" jwt --key-file "$JWT_PRIVATE_KEY_FILE" --claims "$claims"
 }
 
+check_hmac_vectors
+check_aesgcm_vectors
+
 # Current timestamp
 TOKEN=$(date +%s)
-SIGNATURE=$(generate_signature "$TOKEN")
+SIGNATURE=$(generate_signature "$TOKEN" "/cf-function/test.html")
 
 echo "=============================================="
 echo "CloudFront Edge Function Comparison Lab Tests"
@@ -73,6 +192,7 @@ echo "curl -s -w 'HTTP Status: %{http_code}' -H 'X-Bot-Token: $TOKEN' -H 'X-Bot-
 RESPONSE=$(curl -s -w '\nHTTP Status: %{http_code}' \
     -H "X-Bot-Token: $TOKEN" \
     -H "X-Bot-Signature: $SIGNATURE" \
+    "${KEY_ID_HEADER[@]}" \
     "https://$DOMAIN/cf-function/test.html")
 echo "$RESPONSE"
 echo ""
@@ -103,10 +223,11 @@ echo "Test 4: Lambda@Edge - Valid Request"
 echo "=============================================="
 # Regenerate token for fresh timestamp
 TOKEN=$(date +%s)
-SIGNATURE=$(generate_signature "$TOKEN")
+SIGNATURE=$(generate_signature "$TOKEN" "/lambda-edge/test.html")
 RESPONSE=$(curl -s -w '\nHTTP Status: %{http_code}' \
     -H "X-Bot-Token: $TOKEN" \
     -H "X-Bot-Signature: $SIGNATURE" \
+    "${KEY_ID_HEADER[@]}" \
     "https://$DOMAIN/lambda-edge/test.html")
 echo "$RESPONSE"
 echo ""
@@ -136,10 +257,11 @@ echo "=============================================="
 echo "Test 7: CloudFront Function - Expired Token (expect 403)"
 echo "=============================================="
 OLD_TOKEN="1000000000"  # Very old timestamp
-OLD_SIGNATURE=$(generate_signature "$OLD_TOKEN")
+OLD_SIGNATURE=$(generate_signature "$OLD_TOKEN" "/cf-function/test.html")
 RESPONSE=$(curl -s -w '\nHTTP Status: %{http_code}' \
     -H "X-Bot-Token: $OLD_TOKEN" \
     -H "X-Bot-Signature: $OLD_SIGNATURE" \
+    "${KEY_ID_HEADER[@]}" \
     "https://$DOMAIN/cf-function/test.html")
 echo "$RESPONSE"
 echo ""
@@ -161,8 +283,10 @@ AESGCM_TIMESTAMP=$(date +%s)
 AESGCM_TOKEN=$(generate_aesgcm_token "$AESGCM_TIMESTAMP" "test-device-001")
 echo "Payload: {\"ts\":${AESGCM_TIMESTAMP},\"device\":\"test-device-001\",\"data\":\"test\"}"
 echo "Token: $AESGCM_TOKEN"
+# X-Device-Id matches the device claim (needed with -c aesGcmDeviceBinding=header)
 RESPONSE=$(curl -s -w '\nHTTP Status: %{http_code}' \
     -H "X-Auth-Token: $AESGCM_TOKEN" \
+    -H "X-Device-Id: test-device-001" \
     "https://$DOMAIN/aes-gcm/test.html")
 echo "$RESPONSE"
 echo ""
@@ -211,6 +335,52 @@ RESPONSE=$(curl -s -w '\nHTTP Status: %{http_code}' \
 echo "$RESPONSE"
 echo ""
 
+# ============================================
+# JWT Tests (Lambda@Edge)
+# ============================================
+if [ -n "${JWT_PRIVATE_KEY_FILE:-}" ]; then
+    echo ""
+    echo "=============================================="
+    echo "JWT (EdDSA / ES256) TESTS"
+    echo "=============================================="
+    echo ""
+
+    # Test 13: JWT with a valid token
+    echo "=============================================="
+    echo "Test 13: JWT Lambda@Edge - Valid Token"
+    echo "=============================================="
+    JWT_TOKEN=$(generate_jwt)
+    echo "Token: $JWT_TOKEN"
+    RESPONSE=$(curl -s -w '\nHTTP Status: %{http_code}' \
+        -H "Authorization: Bearer $JWT_TOKEN" \
+        "https://$DOMAIN/jwt/test.html")
+    echo "$RESPONSE"
+    echo ""
+
+    # Test 14: JWT with missing header
+    echo "=============================================="
+    echo "Test 14: JWT Lambda@Edge - Missing Header (expect 403)"
+    echo "=============================================="
+    RESPONSE=$(curl -s -w '\nHTTP Status: %{http_code}' \
+        "https://$DOMAIN/jwt/test.html")
+    echo "$RESPONSE"
+    echo ""
+
+    # Test 15: JWT that expired (beyond the 60 second clock skew)
+    echo "=============================================="
+    echo "Test 15: JWT Lambda@Edge - Expired Token (expect 403)"
+    echo "=============================================="
+    OLD_JWT_TOKEN=$(generate_jwt "{\"iat\":1000000000,\"exp\":1000000300}")
+    RESPONSE=$(curl -s -w '\nHTTP Status: %{http_code}' \
+        -H "Authorization: Bearer $OLD_JWT_TOKEN" \
+        "https://$DOMAIN/jwt/test.html")
+    echo "$RESPONSE"
+    echo ""
+else
+    echo "Skipping the JWT tests: set JWT_PRIVATE_KEY_FILE, or LAB_SECRETS=true for a -c labSecrets=true deployment."
+    echo ""
+fi
+
 echo "=============================================="
 echo "Latency Comparison (5 requests each)"
 echo "=============================================="
@@ -220,10 +390,11 @@ echo "-------------------------------------------"
 printf "%-8s %-12s %-12s %-12s\n" "Request" "DNS(s)" "TTFB(s)" "Total(s)"
 for i in 1 2 3 4 5; do
     TOKEN=$(date +%s)
-    SIGNATURE=$(generate_signature "$TOKEN")
+    SIGNATURE=$(generate_signature "$TOKEN" "/cf-function/test.html")
     TIMING=$(curl -o /dev/null -s -w "%{time_namelookup} %{time_starttransfer} %{time_total}" \
         -H "X-Bot-Token: $TOKEN" \
         -H "X-Bot-Signature: $SIGNATURE" \
+        "${KEY_ID_HEADER[@]}" \
         "https://$DOMAIN/cf-function/test.html")
     DNS=$(echo $TIMING | awk '{print $1}')
     TTFB=$(echo $TIMING | awk '{print $2}')
@@ -238,10 +409,11 @@ echo "-------------------------------------------"
 printf "%-8s %-12s %-12s %-12s\n" "Request" "DNS(s)" "TTFB(s)" "Total(s)"
 for i in 1 2 3 4 5; do
     TOKEN=$(date +%s)
-    SIGNATURE=$(generate_signature "$TOKEN")
+    SIGNATURE=$(generate_signature "$TOKEN" "/lambda-edge/test.html")
     TIMING=$(curl -o /dev/null -s -w "%{time_namelookup} %{time_starttransfer} %{time_total}" \
         -H "X-Bot-Token: $TOKEN" \
         -H "X-Bot-Signature: $SIGNATURE" \
+        "${KEY_ID_HEADER[@]}" \
         "https://$DOMAIN/lambda-edge/test.html")
     DNS=$(echo $TIMING | awk '{print $1}')
     TTFB=$(echo $TIMING | awk '{print $2}')